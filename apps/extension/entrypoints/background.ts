@@ -3,41 +3,155 @@ import type {
   Flow,
   Message,
   RecordStepMessage,
+  RunFlowMessage,
   SendToBackendMessage,
   StepExecutingMessage,
   StepCompletedMessage,
+  DatasetRowCompletedMessage,
+  DatasetCompletedMessage,
+  DatasetRowResult,
+  RunResult,
+  RunSettings,
+  FlowCompletedMessage,
+  FlowFailedMessage,
+  UnlockVaultMessage,
+  MarkStepSecretMessage,
+  VaultStateMessage,
+  ExecutionResult,
+  ControlFlowHandlers,
+  ControlFlowScope,
+  AssertionState,
+  LoopElement,
+  DomSnapshot,
+  FailureArtifacts,
+  TraceStep,
+  TraceTarget,
+  StepDebugger,
+  DebugPausedMessage,
+  DebugResumedMessage,
+  ElementRepickedMessage,
+  LocatorHealedMessage,
 } from "@auto-wiz/core";
+import {
+  getFlow as getActiveFlow,
+  saveFlow,
+  createFlow,
+  resolveFlowVariables,
+  makeUniqueExtractName,
+  listFlows,
+  updateFlow,
+  isVaultInitialized,
+  isVaultUnlocked,
+  unlockVault,
+  lockVault,
+  storeSecret,
+  getSecret,
+  getSecretRefs,
+  addPendingSecret,
+  getPendingSecret,
+  listPendingSecrets,
+  persistPendingSecrets,
+  resolveStepSecret,
+  maskSecretValue,
+  migrateLegacySecrets,
+  redactFlowSecrets,
+  resolveVariableValues,
+  runFlowSteps,
+  withFlowDefaults,
+  resolveRetryPolicy,
+  createRunRecorder,
+  createTraceRecorder,
+  saveFailureArtifacts,
+  redactSecretValues,
+  getFlowById,
+  updateStep,
+  createStepDebugger,
+  canRepickElement,
+  createLocatorHealing,
+  saveLocatorHealing,
+  applyLocatorHealing,
+  collectCalledFlows,
+  findSubFlowCycle,
+  formatSubFlowCycle,
+} from "@auto-wiz/core";
+import { installTraceEventHooks, drainTraceEvents } from "@auto-wiz/dom";
 
-// 플로우 가져오기 (없으면 새로 생성)
+// 활성 플로우 가져오기 (없으면 새로 생성)
 async function getFlow(): Promise<Flow> {
-  const result = await browser.storage.local.get("flow");
+  const flow = await getActiveFlow();
+  if (flow) {
+    return flow;
+  }
+
+  return createFlow("Automation PoC Flow");
+}
+
+let isRecording = false;
+let shouldStopRunning = false;
 
-  if (result.flow) {
-    return result.flow as Flow;
+// 실행 중인 Flow의 디버거 (일시정지/재개/step over, 일시정지한 Step의 요소 다시 고르기)
+let activeDebug: {
+  tabId: number;
+  flowId: string;
+  totalSteps: number;
+  stepDebugger: StepDebugger;
+} | null = null;
+
+// 시크릿 값을 Vault에 저장하고 참조 id 반환 (잠금 상태면 대기열에 보관)
+async function recordSecret(value: string, label?: string): Promise<string> {
+  if (isVaultUnlocked()) {
+    return storeSecret(value, label);
   }
 
-  const freshFlow: Flow = {
-    id: crypto.randomUUID(),
-    title: "Automation PoC Flow",
-    steps: [],
-    createdAt: Date.now(),
-  };
+  // 잠금 해제 전까지 storage.session에 보관 (service worker가 중단되어도 유지)
+  const secretRef = await addPendingSecret(value, label);
+  await broadcastVaultState();
+  return secretRef;
+}
+
+// 시크릿 참조 해석 (대기 중인 시크릿 우선)
+async function resolveRecordedSecret(secretRef: string): Promise<string> {
+  const pending = await getPendingSecret(secretRef);
+  return pending ? pending.value : getSecret(secretRef);
+}
 
-  await browser.storage.local.set({ flow: freshFlow });
-  return freshFlow;
+async function getVaultState(): Promise<VaultStateMessage> {
+  return {
+    type: "VAULT_STATE",
+    initialized: await isVaultInitialized(),
+    unlocked: isVaultUnlocked(),
+    pendingSecrets: Object.keys(await listPendingSecrets()).length,
+  };
 }
 
-// 플로우 저장
-async function saveFlow(flow: Flow): Promise<void> {
-  await browser.storage.local.set({ flow });
+async function broadcastVaultState(): Promise<void> {
+  browser.runtime.sendMessage(await getVaultState()).catch(() => {
+    // 사이드패널이 열려있지 않으면 에러 발생 - 무시
+  });
 }
 
-let isRecording = false;
-let shouldStopRunning = false;
+// 잠금 해제 직후: 대기 중인 시크릿 저장 및 레거시 평문 originalText 마이그레이션
+async function persistSecretsAfterUnlock(): Promise<void> {
+  await persistPendingSecrets();
+
+  for (const flow of await listFlows()) {
+    const migrated = await migrateLegacySecrets(flow);
+    if (migrated) {
+      await updateFlow({ steps: migrated.steps }, flow.id);
+      console.log(`Migrated plaintext secrets of flow ${flow.id}`);
+    }
+  }
+}
 
 // 메시지 핸들러
 browser.runtime.onMessage.addListener((msg: Message, sender, sendResponse) => {
-  console.log("Background received message:", msg);
+  // 시크릿 값과 passphrase는 로그에 남기지 않음
+  const {
+    secretValue: _secretValue,
+    passphrase: _passphrase,
+    ...loggable
+  } = msg as any;
+  console.log("Background received message:", loggable);
 
   // 레코딩 상태 토글
   if (msg.type === "START_RECORD") {
@@ -152,6 +266,16 @@ browser.runtime.onMessage.addListener((msg: Message, sender, sendResponse) => {
           (incoming as any)._frameUrl = senderUrl;
         }
       } catch {}
+      // 시크릿 입력은 Vault에 암호화하고 Step에는 참조만 저장
+      const secretValue = (msg as RecordStepMessage).secretValue;
+      if (incoming.type === "type" && secretValue !== undefined) {
+        incoming.text = maskSecretValue(secretValue);
+        incoming.secretRef = await recordSecret(secretValue, flow.title);
+      }
+      // extract 출력 이름은 Flow 안에서 중복되지 않도록 보정
+      if (incoming.type === "extract" && incoming.name) {
+        incoming.name = makeUniqueExtractName(flow, incoming.name);
+      }
       flow.steps.push(incoming);
       await saveFlow(flow);
 
@@ -170,19 +294,168 @@ browser.runtime.onMessage.addListener((msg: Message, sender, sendResponse) => {
     return true;
   }
 
+  // 시크릿 Vault 상태 질의
+  if (msg.type === "GET_VAULT_STATE") {
+    (async () => {
+      sendResponse(await getVaultState());
+    })();
+    return true;
+  }
+
+  // 시크릿 Vault 잠금 해제 (처음이면 생성)
+  if (msg.type === "UNLOCK_VAULT") {
+    (async () => {
+      try {
+        await unlockVault((msg as UnlockVaultMessage).passphrase);
+        await persistSecretsAfterUnlock();
+        sendResponse({ success: true });
+
+        const flow = await getFlow();
+        browser.runtime
+          .sendMessage({ type: "FLOW_UPDATED", flow })
+          .catch(() => {});
+      } catch (error) {
+        sendResponse({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      await broadcastVaultState();
+    })();
+    return true;
+  }
+
+  // 시크릿 Vault 잠금
+  if (msg.type === "LOCK_VAULT") {
+    lockVault();
+    broadcastVaultState();
+    sendResponse({ success: true });
+    return true;
+  }
+
+  // 기록된 type 스텝의 입력값을 시크릿으로 전환
+  if (msg.type === "MARK_STEP_SECRET") {
+    (async () => {
+      const flow = await getFlow();
+      const { stepIndex } = msg as MarkStepSecretMessage;
+      const step = flow.steps[stepIndex];
+      if (!step || step.type !== "type" || step.secretRef) {
+        sendResponse({ success: false, error: "Not a plaintext type step" });
+        return;
+      }
+
+      const { originalText, ...rest } = step;
+      const value = originalText ?? step.text;
+      flow.steps[stepIndex] = {
+        ...rest,
+        text: maskSecretValue(value),
+        secretRef: await recordSecret(value, flow.title),
+      };
+      await saveFlow(flow);
+      sendResponse({ success: true });
+
+      browser.runtime
+        .sendMessage({ type: "FLOW_UPDATED", flow })
+        .catch(() => {});
+    })();
+    return true;
+  }
+
   // 플로우 실행 중단
   if (msg.type === "STOP_RUN") {
     console.log("STOP_RUN requested");
     shouldStopRunning = true;
+    // 일시정지 중이면 재개해서 실행 루프가 중단을 확인하도록
+    activeDebug?.stepDebugger.release();
     sendResponse({ success: true });
     return true;
   }
 
+  // 디버거: 다음 Step 직전에 일시정지 / 재개 / 현재 Step만 실행하고 다시 일시정지
+  if (
+    msg.type === "DEBUG_PAUSE" ||
+    msg.type === "DEBUG_RESUME" ||
+    msg.type === "DEBUG_STEP_OVER"
+  ) {
+    if (!activeDebug) {
+      sendResponse({ success: false, error: "No flow is running" });
+      return true;
+    }
+    const { stepDebugger } = activeDebug;
+    if (msg.type === "DEBUG_PAUSE") stepDebugger.pause();
+    else if (msg.type === "DEBUG_RESUME") stepDebugger.resume();
+    else stepDebugger.stepOver();
+    sendResponse({ success: true });
+    return true;
+  }
+
+  // 디버거: 일시정지한 Step의 대상 요소를 페이지에서 다시 고르기
+  if (msg.type === "DEBUG_REPICK") {
+    const pause = activeDebug?.stepDebugger.getPause();
+    if (!activeDebug || !pause || !canRepickElement(pause.step)) {
+      sendResponse({ success: false, error: "No paused step to re-pick" });
+      return true;
+    }
+    browser.tabs
+      .sendMessage(activeDebug.tabId, {
+        type: "START_REPICK",
+        stepIndex: pause.stepIndex,
+      })
+      .then(() => sendResponse({ success: true }))
+      .catch((error) =>
+        sendResponse({ success: false, error: String(error?.message || error) })
+      );
+    return true;
+  }
+
+  // 다시 고른 요소로 일시정지한 Step을 바꾸고 저장된 Flow에도 반영
+  if (msg.type === "ELEMENT_REPICKED") {
+    (async () => {
+      const session = activeDebug;
+      const pause = session?.stepDebugger.getPause();
+      if (!session || !pause) return;
+      const { selector, locator } = msg as ElementRepickedMessage;
+
+      const step = { ...pause.step, selector, locator } as Step;
+      session.stepDebugger.replaceStep(step);
+
+      // 실행 중인 Step은 변수가 치환되어 있으므로 저장된 Step의 요소만 교체
+      try {
+        const stored = await getFlowById(session.flowId);
+        const storedStep = stored?.steps[pause.stepIndex];
+        if (storedStep && canRepickElement(storedStep)) {
+          const flow = await updateStep(
+            pause.stepIndex,
+            { ...storedStep, selector, locator } as Step,
+            session.flowId
+          );
+          browser.runtime
+            .sendMessage({ type: "FLOW_UPDATED", flow })
+            .catch(() => {});
+        }
+      } catch (error) {
+        console.warn("Failed to save re-picked element:", error);
+      }
+
+      browser.runtime
+        .sendMessage({
+          type: "DEBUG_PAUSED",
+          stepIndex: pause.stepIndex,
+          step,
+          reason: pause.reason,
+          totalSteps: session.totalSteps,
+        } as DebugPausedMessage)
+        .catch(() => {});
+    })();
+    return false;
+  }
+
   // 플로우 실행
   if (msg.type === "RUN_FLOW") {
     shouldStopRunning = false; // 실행 시작 시 플래그 리셋
     (async () => {
-      const flow = await getFlow();
+      const storedFlow = await getFlow();
+      const { variables, options } = msg as RunFlowMessage;
 
       // 녹화 중단 및 상태 브로드캐스트
       try {
@@ -213,50 +486,51 @@ browser.runtime.onMessage.addListener((msg: Message, sender, sendResponse) => {
       targetTabId = activeTab.id;
       console.log(`Running flow in current tab ${targetTabId}`);
 
-      // 실행 전, 첫 번째 스텝의 URL로 이동 (가능한 경우)
-      try {
-        const firstStep = flow.steps[0];
-        const firstUrl =
-          firstStep && "url" in firstStep && (firstStep as any).url
-            ? (firstStep as any).url
-            : undefined;
-        if (typeof firstUrl === "string" && firstUrl.startsWith("http")) {
-          console.log(`Navigating to first step URL: ${firstUrl}`);
-          await browser.tabs.update(targetTabId, {
-            url: firstUrl,
-            active: true,
-          });
-          await waitForTabLoaded(targetTabId);
-          await new Promise((resolve) => setTimeout(resolve, 800));
-        } else if (flow.startUrl) {
-          // fallback: startUrl이 있으면 사용
-          console.log(`Navigating to startUrl: ${flow.startUrl}`);
-          await browser.tabs.update(targetTabId, {
-            url: flow.startUrl,
-            active: true,
-          });
-          await waitForTabLoaded(targetTabId);
-          await new Promise((resolve) => setTimeout(resolve, 800));
-        }
-      } catch (navErr) {
-        console.warn("Pre-navigation before run failed:", navErr);
+      // 하위 Flow가 서로를 호출하면 실행하지 않음
+      const flows = await listFlows();
+      const cycle = findSubFlowCycle(storedFlow.id, storedFlow.steps, flows);
+      if (cycle) {
+        browser.runtime
+          .sendMessage({
+            type: "FLOW_FAILED",
+            error: `Sub-flow cycle: ${formatSubFlowCycle(cycle, flows)}`,
+            failedStepIndex: -1,
+          })
+          .catch(() => {});
+        return;
       }
 
-      // content script 확인
-      try {
-        await browser.scripting.executeScript({
-          target: { tabId: targetTabId },
-          func: () => {
-            console.log("Content script ready in current tab");
-            return true;
-          },
-          world: "MAIN",
-        });
-      } catch (error) {
-        console.warn("Content script check failed:", error);
+      // 시크릿이 필요한데 Vault가 잠겨 있으면 실행하지 않음 (하위 Flow 포함)
+      const calledFlows = await collectCalledFlows(storedFlow, getFlowById);
+      const pendingSecrets = await listPendingSecrets();
+      const needsVault = [storedFlow, ...calledFlows]
+        .flatMap((flow) => getSecretRefs(flow))
+        .some((secretRef) => !(secretRef in pendingSecrets));
+      if (needsVault && !isVaultUnlocked()) {
+        browser.runtime
+          .sendMessage({
+            type: "FLOW_FAILED",
+            error: "Secret vault is locked. Unlock it to run this flow.",
+            failedStepIndex: -1,
+          })
+          .catch(() => {});
+        return;
       }
 
-      await runFlowInTab(targetTabId, flow);
+      if (storedFlow.dataset && storedFlow.dataset.rows.length > 0) {
+        // 데이터셋이 첨부되어 있으면 행마다 실행
+        await runDatasetInTab(targetTabId, storedFlow, variables, options);
+      } else {
+        // {{name}} placeholder를 전달받은 변수 값으로 치환
+        const flow = resolveFlowVariables(storedFlow, variables);
+        await prepareTabForRun(targetTabId, flow, options);
+        await runFlowInTab(
+          targetTabId,
+          flow,
+          resolveVariableValues(storedFlow, variables),
+          options
+        );
+      }
       console.log("Flow execution completed");
     })();
     return true;
@@ -313,246 +587,743 @@ async function waitForTabLoaded(
   });
 }
 
-// 탭에서 플로우 실행 (content script context에서 실행)
-async function runFlowInTab(tabId: number, flow: Flow): Promise<void> {
-  const steps = flow.steps;
-  console.log(`Running ${steps.length} steps in tab ${tabId}`);
+// 실행 전 탭 준비 (시작 URL 이동, content script 확인)
+// 중간 Step부터 실행하면 (Run from here) 이동하지 않고 현재 페이지에서 이어서 실행
+async function prepareTabForRun(
+  targetTabId: number,
+  flow: Flow,
+  options: RunSettings = {}
+): Promise<void> {
+  // 실행 전, 첫 번째 스텝의 URL로 이동 (가능한 경우)
+  try {
+    const firstStep = flow.steps[0];
+    const firstUrl =
+      firstStep && "url" in firstStep && (firstStep as any).url
+        ? (firstStep as any).url
+        : undefined;
+    if (options.startAtStep) {
+      console.log(
+        `Starting at step ${options.startAtStep + 1} on the current page`
+      );
+    } else if (typeof firstUrl === "string" && firstUrl.startsWith("http")) {
+      console.log(`Navigating to first step URL: ${firstUrl}`);
+      await browser.tabs.update(targetTabId, {
+        url: firstUrl,
+        active: true,
+      });
+      await waitForTabLoaded(targetTabId);
+      await new Promise((resolve) => setTimeout(resolve, 800));
+    } else if (flow.startUrl) {
+      // fallback: startUrl이 있으면 사용
+      console.log(`Navigating to startUrl: ${flow.startUrl}`);
+      await browser.tabs.update(targetTabId, {
+        url: flow.startUrl,
+        active: true,
+      });
+      await waitForTabLoaded(targetTabId);
+      await new Promise((resolve) => setTimeout(resolve, 800));
+    }
+  } catch (navErr) {
+    console.warn("Pre-navigation before run failed:", navErr);
+  }
 
-  // 첫 번째 스텝이 navigate이고 새 탭에서 시작한 경우 건너뛰기
-  let startIndex = 0;
-  if (flow.startUrl && steps.length > 0 && steps[0].type === "navigate") {
-    startIndex = 1;
-    console.log(
-      "Skipping first navigate step as it was already executed during tab creation"
-    );
+  // content script 확인
+  try {
+    await browser.scripting.executeScript({
+      target: { tabId: targetTabId },
+      func: () => {
+        console.log("Content script ready in current tab");
+        return true;
+      },
+      world: "MAIN",
+    });
+  } catch (error) {
+    console.warn("Content script check failed:", error);
   }
+}
 
-  for (let i = startIndex; i < steps.length; i++) {
-    // 중단 플래그 체크
+// 데이터셋의 각 행마다 플로우 실행 (행의 필드를 변수로 바인딩)
+async function runDatasetInTab(
+  tabId: number,
+  storedFlow: Flow,
+  variables: Record<string, string> = {},
+  options: RunSettings = {}
+): Promise<DatasetRowResult[]> {
+  const rows = storedFlow.dataset?.rows || [];
+  const results: DatasetRowResult[] = [];
+
+  for (const [rowIndex, row] of rows.entries()) {
     if (shouldStopRunning) {
-      console.log("Flow execution stopped by user");
-      browser.runtime
-        .sendMessage({
-          type: "FLOW_FAILED",
-          failedStepIndex: i,
-          error: "Stopped by user",
-        })
-        .catch(() => {});
-      shouldStopRunning = false;
-      return;
+      console.log("Dataset run stopped by user");
+      break;
     }
 
-    const step = steps[i];
-    console.log(`Executing step ${i + 1}:`, step);
-
-    // 현재 탭 URL 가져오기
-    let currentUrl = "";
-    try {
-      const tab = await browser.tabs.get(tabId);
-      currentUrl = tab.url || "";
-    } catch (error) {
-      console.warn("Failed to get current URL:", error);
-    }
-
-    // 스텝에 현재 URL 정보 추가
-    const stepWithUrl = { ...step, url: currentUrl };
+    console.log(`Running dataset row ${rowIndex + 1}/${rows.length}`, row);
+    const rowVariables = { ...variables, ...row };
+    const flow = resolveFlowVariables(storedFlow, rowVariables);
+    await prepareTabForRun(tabId, flow, options);
+    const result = await runFlowInTab(
+      tabId,
+      flow,
+      resolveVariableValues(storedFlow, rowVariables),
+      options,
+      rowIndex
+    );
+    const rowResult: DatasetRowResult = { ...result, rowIndex, row };
+    results.push(rowResult);
 
-    // 스텝 실행 시작 알림
     browser.runtime
       .sendMessage({
-        type: "STEP_EXECUTING",
-        step: stepWithUrl,
-        stepIndex: i,
-        totalSteps: steps.length,
-        currentUrl,
-      } as StepExecutingMessage)
-      .catch(() => {
-        // 사이드패널이 열려있지 않으면 에러 발생 - 무시
-      });
+        type: "DATASET_ROW_COMPLETED",
+        rowIndex,
+        totalRows: rows.length,
+        result: rowResult,
+      } as DatasetRowCompletedMessage)
+      .catch(() => {});
+  }
+
+  browser.runtime
+    .sendMessage({
+      type: "DATASET_COMPLETED",
+      results,
+    } as DatasetCompletedMessage)
+    .catch(() => {});
+
+  return results;
+}
+
+// 탭에서 제어 흐름이 아닌 Step 하나 실행
+// navigate/waitForNavigation은 background에서, 나머지는 content script에서 실행
+async function executeStepInTab(
+  tabId: number,
+  step: Step,
+  stepIndex: number
+): Promise<ExecutionResult> {
+  // navigate 스텝 처리 (백그라운드에서 직접 처리)
+  if (step.type === "navigate") {
+    console.log(`Navigating to: ${step.url}`);
+    await browser.tabs.update(tabId, { url: step.url });
+    await waitForTabLoaded(tabId);
+    console.log("Navigation completed");
+
+    // 네비게이션 후 추가 대기
+    console.log("Waiting 1000ms after navigation...");
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    console.log("Navigation delay completed");
+    return { success: true };
+  }
+
+  // URL 확인 및 탭 포커스
+  const currentTab = await browser.tabs.get(tabId);
+  const currentUrl = currentTab.url || "";
 
+  // 새 탭 생성 후 안정화를 위한 짧은 대기
+  console.log("Waiting 20ms for tab stabilization...");
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  console.log("Tab stabilization completed");
+
+  // 스텝에 저장된 URL과 현재 URL 비교 (전체 URL 비교)
+  if ("url" in step && step.url) {
     try {
-      // navigate 스텝 처리 (백그라운드에서 직접 처리)
-      if (step.type === "navigate") {
-        console.log(`Navigating to: ${step.url}`);
+      const stepUrl = new URL(step.url);
+      const currentUrlObj = new URL(currentUrl);
+
+      // URL이 다르면 네비게이션 (origin + pathname 비교)
+      const stepUrlPath = stepUrl.origin + stepUrl.pathname;
+      const currentUrlPath = currentUrlObj.origin + currentUrlObj.pathname;
+
+      if (stepUrlPath !== currentUrlPath) {
+        console.log(
+          `URL mismatch: expected ${stepUrlPath}, got ${currentUrlPath}`
+        );
+        console.log("Navigating to step URL...");
+
         await browser.tabs.update(tabId, { url: step.url });
         await waitForTabLoaded(tabId);
-        console.log("Navigation completed");
-
-        // 네비게이션 후 추가 대기
-        console.log("Waiting 1000ms after navigation...");
         await new Promise((resolve) => setTimeout(resolve, 1000));
-        console.log("Navigation delay completed");
-        continue;
+        console.log("Navigation to step URL completed");
+      } else {
+        console.log(`Same URL: ${stepUrlPath}, proceeding with current tab`);
       }
+    } catch (error) {
+      console.warn("URL parsing error, proceeding with current tab:", error);
+    }
+  }
 
-      // URL 확인 및 탭 포커스
-      const currentTab = await browser.tabs.get(tabId);
-      const currentUrl = currentTab.url || "";
+  // 탭 포커스 (활성화) - 이미 올바른 탭이므로 단순히 포커스만
+  await browser.tabs.update(tabId, { active: true });
+  console.log(`Focused tab ${tabId} for step execution`);
+
+  // waitForNavigation 스텝 처리
+  if (step.type === "waitForNavigation") {
+    console.log("Waiting for navigation...");
+    await waitForTabLoaded(tabId, step.timeoutMs ?? 10000);
+    console.log("Navigation wait completed");
+
+    // 네비게이션 대기 후 추가 대기
+    console.log("Waiting 500ms after navigation wait...");
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    console.log("Navigation wait delay completed");
+    return { success: true };
+  }
 
-      // 새 탭 생성 후 안정화를 위한 짧은 대기
-      console.log("Waiting 20ms for tab stabilization...");
-      await new Promise((resolve) => setTimeout(resolve, 20));
-      console.log("Tab stabilization completed");
+  // -----------------------------------------------------------------------
+  // Delegate execution to content script via messaging (DomFlowRunner)
+  // -----------------------------------------------------------------------
+  console.log("Sending EXECUTE_STEP to content script", step);
 
-      // 스텝에 저장된 URL과 현재 URL 비교 (전체 URL 비교)
-      if ("url" in step && step.url) {
-        try {
-          const stepUrl = new URL(step.url);
-          const currentUrlObj = new URL(currentUrl);
+  // 시크릿 참조는 전송 직전에만 실제 값으로 치환
+  const message = {
+    type: "EXECUTE_STEP",
+    step: await resolveStepSecret(step, resolveRecordedSecret),
+    stepIndex,
+  };
 
-          // URL이 다르면 네비게이션 (origin + pathname 비교)
-          const stepUrlPath = stepUrl.origin + stepUrl.pathname;
-          const currentUrlPath = currentUrlObj.origin + currentUrlObj.pathname;
+  // content script는 결과를 이 요청에만 응답 (사이드패널 보고는 onStepEnd가 담당)
+  const completed = await new Promise<ExecutionResult>((resolve, reject) => {
+    const timeoutMs = (step as any).timeoutMs || 5000;
+    const cleanup = () => {
+      browser.runtime.onMessage.removeListener(listener);
+      clearTimeout(timer);
+    };
 
-          if (stepUrlPath !== currentUrlPath) {
-            console.log(
-              `URL mismatch: expected ${stepUrlPath}, got ${currentUrlPath}`
-            );
-            console.log("Navigating to step URL...");
-
-            await browser.tabs.update(tabId, { url: step.url });
-            await waitForTabLoaded(tabId);
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-            console.log("Navigation to step URL completed");
-          } else {
-            console.log(
-              `Same URL: ${stepUrlPath}, proceeding with current tab`
-            );
+    // Fail-safe for flow failure
+    const listener = (m: any) => {
+      if (m.type === "FLOW_FAILED") {
+        cleanup();
+        reject(new Error(m.error));
+      }
+    };
+    browser.runtime.onMessage.addListener(listener);
+
+    // Timeout safety - timeout + buffer
+    // 응답이 오지 않는 경우 (예: content script 중단) 대비
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(
+        new Error(
+          "Timeout waiting for step completion response from content script"
+        )
+      );
+    }, timeoutMs + 2000);
+
+    browser.tabs
+      .sendMessage(tabId, message)
+      .then((result: ExecutionResult | undefined) => {
+        cleanup();
+        if (result?.success) {
+          if (result.extractedData !== undefined) {
+            console.log("Step extracted data:", result.extractedData);
           }
-        } catch (error) {
-          console.warn(
-            "URL parsing error, proceeding with current tab:",
-            error
-          );
+          resolve(result);
+        } else {
+          reject(new Error(result?.error || "Step failed"));
         }
-      }
+      })
+      .catch((error: unknown) => {
+        cleanup();
+        reject(error);
+      });
+  });
+
+  console.log(
+    `Step ${stepIndex + 1} completed successfully via content script`
+  );
+
+  // 스텝 간 부드러운 딜레이 (500ms로 증가)
+  console.log(`Waiting 500ms before next step...`);
+  await new Promise((resolve) => setTimeout(resolve, 500));
+  console.log(`Delay completed, continuing to next step`);
 
-      // 탭 포커스 (활성화) - 이미 올바른 탭이므로 단순히 포커스만
+  // 탭이 여전히 활성 상태인지 확인 (불필요한 탭 생성 방지)
+  try {
+    const activeTab = await browser.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    if (activeTab[0]?.id !== tabId) {
+      console.log(`Tab ${tabId} is no longer active, refocusing...`);
       await browser.tabs.update(tabId, { active: true });
-      console.log(`Focused tab ${tabId} for step execution`);
-
-      // waitForNavigation 스텝 처리
-      if (step.type === "waitForNavigation") {
-        console.log("Waiting for navigation...");
-        await waitForTabLoaded(tabId, step.timeoutMs ?? 10000);
-        console.log("Navigation wait completed");
-
-        // 네비게이션 대기 후 추가 대기
-        console.log("Waiting 500ms after navigation wait...");
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        console.log("Navigation wait delay completed");
-        continue;
-      }
+    }
+  } catch (error) {
+    console.warn("Failed to check/focus tab:", error);
+  }
 
-      // -----------------------------------------------------------------------
-      // Delegate execution to content script via messaging (DomFlowRunner)
-      // -----------------------------------------------------------------------
-      console.log("Sending EXECUTE_STEP to content script", step);
-
-      const donePromise = new Promise<void>((resolve, reject) => {
-        const listener = (m: any) => {
-          // Check for completion of THIS specific step
-          if (m.type === "STEP_COMPLETED" && m.stepIndex === i) {
-            browser.runtime.onMessage.removeListener(listener);
-            if (m.success) {
-              // Extract data handling
-              if (m.extractedData) {
-                console.log("Step extracted data:", m.extractedData);
-              }
-              resolve();
-            } else {
-              reject(new Error(m.error || "Step failed"));
-            }
-          }
-          // Fail-safe for flow failure
-          if (m.type === "FLOW_FAILED") {
-            browser.runtime.onMessage.removeListener(listener);
-            reject(new Error(m.error));
-          }
-        };
-        browser.runtime.onMessage.addListener(listener);
-
-        // Timeout safety - timeout + buffer
-        const timeoutMs = (step as any).timeoutMs || 5000;
-        setTimeout(() => {
-          browser.runtime.onMessage.removeListener(listener);
-          // Don't reject immediately on timeout here if we want to rely on the runner's internal timeout?
-          // The runner (DomFlowRunner) in content.tsx has its own timeout logic for waitFor/etc.
-          // But if the message is never sent (e.g. content script crash), we need this.
-          reject(
-            new Error(
-              "Timeout waiting for step completion response from content script"
-            )
-          );
-        }, timeoutMs + 2000);
-      });
+  return {
+    success: true,
+    extractedData: completed.extractedData,
+    usedSelector: completed.usedSelector,
+    locatorTier: completed.locatorTier,
+    healedLocator: completed.healedLocator,
+  };
+}
+
+// 제어 흐름 스텝(if/repeat/forEach/while)과 callFlow를 탭에서 실행하기 위한 handlers
+// 하위 Step 진행 상황은 상위 Step의 index(stepIndex)로 보고
+// 하위 Flow의 시크릿 참조는 다른 Step처럼 전송 직전에 치환
+function controlFlowHandlersForTab(
+  tabId: number,
+  stepIndex: number
+): ControlFlowHandlers {
+  return {
+    runStep: (step) =>
+      executeStepInTab(tabId, step, stepIndex).catch((error) => ({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      })),
+    readState: async (selector) =>
+      (await browser.tabs.sendMessage(tabId, {
+        type: "READ_ELEMENT_STATE",
+        selector,
+      })) as AssertionState,
+    listElements: async (selector) =>
+      (await browser.tabs.sendMessage(tabId, {
+        type: "LIST_ELEMENTS",
+        selector,
+      })) as LoopElement[],
+    loadFlow: getFlowById,
+    shouldStop: () => shouldStopRunning,
+  };
+}
+
+// captureVisibleTab은 초당 2회로 제한되므로 캡처 사이 간격 유지
+const SCREENSHOT_INTERVAL_MS = 550;
+let lastScreenshotAt = 0;
+
+// 탭의 보이는 영역 스크린샷 (JPEG data URL, 실패하면 undefined)
+async function captureTabScreenshot(
+  tabId: number,
+  quality: number
+): Promise<string | undefined> {
+  const wait = lastScreenshotAt + SCREENSHOT_INTERVAL_MS - Date.now();
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+  try {
+    const tab = await browser.tabs.get(tabId);
+    return await browser.tabs.captureVisibleTab(tab.windowId, {
+      format: "jpeg",
+      quality,
+    });
+  } catch (error) {
+    console.warn("Failed to capture screenshot:", error);
+    return undefined;
+  } finally {
+    lastScreenshotAt = Date.now();
+  }
+}
 
-      // Trigger execution
-      await browser.tabs.sendMessage(tabId, {
-        type: "EXECUTE_STEP",
+// trace: Step 실행 전 스크린샷과 대상 요소 위치를 기록하고 콘솔/네트워크 수집 시작
+// (페이지를 이동하면 hook이 사라지므로 Step마다 다시 설치)
+async function beginTraceStep(
+  tabId: number,
+  step: Step
+): Promise<Partial<TraceStep>> {
+  const details: Partial<TraceStep> = {};
+  try {
+    details.url = (await browser.tabs.get(tabId)).url;
+    await browser.scripting.executeScript({
+      target: { tabId },
+      func: installTraceEventHooks,
+      world: "MAIN",
+    });
+    // 이전 Step 이후에 쌓인 이벤트는 버림
+    await browser.scripting.executeScript({
+      target: { tabId },
+      func: drainTraceEvents,
+      world: "MAIN",
+    });
+  } catch (error) {
+    console.warn("Failed to install trace hooks:", error);
+  }
+
+  if ("selector" in step || "locator" in step) {
+    try {
+      const target = (await browser.tabs.sendMessage(tabId, {
+        type: "CAPTURE_TRACE_TARGET",
         step,
-        stepIndex: i,
-      });
+      })) as TraceTarget | null;
+      if (target) details.target = target;
+    } catch (error) {
+      console.warn("Failed to capture trace target:", error);
+    }
+  }
+
+  details.beforeScreenshot = await captureTabScreenshot(tabId, 50);
+  return details;
+}
 
-      // Wait for completion message
-      await donePromise;
+// trace: Step 실행 후 스크린샷과 Step 중 수집된 콘솔 오류/네트워크 실패
+async function endTraceStep(tabId: number): Promise<Partial<TraceStep>> {
+  const details: Partial<TraceStep> = {};
+  try {
+    const [injection] = await browser.scripting.executeScript({
+      target: { tabId },
+      func: drainTraceEvents,
+      world: "MAIN",
+    });
+    if (injection?.result) Object.assign(details, injection.result);
+  } catch (error) {
+    console.warn("Failed to collect trace events:", error);
+  }
+  details.afterScreenshot = await captureTabScreenshot(tabId, 50);
+  return details;
+}
 
-      console.log(`Step ${i + 1} completed successfully via content script`);
+// 실패한 Step의 보이는 영역 스크린샷과 DOM 스냅샷 캡처 후 저장
+// 캡처할 수 없는 항목(권한 없는 페이지, content script 없음 등)은 생략
+async function captureFailureArtifacts(
+  tabId: number,
+  flow: Flow,
+  stepIndex: number,
+  error?: string
+): Promise<FailureArtifacts | null> {
+  let url: string | undefined;
+  try {
+    url = (await browser.tabs.get(tabId)).url;
+  } catch (tabError) {
+    console.warn("Failed to get tab URL:", tabError);
+  }
+  const screenshot = await captureTabScreenshot(tabId, 60);
 
-      // 스텝 간 부드러운 딜레이 (500ms로 증가)
-      console.log(`Waiting 500ms before next step...`);
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      console.log(`Delay completed, continuing to next step`);
+  let domSnapshot: DomSnapshot | undefined;
+  try {
+    domSnapshot = (await browser.tabs.sendMessage(tabId, {
+      type: "CAPTURE_DOM_SNAPSHOT",
+    })) as DomSnapshot | undefined;
+  } catch (snapshotError) {
+    console.warn("Failed to capture DOM snapshot:", snapshotError);
+  }
 
-      // 탭이 여전히 활성 상태인지 확인 (불필요한 탭 생성 방지)
+  if (!screenshot && !domSnapshot) return null;
+
+  // 입력 필드에 남은 시크릿 값 마스킹 (호출하는 하위 Flow의 시크릿 포함)
+  if (domSnapshot) {
+    const flows = [flow, ...(await collectCalledFlows(flow, getFlowById))];
+    const secretValues: string[] = [];
+    for (const secretRef of flows.flatMap(getSecretRefs)) {
       try {
-        const activeTab = await browser.tabs.query({
-          active: true,
-          currentWindow: true,
-        });
-        if (activeTab[0]?.id !== tabId) {
-          console.log(`Tab ${tabId} is no longer active, refocusing...`);
-          await browser.tabs.update(tabId, { active: true });
-        }
-      } catch (error) {
-        console.warn("Failed to check/focus tab:", error);
+        secretValues.push(await resolveRecordedSecret(secretRef));
+      } catch {
+        // 잠긴 Vault의 시크릿은 입력되지 않았으므로 무시
       }
+    }
+    domSnapshot = redactSecretValues(domSnapshot, secretValues);
+  }
+
+  return saveFailureArtifacts({
+    stepIndex,
+    capturedAt: Date.now(),
+    error,
+    url,
+    screenshot,
+    domSnapshot,
+  });
+}
+
+// Locator self-healing: primary가 아닌 단계로 요소를 찾았으면 새로 만든 locator를 제안으로 저장
+// autoHeal이면 저장된 Step에 바로 적용 (적용할 수 없으면 제안으로 남김)
+async function recordLocatorHealing(
+  flowId: string,
+  stepIndex: number,
+  step: Step,
+  result: ExecutionResult,
+  autoHeal = false
+): Promise<void> {
+  // 실행한 Step은 변수가 치환된 상태이므로 placeholder 확인은 저장된 Step 기준
+  const stored = (await getFlowById(flowId))?.steps[stepIndex];
+  const healing = createLocatorHealing(
+    flowId,
+    stepIndex,
+    stored?.type === step.type ? stored : step,
+    result
+  );
+  if (!healing) return;
+  console.log(
+    `Step ${stepIndex + 1} matched by ${healing.tier}, healed locator:`,
+    healing.healed
+  );
+
+  await saveLocatorHealing(healing);
+  let applied = false;
+  if (autoHeal) {
+    try {
+      await applyLocatorHealing(healing);
+      applied = true;
     } catch (error) {
-      console.error(`Step ${i + 1} failed:`, error);
+      console.warn("Failed to apply healed locator:", error);
+    }
+  }
 
-      // 스텝 실패 알림
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.log(`Sending step failure notification: ${errorMessage}`);
+  browser.runtime
+    .sendMessage({
+      type: "LOCATOR_HEALED",
+      healing,
+      applied,
+    } as LocatorHealedMessage)
+    .catch(() => {});
+}
 
-      try {
-        await browser.runtime.sendMessage({
-          type: "STEP_COMPLETED",
-          step: stepWithUrl,
-          stepIndex: i,
-          success: false,
-          error: errorMessage,
-        } as StepCompletedMessage);
-        console.log("Step failure notification sent successfully");
-      } catch (sendError) {
-        console.warn("Failed to send step failure notification:", sendError);
-      }
+// 탭에서 플로우 실행 (content script context에서 실행)
+async function runFlowInTab(
+  tabId: number,
+  flow: Flow,
+  variables: Record<string, string> = {},
+  options: RunSettings = {},
+  datasetRowIndex?: number
+): Promise<RunResult> {
+  const steps = flow.steps;
+  // 제어 흐름 스텝의 조건/반복 변수와 중첩 extract 결과를 공유하는 scope
+  const scope: ControlFlowScope = {
+    variables,
+    extractedData: {},
+    callStack: [flow.id],
+  };
+  console.log(`Running ${steps.length} steps in tab ${tabId}`);
 
-      // 플로우 전체 실패 알림
-      try {
-        await browser.runtime.sendMessage({
-          type: "FLOW_FAILED",
-          error: `Step ${i + 1} failed: ${errorMessage}`,
-          failedStepIndex: i,
-          failedStep: stepWithUrl,
-        });
-        console.log("Flow failure notification sent");
-      } catch (flowError) {
-        console.warn("Failed to send flow failure notification:", flowError);
-      }
+  // 첫 번째 스텝이 navigate이고 새 탭에서 시작한 경우 건너뛰기
+  let startAtStep = options.startAtStep;
+  if (
+    startAtStep === undefined &&
+    flow.startUrl &&
+    steps.length > 1 &&
+    steps[0].type === "navigate"
+  ) {
+    startAtStep = 1;
+    console.log(
+      "Skipping first navigate step as it was already executed during tab creation"
+    );
+  }
+
+  // 알림에 포함할 Step (실행 시점의 탭 URL 추가)
+  const stepsWithUrl = new Map<number, Step>();
+  // 실행 기록 (사이드패널을 닫아도 Runs 화면에서 확인 가능)
+  // trace 옵션이 켜져 있으면 Step마다 스크린샷/콘솔/네트워크 기록 (실행 기록과 연결)
+  const tracer = options.trace ? createTraceRecorder(flow) : null;
+  const recorder = createRunRecorder(flow, {
+    options,
+    datasetRowIndex,
+    traceRef: tracer?.trace.id,
+  });
+  // Step 실패 시 캡처한 자료 (stepIndex -> FailureArtifacts)
+  const failureArtifacts = new Map<number, FailureArtifacts>();
+
+  // 디버거: breakpoint는 저장된 Flow에서 확인 (실행 중에 바꾼 breakpoint 반영)
+  const stepDebugger = createStepDebugger({
+    isBreakpoint: async (step, index) => {
+      const stored = await getFlowById(flow.id).catch(() => null);
+      return Boolean((stored?.steps[index] ?? step).breakpoint);
+    },
+    onPause: (pause) => {
+      console.log(
+        `Paused before step ${pause.stepIndex + 1} (${pause.reason})`
+      );
+      browser.runtime
+        .sendMessage({
+          type: "DEBUG_PAUSED",
+          ...pause,
+          totalSteps: steps.length,
+        } as DebugPausedMessage)
+        .catch(() => {});
+    },
+    onResume: (pause) => {
+      browser.runtime
+        .sendMessage({
+          type: "DEBUG_RESUMED",
+          stepIndex: pause.stepIndex,
+        } as DebugResumedMessage)
+        .catch(() => {});
+    },
+  });
+  activeDebug = {
+    tabId,
+    flowId: flow.id,
+    totalSteps: steps.length,
+    stepDebugger,
+  };
+
+  const runOptions = withFlowDefaults(flow, { ...options, startAtStep });
+  const result = await runFlowSteps(
+    steps,
+    (index) => controlFlowHandlersForTab(tabId, index),
+    scope,
+    runOptions,
+    {
+      beforeStep: stepDebugger.beforeStep,
+      onStepStart: async (step, i) => {
+        console.log(`Executing step ${i + 1}:`, step);
+        await recorder.hooks.onStepStart?.(step, i);
+        if (tracer) {
+          const before = await beginTraceStep(tabId, step);
+          await tracer.hooks.onStepStart?.(step, i);
+          tracer.attach(i, before);
+        }
+
+        // 현재 탭 URL 가져오기
+        let currentUrl = "";
+        try {
+          const tab = await browser.tabs.get(tabId);
+          currentUrl = tab.url || "";
+        } catch (error) {
+          console.warn("Failed to get current URL:", error);
+        }
+
+        // 스텝에 현재 URL 정보 추가
+        const stepWithUrl = { ...step, url: currentUrl } as Step;
+        stepsWithUrl.set(i, stepWithUrl);
+
+        // 스텝 실행 시작 알림
+        browser.runtime
+          .sendMessage({
+            type: "STEP_EXECUTING",
+            step: stepWithUrl,
+            stepIndex: i,
+            totalSteps: steps.length,
+            currentUrl,
+          } as StepExecutingMessage)
+          .catch(() => {
+            // 사이드패널이 열려있지 않으면 에러 발생 - 무시
+          });
+      },
+      onStepRetry: async (step, i, retry) => {
+        console.warn(
+          `Step ${i + 1} attempt ${retry.attempt}/${
+            retry.maxAttempts
+          } failed, retrying in ${retry.delayMs}ms:`,
+          retry.error
+        );
+        const reportStep = stepsWithUrl.get(i) || step;
+
+        // 실패한 시도와 다음 시도 알림 (사이드패널에 "attempt 2/3" 표시)
+        await browser.runtime
+          .sendMessage({
+            type: "STEP_COMPLETED",
+            step: reportStep,
+            stepIndex: i,
+            success: false,
+            error: retry.error || "Step failed",
+            attempt: retry.attempt,
+            maxAttempts: retry.maxAttempts,
+            willRetry: true,
+          } as StepCompletedMessage)
+          .catch(() => {});
+        browser.runtime
+          .sendMessage({
+            type: "STEP_EXECUTING",
+            step: reportStep,
+            stepIndex: i,
+            totalSteps: steps.length,
+            currentUrl: (reportStep as any).url,
+            attempt: retry.attempt + 1,
+            maxAttempts: retry.maxAttempts,
+          } as StepExecutingMessage)
+          .catch(() => {});
+      },
+      onStepEnd: async (step, i, stepResult) => {
+        try {
+          await recorder.hooks.onStepEnd?.(step, i, stepResult);
+        } catch (error) {
+          console.warn("Failed to record step result:", error);
+        }
+        if (tracer) {
+          await tracer.hooks.onStepEnd?.(step, i, stepResult);
+          tracer.attach(i, await endTraceStep(tabId));
+        }
+        if (stepResult.success) {
+          await recordLocatorHealing(
+            flow.id,
+            i,
+            step,
+            stepResult,
+            options.autoHeal
+          ).catch((error) =>
+            console.warn("Failed to record healed locator:", error)
+          );
+
+          // 스텝 성공 알림 (재시도 후 성공했으면 시도 번호 포함)
+          browser.runtime
+            .sendMessage({
+              type: "STEP_COMPLETED",
+              step: stepsWithUrl.get(i) || step,
+              stepIndex: i,
+              success: true,
+              extractedData: stepResult.extractedData,
+              usedSelector: stepResult.usedSelector,
+              locatorTier: stepResult.locatorTier,
+              attempt: stepResult.attempts,
+              maxAttempts: resolveRetryPolicy(step, runOptions)?.attempts,
+            } as StepCompletedMessage)
+            .catch(() => {});
+          return;
+        }
+        console.error(`Step ${i + 1} failed:`, stepResult.error);
+
+        // onFailure Step이 화면을 바꾸기 전에 캡처 (사용자 중단 제외)
+        if (!shouldStopRunning) {
+          try {
+            const artifacts = await captureFailureArtifacts(
+              tabId,
+              flow,
+              i,
+              stepResult.error
+            );
+            if (artifacts) {
+              failureArtifacts.set(i, artifacts);
+              await recorder.attachArtifacts(i, artifacts.id);
+            }
+          } catch (error) {
+            console.warn("Failed to save failure artifacts:", error);
+          }
+        }
 
-      throw error;
+        // 스텝 실패 알림
+        try {
+          await browser.runtime.sendMessage({
+            type: "STEP_COMPLETED",
+            step: stepsWithUrl.get(i) || step,
+            stepIndex: i,
+            success: false,
+            error: stepResult.error || "Step failed",
+            attempt: stepResult.attempts,
+            maxAttempts: resolveRetryPolicy(step, runOptions)?.attempts,
+          } as StepCompletedMessage);
+        } catch (sendError) {
+          console.warn("Failed to send step failure notification:", sendError);
+        }
+      },
     }
+  );
+
+  if (activeDebug?.stepDebugger === stepDebugger) activeDebug = null;
+
+  await tracer
+    ?.finish(result, shouldStopRunning)
+    .catch((error) => console.warn("Failed to save trace:", error));
+  await recorder
+    .finish(result, shouldStopRunning)
+    .catch((error) => console.warn("Failed to save run history:", error));
+
+  if (!result.success) {
+    const failedStepIndex = result.failedStepIndex ?? -1;
+    const errorMessage = result.error || "Step failed";
+
+    // 플로우 전체 실패 알림
+    try {
+      await browser.runtime.sendMessage({
+        type: "FLOW_FAILED",
+        error:
+          failedStepIndex >= 0 && !shouldStopRunning
+            ? `Step ${failedStepIndex + 1} failed: ${errorMessage}`
+            : errorMessage,
+        failedStepIndex,
+        failedStep: stepsWithUrl.get(failedStepIndex),
+        extractedData: result.extractedData,
+        stepErrors: result.stepErrors,
+        failureArtifacts: failureArtifacts.get(failedStepIndex),
+      } as FlowFailedMessage);
+      console.log("Flow failure notification sent");
+    } catch (flowError) {
+      console.warn("Failed to send flow failure notification:", flowError);
+    }
+    return result;
   }
 
   // Flow 성공적으로 완료
@@ -561,11 +1332,15 @@ async function runFlowInTab(tabId: number, flow: Flow): Promise<void> {
     await browser.runtime.sendMessage({
       type: "FLOW_COMPLETED",
       totalSteps: steps.length,
-    });
+      extractedData: result.extractedData,
+      stepErrors: result.stepErrors,
+    } as FlowCompletedMessage);
     console.log("Flow completion notification sent");
   } catch (error) {
     console.warn("Failed to send flow completion notification:", error);
   }
+
+  return result;
 }
 
 // 백엔드로 플로우 전송
@@ -581,7 +1356,8 @@ async function sendToBackend(flow: Flow, endpoint: string): Promise<void> {
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify(flow),
+      // 평문 시크릿은 전송하지 않음 (secretRef만 포함)
+      body: JSON.stringify(redactFlowSecrets(flow)),
     });
 
     if (!response.ok) {
@@ -1,10 +1,24 @@
 import React, { useState, useEffect, useCallback } from "react";
 import ReactDOM from "react-dom/client";
 import HoverToolbar from "./content/HoverToolbar";
-import type { Step, TogglePickerMessage } from "@auto-wiz/core";
+import type {
+  Step,
+  TogglePickerMessage,
+  RecordStepMessage,
+  ElementRepickedMessage,
+} from "@auto-wiz/core";
 import { useRecording } from "../hooks/useRecording";
 import { useElementInspector } from "../hooks/useElementInspector";
-import { DomFlowRunner } from "@auto-wiz/dom";
+import {
+  DomFlowRunner,
+  readElementState,
+  listLoopElements,
+  captureDomSnapshot,
+  captureTraceTarget,
+  makeSelector,
+  generateRobustLocator,
+  getEventTarget,
+} from "@auto-wiz/dom";
 import type { StepExecutingMessage } from "@auto-wiz/core";
 
 const runner = new DomFlowRunner();
@@ -15,12 +29,15 @@ function ContentApp() {
   const [locked, setLocked] = useState(false);
   const [lockedTarget, setLockedTarget] = useState<HTMLElement | null>(null);
   const [lockedCoords, setLockedCoords] = useState({ x: 0, y: 0 });
+  // 디버거에서 요소를 다시 고르는 Step index (고르는 중이 아니면 null)
+  const [repickStepIndex, setRepickStepIndex] = useState<number | null>(null);
 
   // Modal 상태
   const [showTextInput, setShowTextInput] = useState(false);
   const [textInputValue, setTextInputValue] = useState("");
+  const [textInputSecret, setTextInputSecret] = useState(false);
   const [textInputCallback, setTextInputCallback] = useState<
-    ((text: string | null) => void) | null
+    ((text: string | null, secret: boolean) => void) | null
   >(null);
 
   const [showSelectOption, setShowSelectOption] = useState(false);
@@ -43,23 +60,31 @@ function ContentApp() {
     navigateToParent,
     navigateToChild,
   } = useElementInspector({
-    enabled: pickerOn,
+    enabled: pickerOn || repickStepIndex !== null,
     locked,
   });
 
   /**
    * Step 기록 핸들러
    */
-  const handleRecord = useCallback((step: Step) => {
-    browser.runtime.sendMessage({ type: "REC_STEP", step }).catch(() => {});
+  const handleRecord = useCallback((step: Step, secretValue?: string) => {
+    const message: RecordStepMessage =
+      secretValue !== undefined
+        ? { type: "REC_STEP", step, secretValue }
+        : { type: "REC_STEP", step };
+    browser.runtime.sendMessage(message).catch(() => {});
   }, []);
 
   /**
    * Text Input 모달 표시
    */
   const handleShowTextInput = useCallback(
-    (callback: (text: string | null) => void) => {
+    (
+      callback: (text: string | null, secret: boolean) => void,
+      options?: { secret?: boolean }
+    ) => {
       setTextInputValue("");
+      setTextInputSecret(options?.secret ?? false);
       setTextInputCallback(() => callback);
       setShowTextInput(true);
     },
@@ -188,11 +213,116 @@ function ContentApp() {
     setInspectedElement,
   ]);
 
+  /**
+   * 요소 다시 고르기 (디버거에서 일시정지한 Step)
+   * 클릭한 요소의 selector/locator를 보내고, 페이지에는 클릭이 전달되지 않도록 막음
+   * ESC로 취소
+   */
+  useEffect(() => {
+    if (repickStepIndex === null) return;
+
+    const isOwnUi = (el: EventTarget | null) =>
+      el instanceof Element && Boolean(el.closest("#automation-wizard-root"));
+
+    const blockEvent = (e: Event) => {
+      if (isOwnUi(e.target)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.stopImmediatePropagation();
+    };
+
+    const handleClick = (e: MouseEvent) => {
+      if (isOwnUi(e.target)) return;
+      blockEvent(e);
+      const element = getEventTarget(e);
+      if (!(element instanceof HTMLElement)) return;
+
+      const message: ElementRepickedMessage = {
+        type: "ELEMENT_REPICKED",
+        selector: makeSelector(element),
+        locator: generateRobustLocator(element),
+      };
+      browser.runtime.sendMessage(message).catch(() => {});
+      setRepickStepIndex(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      e.preventDefault();
+      e.stopPropagation();
+      browser.runtime.sendMessage({ type: "REPICK_CANCELLED" }).catch(() => {});
+      setRepickStepIndex(null);
+    };
+
+    const blockedEvents = [
+      "pointerdown",
+      "pointerup",
+      "mousedown",
+      "mouseup",
+    ] as const;
+    blockedEvents.forEach((type) =>
+      document.addEventListener(type, blockEvent, true)
+    );
+    document.addEventListener("click", handleClick, true);
+    document.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      blockedEvents.forEach((type) =>
+        document.removeEventListener(type, blockEvent, true)
+      );
+      document.removeEventListener("click", handleClick, true);
+      document.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [repickStepIndex]);
+
   /**
    * Picker 토글 및 Recording 상태 메시지 수신
    */
   useEffect(() => {
-    const handleMessage = (msg: TogglePickerMessage | any) => {
+    const handleMessage = (
+      msg: TogglePickerMessage | any,
+      _sender: unknown,
+      sendResponse: (response: unknown) => void
+    ) => {
+      // 제어 흐름 실행 중 조건/반복 대상 조회 (응답으로 반환)
+      if (msg.type === "READ_ELEMENT_STATE") {
+        sendResponse(readElementState(msg.selector));
+        return;
+      }
+      if (msg.type === "LIST_ELEMENTS") {
+        sendResponse(listLoopElements(msg.selector));
+        return;
+      }
+      // Step 실패 시 DOM 스냅샷 (확장 프로그램 UI 제외)
+      if (msg.type === "CAPTURE_DOM_SNAPSHOT") {
+        sendResponse(
+          captureDomSnapshot(document, { exclude: "#automation-wizard-root" })
+        );
+        return;
+      }
+      // trace: Step 실행 직전 대상 요소 위치
+      if (msg.type === "CAPTURE_TRACE_TARGET") {
+        sendResponse(captureTraceTarget(msg.step));
+        return;
+      }
+
+      // Step 실행 (결과는 요청한 background에만 응답, 사이드패널 보고는 background가 담당)
+      if (msg.type === "EXECUTE_STEP") {
+        runner.runStep(msg.step).then(sendResponse, (error) =>
+          sendResponse({
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+        return true;
+      }
+
+      // 디버거: 일시정지한 Step의 요소 다시 고르기 시작
+      if (msg.type === "START_REPICK") {
+        setRepickStepIndex(msg.stepIndex);
+        sendResponse({ success: true });
+        return;
+      }
+
       if (msg.type === "TOGGLE_PICKER") {
         setPickerOn(msg.on);
         if (!msg.on) {
@@ -211,21 +341,6 @@ function ContentApp() {
           setLockedTarget(null);
           setInspectedElement(null);
         }
-      } else if (msg.type === "EXECUTE_STEP") {
-        // Execute step request from background
-        const step = msg.step;
-        runner.runStep(step).then((result) => {
-          browser.runtime
-            .sendMessage({
-              type: "STEP_COMPLETED",
-              step,
-              stepIndex: msg.stepIndex,
-              success: result.success,
-              error: result.error,
-              extractedData: result.extractedData,
-            })
-            .catch(() => {});
-        });
       }
     };
 
@@ -241,7 +356,7 @@ function ContentApp() {
   return (
     <>
       {/* Hover Box (요소 하이라이트) */}
-      {pickerOn && hoverBox && (
+      {(pickerOn || repickStepIndex !== null) && hoverBox && (
         <div
           style={{
             position: "fixed",
@@ -276,6 +391,28 @@ function ContentApp() {
         />
       )}
 
+      {/* 요소 다시 고르기 안내 */}
+      {repickStepIndex !== null && (
+        <div
+          style={{
+            position: "fixed",
+            top: "20px",
+            left: "50%",
+            transform: "translateX(-50%)",
+            background: "#1a1a1a",
+            color: "white",
+            padding: "8px 14px",
+            borderRadius: "6px",
+            fontSize: "13px",
+            zIndex: 10001,
+            boxShadow: "0 2px 4px rgba(0, 0, 0, 0.2)",
+            pointerEvents: "none",
+          }}
+        >
+          Click the element for step {repickStepIndex + 1} · Esc to cancel
+        </div>
+      )}
+
       {/* Recording 상태 표시 */}
       {recording && (
         <div
@@ -325,7 +462,7 @@ function ContentApp() {
             zIndex: 10002,
           }}
           onClick={() => {
-            textInputCallback?.(null);
+            textInputCallback?.(null, false);
             setShowTextInput(false);
           }}
         >
@@ -343,12 +480,12 @@ function ContentApp() {
               Enter Text
             </h3>
             <input
-              type="text"
+              type={textInputSecret ? "password" : "text"}
               value={textInputValue}
               onChange={(e) => setTextInputValue(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === "Enter") {
-                  textInputCallback?.(textInputValue);
+                  textInputCallback?.(textInputValue, textInputSecret);
                   setShowTextInput(false);
                 }
               }}
@@ -359,9 +496,26 @@ function ContentApp() {
                 border: "1px solid #d1d5db",
                 borderRadius: "4px",
                 fontSize: "14px",
-                marginBottom: "16px",
+                marginBottom: "12px",
               }}
             />
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "6px",
+                fontSize: "13px",
+                color: "#4b5563",
+                marginBottom: "16px",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={textInputSecret}
+                onChange={(e) => setTextInputSecret(e.target.checked)}
+              />
+              Secret (encrypt and store in the vault)
+            </label>
             <div
               style={{
                 display: "flex",
@@ -371,7 +525,7 @@ function ContentApp() {
             >
               <button
                 onClick={() => {
-                  textInputCallback?.(null);
+                  textInputCallback?.(null, false);
                   setShowTextInput(false);
                 }}
                 style={{
@@ -386,7 +540,7 @@ function ContentApp() {
               </button>
               <button
                 onClick={() => {
-                  textInputCallback?.(textInputValue);
+                  textInputCallback?.(textInputValue, textInputSecret);
                   setShowTextInput(false);
                 }}
                 style={{
@@ -9,30 +9,88 @@ import {
   Camera,
   ChevronUp,
   ChevronDown,
+  BadgeCheck,
 } from "lucide-react";
-import type { Step } from "@auto-wiz/core";
-import { makeSelector, generateRobustLocator } from "@auto-wiz/dom";
+import type { Step, ExtractProp } from "@auto-wiz/core";
+import { maskSecretValue } from "@auto-wiz/core";
+import {
+  makeSelector,
+  makeListSelector,
+  generateRobustLocator,
+  querySelectorAll,
+  isSensitiveInput,
+  getComposedParent,
+} from "@auto-wiz/dom";
 
 interface HoverToolbarProps {
   x: number;
   y: number;
   target: HTMLElement | null;
   locked: boolean;
-  onRecord: (step: Step) => void;
+  onRecord: (step: Step, secretValue?: string) => void;
   onNavigateParent?: () => void;
   onNavigateChild?: () => void;
-  onShowTextInput?: (callback: (text: string | null) => void) => void;
+  onShowTextInput?: (
+    callback: (text: string | null, secret: boolean) => void,
+    options?: { secret?: boolean }
+  ) => void;
   onShowSelectOption?: (
     options: Array<{ index: number; value: string; text: string }>,
     callback: (selectedValue: string | null) => void
   ) => void;
 }
 
+/**
+ * Extract 대상 입력값 파싱 (text, value, href, html, outerHTML, attr:<name>)
+ */
+function parseExtractKind(
+  input: string
+): { prop: ExtractProp; attribute?: string } | null {
+  const kind = input.trim();
+  if (kind.toLowerCase().startsWith("attr:")) {
+    const attribute = kind.slice(5).trim();
+    return attribute ? { prop: "attribute", attribute } : null;
+  }
+
+  switch (kind.toLowerCase()) {
+    case "":
+    case "text":
+      return { prop: "innerText" };
+    case "value":
+      return { prop: "value" };
+    case "href":
+      return { prop: "href" };
+    case "html":
+      return { prop: "innerHTML" };
+    case "outerhtml":
+      return { prop: "outerHTML" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * 요소로부터 기본 출력 이름 추천 (id, name, aria-label, tag 순)
+ */
+function suggestExtractName(element: HTMLElement): string {
+  const source =
+    element.id ||
+    element.getAttribute("name") ||
+    element.getAttribute("aria-label") ||
+    element.tagName.toLowerCase();
+  return (
+    source
+      .trim()
+      .replace(/[^\w.-]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "value"
+  );
+}
+
 /**
  * 호버된 요소 위에 표시되는 툴바 컴포넌트
  *
  * 기능:
- * - Click, Type, Select, Extract 등의 액션 버튼 제공
+ * - Click, Type, Select, Extract, Assert 등의 액션 버튼 제공
  * - 드래그 앤 드롭으로 이동 가능 (locked 상태일 때)
  * - Element 스크린샷 캡처
  * - 부모/자식 요소 탐색
@@ -178,8 +236,8 @@ export default function HoverToolbar({
   }, []);
 
   const elementInfo = getElementInfo(target);
-  const hasParent =
-    target.parentElement !== null && target.parentElement !== document.body;
+  const parent = getComposedParent(target);
+  const hasParent = parent !== null && parent !== document.body;
   const hasChild = target.children.length > 0;
 
   // selector와 locator는 target이 변경될 때마다 재계산
@@ -342,33 +400,38 @@ export default function HoverToolbar({
       const currentSelector = makeSelector(target);
       const currentLocator = generateRobustLocator(target);
 
-      const onTextInput = (text: string | null) => {
+      // 시크릿 입력은 마스킹된 text만 Step에 남기고 값은 따로 전달
+      const onTextInput = (text: string | null, secret: boolean) => {
         if (text !== null) {
-          const maskedDisplayText = "*".repeat(text.length);
           captureElementScreenshot(target, currentSelector).then(
             (screenshot) => {
-              onRecord({
-                type: "type",
-                selector: currentSelector, // 하위 호환성
-                locator: currentLocator, // 새로운 다중 selector 시스템
-                text: maskedDisplayText,
-                originalText: text,
-                url: window.location.href,
-                screenshot: screenshot || undefined,
-              });
+              onRecord(
+                {
+                  type: "type",
+                  selector: currentSelector, // 하위 호환성
+                  locator: currentLocator, // 새로운 다중 selector 시스템
+                  text: secret ? maskSecretValue(text) : text,
+                  url: window.location.href,
+                  screenshot: screenshot || undefined,
+                },
+                secret ? text : undefined
+              );
             }
           );
         }
       };
 
+      const secretField = isSensitiveInput(target);
       if (onShowTextInput) {
-        onShowTextInput(onTextInput);
+        onShowTextInput(onTextInput, { secret: secretField });
       } else {
         // Fallback to prompt
         const text = prompt(
-          "입력할 텍스트를 입력하세요 (보안상 마스킹됩니다):"
+          secretField
+            ? "입력할 텍스트를 입력하세요 (시크릿으로 암호화되어 저장됩니다):"
+            : "입력할 텍스트를 입력하세요:"
         );
-        onTextInput(text);
+        onTextInput(text, secretField);
       }
     },
     [target, captureElementScreenshot, onRecord, onShowTextInput]
@@ -436,6 +499,34 @@ export default function HoverToolbar({
       e.preventDefault();
       e.stopPropagation();
 
+      // 추출 대상 선택 (링크는 href, 입력 요소는 value 기본값)
+      const defaultKind =
+        target instanceof HTMLAnchorElement
+          ? "href"
+          : target instanceof HTMLInputElement ||
+            target instanceof HTMLSelectElement ||
+            target instanceof HTMLTextAreaElement
+          ? "value"
+          : "text";
+      const kindInput = prompt(
+        "What to extract? (text, value, href, html, outerHTML, attr:<name>)",
+        defaultKind
+      );
+      if (kindInput === null) return;
+      const kind = parseExtractKind(kindInput);
+      if (!kind) {
+        alert(`Unknown extract target: ${kindInput}`);
+        return;
+      }
+
+      // 출력 이름 (실행 결과의 키)
+      const nameInput = prompt(
+        "Output name (key in the run results):",
+        suggestExtractName(target)
+      );
+      if (nameInput === null) return;
+      const name = nameInput.trim() || undefined;
+
       // 최신 target 기반으로 selector와 locator 재계산
       const currentSelector = makeSelector(target);
       const currentLocator = generateRobustLocator(target);
@@ -444,10 +535,62 @@ export default function HoverToolbar({
         currentSelector
       );
 
+      // 반복되는 목록 항목이면 전체 목록 추출 여부 확인
+      const listSelector = makeListSelector(target);
+      const listCount = querySelectorAll(listSelector).length;
+      if (
+        listCount > 1 &&
+        confirm(`Extract all ${listCount} matching elements as a list?`)
+      ) {
+        onRecord({
+          type: "extract",
+          selector: listSelector,
+          name,
+          ...kind,
+          multiple: true,
+          url: window.location.href,
+          screenshot: screenshot || undefined,
+        });
+        return;
+      }
+
       onRecord({
         type: "extract",
         selector: currentSelector, // 하위 호환성
         locator: currentLocator, // 새로운 다중 selector 시스템
+        name,
+        ...kind,
+        url: window.location.href,
+        screenshot: screenshot || undefined,
+      });
+    },
+    [target, captureElementScreenshot, onRecord]
+  );
+
+  const handleAssertText = useCallback(
+    async (e: React.MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      // 현재 텍스트를 기대값으로 제안 (수정 시 그 값과 정확히 일치해야 통과)
+      const currentText = target.textContent?.trim() || "";
+      const expected = prompt("Expected text (exact match):", currentText);
+      if (expected === null) return;
+
+      // 최신 target 기반으로 selector와 locator 재계산
+      const currentSelector = makeSelector(target);
+      const currentLocator = generateRobustLocator(target);
+      const screenshot = await captureElementScreenshot(
+        target,
+        currentSelector
+      );
+
+      onRecord({
+        type: "assert",
+        assertion: "textEquals",
+        selector: currentSelector, // 하위 호환성
+        locator: currentLocator, // 새로운 다중 selector 시스템
+        expected,
         url: window.location.href,
         screenshot: screenshot || undefined,
       });
@@ -731,6 +874,13 @@ export default function HoverToolbar({
         >
           Extract
         </ActionButton>
+        <ActionButton
+          onClick={handleAssertText}
+          locked={locked}
+          icon={<BadgeCheck size={14} strokeWidth={2} />}
+        >
+          Assert this text
+        </ActionButton>
         <ActionButton
           onClick={handleNavigate}
           locked={locked}
@@ -1,10 +1,27 @@
 import React, { useState, useEffect, useCallback } from "react";
 import ReactDOM from "react-dom/client";
-import { Wand2, Undo, Square } from "lucide-react";
+import {
+  Wand2,
+  Undo,
+  Square,
+  Library,
+  ListOrdered,
+  History,
+} from "lucide-react";
 import type {
   Flow,
+  Step,
+  ControlStep,
+  CallFlowStep,
+  FlowCondition,
+  FlowVariable,
   FlowUpdatedMessage,
   SentOkMessage,
+  VaultStateMessage,
+  RunSettings,
+  FlowRun,
+  LocatorHealing,
+  LocatorHealedMessage,
 } from "@auto-wiz/core";
 import { useFlowExecution } from "../../hooks/useFlowExecution";
 import {
@@ -12,15 +29,227 @@ import {
   saveFlow,
   clearFlow,
   removeStep,
+  listFlows,
+  getActiveFlowId,
+  createFlow,
+  openFlow,
+  duplicateFlow,
+  renameFlow,
+  deleteFlow,
+  updateFlow,
+  collectFlowVariables,
+  parseDataset,
+  datasetResultsToCsv,
+  extractedDataToCsv,
+  hasSecretRefs,
+  isControlStep,
+  wrapSteps,
+  unwrapStep,
+  removeStepAtPath,
+  formatCondition,
+  parseCondition,
+  addFlow,
+  extractSubFlow,
+  findSubFlowCycle,
+  formatSubFlowCycle,
+  getFlowById,
+  collectCalledFlows,
+  serializeFlowFile,
+  generatePlaywrightTest,
+  generatePuppeteerScript,
+  parseFlowFile,
+  listFlowRuns,
+  deleteFlowRun,
+  clearFlowRuns,
+  getFailureArtifacts,
+  listLocatorHealings,
+  applyLocatorHealing,
+  dismissLocatorHealing,
+  clearLocatorHealings,
 } from "@auto-wiz/core";
 import { FlowStepItem } from "@auto-wiz/ui";
 import { FlowControls } from "@auto-wiz/ui";
+import { FlowLibrary } from "@auto-wiz/ui";
+import { VariablesForm } from "@auto-wiz/ui";
+import { DatasetPanel } from "@auto-wiz/ui";
+import { RunResultsPanel } from "@auto-wiz/ui";
+import { VaultPanel } from "@auto-wiz/ui";
+import { RunOptionsPanel } from "@auto-wiz/ui";
+import { OnFailurePanel } from "@auto-wiz/ui";
+import { RunHistoryPanel } from "@auto-wiz/ui";
+import { DebuggerBar } from "@auto-wiz/ui";
+import { LocatorHealingPanel } from "@auto-wiz/ui";
+
+/**
+ * 텍스트 파일 다운로드
+ */
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * index부터 몇 개의 Step을 대상으로 할지 입력 (취소하거나 범위를 벗어나면 null)
+ */
+function promptStepCount(
+  action: string,
+  index: number,
+  totalSteps: number
+): number | null {
+  const maxCount = totalSteps - index;
+  const input = prompt(
+    `How many steps to ${action}, starting at step ${
+      index + 1
+    }? (1-${maxCount})`,
+    "1"
+  );
+  if (input === null) return null;
+  const count = Number(input);
+  if (!Number.isInteger(count) || count < 1 || count > maxCount) {
+    alert(`Enter a number between 1 and ${maxCount}`);
+    return null;
+  }
+  return count;
+}
+
+/**
+ * callFlow 인자 입력 (하위 Flow의 변수마다 값 입력, 기본값은 같은 이름의 변수)
+ * 취소하면 null
+ */
+function promptCallFlowArgs(
+  names: string[],
+  current: Record<string, string> = {}
+): Record<string, string> | null {
+  const args: Record<string, string> = {};
+  for (const name of names) {
+    const value = prompt(
+      `Value for {{${name}}} (may use {{placeholders}} of this flow):`,
+      current[name] ?? `{{${name}}}`
+    );
+    if (value === null) return null;
+    args[name] = value;
+  }
+  return args;
+}
+
+/**
+ * 제어 흐름 블록 설정 입력 (if/repeat/forEach/while)
+ * existing이 있으면 현재 설정을 기본값으로 보여주고 하위 Step은 유지
+ * 취소하거나 입력 형식이 틀리면 null
+ */
+function promptControlBlock(
+  children: Step[],
+  existing?: ControlStep
+): ControlStep | null {
+  const type =
+    existing?.type ??
+    prompt("Block type? (if, repeat, forEach, while)", "if")?.trim();
+  if (!type) return null;
+
+  const askCondition = (current?: FlowCondition): FlowCondition | null => {
+    const input = prompt(
+      'Condition:\n- exists <selector>\n- text <selector> matches <pattern>\n- var <name> = <value>\n(prefix with "not " to negate)',
+      current ? formatCondition(current) : "exists "
+    );
+    if (input === null) return null;
+    const condition = parseCondition(input);
+    if (!condition) alert(`Invalid condition: ${input}`);
+    return condition;
+  };
+
+  const askCount = (message: string, current: number): number | null => {
+    const input = prompt(message, String(current));
+    if (input === null) return null;
+    const count = Number(input);
+    if (!Number.isInteger(count) || count < 0) {
+      alert(`Invalid number: ${input}`);
+      return null;
+    }
+    return count;
+  };
+
+  switch (type) {
+    case "if": {
+      const current = existing?.type === "if" ? existing : undefined;
+      const condition = askCondition(current?.condition);
+      if (!condition) return null;
+      return current
+        ? { ...current, condition }
+        : { type: "if", condition, then: children };
+    }
+    case "repeat": {
+      const current = existing?.type === "repeat" ? existing : undefined;
+      const times = askCount("Repeat how many times?", current?.times ?? 2);
+      if (times === null) return null;
+      return current
+        ? { ...current, times }
+        : { type: "repeat", times, steps: children };
+    }
+    case "forEach": {
+      const current = existing?.type === "forEach" ? existing : undefined;
+      const sourceInput = prompt(
+        "For each: CSS selector of the elements, or @name of an extracted list",
+        current
+          ? current.source.type === "elements"
+            ? current.source.selector
+            : `@${current.source.name}`
+          : ""
+      )?.trim();
+      if (!sourceInput) return null;
+      const as = prompt(
+        "Loop variable name (use {{name}}, {{name.index}} and {{name.selector}} in the steps):",
+        current?.as || "item"
+      )?.trim();
+      if (as === undefined) return null;
+
+      const block: ControlStep = {
+        type: "forEach",
+        source: sourceInput.startsWith("@")
+          ? { type: "extracted", name: sourceInput.slice(1).trim() }
+          : { type: "elements", selector: sourceInput },
+        ...(as && as !== "item" ? { as } : {}),
+        steps: current ? current.steps : children,
+      };
+      return block;
+    }
+    case "while": {
+      const current = existing?.type === "while" ? existing : undefined;
+      const condition = askCondition(current?.condition);
+      if (!condition) return null;
+      const maxIterations = askCount(
+        "Maximum iterations (the run fails if the loop does not finish):",
+        current?.maxIterations ?? 10
+      );
+      if (!maxIterations) return null;
+      return current
+        ? { ...current, condition, maxIterations }
+        : { type: "while", condition, maxIterations, steps: children };
+    }
+    default:
+      alert(`Unknown block type: ${type}`);
+      return null;
+  }
+}
 
 /**
  * SidePanel 메인 컴포넌트
  *
  * 기능:
  * - Flow 관리 (보기, 편집, 삭제, 실행)
+ * - Flow 라이브러리 (목록, 생성, 전환, 복제, 이름 변경, 삭제)
+ * - 실행 전 Flow 변수({{name}}) 값 입력
+ * - 데이터셋(CSV/JSON) 첨부 및 행별 결과 내보내기
+ * - 실행의 extract 결과 JSON/CSV 내보내기
+ * - 시크릿 Vault 잠금 해제 및 입력값 시크릿 전환
+ * - Step을 if/repeat/forEach/while 블록으로 묶기 및 편집
+ * - Step을 하위 Flow로 추출, 다른 Flow 호출 (callFlow)
+ * - Flow 파일 내보내기/가져오기 (버전이 있는 형식)
  * - Recording 제어
  * - Backend 전송
  * - Step 실행 상태 추적
@@ -32,6 +261,22 @@ function SidePanelApp() {
   const [pickerOn, setPickerOn] = useState(false);
   const [recording, setRecording] = useState(false);
   const [sendStatus, setSendStatus] = useState("");
+  const [view, setView] = useState<"steps" | "library" | "runs">("steps");
+  const [runs, setRuns] = useState<FlowRun[]>([]);
+  const [healings, setHealings] = useState<LocatorHealing[]>([]);
+  const [flows, setFlows] = useState<Flow[]>([]);
+  const [activeFlowId, setActiveFlowId] = useState<string | null>(null);
+  const [pendingVariables, setPendingVariables] = useState<
+    FlowVariable[] | null
+  >(null);
+  const [vaultState, setVaultState] = useState<
+    Omit<VaultStateMessage, "type">
+  >({ initialized: false, unlocked: false, pendingSecrets: 0 });
+  const [vaultError, setVaultError] = useState("");
+  const [runOptions, setRunOptions] = useState<RunSettings>({});
+  // 변수 입력 후 실행할 옵션 (Run from here 등 이번 실행에만 적용하는 범위 포함)
+  const [pendingRunOptions, setPendingRunOptions] =
+    useState<RunSettings | null>(null);
 
   // Flow 실행 상태 관리
   const {
@@ -39,10 +284,19 @@ function SidePanelApp() {
     completedSteps,
     extractedData,
     elementScreenshots,
+    failureArtifacts,
+    debugPause,
+    repicking,
+    datasetResults,
+    runExtractedData,
     isRunning,
     statusMessage,
     startExecution,
     stopExecution,
+    pauseExecution,
+    resumeExecution,
+    stepOver,
+    repickElement,
     clearState,
   } = useFlowExecution();
 
@@ -51,12 +305,16 @@ function SidePanelApp() {
    */
   const loadFlow = useCallback(async () => {
     const loadedFlow = await getFlow();
-    if (loadedFlow) {
-      setFlow(loadedFlow);
-      if (loadedFlow.startUrl) {
-        setStartUrl(loadedFlow.startUrl);
-      }
-    }
+    setFlow(loadedFlow);
+    setStartUrl(loadedFlow?.startUrl || "");
+  }, []);
+
+  /**
+   * Flow 라이브러리 로드
+   */
+  const loadLibrary = useCallback(async () => {
+    setFlows(await listFlows());
+    setActiveFlowId(await getActiveFlowId());
   }, []);
 
   /**
@@ -64,14 +322,22 @@ function SidePanelApp() {
    */
   useEffect(() => {
     loadFlow();
+    loadLibrary();
+    browser.runtime
+      .sendMessage({ type: "GET_VAULT_STATE" })
+      .then((state: VaultStateMessage) => state && setVaultState(state))
+      .catch(() => {});
 
     const handleMessage = (
       msg:
         | FlowUpdatedMessage
         | SentOkMessage
+        | VaultStateMessage
         | { type: "RECORD_STATE"; recording: boolean }
     ) => {
-      if (msg.type === "FLOW_UPDATED") {
+      if (msg.type === "VAULT_STATE") {
+        setVaultState(msg);
+      } else if (msg.type === "FLOW_UPDATED") {
         setFlow(msg.flow);
         setSendStatus(`Step added! Total: ${msg.flow.steps.length}`);
         setTimeout(() => setSendStatus(""), 3000);
@@ -85,7 +351,7 @@ function SidePanelApp() {
 
     browser.runtime.onMessage.addListener(handleMessage);
     return () => browser.runtime.onMessage.removeListener(handleMessage);
-  }, [loadFlow]);
+  }, [loadFlow, loadLibrary]);
 
   /**
    * Picker 토글
@@ -137,27 +403,184 @@ function SidePanelApp() {
   }, []);
 
   /**
-   * Flow 실행
+   * 현재 탭에서 Flow 실행 시작
+   */
+  const runInActiveTab = useCallback(
+    async (
+      variables?: Record<string, string>,
+      options: RunSettings = runOptions
+    ) => {
+      const [tab] = await browser.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+
+      if (!tab.id) {
+        setSendStatus("Error: No active tab found");
+        return;
+      }
+
+      clearState();
+      await startExecution(tab.id, variables, options);
+    },
+    [startExecution, clearState, runOptions]
+  );
+
+  /**
+   * 주어진 옵션으로 Flow 실행 (변수가 있으면 입력 폼 먼저 표시)
+   */
+  const startRun = useCallback(
+    async (options: RunSettings) => {
+      // 데이터셋 컬럼으로 바인딩되는 변수는 입력받지 않음
+      const datasetColumns = flow?.dataset?.columns || [];
+      const names = flow
+        ? collectFlowVariables(flow).filter(
+            (name) => !datasetColumns.includes(name)
+          )
+        : [];
+      if (flow && names.length > 0) {
+        setPendingRunOptions(options);
+        setPendingVariables(
+          names.map(
+            (name) =>
+              flow.variables?.find((variable) => variable.name === name) || {
+                name,
+              }
+          )
+        );
+        return;
+      }
+
+      await runInActiveTab(undefined, options);
+    },
+    [flow, runInActiveTab]
+  );
+
+  /**
+   * Flow 실행 또는 중지
    */
   const handleRun = useCallback(async () => {
     if (isRunning) {
       await stopExecution();
       return;
     }
+    await startRun(runOptions);
+  }, [isRunning, stopExecution, startRun, runOptions]);
 
-    const [tab] = await browser.tabs.query({
-      active: true,
-      currentWindow: true,
-    });
+  /**
+   * index Step부터 끝까지 실행 (현재 페이지에서 이어서 실행)
+   */
+  const handleRunFrom = useCallback(
+    async (index: number) => {
+      const { endAtStep: _endAtStep, ...rest } = runOptions;
+      await startRun({ ...rest, startAtStep: index });
+    },
+    [startRun, runOptions]
+  );
 
-    if (!tab.id) {
-      setSendStatus("Error: No active tab found");
-      return;
+  /**
+   * index Step만 실행
+   */
+  const handleRunStep = useCallback(
+    async (index: number) => {
+      await startRun({ ...runOptions, startAtStep: index, endAtStep: index });
+    },
+    [startRun, runOptions]
+  );
+
+  /**
+   * 변수 입력 완료 후 실행
+   */
+  const handleSubmitVariables = useCallback(
+    async (values: Record<string, string>, saveAsDefaults: boolean) => {
+      if (saveAsDefaults && pendingVariables) {
+        const updatedFlow = await updateFlow({
+          variables: pendingVariables.map((variable) => ({
+            ...variable,
+            defaultValue: values[variable.name],
+          })),
+        });
+        setFlow(updatedFlow);
+      }
+
+      setPendingVariables(null);
+      await runInActiveTab(values, pendingRunOptions ?? runOptions);
+      setPendingRunOptions(null);
+    },
+    [pendingVariables, pendingRunOptions, runOptions, runInActiveTab]
+  );
+
+  /**
+   * 데이터셋 파일 첨부
+   */
+  const handleAttachDataset = useCallback(async (file: File) => {
+    try {
+      const dataset = parseDataset(await file.text(), file.name);
+      const updatedFlow = await updateFlow({ dataset });
+      setFlow(updatedFlow);
+      setSendStatus(`Dataset attached: ${dataset.rows.length} rows`);
+    } catch (error) {
+      setSendStatus(
+        `Error: ${error instanceof Error ? error.message : "Invalid dataset"}`
+      );
     }
+    setTimeout(() => setSendStatus(""), 3000);
+  }, []);
 
-    clearState();
-    await startExecution(tab.id);
-  }, [isRunning, startExecution, stopExecution, clearState]);
+  /**
+   * 데이터셋 제거
+   */
+  const handleRemoveDataset = useCallback(async () => {
+    const updatedFlow = await updateFlow({ dataset: undefined });
+    setFlow(updatedFlow);
+  }, []);
+
+  /**
+   * 행별 실행 결과 내보내기
+   */
+  const handleExportResults = useCallback(
+    (format: "csv" | "json") => {
+      const baseName = `${flow?.title || "flow"}-results`;
+      if (format === "csv") {
+        downloadFile(
+          datasetResultsToCsv(datasetResults),
+          `${baseName}.csv`,
+          "text/csv"
+        );
+      } else {
+        downloadFile(
+          JSON.stringify(datasetResults, null, 2),
+          `${baseName}.json`,
+          "application/json"
+        );
+      }
+    },
+    [flow, datasetResults]
+  );
+
+  /**
+   * 실행에서 수집된 extract 결과 내보내기
+   */
+  const handleExportRunResults = useCallback(
+    (format: "csv" | "json") => {
+      if (!runExtractedData) return;
+      const baseName = `${flow?.title || "flow"}-extracted`;
+      if (format === "csv") {
+        downloadFile(
+          extractedDataToCsv(runExtractedData),
+          `${baseName}.csv`,
+          "text/csv"
+        );
+      } else {
+        downloadFile(
+          JSON.stringify(runExtractedData, null, 2),
+          `${baseName}.json`,
+          "application/json"
+        );
+      }
+    },
+    [flow, runExtractedData]
+  );
 
   /**
    * Flow 초기화
@@ -179,6 +602,236 @@ function SidePanelApp() {
     setTimeout(() => setSendStatus(""), 2000);
   }, [clearState]);
 
+  /**
+   * 새 Flow 생성 (기존 Flow는 라이브러리에 유지)
+   */
+  const handleCreateFlow = useCallback(async () => {
+    const created = await createFlow();
+    setFlow(created);
+    setStartUrl("");
+    clearState();
+    await loadLibrary();
+    setView("steps");
+  }, [clearState, loadLibrary]);
+
+  /**
+   * 저장된 Flow 열기
+   */
+  const handleOpenFlow = useCallback(
+    async (flowId: string) => {
+      await openFlow(flowId);
+      clearState();
+      await loadFlow();
+      await loadLibrary();
+      setView("steps");
+    },
+    [clearState, loadFlow, loadLibrary]
+  );
+
+  /**
+   * Flow 복제
+   */
+  const handleDuplicateFlow = useCallback(
+    async (flowId: string) => {
+      await duplicateFlow(flowId);
+      await loadLibrary();
+    },
+    [loadLibrary]
+  );
+
+  /**
+   * Flow 이름 변경
+   */
+  const handleRenameFlow = useCallback(
+    async (flowId: string, title: string) => {
+      await renameFlow(flowId, title);
+      await loadFlow();
+      await loadLibrary();
+    },
+    [loadFlow, loadLibrary]
+  );
+
+  /**
+   * Flow 삭제
+   */
+  const handleDeleteFlow = useCallback(
+    async (flowId: string) => {
+      if (!confirm("Delete this flow? This cannot be undone.")) {
+        return;
+      }
+
+      await deleteFlow(flowId);
+      await clearFlowRuns(flowId);
+      await clearLocatorHealings(flowId);
+      if (flowId === activeFlowId) {
+        clearState();
+      }
+      await loadFlow();
+      await loadLibrary();
+    },
+    [activeFlowId, clearState, loadFlow, loadLibrary]
+  );
+
+  /**
+   * 현재 Flow의 실행 기록 로드
+   */
+  const loadRuns = useCallback(async () => {
+    setRuns(flow ? await listFlowRuns(flow.id) : []);
+  }, [flow?.id]);
+
+  // Runs 화면에서는 Step이 끝날 때마다 기록 갱신 (실행 중인 기록 포함)
+  useEffect(() => {
+    if (view === "runs") loadRuns();
+  }, [view, loadRuns, isRunning, completedSteps]);
+
+  const handleDeleteRun = useCallback(
+    async (runId: string) => {
+      if (!flow) return;
+      await deleteFlowRun(flow.id, runId);
+      await loadRuns();
+    },
+    [flow?.id, loadRuns]
+  );
+
+  const handleClearRuns = useCallback(async () => {
+    if (!flow || !confirm("Delete all runs of this flow?")) return;
+    await clearFlowRuns(flow.id);
+    await loadRuns();
+  }, [flow?.id, loadRuns]);
+
+  /**
+   * 현재 Flow의 locator 업데이트 제안 로드
+   */
+  const loadHealings = useCallback(async () => {
+    setHealings(flow ? await listLocatorHealings(flow.id) : []);
+  }, [flow?.id]);
+
+  // 실행 중 새 locator가 제안되거나 자동으로 적용되면 갱신
+  useEffect(() => {
+    loadHealings();
+    const handleMessage = (msg: LocatorHealedMessage) => {
+      if (msg.type !== "LOCATOR_HEALED") return;
+      loadHealings();
+      if (msg.applied) {
+        loadFlow();
+        setSendStatus(`Step ${msg.healing.stepIndex + 1} locator healed`);
+        setTimeout(() => setSendStatus(""), 3000);
+      }
+    };
+
+    browser.runtime.onMessage.addListener(handleMessage);
+    return () => browser.runtime.onMessage.removeListener(handleMessage);
+  }, [loadHealings, loadFlow]);
+
+  const handleApplyHealing = useCallback(
+    async (healing: LocatorHealing) => {
+      try {
+        setFlow(await applyLocatorHealing(healing));
+      } catch (error) {
+        // 제안 이후 Step이 바뀌었으면 더 이상 적용할 수 없으므로 삭제
+        alert((error as Error).message);
+        await dismissLocatorHealing(healing.flowId, healing.stepIndex);
+      }
+      await loadHealings();
+    },
+    [loadHealings]
+  );
+
+  const handleDismissHealing = useCallback(
+    async (healing: LocatorHealing) => {
+      await dismissLocatorHealing(healing.flowId, healing.stepIndex);
+      await loadHealings();
+    },
+    [loadHealings]
+  );
+
+  /**
+   * 실행 trace를 새 탭의 trace 화면으로 열기
+   */
+  const handleOpenTrace = useCallback((traceRef: string) => {
+    browser.tabs.create({
+      url: browser.runtime.getURL(`/trace.html?id=${traceRef}`),
+    });
+  }, []);
+
+  /**
+   * Flow를 파일로 내보내기 (호출하는 하위 Flow 포함)
+   */
+  const handleExportFlow = useCallback(async (flowId: string) => {
+    const exported = await getFlowById(flowId);
+    if (!exported) return;
+
+    const subFlows = await collectCalledFlows(exported, getFlowById);
+    downloadFile(
+      serializeFlowFile([exported, ...subFlows]),
+      `${exported.title || "flow"}.flow.json`,
+      "application/json"
+    );
+  }, []);
+
+  /**
+   * Flow를 @playwright/test spec으로 내보내기 (호출하는 하위 Flow는 함수로 포함)
+   */
+  const handleExportPlaywrightTest = useCallback(async (flowId: string) => {
+    const exported = await getFlowById(flowId);
+    if (!exported) return;
+
+    const subFlows = await collectCalledFlows(exported, getFlowById);
+    downloadFile(
+      generatePlaywrightTest(exported, subFlows),
+      `${exported.title || "flow"}.spec.ts`,
+      "text/plain"
+    );
+  }, []);
+
+  /**
+   * Flow를 단독 실행 가능한 Puppeteer 스크립트로 내보내기
+   */
+  const handleExportPuppeteerScript = useCallback(async (flowId: string) => {
+    const exported = await getFlowById(flowId);
+    if (!exported) return;
+
+    const subFlows = await collectCalledFlows(exported, getFlowById);
+    downloadFile(
+      generatePuppeteerScript(exported, subFlows),
+      `${exported.title || "flow"}.puppeteer.ts`,
+      "text/plain"
+    );
+  }, []);
+
+  /**
+   * 파일에서 Flow 가져오기
+   * 호환되지 않는 Step이 있는 Flow는 건너뛰고 이유를 표시
+   */
+  const handleImportFlows = useCallback(
+    async (file: File) => {
+      try {
+        const { flows: imported, issues } = parseFlowFile(
+          await file.text(),
+          await listFlows()
+        );
+        for (const importedFlow of imported) {
+          await addFlow(importedFlow);
+        }
+        await loadLibrary();
+
+        const summary = `Imported ${imported.length} flow${
+          imported.length === 1 ? "" : "s"
+        }`;
+        if (issues.length > 0) {
+          alert(`${summary}\n\n${issues.join("\n")}`);
+        }
+        setSendStatus(summary);
+      } catch (error) {
+        setSendStatus(
+          `Error: ${error instanceof Error ? error.message : "Import failed"}`
+        );
+      }
+      setTimeout(() => setSendStatus(""), 3000);
+    },
+    [loadLibrary]
+  );
+
   /**
    * Step 제거
    */
@@ -187,6 +840,39 @@ function SidePanelApp() {
     setFlow(updatedFlow);
   }, []);
 
+  /**
+   * Vault 잠금 해제 (처음이면 생성)
+   */
+  const handleUnlockVault = useCallback(async (passphrase: string) => {
+    const response = await browser.runtime.sendMessage({
+      type: "UNLOCK_VAULT",
+      passphrase,
+    });
+    setVaultError(response?.success ? "" : response?.error || "Unlock failed");
+  }, []);
+
+  /**
+   * Vault 잠금
+   */
+  const handleLockVault = useCallback(async () => {
+    await browser.runtime.sendMessage({ type: "LOCK_VAULT" });
+    setVaultError("");
+  }, []);
+
+  /**
+   * Type Step 입력값을 시크릿으로 전환
+   */
+  const handleMarkSecret = useCallback(async (index: number) => {
+    const response = await browser.runtime.sendMessage({
+      type: "MARK_STEP_SECRET",
+      stepIndex: index,
+    });
+    if (!response?.success) {
+      setSendStatus(`Error: ${response?.error || "Failed to store secret"}`);
+      setTimeout(() => setSendStatus(""), 3000);
+    }
+  }, []);
+
   /**
    * Step 위로 이동
    */
@@ -235,6 +921,223 @@ function SidePanelApp() {
     [flow]
   );
 
+  /**
+   * Step 목록 저장 (블록 편집용)
+   */
+  const saveSteps = useCallback(
+    async (steps: Step[]) => {
+      if (!flow) return;
+      const updatedFlow: Flow = { ...flow, steps };
+      await saveFlow(updatedFlow);
+      setFlow(updatedFlow);
+    },
+    [flow]
+  );
+
+  /**
+   * index부터 여러 Step을 제어 흐름 블록으로 묶기
+   */
+  const handleWrapStep = useCallback(
+    async (index: number) => {
+      if (!flow) return;
+
+      const count = promptStepCount(
+        "put in the block",
+        index,
+        flow.steps.length
+      );
+      if (count === null) return;
+
+      const block = promptControlBlock(flow.steps.slice(index, index + count));
+      if (!block) return;
+      await saveSteps(wrapSteps(flow.steps, index, count, () => block));
+    },
+    [flow, saveSteps]
+  );
+
+  /**
+   * 제어 흐름 블록 설정 또는 callFlow 인자 편집
+   */
+  const handleEditBlock = useCallback(
+    async (index: number) => {
+      const step = flow?.steps[index];
+      if (!flow || !step) return;
+
+      let edited: Step | null = null;
+      if (step.type === "callFlow") {
+        // 하위 Flow에 새로 생긴 변수도 입력받음
+        const target = flows.find((candidate) => candidate.id === step.flowId);
+        const names = Array.from(
+          new Set([
+            ...Object.keys(step.args || {}),
+            ...(target ? collectFlowVariables(target) : []),
+          ])
+        );
+        const args = promptCallFlowArgs(names, step.args);
+        if (args) edited = { ...step, args };
+      } else if (isControlStep(step)) {
+        edited = promptControlBlock([], step);
+      }
+      if (!edited) return;
+
+      const updated = edited;
+      await saveSteps(
+        flow.steps.map((current, i) => (i === index ? updated : current))
+      );
+    },
+    [flow, flows, saveSteps]
+  );
+
+  /**
+   * index부터 여러 Step을 새 하위 Flow로 추출하고 그 자리에 callFlow 스텝 추가
+   */
+  const handleExtractSubFlow = useCallback(
+    async (index: number) => {
+      if (!flow) return;
+
+      const count = promptStepCount(
+        "move into the sub-flow",
+        index,
+        flow.steps.length
+      );
+      if (count === null) return;
+      const title = prompt("Sub-flow title:", "Sub-flow")?.trim();
+      if (!title) return;
+
+      const extracted = extractSubFlow(flow, index, count, title);
+      await addFlow(extracted.subFlow);
+      await saveFlow(extracted.flow);
+      setFlow(extracted.flow);
+      await loadLibrary();
+    },
+    [flow, loadLibrary]
+  );
+
+  /**
+   * 활성 Flow 끝에 다른 Flow를 호출하는 Step 추가
+   */
+  const handleCallFlow = useCallback(
+    async (flowId: string) => {
+      const target = flows.find((candidate) => candidate.id === flowId);
+      if (!flow || !target) return;
+
+      const args = promptCallFlowArgs(collectFlowVariables(target));
+      if (!args) return;
+      const call: CallFlowStep = {
+        type: "callFlow",
+        flowId,
+        flowTitle: target.title,
+        ...(Object.keys(args).length > 0 ? { args } : {}),
+      };
+
+      const steps = [...flow.steps, call];
+      const cycle = findSubFlowCycle(flow.id, steps, flows);
+      if (cycle) {
+        alert(
+          `Cannot call ${
+            target.title
+          }: it would create a cycle (${formatSubFlowCycle(cycle, flows)})`
+        );
+        return;
+      }
+
+      await saveSteps(steps);
+      await loadLibrary();
+      setView("steps");
+    },
+    [flow, flows, saveSteps, loadLibrary]
+  );
+
+  /**
+   * 제어 흐름 블록 풀기 (하위 Step을 그 자리에 펼침)
+   */
+  const handleUnwrap = useCallback(
+    async (index: number) => {
+      if (!flow) return;
+      await saveSteps(unwrapStep(flow.steps, index));
+    },
+    [flow, saveSteps]
+  );
+
+  /**
+   * 블록 안의 Step 제거
+   */
+  const handleRemoveChild = useCallback(
+    async (index: number, path: number[]) => {
+      if (!flow) return;
+      await saveSteps(removeStepAtPath(flow.steps, [index, ...path]));
+    },
+    [flow, saveSteps]
+  );
+
+  /**
+   * Step의 continueOnError 켜기/끄기
+   */
+  const handleToggleOptional = useCallback(
+    async (index: number) => {
+      if (!flow) return;
+      await saveSteps(
+        flow.steps.map((step, i) => {
+          if (i !== index) return step;
+          const { continueOnError, ...rest } = step;
+          return (
+            continueOnError ? rest : { ...rest, continueOnError: true }
+          ) as Step;
+        })
+      );
+    },
+    [flow, saveSteps]
+  );
+
+  /**
+   * Step의 breakpoint 켜기/끄기 (실행 중에 바꾸면 다음 Step부터 반영)
+   */
+  const handleToggleBreakpoint = useCallback(
+    async (index: number) => {
+      if (!flow) return;
+      await saveSteps(
+        flow.steps.map((step, i) => {
+          if (i !== index) return step;
+          const { breakpoint, ...rest } = step;
+          return (breakpoint ? rest : { ...rest, breakpoint: true }) as Step;
+        })
+      );
+    },
+    [flow, saveSteps]
+  );
+
+  /**
+   * Step을 실패 시 실행할 Step(onFailure) 목록 끝으로 이동
+   */
+  const handleMoveToOnFailure = useCallback(
+    async (index: number) => {
+      if (!flow) return;
+      const updatedFlow: Flow = {
+        ...flow,
+        steps: flow.steps.filter((_, i) => i !== index),
+        onFailure: [...(flow.onFailure || []), flow.steps[index]],
+      };
+      await saveFlow(updatedFlow);
+      setFlow(updatedFlow);
+    },
+    [flow]
+  );
+
+  /**
+   * onFailure Step 목록 저장 (비우면 제거)
+   */
+  const handleOnFailureChange = useCallback(
+    async (onFailure: Step[]) => {
+      if (!flow) return;
+      const { onFailure: _previous, ...rest } = flow;
+      const updatedFlow: Flow =
+        onFailure.length > 0 ? { ...rest, onFailure } : rest;
+      await saveFlow(updatedFlow);
+      setFlow(updatedFlow);
+    },
+    [flow]
+  );
+
   /**
    * Undo 마지막 Step
    */
@@ -301,6 +1204,63 @@ function SidePanelApp() {
           >
             Automation Wizard
           </h2>
+          <button
+            onClick={() => {
+              if (view !== "library") loadLibrary();
+              setView(view === "library" ? "steps" : "library");
+            }}
+            disabled={recording || isRunning}
+            style={{
+              marginLeft: "auto",
+              padding: "6px 10px",
+              background: view === "library" ? "#1a1a1a" : "#f5f5f5",
+              color: view === "library" ? "#ffffff" : "#404040",
+              border: "1px solid #e5e5e5",
+              borderRadius: "6px",
+              cursor: recording || isRunning ? "not-allowed" : "pointer",
+              fontSize: "12px",
+              fontWeight: 500,
+              opacity: recording || isRunning ? 0.4 : 1,
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+            }}
+            title={view === "library" ? "Back to steps" : "Browse saved flows"}
+          >
+            {view !== "library" ? (
+              <>
+                <Library size={14} strokeWidth={2} />
+                Flows
+              </>
+            ) : (
+              <>
+                <ListOrdered size={14} strokeWidth={2} />
+                Steps
+              </>
+            )}
+          </button>
+          <button
+            onClick={() => setView(view === "runs" ? "steps" : "runs")}
+            disabled={recording || !flow}
+            style={{
+              padding: "6px 10px",
+              background: view === "runs" ? "#1a1a1a" : "#f5f5f5",
+              color: view === "runs" ? "#ffffff" : "#404040",
+              border: "1px solid #e5e5e5",
+              borderRadius: "6px",
+              cursor: recording || !flow ? "not-allowed" : "pointer",
+              fontSize: "12px",
+              fontWeight: 500,
+              opacity: recording || !flow ? 0.4 : 1,
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+            }}
+            title={view === "runs" ? "Back to steps" : "Show run history"}
+          >
+            <History size={14} strokeWidth={2} />
+            Runs
+          </button>
         </div>
       </div>
 
@@ -320,183 +1280,334 @@ function SidePanelApp() {
         </div>
       )}
 
-      {/* Controls */}
-      <FlowControls
-        recording={recording}
-        pickerOn={pickerOn}
-        isRunning={isRunning}
-        hasSteps={!!hasSteps}
-        onTogglePicker={handleTogglePicker}
-        onStartRecording={handleStartRecording}
-        onStopRecording={handleStopRecording}
-        onRun={handleRun}
-        onStop={stopExecution}
-        onClear={handleClear}
-        onUndo={handleUndo}
-        onSendToBackend={handleSendToBackend}
-      />
-
-      {/* Flow Info */}
-      <div
-        style={{
-          padding: "14px 20px",
-          background: "#fafafa",
-          borderBottom: "1px solid #e5e5e5",
-          fontSize: "13px",
-          color: "#737373",
-          display: "flex",
-          justifyContent: "space-between",
-          alignItems: "center",
-        }}
-      >
-        <div>
-          <strong style={{ color: "#1a1a1a", fontWeight: 500 }}>Steps:</strong>{" "}
-          <span style={{ color: "#404040" }}>{flow?.steps.length || 0}</span>
+      {view === "runs" ? (
+        <div style={{ flex: 1, overflowY: "auto" }}>
+          <RunHistoryPanel
+            runs={runs}
+            disabled={isRunning}
+            onDelete={handleDeleteRun}
+            onClear={handleClearRuns}
+            onLoadArtifacts={getFailureArtifacts}
+            onOpenTrace={handleOpenTrace}
+          />
         </div>
-        {startUrl && (
-          <div
-            style={{
-              maxWidth: "60%",
-              overflow: "hidden",
-              textOverflow: "ellipsis",
-              whiteSpace: "nowrap",
-            }}
-          >
-            <strong style={{ color: "#1a1a1a", fontWeight: 500 }}>
-              Start URL:
-            </strong>{" "}
-            <span style={{ color: "#737373" }}>{startUrl}</span>
-          </div>
-        )}
-      </div>
+      ) : view === "library" ? (
+        <div style={{ flex: 1, overflowY: "auto" }}>
+          <FlowLibrary
+            flows={flows}
+            activeFlowId={activeFlowId}
+            disabled={recording || isRunning}
+            onOpen={handleOpenFlow}
+            onCreate={handleCreateFlow}
+            onDuplicate={handleDuplicateFlow}
+            onRename={handleRenameFlow}
+            onDelete={handleDeleteFlow}
+            onCall={handleCallFlow}
+            onExport={handleExportFlow}
+            onExportTest={handleExportPlaywrightTest}
+            onExportScript={handleExportPuppeteerScript}
+            onImport={handleImportFlows}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Variables Form */}
+          {pendingVariables && (
+            <VariablesForm
+              variables={pendingVariables}
+              onSubmit={handleSubmitVariables}
+              onCancel={() => {
+                setPendingVariables(null);
+                setPendingRunOptions(null);
+              }}
+            />
+          )}
 
-      {/* Steps List */}
-      <div
-        style={{
-          flex: 1,
-          overflowY: "auto",
-          padding: "8px 0 0",
-        }}
-      >
-        {!hasSteps ? (
+          {/* Controls */}
+          <FlowControls
+            recording={recording}
+            pickerOn={pickerOn}
+            isRunning={isRunning}
+            hasSteps={!!hasSteps}
+            onTogglePicker={handleTogglePicker}
+            onStartRecording={handleStartRecording}
+            onStopRecording={handleStopRecording}
+            onRun={handleRun}
+            onStop={stopExecution}
+            onClear={handleClear}
+            onUndo={handleUndo}
+            onSendToBackend={handleSendToBackend}
+          />
+
+          {/* Debugger */}
+          {isRunning && (
+            <DebuggerBar
+              paused={debugPause}
+              repicking={repicking}
+              onPause={pauseExecution}
+              onResume={resumeExecution}
+              onStepOver={stepOver}
+              onRepick={repickElement}
+            />
+          )}
+
+          {/* Flow Info */}
           <div
             style={{
-              textAlign: "center",
-              padding: "60px 20px",
-              color: "#a3a3a3",
+              padding: "14px 20px",
+              background: "#fafafa",
+              borderBottom: "1px solid #e5e5e5",
+              fontSize: "13px",
+              color: "#737373",
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
             }}
           >
-            <h3
-              style={{
-                margin: "0 0 8px 0",
-                fontSize: "15px",
-                fontWeight: 500,
-                color: "#404040",
-              }}
-            >
-              No steps recorded yet
-            </h3>
-            <p
+            <div
               style={{
-                margin: 0,
-                fontSize: "13px",
-                color: "#737373",
-                lineHeight: "1.6",
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
               }}
             >
-              Turn on the picker and start recording your automation flow
-            </p>
+              <strong style={{ color: "#1a1a1a", fontWeight: 500 }}>
+                {flow?.title || "Untitled"}
+              </strong>{" "}
+              <span style={{ color: "#404040" }}>
+                · {flow?.steps.length || 0} steps
+              </span>
+            </div>
+            {startUrl && (
+              <div
+                style={{
+                  maxWidth: "60%",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                <strong style={{ color: "#1a1a1a", fontWeight: 500 }}>
+                  Start URL:
+                </strong>{" "}
+                <span style={{ color: "#737373" }}>{startUrl}</span>
+              </div>
+            )}
           </div>
-        ) : (
-          <>
-            {flow!.steps.map((step, index) => (
-              <FlowStepItem
-                key={index}
-                step={step}
-                index={index}
-                isExecuting={
-                  executingStep !== null && executingStep.stepIndex === index
-                }
-                isCompleted={completedSteps.has(index)}
-                extractedData={extractedData.get(index)}
-                screenshot={elementScreenshots.get(index)}
-                onRemove={handleRemoveStep}
-                onMoveUp={handleMoveUp}
-                onMoveDown={handleMoveDown}
-                totalSteps={flow!.steps.length}
-              />
-            ))}
-          </>
-        )}
-      </div>
 
-      {/* Footer Actions */}
-      {hasSteps && (
-        <div
-          style={{
-            padding: "16px 20px",
-            background: "#fafafa",
-            borderTop: "1px solid #e5e5e5",
-            display: "flex",
-            gap: "10px",
-          }}
-        >
-          <button
-            onClick={handleUndo}
+          {/* Secret Vault */}
+          {(vaultState.unlocked ||
+            vaultState.pendingSecrets > 0 ||
+            (flow &&
+              (hasSecretRefs(flow) ||
+                flow.steps.some(
+                  (step) =>
+                    step.type === "type" && step.originalText !== undefined
+                )))) && (
+            <VaultPanel
+              initialized={vaultState.initialized}
+              unlocked={vaultState.unlocked}
+              pendingSecrets={vaultState.pendingSecrets}
+              error={vaultError}
+              onUnlock={handleUnlockVault}
+              onLock={handleLockVault}
+            />
+          )}
+
+          {/* Dataset */}
+          <DatasetPanel
+            dataset={flow?.dataset}
+            results={datasetResults}
             disabled={recording || isRunning}
-            style={{
-              flex: 1,
-              padding: "10px",
-              background: recording || isRunning ? "#fafafa" : "#f5f5f5",
-              color: recording || isRunning ? "#a3a3a3" : "#404040",
-              border: "1px solid #e5e5e5",
-              borderRadius: "8px",
-              cursor: recording || isRunning ? "not-allowed" : "pointer",
-              fontSize: "13px",
-              fontWeight: 500,
-              opacity: recording || isRunning ? 0.4 : 1,
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              gap: "8px",
-            }}
-          >
-            <Undo size={16} strokeWidth={2} />
-            Undo Last
-          </button>
+            onAttach={handleAttachDataset}
+            onRemove={handleRemoveDataset}
+            onExport={handleExportResults}
+          />
 
-          <button
-            onClick={handleRun}
+          {/* Run Options */}
+          {hasSteps && (
+            <RunOptionsPanel
+              options={runOptions}
+              stepCount={flow?.steps.length || 0}
+              disabled={isRunning}
+              onChange={setRunOptions}
+            />
+          )}
+
+          {/* Locator Healing */}
+          <LocatorHealingPanel
+            healings={healings}
             disabled={isRunning}
+            onApply={handleApplyHealing}
+            onDismiss={handleDismissHealing}
+          />
+
+          {/* On-failure Steps */}
+          {flow?.onFailure && flow.onFailure.length > 0 && (
+            <OnFailurePanel
+              steps={flow.onFailure}
+              disabled={recording || isRunning}
+              onChange={handleOnFailureChange}
+            />
+          )}
+
+          {/* Extracted Results */}
+          {runExtractedData && (
+            <RunResultsPanel
+              data={runExtractedData}
+              disabled={isRunning}
+              onExport={handleExportRunResults}
+            />
+          )}
+
+          {/* Steps List */}
+          <div
             style={{
-              flex: 2,
-              padding: "10px",
-              background: isRunning ? "#dc2626" : "#1a1a1a",
-              color: "#ffffff",
-              border: "1px solid #e5e5e5",
-              borderRadius: "8px",
-              cursor: "pointer",
-              fontSize: "13px",
-              fontWeight: 500,
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              gap: "8px",
+              flex: 1,
+              overflowY: "auto",
+              padding: "8px 0 0",
             }}
           >
-            {isRunning ? (
-              <>
-                <Square size={16} strokeWidth={2} fill="currentColor" />
-                Stop Flow
-              </>
+            {!hasSteps ? (
+              <div
+                style={{
+                  textAlign: "center",
+                  padding: "60px 20px",
+                  color: "#a3a3a3",
+                }}
+              >
+                <h3
+                  style={{
+                    margin: "0 0 8px 0",
+                    fontSize: "15px",
+                    fontWeight: 500,
+                    color: "#404040",
+                  }}
+                >
+                  No steps recorded yet
+                </h3>
+                <p
+                  style={{
+                    margin: 0,
+                    fontSize: "13px",
+                    color: "#737373",
+                    lineHeight: "1.6",
+                  }}
+                >
+                  Turn on the picker and start recording your automation flow
+                </p>
+              </div>
             ) : (
               <>
-                <Wand2 size={16} strokeWidth={2} />
-                Run Flow
+                {flow!.steps.map((step, index) => (
+                  <FlowStepItem
+                    key={index}
+                    step={step}
+                    index={index}
+                    isExecuting={
+                      executingStep !== null && executingStep.stepIndex === index
+                    }
+                    isCompleted={completedSteps.has(index)}
+                    isPaused={debugPause?.stepIndex === index}
+                    attempt={
+                      executingStep?.stepIndex === index
+                        ? executingStep.attempt
+                        : undefined
+                    }
+                    maxAttempts={executingStep?.maxAttempts}
+                    extractedData={extractedData.get(index)}
+                    screenshot={elementScreenshots.get(index)}
+                    failureArtifacts={failureArtifacts.get(index)}
+                    onRemove={handleRemoveStep}
+                    onMarkSecret={handleMarkSecret}
+                    onWrap={handleWrapStep}
+                    onEditBlock={handleEditBlock}
+                    onUnwrap={handleUnwrap}
+                    onExtractSubFlow={handleExtractSubFlow}
+                    onRemoveChild={handleRemoveChild}
+                    onToggleOptional={handleToggleOptional}
+                    onMoveToOnFailure={handleMoveToOnFailure}
+                    onToggleBreakpoint={handleToggleBreakpoint}
+                    onRunFrom={isRunning ? undefined : handleRunFrom}
+                    onRunStep={isRunning ? undefined : handleRunStep}
+                    onMoveUp={handleMoveUp}
+                    onMoveDown={handleMoveDown}
+                    totalSteps={flow!.steps.length}
+                  />
+                ))}
               </>
             )}
-          </button>
-        </div>
+          </div>
+
+          {/* Footer Actions */}
+          {hasSteps && (
+            <div
+              style={{
+                padding: "16px 20px",
+                background: "#fafafa",
+                borderTop: "1px solid #e5e5e5",
+                display: "flex",
+                gap: "10px",
+              }}
+            >
+              <button
+                onClick={handleUndo}
+                disabled={recording || isRunning}
+                style={{
+                  flex: 1,
+                  padding: "10px",
+                  background: recording || isRunning ? "#fafafa" : "#f5f5f5",
+                  color: recording || isRunning ? "#a3a3a3" : "#404040",
+                  border: "1px solid #e5e5e5",
+                  borderRadius: "8px",
+                  cursor: recording || isRunning ? "not-allowed" : "pointer",
+                  fontSize: "13px",
+                  fontWeight: 500,
+                  opacity: recording || isRunning ? 0.4 : 1,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  gap: "8px",
+                }}
+              >
+                <Undo size={16} strokeWidth={2} />
+                Undo Last
+              </button>
+
+              <button
+                onClick={handleRun}
+                disabled={isRunning}
+                style={{
+                  flex: 2,
+                  padding: "10px",
+                  background: isRunning ? "#dc2626" : "#1a1a1a",
+                  color: "#ffffff",
+                  border: "1px solid #e5e5e5",
+                  borderRadius: "8px",
+                  cursor: "pointer",
+                  fontSize: "13px",
+                  fontWeight: 500,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  gap: "8px",
+                }}
+              >
+                {isRunning ? (
+                  <>
+                    <Square size={16} strokeWidth={2} fill="currentColor" />
+                    Stop Flow
+                  </>
+                ) : (
+                  <>
+                    <Wand2 size={16} strokeWidth={2} />
+                    Run Flow
+                  </>
+                )}
+              </button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
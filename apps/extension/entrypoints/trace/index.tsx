@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from "react";
+import ReactDOM from "react-dom/client";
+import { Download, FolderOpen } from "lucide-react";
+import type { FlowTrace } from "@auto-wiz/core";
+import {
+  getFlowTrace,
+  parseFlowTrace,
+  serializeFlowTrace,
+} from "@auto-wiz/core";
+import { TraceViewer } from "@auto-wiz/ui";
+
+/**
+ * Trace 화면
+ * ?id=로 저장된 실행 trace를 열거나, 내보낸 trace 파일을 열어 Step별로 확인
+ */
+
+const buttonStyle = {
+  padding: "6px 12px",
+  background: "#f5f5f5",
+  color: "#404040",
+  border: "1px solid #e5e5e5",
+  borderRadius: "6px",
+  cursor: "pointer",
+  fontSize: "13px",
+  display: "flex",
+  alignItems: "center",
+  gap: "6px",
+} as const;
+
+function TraceApp() {
+  const [trace, setTrace] = useState<FlowTrace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("id");
+    if (!id) {
+      setLoading(false);
+      return;
+    }
+    getFlowTrace(id)
+      .then((saved) => {
+        if (saved) {
+          setTrace(saved);
+        } else {
+          setError("Trace not found. It may have been deleted with its run.");
+        }
+      })
+      .catch((e) => setError(e?.message || "Failed to load trace"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    document.title = trace
+      ? `${trace.flowTitle} - Trace`
+      : "Automation Wizard Trace";
+  }, [trace]);
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setTrace(parseFlowTrace(await file.text()));
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || "Failed to open trace file");
+    }
+  };
+
+  const handleDownload = () => {
+    if (!trace) return;
+    const url = URL.createObjectURL(
+      new Blob([serializeFlowTrace(trace)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${trace.flowTitle || "flow"}-trace-${
+      trace.startedAt
+    }.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{ padding: "20px", maxWidth: "1400px", margin: "0 auto" }}>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          marginBottom: "20px",
+        }}
+      >
+        <h1
+          style={{
+            flex: 1,
+            margin: 0,
+            fontSize: "18px",
+            fontWeight: 600,
+            color: "#1a1a1a",
+          }}
+        >
+          Trace Viewer
+        </h1>
+        <label style={buttonStyle}>
+          <FolderOpen size={14} strokeWidth={2} />
+          Open trace file
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleOpenFile}
+            style={{ display: "none" }}
+          />
+        </label>
+        {trace && (
+          <button onClick={handleDownload} style={buttonStyle}>
+            <Download size={14} strokeWidth={2} />
+            Download trace
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div
+          style={{
+            marginBottom: "16px",
+            padding: "10px 12px",
+            background: "#fef2f2",
+            border: "1px solid #fecaca",
+            borderRadius: "6px",
+            color: "#b91c1c",
+            fontSize: "13px",
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {trace ? (
+        <TraceViewer trace={trace} />
+      ) : (
+        !loading && (
+          <div style={{ color: "#737373", fontSize: "13px" }}>
+            Open a trace from the Runs view in the side panel, or open an
+            exported trace file.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// DOM이 로드된 후 실행
+function init() {
+  const root = document.getElementById("root");
+  if (root) {
+    ReactDOM.createRoot(root).render(<TraceApp />);
+  } else {
+    console.error("Root element not found");
+  }
+}
+
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", init);
+} else {
+  init();
+}
+
+export default TraceApp;
@@ -1,5 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { getSimpleSelector } from "@auto-wiz/dom";
+import {
+  deepElementFromPoint,
+  getComposedParent,
+  getSimpleSelector,
+} from "@auto-wiz/dom";
 
 interface UseElementInspectorOptions {
   enabled: boolean;
@@ -52,8 +56,8 @@ export function useElementInspector({
   const navigateToParent = useCallback(() => {
     if (!inspectedElement) return;
 
-    const parent = inspectedElement.parentElement;
-    if (parent && parent !== document.body) {
+    const parent = getComposedParent(inspectedElement);
+    if (parent instanceof HTMLElement && parent !== document.body) {
       setInspectedElement(parent);
       setTarget(parent);
 
@@ -172,7 +176,7 @@ export function useElementInspector({
         }
 
         lastUpdate = now;
-        const el = document.elementFromPoint(e.clientX, e.clientY);
+        const el = deepElementFromPoint(e.clientX, e.clientY);
 
         if (
           el &&
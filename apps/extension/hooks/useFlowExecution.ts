@@ -1,11 +1,19 @@
 import { useState, useEffect, useCallback } from "react";
-import type { Step } from "@auto-wiz/core";
+import type {
+  Step,
+  DatasetRowResult,
+  RunSettings,
+  FailureArtifacts,
+  DebugPause,
+} from "@auto-wiz/core";
 
 interface StepExecutionState {
   step: Step;
   stepIndex: number;
   totalSteps: number;
   currentUrl?: string;
+  attempt?: number; // 재시도 중일 때 현재 시도 번호
+  maxAttempts?: number;
 }
 
 interface UseFlowExecutionReturn {
@@ -13,10 +21,23 @@ interface UseFlowExecutionReturn {
   completedSteps: Set<number>;
   extractedData: Map<number, any>;
   elementScreenshots: Map<number, { screenshot: string; elementInfo: any }>;
+  failureArtifacts: Map<number, FailureArtifacts>; // 실패한 Step의 캡처
+  debugPause: DebugPause | null; // 디버거로 일시정지한 Step
+  repicking: boolean; // 일시정지한 Step의 요소를 페이지에서 고르는 중
+  datasetResults: DatasetRowResult[];
+  runExtractedData: Record<string, any> | null;
   isRunning: boolean;
   statusMessage: string;
-  startExecution: (tabId: number) => Promise<void>;
+  startExecution: (
+    tabId: number,
+    variables?: Record<string, string>,
+    options?: RunSettings
+  ) => Promise<void>;
   stopExecution: () => Promise<void>;
+  pauseExecution: () => Promise<void>;
+  resumeExecution: () => Promise<void>;
+  stepOver: () => Promise<void>;
+  repickElement: () => Promise<void>;
   clearState: () => void;
 }
 
@@ -28,6 +49,10 @@ interface UseFlowExecutionReturn {
  * - 완료된 Step 추적
  * - Extract 데이터 수집
  * - Element 스크린샷 수집
+ * - 실패한 Step의 스크린샷/DOM 스냅샷 수집
+ * - 디버거 일시정지/재개/step over, 일시정지한 Step의 요소 다시 고르기
+ * - 데이터셋 행별 실행 결과 수집
+ * - 실행 전체의 extract 결과(출력 이름 기준) 수집
  * - 실행 시작/중지
  */
 export function useFlowExecution(): UseFlowExecutionReturn {
@@ -40,36 +65,57 @@ export function useFlowExecution(): UseFlowExecutionReturn {
   const [elementScreenshots, setElementScreenshots] = useState<
     Map<number, { screenshot: string; elementInfo: any }>
   >(new Map());
+  const [failureArtifacts, setFailureArtifacts] = useState<
+    Map<number, FailureArtifacts>
+  >(new Map());
+  const [datasetResults, setDatasetResults] = useState<DatasetRowResult[]>(
+    []
+  );
+  const [runExtractedData, setRunExtractedData] = useState<Record<
+    string,
+    any
+  > | null>(null);
   const [statusMessage, setStatusMessage] = useState("");
+  const [debugPause, setDebugPause] = useState<DebugPause | null>(null);
+  const [repicking, setRepicking] = useState(false);
 
   const isRunning = executingStep !== null;
 
   /**
    * 실행 시작
    */
-  const startExecution = useCallback(async (tabId: number) => {
-    try {
-      // 픽커 끄기
-      await browser.tabs.sendMessage(tabId, {
-        type: "TOGGLE_PICKER",
-        on: false,
-      });
-
-      // 플로우 실행 시작
-      await browser.runtime.sendMessage({
-        type: "RUN_FLOW",
-        tabId,
-      });
-
-      setStatusMessage("Flow execution started...");
-    } catch (error) {
-      console.error("Failed to start flow execution:", error);
-      setStatusMessage(
-        `Error: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
-      setExecutingStep(null);
-    }
-  }, []);
+  const startExecution = useCallback(
+    async (
+      tabId: number,
+      variables?: Record<string, string>,
+      options?: RunSettings
+    ) => {
+      try {
+        // 픽커 끄기
+        await browser.tabs.sendMessage(tabId, {
+          type: "TOGGLE_PICKER",
+          on: false,
+        });
+
+        // 플로우 실행 시작
+        await browser.runtime.sendMessage({
+          type: "RUN_FLOW",
+          tabId,
+          variables,
+          options,
+        });
+
+        setStatusMessage("Flow execution started...");
+      } catch (error) {
+        console.error("Failed to start flow execution:", error);
+        setStatusMessage(
+          `Error: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+        setExecutingStep(null);
+      }
+    },
+    []
+  );
 
   /**
    * 실행 중지
@@ -78,6 +124,8 @@ export function useFlowExecution(): UseFlowExecutionReturn {
     try {
       await browser.runtime.sendMessage({ type: "STOP_RUN" });
       setExecutingStep(null);
+      setDebugPause(null);
+      setRepicking(false);
       setStatusMessage("Flow execution stopped");
       setTimeout(() => setStatusMessage(""), 2000);
     } catch (error) {
@@ -86,6 +134,49 @@ export function useFlowExecution(): UseFlowExecutionReturn {
     }
   }, []);
 
+  /**
+   * 디버거 명령 전송 (실패하면 상태 메시지로 표시)
+   */
+  const sendDebugCommand = useCallback(
+    async (
+      type: "DEBUG_PAUSE" | "DEBUG_RESUME" | "DEBUG_STEP_OVER" | "DEBUG_REPICK"
+    ) => {
+      try {
+        const response = await browser.runtime.sendMessage({ type });
+        if (response && !response.success) {
+          setStatusMessage(`Error: ${response.error}`);
+          return false;
+        }
+        return true;
+      } catch (error) {
+        console.error(`Failed to send ${type}:`, error);
+        return false;
+      }
+    },
+    []
+  );
+
+  const pauseExecution = useCallback(async () => {
+    if (await sendDebugCommand("DEBUG_PAUSE")) {
+      setStatusMessage("Pausing before the next step...");
+    }
+  }, [sendDebugCommand]);
+
+  const resumeExecution = useCallback(async () => {
+    await sendDebugCommand("DEBUG_RESUME");
+  }, [sendDebugCommand]);
+
+  const stepOver = useCallback(async () => {
+    await sendDebugCommand("DEBUG_STEP_OVER");
+  }, [sendDebugCommand]);
+
+  const repickElement = useCallback(async () => {
+    if (await sendDebugCommand("DEBUG_REPICK")) {
+      setRepicking(true);
+      setStatusMessage("Click the element in the page (Esc to cancel)");
+    }
+  }, [sendDebugCommand]);
+
   /**
    * 상태 초기화
    */
@@ -94,7 +185,12 @@ export function useFlowExecution(): UseFlowExecutionReturn {
     setCompletedSteps(new Set());
     setExtractedData(new Map());
     setElementScreenshots(new Map());
+    setFailureArtifacts(new Map());
+    setDatasetResults([]);
+    setRunExtractedData(null);
     setStatusMessage("");
+    setDebugPause(null);
+    setRepicking(false);
   }, []);
 
   /**
@@ -109,13 +205,77 @@ export function useFlowExecution(): UseFlowExecutionReturn {
             stepIndex: msg.stepIndex,
             totalSteps: msg.totalSteps,
             currentUrl: msg.currentUrl,
+            attempt: msg.attempt,
+            maxAttempts: msg.maxAttempts,
+          });
+          // 다시 실행하는 Step의 이전 실패 캡처 제거
+          setFailureArtifacts((prev) => {
+            if (!prev.has(msg.stepIndex)) return prev;
+            const next = new Map(prev);
+            next.delete(msg.stepIndex);
+            return next;
           });
+          if (msg.attempt > 1) {
+            // 재시도: 실패로 표시된 Step을 다시 실행 중으로
+            setCompletedSteps((prev) => {
+              const next = new Set(prev);
+              next.delete(msg.stepIndex);
+              return next;
+            });
+            setStatusMessage(
+              `Retrying step ${msg.stepIndex + 1} (attempt ${msg.attempt}/${msg.maxAttempts})...`
+            );
+          } else {
+            setStatusMessage(
+              `Executing step ${msg.stepIndex + 1}/${msg.totalSteps}...`
+            );
+          }
+          break;
+
+        case "DEBUG_PAUSED":
+          setDebugPause({
+            stepIndex: msg.stepIndex,
+            step: msg.step,
+            reason: msg.reason,
+          });
+          setExecutingStep((prev) =>
+            prev?.stepIndex === msg.stepIndex
+              ? prev
+              : {
+                  step: msg.step,
+                  stepIndex: msg.stepIndex,
+                  totalSteps: msg.totalSteps,
+                }
+          );
           setStatusMessage(
-            `Executing step ${msg.stepIndex + 1}/${msg.totalSteps}...`
+            msg.reason === "breakpoint"
+              ? `Paused at breakpoint before step ${msg.stepIndex + 1}`
+              : `Paused before step ${msg.stepIndex + 1}`
           );
           break;
 
+        case "DEBUG_RESUMED":
+          setDebugPause(null);
+          setRepicking(false);
+          break;
+
+        case "ELEMENT_REPICKED":
+          setRepicking(false);
+          setStatusMessage("Element updated. Resume or step over to run it.");
+          break;
+
+        case "REPICK_CANCELLED":
+          setRepicking(false);
+          setStatusMessage("");
+          break;
+
         case "STEP_COMPLETED":
+          if (msg.willRetry) {
+            setStatusMessage(
+              `Step ${msg.stepIndex + 1} attempt ${msg.attempt}/${msg.maxAttempts} failed: ${msg.error}`
+            );
+            break;
+          }
           setCompletedSteps((prev) => new Set([...prev, msg.stepIndex]));
 
           if (msg.success) {
@@ -130,6 +290,10 @@ export function useFlowExecution(): UseFlowExecutionReturn {
                 `Step ${msg.stepIndex + 1} completed! Extracted: "${msg.extractedData}"`
               );
             }
+          } else if (msg.attempt > 1) {
+            setStatusMessage(
+              `Step ${msg.stepIndex + 1} failed after ${msg.attempt} attempts: ${msg.error}`
+            );
           } else {
             setStatusMessage(`Step ${msg.stepIndex + 1} failed: ${msg.error}`);
           }
@@ -139,19 +303,64 @@ export function useFlowExecution(): UseFlowExecutionReturn {
 
         case "FLOW_FAILED":
           setStatusMessage(
-            `❌ Flow failed at step ${msg.failedStepIndex + 1}: ${msg.error}`
+            msg.failedStepIndex >= 0
+              ? `❌ Flow failed at step ${msg.failedStepIndex + 1}: ${msg.error}`
+              : `❌ ${msg.error}`
           );
           setExecutingStep(null);
+          setDebugPause(null);
+          setRepicking(false);
+          if (msg.extractedData) {
+            setRunExtractedData(msg.extractedData);
+          }
+          if (msg.failureArtifacts) {
+            setFailureArtifacts((prev) =>
+              new Map(prev).set(msg.failedStepIndex, msg.failureArtifacts)
+            );
+          }
           console.error("Flow execution failed:", msg.error);
           break;
 
         case "FLOW_COMPLETED":
-          setStatusMessage(`✅ Flow completed successfully! (${msg.totalSteps} steps)`);
+          setStatusMessage(
+            msg.stepErrors?.length
+              ? `✅ Flow completed with ${msg.stepErrors.length} optional step error(s) (${msg.totalSteps} steps)`
+              : `✅ Flow completed successfully! (${msg.totalSteps} steps)`
+          );
+          if (msg.stepErrors?.length) {
+            console.warn("Optional steps failed:", msg.stepErrors);
+          }
           setExecutingStep(null);
+          setDebugPause(null);
+          setRunExtractedData(msg.extractedData || null);
           console.log("Flow execution completed:", msg.totalSteps, "steps");
           setTimeout(() => setStatusMessage(""), 3000);
           break;
 
+        case "DATASET_ROW_COMPLETED":
+          setDatasetResults((prev) => [
+            ...prev.filter((result) => result.rowIndex !== msg.rowIndex),
+            msg.result,
+          ]);
+          setStatusMessage(
+            `Row ${msg.rowIndex + 1}/${msg.totalRows} ${
+              msg.result.success ? "passed" : "failed"
+            }`
+          );
+          break;
+
+        case "DATASET_COMPLETED": {
+          const passed = msg.results.filter(
+            (result: DatasetRowResult) => result.success
+          ).length;
+          setStatusMessage(
+            `Dataset run finished: ${passed}/${msg.results.length} rows passed`
+          );
+          setExecutingStep(null);
+          setTimeout(() => setStatusMessage(""), 3000);
+          break;
+        }
+
         case "ELEMENT_SCREENSHOT":
           setElementScreenshots((prev) =>
             new Map(prev).set(msg.stepIndex, {
@@ -175,10 +384,19 @@ export function useFlowExecution(): UseFlowExecutionReturn {
     completedSteps,
     extractedData,
     elementScreenshots,
+    failureArtifacts,
+    debugPause,
+    repicking,
+    datasetResults,
+    runExtractedData,
     isRunning,
     statusMessage,
     startExecution,
     stopExecution,
+    pauseExecution,
+    resumeExecution,
+    stepOver,
+    repickElement,
     clearState,
   };
 }
@@ -1,8 +1,12 @@
 import { useEffect, useState, useCallback, useRef } from "react";
-import type { Step } from "@auto-wiz/core";
+import type { Step, RecordStepMessage } from "@auto-wiz/core";
+import { maskSecretValue } from "@auto-wiz/core";
 import {
   getSimpleSelector,
   generateRobustLocator,
+  getEventTarget,
+  isSensitiveInput,
+  querySelector,
 } from "@auto-wiz/dom";
 
 interface UseRecordingOptions {
@@ -21,6 +25,7 @@ interface UseRecordingReturn {
  * 기능:
  * - 클릭, 타이핑, 선택(select) 이벤트 자동 캡처
  * - 타이핑 디바운스 (500ms)
+ * - 비밀번호/OTP 필드 입력은 시크릿으로 기록 (background에서 암호화)
  * - Enter 키로 즉시 플러시 및 submit
  * - Shift+Tab으로 extract
  * - 링크 클릭 시 새 탭 강제 방지
@@ -57,16 +62,15 @@ export function useRecording({
     }
 
     const value = typingValueRef.current ?? "";
-    const masked = value ? "*".repeat(value.length) : "";
 
-    // 요소를 찾아서 locator 생성
+    // 요소를 찾아서 locator 생성 (shadow root 안의 입력은 host chain selector)
     let locator;
+    let secret = false;
     try {
-      const element = document.querySelector(
-        typingSelectorRef.current
-      ) as HTMLElement;
+      const element = querySelector(typingSelectorRef.current);
       if (element) {
         locator = generateRobustLocator(element);
+        secret = isSensitiveInput(element);
       }
     } catch {}
 
@@ -74,13 +78,16 @@ export function useRecording({
       type: "type",
       selector: typingSelectorRef.current, // 하위 호환성
       locator, // 새로운 다중 selector 시스템
-      text: masked,
-      originalText: value,
+      text: secret ? maskSecretValue(value) : value,
       submit: typingSubmitRef.current || undefined,
       url: window.location.href,
     };
 
-    browser.runtime.sendMessage({ type: "REC_STEP", step }).catch(() => {});
+    // 시크릿 값은 Step이 아닌 메시지로만 전달 (background에서 암호화 후 secretRef로 대체)
+    const message: RecordStepMessage = secret
+      ? { type: "REC_STEP", step, secretValue: value }
+      : { type: "REC_STEP", step };
+    browser.runtime.sendMessage(message).catch(() => {});
 
     // 상태 초기화
     typingSelectorRef.current = null;
@@ -94,7 +101,7 @@ export function useRecording({
   const handleClick = useCallback((e: MouseEvent) => {
     if (!recordingRef.current) return;
 
-    const el = e.target as HTMLElement | null;
+    const el = getEventTarget(e) as HTMLElement | null;
     if (!el) return;
 
     // 우리 툴바나 루트 클릭은 무시
@@ -153,7 +160,7 @@ export function useRecording({
     (e: Event) => {
       if (!recordingRef.current || !autoCapture) return;
 
-      const el = e.target as any;
+      const el = getEventTarget(e) as any;
       if (!el) return;
       if (el.closest && el.closest("#automation-wizard-root")) return;
 
@@ -210,7 +217,8 @@ export function useRecording({
       if (!recordingRef.current || !autoCapture) return;
 
       if (e.key === "Enter") {
-        const active = document.activeElement as any;
+        // shadow root 안의 입력이면 document.activeElement는 host이므로 이벤트의 실제 대상 사용
+        const active = (getEventTarget(e) ?? document.activeElement) as any;
         const tag = active?.tagName?.toLowerCase();
         const isTextField = active && (tag === "input" || tag === "textarea");
 
@@ -309,7 +317,7 @@ export function useRecording({
     (e: Event) => {
       if (!recordingRef.current || !autoCapture) return;
 
-      const el = e.target as any;
+      const el = getEventTarget(e) as any;
       if (!el) return;
       if (el.closest && el.closest("#automation-wizard-root")) return;
 
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  MemoryStorageAdapter,
+  addPendingSecret,
+  getPendingSecret,
+  getSecret,
+  listPendingSecrets,
+  lockVault,
+  persistPendingSecrets,
+  setPendingSecretStorage,
+  setStorageAdapter,
+  unlockVault,
+} from "@auto-wiz/core";
+
+/**
+ * Vault가 잠긴 상태에서 녹화된 시크릿 대기열 테스트
+ */
+
+describe("Pending secrets", () => {
+  let session: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    session = new MemoryStorageAdapter();
+    setPendingSecretStorage(session);
+    setStorageAdapter(new MemoryStorageAdapter());
+    lockVault();
+  });
+
+  it("should keep secrets until the vault is unlocked", async () => {
+    const secretRef = await addPendingSecret("hunter2", "Login");
+
+    expect(secretRef).toMatch(/^secret_/);
+    expect(await getPendingSecret(secretRef)).toEqual({
+      value: "hunter2",
+      label: "Login",
+    });
+
+    await unlockVault("correct horse");
+    expect(await persistPendingSecrets()).toBe(1);
+
+    expect(await getSecret(secretRef)).toBe("hunter2");
+    expect(await listPendingSecrets()).toEqual({});
+    expect(await getPendingSecret(secretRef)).toBeNull();
+  });
+
+  it("should survive a service worker restart", async () => {
+    const secretRef = await addPendingSecret("hunter2");
+
+    // service worker 재시작: 모듈 상태(메모리)는 사라지고 세션 스토리지만 남음
+    vi.resetModules();
+    const restarted = await import("@auto-wiz/core");
+    restarted.setPendingSecretStorage(session);
+    restarted.setStorageAdapter(new MemoryStorageAdapter());
+
+    expect(await restarted.getPendingSecret(secretRef)).toEqual({
+      value: "hunter2",
+    });
+
+    await restarted.unlockVault("correct horse");
+    await restarted.persistPendingSecrets();
+    expect(await restarted.getSecret(secretRef)).toBe("hunter2");
+  });
+});
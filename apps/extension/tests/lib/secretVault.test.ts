@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  setStorageAdapter,
+  MemoryStorageAdapter,
+  isVaultInitialized,
+  isVaultUnlocked,
+  unlockVault,
+  lockVault,
+  storeSecret,
+  getSecret,
+  listSecrets,
+  resolveFlowSecrets,
+  redactFlowSecrets,
+  migrateLegacySecrets,
+} from "@auto-wiz/core";
+import type { Flow } from "@auto-wiz/core";
+import {
+  DomFlowRunner,
+  generateRobustLocator,
+  isSensitiveInput,
+} from "@auto-wiz/dom";
+
+/**
+ * 시크릿 Vault 테스트 (WebCrypto 암호화, 참조 치환, 레거시 마이그레이션)
+ */
+
+describe("Secret Vault (Memory Adapter)", () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    setStorageAdapter(adapter);
+    lockVault();
+  });
+
+  const loginFlow = (steps: Flow["steps"]): Flow => ({
+    id: "login",
+    title: "Login",
+    createdAt: 0,
+    steps,
+  });
+
+  it("should create the vault on first unlock", async () => {
+    expect(await isVaultInitialized()).toBe(false);
+
+    await unlockVault("correct horse");
+
+    expect(await isVaultInitialized()).toBe(true);
+    expect(isVaultUnlocked()).toBe(true);
+  });
+
+  it("should encrypt secrets at rest and decrypt them by reference", async () => {
+    await unlockVault("correct horse");
+    const secretRef = await storeSecret("hunter2", "Login");
+
+    expect(JSON.stringify(await adapter.get("secretVault"))).not.toContain(
+      "hunter2"
+    );
+    expect(await getSecret(secretRef)).toBe("hunter2");
+    expect(await listSecrets()).toEqual([
+      expect.objectContaining({ id: secretRef, label: "Login" }),
+    ]);
+  });
+
+  it("should reject a wrong passphrase and keep the vault locked", async () => {
+    await unlockVault("correct horse");
+    const secretRef = await storeSecret("hunter2");
+    lockVault();
+
+    await expect(unlockVault("wrong")).rejects.toThrow("Incorrect passphrase");
+    await expect(getSecret(secretRef)).rejects.toThrow("locked");
+
+    await unlockVault("correct horse");
+    expect(await getSecret(secretRef)).toBe("hunter2");
+  });
+
+  it("should resolve secret references only at run time", async () => {
+    const flow = loginFlow([
+      { type: "type", selector: "#pw", text: "*******", secretRef: "ref-1" },
+    ]);
+
+    const resolved = await resolveFlowSecrets(flow, async (ref) =>
+      ref === "ref-1" ? "hunter2" : ""
+    );
+
+    expect(resolved.steps[0]).toMatchObject({ text: "hunter2" });
+    expect(resolved.steps[0]).not.toHaveProperty("secretRef");
+    expect(flow.steps[0]).toMatchObject({ text: "*******" });
+  });
+
+  it("should strip plaintext originalText from exported flows", () => {
+    const redacted = redactFlowSecrets(
+      loginFlow([
+        {
+          type: "type",
+          selector: "#pw",
+          text: "*******",
+          originalText: "hunter2",
+        },
+      ])
+    );
+
+    expect(JSON.stringify(redacted)).not.toContain("hunter2");
+  });
+
+  it("should migrate legacy originalText into the vault", async () => {
+    await unlockVault("correct horse");
+    const migrated = await migrateLegacySecrets(
+      loginFlow([
+        {
+          type: "type",
+          selector: "#pw",
+          text: "*******",
+          originalText: "hunter2",
+        },
+        {
+          type: "type",
+          selector: "#user",
+          text: "****",
+          originalText: "{{username}}",
+        },
+      ])
+    );
+
+    const [password, username] = migrated!.steps as any[];
+    expect(password.originalText).toBeUndefined();
+    expect(await getSecret(password.secretRef)).toBe("hunter2");
+    expect(username).toMatchObject({ text: "{{username}}" });
+    expect(username.secretRef).toBeUndefined();
+    expect(await migrateLegacySecrets(migrated!)).toBeNull();
+  });
+
+  it("should type resolved secrets with DomFlowRunner", async () => {
+    document.body.innerHTML = `<input id="pw" type="password" />`;
+
+    const result = await new DomFlowRunner().run(
+      loginFlow([
+        { type: "type", selector: "#pw", text: "*******", secretRef: "ref-1" },
+      ]),
+      undefined,
+      { resolveSecret: async () => "hunter2" }
+    );
+
+    expect(result.success).toBe(true);
+    expect((document.querySelector("#pw") as HTMLInputElement).value).toBe(
+      "hunter2"
+    );
+  });
+
+  it("should fail the run when the vault is locked", async () => {
+    const result = await new DomFlowRunner().run(
+      loginFlow([
+        { type: "type", selector: "#pw", text: "*******", secretRef: "ref-1" },
+      ])
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("locked");
+  });
+
+  describe("isSensitiveInput", () => {
+    it("should detect password and one-time-code fields", () => {
+      document.body.innerHTML = `
+        <input id="pw" type="password" />
+        <input id="otp" autocomplete="one-time-code" />
+        <input id="name" type="text" />
+      `;
+
+      expect(isSensitiveInput(document.querySelector("#pw")!)).toBe(true);
+      expect(isSensitiveInput(document.querySelector("#otp")!)).toBe(true);
+      expect(isSensitiveInput(document.querySelector("#name")!)).toBe(false);
+    });
+
+    it("should keep typed secrets out of recorded locators", () => {
+      document.body.innerHTML = `
+        <input id="pw" type="password" placeholder="Password" />
+      `;
+      const input = document.querySelector("#pw") as HTMLInputElement;
+      input.value = "hunter2";
+
+      const locator = generateRobustLocator(input);
+      expect(locator.metadata?.text).toBe("Password");
+      expect(JSON.stringify(locator)).not.toContain("hunter2");
+    });
+  });
+});
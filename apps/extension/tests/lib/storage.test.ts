@@ -10,6 +10,14 @@ import {
   removeStep,
   updateStep,
   updateFlow,
+  listFlows,
+  createFlow,
+  openFlow,
+  duplicateFlow,
+  renameFlow,
+  deleteFlow,
+  getActiveFlowId,
+  getFlowById,
 } from "@auto-wiz/core";
 import type { Flow, Step } from "@auto-wiz/core";
 
@@ -127,3 +135,122 @@ describe("Flow Storage (Memory Adapter)", () => {
     expect(flow?.startUrl).toBe("https://example.com");
   });
 });
+
+describe("Flow Library (Memory Adapter)", () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    setStorageAdapter(adapter);
+  });
+
+  const mockStep: Step = {
+    type: "click",
+    selector: "button",
+    locator: { primary: "button", fallbacks: [] },
+  };
+
+  it("should keep previous flows when creating a new one", async () => {
+    const first = await createFlow("Login");
+    await addStep(mockStep);
+
+    const second = await createFlow("Search");
+
+    const flows = await listFlows();
+    expect(flows.map((f) => f.id).sort()).toEqual(
+      [first.id, second.id].sort()
+    );
+    expect(await getActiveFlowId()).toBe(second.id);
+    expect((await getFlowById(first.id))?.steps).toHaveLength(1);
+  });
+
+  it("should switch the active flow with openFlow", async () => {
+    const first = await createFlow("Login");
+    await createFlow("Search");
+
+    await openFlow(first.id);
+
+    const active = await getFlow();
+    expect(active?.id).toBe(first.id);
+    expect(active?.title).toBe("Login");
+  });
+
+  it("should operate on a specific flow id", async () => {
+    const first = await createFlow("Login");
+    const second = await createFlow("Search");
+
+    await addStep(mockStep, first.id);
+    await addStep({ ...mockStep, selector: "#second" }, first.id);
+    await updateStep(1, { ...mockStep, selector: "#updated" }, first.id);
+    await removeStep(0, first.id);
+
+    const updated = await getFlowById(first.id);
+    expect(updated?.steps).toHaveLength(1);
+    expect((updated?.steps[0] as any).selector).toBe("#updated");
+    expect((await getFlowById(second.id))?.steps).toHaveLength(0);
+  });
+
+  it("should duplicate a flow with a new id", async () => {
+    const original = await createFlow("Login");
+    await addStep(mockStep);
+
+    const copy = await duplicateFlow(original.id);
+
+    expect(copy.id).not.toBe(original.id);
+    expect(copy.title).toBe("Login (copy)");
+    expect(copy.steps).toHaveLength(1);
+
+    // 복제본 수정이 원본에 영향을 주지 않아야 함
+    await addStep(mockStep, copy.id);
+    expect((await getFlowById(original.id))?.steps).toHaveLength(1);
+  });
+
+  it("should rename a flow", async () => {
+    const flow = await createFlow("Login");
+    await renameFlow(flow.id, "Admin Login");
+
+    expect((await getFlowById(flow.id))?.title).toBe("Admin Login");
+  });
+
+  it("should delete a flow and fall back to another active flow", async () => {
+    const first = await createFlow("Login");
+    const second = await createFlow("Search");
+
+    await deleteFlow(second.id);
+
+    expect(await getFlowById(second.id)).toBeNull();
+    expect(await getActiveFlowId()).toBe(first.id);
+  });
+
+  it("should clear only the active flow", async () => {
+    const first = await createFlow("Login");
+    await addStep(mockStep);
+    const second = await createFlow("Search");
+    await addStep(mockStep);
+
+    await clearFlow();
+
+    expect((await getFlowById(second.id))?.steps).toHaveLength(0);
+    expect((await getFlowById(second.id))?.title).toBe("Search");
+    expect((await getFlowById(first.id))?.steps).toHaveLength(1);
+  });
+
+  it("should migrate a legacy single flow into the library", async () => {
+    const legacy: Flow = {
+      id: "legacy-id",
+      title: "Legacy Flow",
+      steps: [mockStep],
+      createdAt: 1000,
+    };
+    await adapter.set("flow", legacy);
+
+    const flows = await listFlows();
+    expect(flows).toHaveLength(1);
+    expect(flows[0].id).toBe("legacy-id");
+    expect((await getFlow())?.id).toBe("legacy-id");
+  });
+
+  it("should throw when opening an unknown flow", async () => {
+    await expect(openFlow("missing")).rejects.toThrow("Flow not found");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import type { RecordStepMessage } from "@auto-wiz/core";
+import {
+  lockVault,
+  maskSecretValue,
+  MemoryStorageAdapter,
+  setStorageAdapter,
+  storeSecret,
+  unlockVault,
+} from "@auto-wiz/core";
+import { useRecording } from "../../hooks/useRecording";
+
+/**
+ * Shadow DOM 안의 비밀번호 입력 녹화 테스트
+ * (host chain selector로 요소를 다시 찾아 시크릿으로 기록해야 함)
+ */
+
+describe("Recording inputs inside shadow roots", () => {
+  let password: HTMLInputElement;
+
+  beforeEach(async () => {
+    vi.mocked(browser.runtime.sendMessage).mockClear();
+    setStorageAdapter(new MemoryStorageAdapter());
+    lockVault();
+
+    document.body.innerHTML = `<login-form></login-form>`;
+    const host = document.querySelector("login-form") as HTMLElement;
+    host.attachShadow({ mode: "open" }).innerHTML = `
+      <input id="password" type="password" />
+    `;
+    password = host.shadowRoot!.querySelector("input") as HTMLInputElement;
+  });
+
+  const recordedStep = (): RecordStepMessage => {
+    const messages = vi
+      .mocked(browser.runtime.sendMessage)
+      .mock.calls.map(([message]) => message as unknown as RecordStepMessage)
+      .filter((message) => message.type === "REC_STEP");
+    expect(messages).toHaveLength(1);
+    return messages[0];
+  };
+
+  it("records a password typed in an open shadow root as a secret", async () => {
+    const { result } = renderHook(() => useRecording());
+    await act(() => result.current.startRecording());
+
+    password.value = "hunter2";
+    password.dispatchEvent(
+      new Event("input", { bubbles: true, composed: true })
+    );
+    await act(() => result.current.stopRecording());
+
+    const message = recordedStep();
+    expect(message.secretValue).toBe("hunter2");
+    expect(message.step).toMatchObject({
+      type: "type",
+      selector: "login-form >>> #password",
+      text: maskSecretValue("hunter2"),
+    });
+    expect(JSON.stringify(message.step)).not.toContain("hunter2");
+
+    // background와 같이 시크릿 값을 Vault에 저장하고 Step에는 참조만 남김
+    await unlockVault("correct horse");
+    const step = {
+      ...message.step,
+      secretRef: await storeSecret(message.secretValue!, "Login"),
+    };
+    expect(step.secretRef).toEqual(expect.any(String));
+    expect(JSON.stringify(step)).not.toContain("hunter2");
+  });
+});
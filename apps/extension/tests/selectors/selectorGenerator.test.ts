@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { makeSelector, generateRobustLocator } from "@auto-wiz/dom";
+import {
+  makeSelector,
+  makeListSelector,
+  generateRobustLocator,
+} from "@auto-wiz/dom";
 
 describe("Selector Generation (Real Implementation)", () => {
   beforeEach(() => {
@@ -52,6 +56,30 @@ describe("Selector Generation (Real Implementation)", () => {
     });
   });
 
+  describe("makeListSelector", () => {
+    it("should match all repeated items of a list", () => {
+      document.body.innerHTML = `
+        <ul id="results">
+          <li><a href="/a">A</a></li>
+          <li><a href="/b">B</a></li>
+          <li><a href="/c">C</a></li>
+        </ul>
+      `;
+      const link = document.querySelectorAll("a")[1] as HTMLElement;
+
+      const selector = makeListSelector(link);
+
+      expect(document.querySelectorAll(selector)).toHaveLength(3);
+    });
+
+    it("should fall back to makeSelector for single elements", () => {
+      document.body.innerHTML = `<div><span>only</span></div>`;
+      const span = document.querySelector("span") as HTMLElement;
+
+      expect(makeListSelector(span)).toBe(makeSelector(span));
+    });
+  });
+
   describe("generateRobustLocator", () => {
     it("should prioritize test-id", () => {
       const button = document.createElement("button");
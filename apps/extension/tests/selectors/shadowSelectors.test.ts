@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  findByLocator,
+  generateRobustLocator,
+  getComposedParent,
+  getEventTarget,
+  getShadowHosts,
+  getSimpleSelector,
+  makeListSelector,
+  makeSelector,
+  querySelector,
+  querySelectorAll,
+} from "@auto-wiz/dom";
+
+/**
+ * Shadow DOM host chain selector 생성/검색 테스트
+ */
+
+describe("Shadow DOM selectors", () => {
+  let app: HTMLElement;
+  let form: HTMLElement;
+  let save: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = `<my-app></my-app>`;
+    app = document.querySelector("my-app") as HTMLElement;
+    const appRoot = app.attachShadow({ mode: "open" });
+    appRoot.innerHTML = `
+      <header><button aria-label="Menu">=</button></header>
+      <my-form id="signup"></my-form>
+    `;
+
+    form = appRoot.querySelector("my-form") as HTMLElement;
+    form.attachShadow({ mode: "open" }).innerHTML = `
+      <ul>
+        <li class="item">One</li>
+        <li class="item">Two</li>
+      </ul>
+      <button data-testid="save">Save</button>
+      <button aria-label="Menu">=</button>
+    `;
+    save = form.shadowRoot!.querySelector("button") as HTMLElement;
+  });
+
+  it("lists shadow hosts from the outside in", () => {
+    expect(getShadowHosts(save)).toEqual([app, form]);
+    expect(getShadowHosts(app)).toEqual([]);
+    expect(getComposedParent(form.shadowRoot!.querySelector("ul")!)).toBe(form);
+  });
+
+  describe("querySelector", () => {
+    it("resolves host chains through nested shadow roots", () => {
+      expect(
+        querySelector('my-app >>> my-form#signup >>> [data-testid="save"]')
+      ).toBe(save);
+      expect(querySelectorAll("my-app >>> my-form >>> li")).toHaveLength(2);
+      expect(querySelectorAll('my-app >>> [aria-label="Menu"]')).toHaveLength(
+        1
+      );
+    });
+
+    it("finds nothing through hosts without a shadow root", () => {
+      expect(querySelector("body >>> button")).toBeNull();
+      expect(querySelector('[data-testid="save"]')).toBeNull();
+    });
+
+    it("resolves locators with host chain selectors", () => {
+      expect(
+        findByLocator({
+          primary: "my-app >>> #missing",
+          fallbacks: ['my-app >>> my-form#signup >>> [data-testid="save"]'],
+        })
+      ).toBe(save);
+    });
+  });
+
+  describe("generation", () => {
+    it("prefixes selectors with the host chain", () => {
+      expect(makeSelector(save)).toBe(
+        'my-app >>> my-form#signup >>> button[data-testid="save"]'
+      );
+      expect(getSimpleSelector(form)).toBe("my-app >>> #signup");
+    });
+
+    it("keeps list selectors inside the shadow root", () => {
+      const second = form.shadowRoot!.querySelectorAll("li")[1] as HTMLElement;
+      const selector = makeListSelector(second);
+
+      expect(selector).toBe("my-app >>> my-form#signup >>> ul>li");
+      expect(querySelectorAll(selector)).toHaveLength(2);
+    });
+
+    it("records unique host chain locators", () => {
+      const locator = generateRobustLocator(save);
+
+      expect(locator.primary).toBe(
+        'my-app >>> my-form#signup >>> [data-testid="save"]'
+      );
+      expect(locator.matchCount).toBe(1);
+      expect(locator.fallbacks.every((s) => s.startsWith("my-app >>> "))).toBe(
+        true
+      );
+      expect(querySelector(locator.primary)).toBe(save);
+    });
+
+    it("counts matches within the element's shadow root only", () => {
+      const menu = form.shadowRoot!.querySelector(
+        '[aria-label="Menu"]'
+      ) as HTMLElement;
+      const locator = generateRobustLocator(menu);
+
+      expect(locator.primary).toBe(
+        'my-app >>> my-form#signup >>> [aria-label="Menu"]'
+      );
+      expect(locator.matchCount).toBe(1);
+    });
+  });
+
+  it("reads the event target inside shadow roots", () => {
+    let target: Element | null = null;
+    const listener = (event: Event) => {
+      target = getEventTarget(event);
+    };
+    document.addEventListener("click", listener, true);
+    save.dispatchEvent(
+      new MouseEvent("click", { bubbles: true, composed: true })
+    );
+    document.removeEventListener("click", listener, true);
+
+    expect(target).toBe(save);
+  });
+});
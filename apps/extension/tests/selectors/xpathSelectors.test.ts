@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  findByLocator,
+  generateRobustLocator,
+  isValidSelector,
+  makeAttributeXPath,
+  makeTextXPath,
+  makeUniqueSelector,
+  querySelector,
+  querySelectorAll,
+  xpathLiteral,
+} from "@auto-wiz/dom";
+
+/**
+ * XPath selector 생성/검색 테스트
+ * (happy-dom은 document.evaluate를 지원하지 않아 jsdom 사용)
+ */
+
+describe("XPath selectors", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="login">
+        <div>
+          <span>Remember me</span>
+        </div>
+        <div>
+          <button>  Save
+            changes </button>
+          <button>Cancel</button>
+        </div>
+      </form>
+      <ul>
+        <li>Row</li>
+        <li>Row</li>
+      </ul>
+    `;
+  });
+
+  const buttons = () => document.querySelectorAll("button");
+
+  it("quotes literals with either quote type", () => {
+    expect(xpathLiteral("Save")).toBe("'Save'");
+    expect(xpathLiteral("Don't")).toBe(`"Don't"`);
+    expect(xpathLiteral(`Say "don't"`)).toBe(`concat('Say "don', "'", 't"')`);
+  });
+
+  describe("querySelector", () => {
+    it("finds elements by xpath= selectors", () => {
+      expect(querySelector("xpath=//button[text()='Cancel']")).toBe(
+        buttons()[1]
+      );
+      expect(querySelectorAll("xpath=//form//button")).toHaveLength(2);
+      expect(querySelector("xpath=//button[@id='missing']")).toBeNull();
+    });
+
+    it("rejects invalid XPath", () => {
+      expect(isValidSelector("xpath=//button[")).toBe(false);
+      expect(isValidSelector("xpath=//button")).toBe(true);
+      expect(querySelectorAll("xpath=//button[")).toEqual([]);
+    });
+  });
+
+  it("falls back to xpath= selectors in findByLocator", () => {
+    expect(
+      findByLocator({
+        primary: "#save",
+        fallbacks: ["xpath=//button[normalize-space()='Save changes']"],
+      })
+    ).toBe(buttons()[0]);
+  });
+
+  describe("generation", () => {
+    it("anchors text XPath on the normalized text", () => {
+      const xpath = makeTextXPath(buttons()[0]);
+      expect(xpath).toBe("xpath=//button[normalize-space()='Save changes']");
+      expect(querySelector(xpath!)).toBe(buttons()[0]);
+
+      expect(makeTextXPath(document.createElement("div"))).toBeNull();
+    });
+
+    it("anchors attribute XPath on the closest ancestor attribute", () => {
+      const xpath = makeAttributeXPath(buttons()[1]);
+      expect(xpath).toBe("xpath=//form[@id='login']/div[2]/button[2]");
+      expect(querySelector(xpath!)).toBe(buttons()[1]);
+
+      expect(makeAttributeXPath(document.querySelector("li")!)).toBeNull();
+    });
+
+    it("makes shared XPath unique by position", () => {
+      const second = document.querySelectorAll("li")[1];
+      expect(
+        makeUniqueSelector(second, {
+          selector: "xpath=//li[normalize-space()='Row']",
+          kind: "xpathText",
+        })
+      ).toMatchObject({
+        selector: "xpath=(//li[normalize-space()='Row'])[2]",
+        variant: "nth",
+        unique: true,
+      });
+    });
+
+    it("records XPath as the last fallbacks", () => {
+      const locator = generateRobustLocator(buttons()[0]);
+
+      expect(locator.primary).not.toMatch(/^xpath=/);
+      expect(locator.fallbacks.slice(-2)).toEqual([
+        "xpath=//button[normalize-space()='Save changes']",
+        "xpath=//form[@id='login']/div[2]/button[1]",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Step, AssertStep } from "@auto-wiz/core";
+import {
+  evaluateAssertion,
+  parseAssertionPattern,
+  validateStep,
+  resolveStepVariables,
+} from "@auto-wiz/core";
+import { executeStep, DomFlowRunner } from "@auto-wiz/dom";
+
+/**
+ * Assert step 테스트 (판정 로직, 검증, DOM 실행)
+ */
+
+describe("Assert Step", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <h1 id="title">Welcome back, Ada</h1>
+      <input id="email" value="ada@example.com" />
+      <a id="docs" href="/docs" data-state="active">Docs</a>
+      <div id="banner" style="display: none">Saved</div>
+      <ul>
+        <li class="item">One</li>
+        <li class="item">Two</li>
+        <li class="item">Three</li>
+      </ul>
+    `;
+  });
+
+  const assertStep = (step: Omit<AssertStep, "type">): Step => ({
+    type: "assert",
+    timeoutMs: 0,
+    ...step,
+  });
+
+  describe("evaluateAssertion", () => {
+    const state = {
+      url: "https://example.com/dashboard?tab=1",
+      count: 1,
+      visible: true,
+      text: "Welcome back, Ada",
+    };
+
+    it("should compare text with equals, contains and regex", () => {
+      const base = { type: "assert" as const, selector: "#title" };
+
+      expect(
+        evaluateAssertion(
+          { ...base, assertion: "textEquals", expected: "Welcome back, Ada" },
+          state
+        ).passed
+      ).toBe(true);
+      expect(
+        evaluateAssertion(
+          { ...base, assertion: "textContains", expected: "Ada" },
+          state
+        ).passed
+      ).toBe(true);
+      expect(
+        evaluateAssertion(
+          { ...base, assertion: "textMatches", expected: "/^welcome/i" },
+          state
+        ).passed
+      ).toBe(true);
+    });
+
+    it("should report the actual value on failure", () => {
+      const outcome = evaluateAssertion(
+        {
+          type: "assert",
+          assertion: "textEquals",
+          selector: "#title",
+          expected: "Goodbye",
+        },
+        state
+      );
+
+      expect(outcome.passed).toBe(false);
+      expect(outcome.message).toBe(
+        'Assertion failed: text of #title equals "Goodbye" (actual: "Welcome back, Ada")'
+      );
+    });
+
+    it("should match the URL without an element", () => {
+      expect(
+        evaluateAssertion(
+          { type: "assert", assertion: "urlMatches", expected: "/dashboard" },
+          { url: state.url, count: 0, visible: false }
+        ).passed
+      ).toBe(true);
+    });
+
+    it("should parse /pattern/flags literals", () => {
+      expect(parseAssertionPattern("/abc/i").flags).toBe("i");
+      expect(parseAssertionPattern("a/b").source).toBe("a\\/b");
+    });
+  });
+
+  describe("validateStep", () => {
+    it("should accept well-formed assertions", () => {
+      expect(
+        validateStep({ type: "assert", assertion: "visible", selector: "#a" })
+          .valid
+      ).toBe(true);
+      expect(
+        validateStep({ type: "assert", assertion: "urlMatches", expected: "x" })
+          .valid
+      ).toBe(true);
+    });
+
+    it("should reject missing selector, attribute, pattern and count", () => {
+      expect(
+        validateStep({ type: "assert", assertion: "visible" }).error
+      ).toBe("Assert step requires selector");
+      expect(
+        validateStep({
+          type: "assert",
+          assertion: "attributeEquals",
+          selector: "#a",
+          expected: "x",
+        }).error
+      ).toContain("attribute name");
+      expect(
+        validateStep({
+          type: "assert",
+          assertion: "textMatches",
+          selector: "#a",
+          expected: "(",
+        }).error
+      ).toBe("Invalid pattern: (");
+      expect(
+        validateStep({
+          type: "assert",
+          assertion: "count",
+          selector: "li",
+          count: -1,
+        }).error
+      ).toBe("Count must be a non-negative integer");
+    });
+
+    it("should interpolate {{placeholders}} in expected values", () => {
+      const step = resolveStepVariables(
+        {
+          type: "assert",
+          assertion: "textContains",
+          selector: "#title",
+          expected: "{{name}}",
+        },
+        { name: "Ada" }
+      );
+
+      expect(step).toMatchObject({ expected: "Ada" });
+    });
+  });
+
+  describe("DOM execution", () => {
+    it("should pass text, value and attribute assertions", async () => {
+      const steps: Step[] = [
+        assertStep({
+          assertion: "textContains",
+          selector: "#title",
+          expected: "Ada",
+        }),
+        assertStep({
+          assertion: "valueEquals",
+          selector: "#email",
+          expected: "ada@example.com",
+        }),
+        assertStep({
+          assertion: "attributeEquals",
+          selector: "#docs",
+          attribute: "data-state",
+          expected: "active",
+        }),
+      ];
+
+      for (const step of steps) {
+        expect(await executeStep(step)).toMatchObject({ success: true });
+      }
+    });
+
+    it("should check visibility and element count", async () => {
+      expect(
+        await executeStep(assertStep({ assertion: "hidden", selector: "#banner" }))
+      ).toMatchObject({ success: true });
+      expect(
+        await executeStep(
+          assertStep({ assertion: "visible", selector: "#banner" })
+        )
+      ).toMatchObject({ success: false });
+      expect(
+        await executeStep(
+          assertStep({ assertion: "hidden", selector: "#missing" })
+        )
+      ).toMatchObject({ success: true });
+      expect(
+        await executeStep(
+          assertStep({ assertion: "count", selector: "li.item", count: 3 })
+        )
+      ).toMatchObject({ success: true });
+    });
+
+    it("should retry until the assertion passes", async () => {
+      setTimeout(() => {
+        document.querySelector("#banner")!.removeAttribute("style");
+      }, 150);
+
+      const result = await executeStep(
+        assertStep({ assertion: "visible", selector: "#banner", timeoutMs: 2000 })
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should fail the flow at the failing assertion", async () => {
+      const result = await new DomFlowRunner().run({
+        id: "assert",
+        title: "Assert",
+        createdAt: 0,
+        steps: [
+          assertStep({ assertion: "visible", selector: "#title" }),
+          assertStep({
+            assertion: "textEquals",
+            selector: "#title",
+            expected: "Error",
+          }),
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failedStepIndex).toBe(1);
+      expect(result.error).toContain("Assertion failed");
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { ConformanceHarness } from "@auto-wiz/core";
+import {
+  RUNNER_CONFORMANCE_CASES,
+  compareRunResult,
+  conformancePageHtml,
+  findConformancePage,
+  runConformanceCase,
+} from "@auto-wiz/core";
+import { DomFlowRunner } from "@auto-wiz/dom";
+
+/**
+ * Runner conformance 테스트 (DomFlowRunner를 공통 케이스에 연결)
+ * 페이지 로드/스크린샷 케이스는 background가 처리하므로 제외
+ */
+
+describe("Runner Conformance", () => {
+  const harness: ConformanceHarness<void> = {
+    runner: new DomFlowRunner(),
+    openPage: async (page) => {
+      document.title = page.title;
+      document.body.innerHTML = page.body;
+    },
+  };
+
+  it.each(
+    RUNNER_CONFORMANCE_CASES.filter((testCase) => !testCase.browserOnly).map(
+      (testCase) => [testCase.name, testCase]
+    )
+  )("DomFlowRunner %s", async (_name, testCase) => {
+    const result = await runConformanceCase(harness, testCase);
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it("should report mismatched results", () => {
+    expect(
+      compareRunResult(
+        {
+          success: false,
+          error: "Element not found",
+          failedStepIndex: 2,
+          extractedData: { title: "Orders", total: "42" },
+        },
+        {
+          success: true,
+          extractedData: { total: "42", title: "Orders" },
+        }
+      )
+    ).toEqual(["success: expected true, got false (Element not found)"]);
+
+    expect(
+      compareRunResult(
+        { success: false, failedStepIndex: 1, extractedData: {} },
+        { success: false, failedStepIndex: 0, extractedData: { title: "A" } }
+      )
+    ).toEqual([
+      "failedStepIndex: expected 0, got 1",
+      'extractedData: expected {"title":"A"}, got {}',
+    ]);
+  });
+
+  it("should only check the format of screenshot results", () => {
+    const expected = {
+      success: true,
+      extractedData: { title: "Checkout" },
+      imageKeys: ["step_1"],
+    };
+
+    expect(
+      compareRunResult(
+        {
+          success: true,
+          extractedData: {
+            step_1: "data:image/png;base64,iVBORw0KGgo=",
+            title: "Checkout",
+          },
+        },
+        expected
+      )
+    ).toEqual([]);
+    expect(
+      compareRunResult(
+        { success: true, extractedData: { title: "Checkout" } },
+        expected
+      )
+    ).toEqual(["extractedData.step_1: expected a PNG data URL"]);
+  });
+
+  it("should serve fixture pages by path", () => {
+    const page = findConformancePage("/form.html");
+    expect(page).not.toBeNull();
+    expect(conformancePageHtml(page!)).toContain(
+      "<title>Checkout form</title>"
+    );
+    expect(findConformancePage("/missing.html")).toBeNull();
+  });
+});
@@ -79,7 +79,28 @@ describe("Step Execution with Locator Integration", () => {
 
       expect(result.success).toBe(true);
       expect(clicked).toBe(true);
-      expect(result.usedSelector).toBe("[data-testid='nonexistent']"); // primary selector used in locator
+      expect(result.usedSelector).toBe(".action-btn"); // 실제로 찾은 fallback
+      expect(result.locatorTier).toBe("fallback");
+    });
+
+    it("should report the tier when locator metadata matched", async () => {
+      container.innerHTML = `
+        <button>Save draft</button>
+      `;
+
+      const result = await executeClickStep({
+        type: "click",
+        selector: "#save",
+        locator: {
+          primary: "#save",
+          fallbacks: [".save"],
+          metadata: { text: "Save draft", tagName: "button" },
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.locatorTier).toBe("text");
+      expect(result.usedSelector).toBe("text");
     });
 
     it("should fail when element is not interactable", async () => {
@@ -480,4 +501,56 @@ describe("Step Execution with Locator Integration", () => {
       expect(passwordInput.value).toBe("secret");
     });
   });
+
+  describe("Locator self-healing", () => {
+    it("reports the primary tier without a healed locator", async () => {
+      container.innerHTML = `<button data-testid="save">Save</button>`;
+      const locator = generateRobustLocator(
+        container.querySelector("button") as HTMLElement
+      );
+
+      const result = await executeClickStep({
+        type: "click",
+        selector: locator.primary,
+        locator,
+      });
+
+      expect(result.locatorTier).toBe("primary");
+      expect(result.healedLocator).toBeUndefined();
+    });
+
+    it("regenerates the locator when a fallback matched", async () => {
+      container.innerHTML = `<button data-testid="save" class="save">Save</button>`;
+
+      const result = await executeClickStep({
+        type: "click",
+        selector: "#old-save",
+        locator: { primary: "#old-save", fallbacks: [".save"] },
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        locatorTier: "fallback",
+      });
+      expect(result.healedLocator?.primary).toBe('[data-testid="save"]');
+    });
+
+    it("regenerates the locator when metadata matched", async () => {
+      container.innerHTML = `<input placeholder="Email" />`;
+
+      const result = await executeTypeStep({
+        type: "type",
+        selector: "#email",
+        locator: {
+          primary: "#email",
+          fallbacks: [],
+          metadata: { placeholder: "Email" },
+        },
+        text: "a@b.com",
+      });
+
+      expect(result.locatorTier).toBe("placeholder");
+      expect(result.healedLocator?.metadata?.placeholder).toBe("Email");
+    });
+  });
 });
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import type { CodegenCli, Flow } from "@auto-wiz/core";
+import { parseCodegenArgs, runCodegenCli } from "@auto-wiz/core";
+
+/**
+ * Codegen CLI 공통 처리 (인자 해석, Flow 선택, 오류 출력) 테스트
+ */
+
+describe("Codegen CLI", () => {
+  const flows: Flow[] = [
+    { id: "checkout", title: "Checkout", createdAt: 0, steps: [] },
+    { id: "login", title: "Log in", createdAt: 0, steps: [] },
+  ];
+  const cli: CodegenCli = {
+    generate: (flow, subFlows) =>
+      `${flow.id}:${subFlows.map((f) => f.id).join(",")}`,
+    usage: "Usage: codegen <flow.json>",
+  };
+
+  let files: Record<string, string>;
+  let output: string[];
+  const io = {
+    readFile: (path: string) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    writeFile: (path: string, content: string) => {
+      files[path] = content;
+    },
+    write: (text: string) => {
+      output.push(text);
+    },
+  };
+
+  beforeEach(() => {
+    files = { "flows.json": JSON.stringify(flows) };
+    output = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should parse the input, --out and --flow", () => {
+    expect(
+      parseCodegenArgs(["flows.json", "-o", "out.ts", "--flow", "login"])
+    ).toEqual({ input: "flows.json", out: "out.ts", flow: "login" });
+    expect(() => parseCodegenArgs([])).toThrow("Missing flow file");
+    expect(() => parseCodegenArgs(["a.json", "b.json"])).toThrow(
+      "Unexpected argument: b.json"
+    );
+    expect(() => parseCodegenArgs(["a.json", "--out"])).toThrow(
+      "Missing --out path"
+    );
+  });
+
+  it("should convert the first flow with the rest as sub-flows", () => {
+    expect(runCodegenCli(cli, ["flows.json"], io)).toBe(0);
+    expect(output).toEqual(["checkout:login"]);
+  });
+
+  it("should write the selected flow to --out", () => {
+    expect(
+      runCodegenCli(
+        cli,
+        ["flows.json", "--flow", "Log in", "--out", "a.ts"],
+        io
+      )
+    ).toBe(0);
+    expect(files["a.ts"]).toBe("login:checkout");
+    expect(console.log).toHaveBeenCalledWith("Wrote a.ts");
+  });
+
+  it("should print the error and usage and exit with 1", () => {
+    expect(runCodegenCli(cli, ["flows.json", "--flow", "missing"], io)).toBe(1);
+    expect(runCodegenCli(cli, ["missing.json"], io)).toBe(1);
+
+    expect(console.error).toHaveBeenCalledWith(
+      "Error: Flow not found: missing"
+    );
+    expect(console.error).toHaveBeenCalledWith("Error: ENOENT: missing.json");
+    expect(console.error).toHaveBeenCalledWith(cli.usage);
+    expect(output).toEqual([]);
+  });
+
+  // 빌드된 bin을 node로 실행 (패키지를 먼저 빌드해야 함)
+  describe("built bins", () => {
+    let dir: string;
+    const runBin = (pkg: string, args: string[]) =>
+      execFileSync(
+        process.execPath,
+        [
+          resolve(__dirname, `../../../../packages/${pkg}/dist/cli.js`),
+          ...args,
+        ],
+        { encoding: "utf8", stdio: "pipe" }
+      );
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "auto-wiz-cli-"));
+      writeFileSync(join(dir, "flows.json"), JSON.stringify(flows));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should run auto-wiz-playwright-codegen", () => {
+      const out = join(dir, "checkout.spec.ts");
+      expect(
+        runBin("playwright", [join(dir, "flows.json"), "--out", out])
+      ).toBe(`Wrote ${out}\n`);
+      expect(readFileSync(out, "utf8")).toContain('test("Checkout", async');
+      expect(() => runBin("playwright", [])).toThrow(/Missing flow file/);
+    });
+
+    it("should run auto-wiz-puppeteer-codegen", () => {
+      const script = runBin("puppeteer", [
+        join(dir, "flows.json"),
+        "--flow",
+        "login",
+      ]);
+      expect(script).toContain(
+        '// Generated by Auto-Wiz from the flow "Log in"'
+      );
+      expect(script).toContain("await puppeteer.launch()");
+      expect(() => runBin("puppeteer", ["a.json", "b.json"])).toThrow(
+        /Unexpected argument: b\.json/
+      );
+    });
+  });
+});
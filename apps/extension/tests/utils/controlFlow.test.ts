@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Flow, Step } from "@auto-wiz/core";
+import {
+  parseCondition,
+  formatCondition,
+  formatStepPath,
+  removeStepAtPath,
+  unwrapStep,
+  wrapSteps,
+  flattenSteps,
+  collectFlowVariables,
+  validateStep,
+  validateSteps,
+} from "@auto-wiz/core";
+import { DomFlowRunner } from "@auto-wiz/dom";
+
+/**
+ * 제어 흐름 스텝 (if/repeat/forEach/while) 테스트
+ */
+
+describe("Control Flow", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="banner">Cookies</div>
+      <ul>
+        <li class="item">One</li>
+        <li class="item">Two</li>
+        <li class="item">Three</li>
+      </ul>
+      <button id="more">More</button>
+      <span id="counter">0</span>
+    `;
+    document.querySelector("#more")!.addEventListener("click", () => {
+      const counter = document.querySelector("#counter")!;
+      counter.textContent = String(Number(counter.textContent) + 1);
+    });
+  });
+
+  const flowOf = (steps: Step[], extra: Partial<Flow> = {}): Flow => ({
+    id: "control",
+    title: "Control",
+    createdAt: 0,
+    steps,
+    ...extra,
+  });
+
+  describe("parseCondition", () => {
+    it("should parse each condition form", () => {
+      expect(parseCondition("exists #banner")).toEqual({
+        type: "exists",
+        selector: "#banner",
+      });
+      expect(parseCondition("text h1 matches /^hi/i")).toEqual({
+        type: "textMatches",
+        selector: "h1",
+        pattern: "/^hi/i",
+      });
+      expect(parseCondition("not var plan = pro")).toEqual({
+        type: "variableEquals",
+        name: "plan",
+        value: "pro",
+        negate: true,
+      });
+      expect(parseCondition("whenever")).toBeNull();
+    });
+
+    it("should round-trip through formatCondition", () => {
+      const text = "not text #status matches done";
+      expect(formatCondition(parseCondition(text)!)).toBe(text);
+    });
+  });
+
+  describe("step tree editing", () => {
+    const steps: Step[] = [
+      { type: "click", selector: "#a" },
+      { type: "click", selector: "#b" },
+      { type: "click", selector: "#c" },
+    ];
+
+    it("should wrap and unwrap steps", () => {
+      const wrapped = wrapSteps(steps, 1, 2, (children) => ({
+        type: "repeat",
+        times: 2,
+        steps: children,
+      }));
+
+      expect(wrapped).toHaveLength(2);
+      expect(flattenSteps(wrapped)).toHaveLength(4);
+      expect(unwrapStep(wrapped, 1)).toEqual(steps);
+    });
+
+    it("should remove a nested step, numbering else after then", () => {
+      const tree: Step[] = [
+        {
+          type: "if",
+          condition: { type: "exists", selector: "#a" },
+          then: [steps[0]],
+          else: [steps[1], steps[2]],
+        },
+      ];
+
+      expect(removeStepAtPath(tree, [0, 2])).toEqual([
+        { ...tree[0], else: [steps[1]] },
+      ]);
+      expect(formatStepPath([0, 2])).toBe("1.3");
+    });
+  });
+
+  describe("validation", () => {
+    it("should report nested errors with their path", () => {
+      const result = validateSteps([
+        { type: "click", selector: "#a" },
+        {
+          type: "repeat",
+          times: 2,
+          steps: [{ type: "click", selector: "" }],
+        },
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Step 2.1");
+    });
+
+    it("should require a bounded while loop", () => {
+      expect(
+        validateStep({
+          type: "while",
+          condition: { type: "exists", selector: "#a" },
+          maxIterations: 0,
+          steps: [],
+        }).valid
+      ).toBe(false);
+    });
+
+    it("should not treat loop variables as flow variables", () => {
+      const flow = flowOf([
+        {
+          type: "forEach",
+          source: { type: "elements", selector: "li" },
+          as: "row",
+          steps: [
+            { type: "click", selector: "{{row.selector}}" },
+            { type: "select", selector: "#s", value: "{{plan}}" },
+          ],
+        },
+      ]);
+
+      expect(collectFlowVariables(flow)).toEqual(["plan"]);
+    });
+  });
+
+  describe("DOM execution", () => {
+    it("should run the matching if branch", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf([
+          {
+            type: "if",
+            condition: { type: "exists", selector: "#banner" },
+            then: [{ type: "extract", selector: "#banner", name: "branch" }],
+            else: [{ type: "extract", selector: "#counter", name: "branch" }],
+          },
+        ])
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.extractedData).toMatchObject({ branch: "Cookies" });
+    });
+
+    it("should repeat steps a fixed number of times", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf([
+          {
+            type: "repeat",
+            times: 3,
+            steps: [{ type: "click", selector: "#more" }],
+          },
+        ])
+      );
+
+      expect(result.success).toBe(true);
+      expect(document.querySelector("#counter")!.textContent).toBe("3");
+    });
+
+    it("should collect extract results for each element", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf([
+          {
+            type: "forEach",
+            source: { type: "elements", selector: "li.item" },
+            steps: [
+              {
+                type: "extract",
+                selector: "{{item.selector}}",
+                name: "items",
+              },
+            ],
+          },
+        ])
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.extractedData).toMatchObject({
+        items: ["One", "Two", "Three"],
+      });
+    });
+
+    it("should stop a while loop when the condition turns false", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf([
+          {
+            type: "while",
+            condition: {
+              type: "textMatches",
+              selector: "#counter",
+              pattern: "^[0-4]$",
+            },
+            maxIterations: 10,
+            steps: [{ type: "click", selector: "#more" }],
+          },
+        ])
+      );
+
+      expect(result.success).toBe(true);
+      expect(document.querySelector("#counter")!.textContent).toBe("5");
+    });
+
+    it("should fail when a while loop exceeds maxIterations", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf([
+          {
+            type: "while",
+            condition: { type: "exists", selector: "#banner" },
+            maxIterations: 2,
+            steps: [{ type: "click", selector: "#more" }],
+          },
+        ])
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.failedStepIndex).toBe(0);
+      expect(result.error).toBe("Step 1: While loop exceeded 2 iterations");
+    });
+
+    it("should report the nested path of a failing step", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf([
+          { type: "click", selector: "#more" },
+          {
+            type: "repeat",
+            times: 1,
+            steps: [
+              { type: "click", selector: "#more" },
+              { type: "click", selector: "#missing", timeoutMs: 50 },
+            ],
+          },
+        ])
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.failedStepIndex).toBe(1);
+      expect(result.error).toMatch(/^Step 2\.2: /);
+    });
+  });
+});
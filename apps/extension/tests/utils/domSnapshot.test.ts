@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { captureDomSnapshot } from "@auto-wiz/dom";
+
+/**
+ * 실패 시 DOM 스냅샷 테스트
+ */
+
+describe("captureDomSnapshot", () => {
+  beforeEach(() => {
+    document.title = "Checkout";
+    document.body.innerHTML = `
+      <form>
+        <input id="name" />
+        <input id="password" type="password" />
+        <input id="agree" type="checkbox" />
+        <textarea id="note"></textarea>
+        <select id="size">
+          <option value="s">S</option>
+          <option value="m">M</option>
+        </select>
+        <button id="pay" onclick="pay()">Pay</button>
+        <a id="link" href="javascript:void(0)">Link</a>
+      </form>
+      <script>window.secret = 1;</script>
+      <iframe srcdoc="<p>frame</p>"></iframe>
+      <div id="automation-wizard-root"><div>toolbar</div></div>
+    `;
+  });
+
+  const parse = (html: string) =>
+    new DOMParser().parseFromString(html, "text/html");
+
+  it("reflects the current form state without password values", () => {
+    (document.querySelector("#name") as HTMLInputElement).value = "Kim";
+    (document.querySelector("#password") as HTMLInputElement).value = "hunter2";
+    (document.querySelector("#agree") as HTMLInputElement).checked = true;
+    (document.querySelector("#note") as HTMLTextAreaElement).value = "Ring";
+    (document.querySelector("#size") as HTMLSelectElement).value = "m";
+
+    const snapshot = captureDomSnapshot();
+    const doc = parse(snapshot.html);
+
+    expect(doc.querySelector("#name")?.getAttribute("value")).toBe("Kim");
+    expect(doc.querySelector("#password")?.hasAttribute("value")).toBe(false);
+    expect(snapshot.html).not.toContain("hunter2");
+    expect(doc.querySelector("#agree")?.hasAttribute("checked")).toBe(true);
+    expect(doc.querySelector("#note")?.textContent).toBe("Ring");
+    expect(
+      doc.querySelector('#size option[value="m"]')?.hasAttribute("selected")
+    ).toBe(true);
+  });
+
+  it("removes scripts, frames, event handlers and excluded elements", () => {
+    const snapshot = captureDomSnapshot(document, {
+      exclude: "#automation-wizard-root",
+    });
+    const doc = parse(snapshot.html);
+
+    expect(snapshot.html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(doc.querySelector("script")).toBeNull();
+    expect(doc.querySelector("iframe")).toBeNull();
+    expect(doc.querySelector("#pay")?.hasAttribute("onclick")).toBe(false);
+    expect(doc.querySelector("#link")?.hasAttribute("href")).toBe(false);
+    expect(doc.querySelector("#automation-wizard-root")).toBeNull();
+    expect(doc.querySelector("base")?.getAttribute("href")).toBe(
+      document.baseURI
+    );
+    expect(snapshot.title).toBe("Checkout");
+    expect(snapshot.url).toBe(window.location.href);
+  });
+
+  it("truncates large documents", () => {
+    const snapshot = captureDomSnapshot(document, { maxLength: 100 });
+
+    expect(snapshot.html).toHaveLength(100);
+    expect(snapshot.truncated).toBe(true);
+    expect(captureDomSnapshot().truncated).toBe(false);
+  });
+
+  it("does not modify the page", () => {
+    const before = document.documentElement.outerHTML;
+    captureDomSnapshot(document, { exclude: "#automation-wizard-root" });
+
+    expect(document.documentElement.outerHTML).toBe(before);
+  });
+});
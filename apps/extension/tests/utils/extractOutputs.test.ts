@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  getExtractOutputKey,
+  makeUniqueExtractName,
+  extractedDataToCsv,
+  validateStep,
+  validateSteps,
+} from "@auto-wiz/core";
+import type { Flow, Step } from "@auto-wiz/core";
+import { DomFlowRunner, executeExtractStep } from "@auto-wiz/dom";
+
+/**
+ * Extract 출력 이름 및 결과 내보내기 테스트
+ */
+
+describe("Extract Outputs", () => {
+  const flowWith = (steps: Step[]): Flow => ({
+    id: "extract",
+    title: "Extract",
+    createdAt: 0,
+    steps,
+  });
+
+  describe("getExtractOutputKey", () => {
+    it("should use the declared output name", () => {
+      expect(
+        getExtractOutputKey(
+          { type: "extract", selector: "h1", name: " title " },
+          3
+        )
+      ).toBe("title");
+    });
+
+    it("should fall back to step_${index} for unnamed steps", () => {
+      expect(getExtractOutputKey({ type: "extract", selector: "h1" }, 3)).toBe(
+        "step_3"
+      );
+    });
+  });
+
+  describe("makeUniqueExtractName", () => {
+    it("should append a numeric suffix on collision", () => {
+      const flow = flowWith([
+        { type: "extract", selector: "a", name: "price" },
+        { type: "extract", selector: "b", name: "price_2" },
+      ]);
+
+      expect(makeUniqueExtractName(flow, "title")).toBe("title");
+      expect(makeUniqueExtractName(flow, "price")).toBe("price_3");
+    });
+  });
+
+  describe("validation", () => {
+    it("should reject invalid output names", () => {
+      expect(
+        validateStep({ type: "extract", selector: "h1", name: "my title" })
+          .valid
+      ).toBe(false);
+    });
+
+    it("should require attribute name for attribute prop", () => {
+      expect(
+        validateStep({ type: "extract", selector: "img", prop: "attribute" })
+          .valid
+      ).toBe(false);
+      expect(
+        validateStep({
+          type: "extract",
+          selector: "img",
+          prop: "attribute",
+          attribute: "src",
+        }).valid
+      ).toBe(true);
+    });
+
+    it("should reject duplicate output names", () => {
+      const result = validateSteps([
+        { type: "extract", selector: "h1", name: "title" },
+        { type: "extract", selector: "h2", name: "title" },
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Step 2");
+    });
+  });
+
+  describe("extractedDataToCsv", () => {
+    it("should spread lists into rows and repeat single values", () => {
+      const csv = extractedDataToCsv({
+        page: "Shop",
+        names: ["Apple", "Pear, green"],
+        prices: ["1", "2"],
+      });
+
+      expect(csv.split("\n")).toEqual([
+        "page,names,prices",
+        "Shop,Apple,1",
+        'Shop,"Pear, green",2',
+      ]);
+    });
+
+    it("should output a single row for scalar results", () => {
+      expect(extractedDataToCsv({ title: "Hello" })).toBe("title\nHello");
+    });
+  });
+
+  describe("executeExtractStep", () => {
+    let container: HTMLDivElement;
+
+    beforeEach(() => {
+      container = document.createElement("div");
+      container.innerHTML = `
+        <a id="docs" href="/docs" data-kind="guide"><b>Docs</b></a>
+        <ul>
+          <li class="item">One</li>
+          <li class="item">Two</li>
+        </ul>
+      `;
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      document.body.removeChild(container);
+    });
+
+    it("should extract href, attributes and HTML", async () => {
+      const href = await executeExtractStep({
+        type: "extract",
+        selector: "#docs",
+        prop: "href",
+      });
+      const attribute = await executeExtractStep({
+        type: "extract",
+        selector: "#docs",
+        prop: "attribute",
+        attribute: "data-kind",
+      });
+      const html = await executeExtractStep({
+        type: "extract",
+        selector: "#docs",
+        prop: "innerHTML",
+      });
+
+      expect(href.extractedData).toMatch(/\/docs$/);
+      expect(attribute.extractedData).toBe("guide");
+      expect(html.extractedData).toBe("<b>Docs</b>");
+    });
+
+    it("should extract a list of all matching elements", async () => {
+      const result = await executeExtractStep({
+        type: "extract",
+        selector: "li.item",
+        multiple: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.extractedData).toEqual(["One", "Two"]);
+    });
+
+    it("should key run results by output name", async () => {
+      const result = await new DomFlowRunner().run(
+        flowWith([
+          { type: "extract", selector: "#docs", name: "docsLabel" },
+          {
+            type: "extract",
+            selector: "li.item",
+            name: "items",
+            multiple: true,
+          },
+          {
+            type: "extract",
+            selector: "#docs",
+            prop: "attribute",
+            attribute: "data-kind",
+          },
+        ])
+      );
+
+      expect(result.extractedData).toEqual({
+        docsLabel: "Docs",
+        items: ["One", "Two"],
+        step_2: "guide",
+      });
+    });
+  });
+});
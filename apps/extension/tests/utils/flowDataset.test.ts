@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  parseCsv,
+  parseJsonDataset,
+  parseDataset,
+  runFlowWithDataset,
+  datasetResultsToCsv,
+} from "@auto-wiz/core";
+import type { Flow, DatasetRowResult } from "@auto-wiz/core";
+import { DomFlowRunner } from "@auto-wiz/dom";
+
+/**
+ * Data-driven 실행 (CSV/JSON Dataset) 테스트
+ */
+
+describe("Flow Dataset", () => {
+  describe("parseCsv", () => {
+    it("should use the first row as header", () => {
+      const dataset = parseCsv(
+        "name,email\nKim,kim@example.com\nLee,lee@example.com"
+      );
+
+      expect(dataset.columns).toEqual(["name", "email"]);
+      expect(dataset.rows).toEqual([
+        { name: "Kim", email: "kim@example.com" },
+        { name: "Lee", email: "lee@example.com" },
+      ]);
+    });
+
+    it("should handle quotes, escaped quotes and embedded newlines", () => {
+      const dataset = parseCsv('q,note\n"a, b","say ""hi""\nthere"');
+
+      expect(dataset.rows).toEqual([{ q: "a, b", note: 'say "hi"\nthere' }]);
+    });
+
+    it("should handle CRLF, BOM and blank lines", () => {
+      const dataset = parseCsv("\uFEFFa,b\r\n1,2\r\n\r\n3,4\r\n");
+
+      expect(dataset.columns).toEqual(["a", "b"]);
+      expect(dataset.rows).toEqual([
+        { a: "1", b: "2" },
+        { a: "3", b: "4" },
+      ]);
+    });
+
+    it("should fill missing cells with empty strings", () => {
+      expect(parseCsv("a,b\n1").rows).toEqual([{ a: "1", b: "" }]);
+    });
+
+    it("should reject unterminated quotes and empty input", () => {
+      expect(() => parseCsv('a\n"oops')).toThrow("unterminated");
+      expect(() => parseCsv("")).toThrow("missing header");
+    });
+  });
+
+  describe("parseJsonDataset", () => {
+    it("should stringify values and union the columns", () => {
+      const dataset = parseJsonDataset(
+        JSON.stringify([{ id: 1, active: true }, { id: 2, tags: ["x"] }])
+      );
+
+      expect(dataset.columns).toEqual(["id", "active", "tags"]);
+      expect(dataset.rows).toEqual([
+        { id: "1", active: "true" },
+        { id: "2", tags: '["x"]' },
+      ]);
+    });
+
+    it("should reject non-array JSON", () => {
+      expect(() => parseJsonDataset('{"a":1}')).toThrow("array of objects");
+      expect(() => parseJsonDataset("{")).toThrow("Invalid JSON");
+    });
+  });
+
+  describe("parseDataset", () => {
+    it("should pick the parser by file extension", () => {
+      expect(parseDataset('[{"a":"1"}]', "rows.JSON")).toMatchObject({
+        name: "rows.JSON",
+        format: "json",
+      });
+      expect(parseDataset("a\n1", "rows.csv")).toMatchObject({
+        name: "rows.csv",
+        format: "csv",
+      });
+    });
+  });
+
+  describe("datasetResultsToCsv", () => {
+    it("should include status, inputs and extracted data", () => {
+      const results: DatasetRowResult[] = [
+        {
+          rowIndex: 0,
+          row: { q: "a,b" },
+          success: true,
+          extractedData: { title: "Hello" },
+        },
+        {
+          rowIndex: 1,
+          row: { q: "c" },
+          success: false,
+          failedStepIndex: 2,
+          error: 'Element "x" not found',
+        },
+      ];
+
+      expect(datasetResultsToCsv(results).split("\n")).toEqual([
+        "row,success,failedStepIndex,error,q,title",
+        '1,true,,,"a,b",Hello',
+        '2,false,2,"Element ""x"" not found",c,',
+      ]);
+    });
+  });
+
+  describe("runFlowWithDataset", () => {
+    let container: HTMLDivElement;
+
+    beforeEach(() => {
+      container = document.createElement("div");
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      document.body.removeChild(container);
+    });
+
+    it("should run once per row with row values bound to variables", async () => {
+      container.innerHTML = `<input id="search-box" type="text" />`;
+
+      const flow: Flow = {
+        id: "search",
+        title: "Search",
+        createdAt: 0,
+        steps: [{ type: "type", selector: "#search-box", text: "{{query}}" }],
+        dataset: parseCsv("query\nfoo\nbar"),
+      };
+
+      const results = await runFlowWithDataset(
+        new DomFlowRunner(),
+        flow,
+        undefined
+      );
+
+      expect(results.map((result) => result.success)).toEqual([true, true]);
+      expect(results.map((result) => result.row.query)).toEqual(["foo", "bar"]);
+      expect(
+        (container.querySelector("#search-box") as HTMLInputElement).value
+      ).toBe("bar");
+    });
+
+    it("should keep running remaining rows after a failed row", async () => {
+      const flow: Flow = {
+        id: "click",
+        title: "Click",
+        createdAt: 0,
+        steps: [{ type: "click", selector: "#missing-button" }],
+        dataset: parseCsv("id\n1\n2"),
+      };
+
+      const results = await runFlowWithDataset(
+        new DomFlowRunner(),
+        flow,
+        undefined
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results.map((result) => result.success)).toEqual([false, false]);
+      expect(results.map((result) => result.rowIndex)).toEqual([0, 1]);
+      expect(results[0].failedStepIndex).toBe(0);
+    });
+  });
+});
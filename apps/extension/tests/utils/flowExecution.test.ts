@@ -0,0 +1,289 @@
+import { describe, it, expect, vi } from "vitest";
+import type {
+  ControlFlowHandlers,
+  ExecutionResult,
+  Step,
+  StepRetry,
+} from "@auto-wiz/core";
+import {
+  applyStepTimeout,
+  getStepRange,
+  runFlowSteps,
+  withFlowDefaults,
+} from "@auto-wiz/core";
+
+/**
+ * 공통 실행 루프 테스트 (RunnerOptions 적용)
+ */
+
+describe("Flow Execution", () => {
+  const extract = (name: string): Step => ({
+    type: "extract",
+    selector: `#${name}`,
+    name,
+  });
+
+  // selector 이름을 값으로 추출하고, failures에 있는 selector는 그 횟수만큼 실패
+  const fakeHandlers = (failures: Record<string, number> = {}) => {
+    const runStep = vi.fn(async (step: Step): Promise<ExecutionResult> => {
+      const selector = "selector" in step ? step.selector || "" : "";
+      if (failures[selector] > 0) {
+        failures[selector]--;
+        return { success: false, error: `Element not found: ${selector}` };
+      }
+      return { success: true, extractedData: selector.slice(1) };
+    });
+    const handlers: ControlFlowHandlers = {
+      runStep,
+      readState: async () => ({ url: "", count: 0, visible: false }),
+      listElements: async () => [],
+    };
+    return { handlers, runStep };
+  };
+
+  const scope = () => ({ variables: {}, extractedData: {} });
+
+  describe("getStepRange", () => {
+    it("should default to every step and clamp the end", () => {
+      expect(getStepRange(4)).toEqual({ start: 0, end: 3 });
+      expect(getStepRange(4, { startAtStep: 1, endAtStep: 9 })).toEqual({
+        start: 1,
+        end: 3,
+      });
+      expect(getStepRange(0)).toEqual({ start: 0, end: -1 });
+    });
+
+    it("should reject ranges outside the flow", () => {
+      expect(() => getStepRange(3, { startAtStep: 3 })).toThrow(
+        "Start step 4 is out of range (1-3)"
+      );
+      expect(() => getStepRange(3, { startAtStep: 2, endAtStep: 1 })).toThrow(
+        "End step 2 is before start step 3"
+      );
+    });
+  });
+
+  describe("applyStepTimeout", () => {
+    it("should only fill in missing timeouts of waiting steps", () => {
+      expect(applyStepTimeout(extract("a"), 2000)).toMatchObject({
+        timeoutMs: 2000,
+      });
+      expect(
+        applyStepTimeout({ ...extract("a"), timeoutMs: 100 } as Step, 2000)
+      ).toMatchObject({ timeoutMs: 100 });
+      expect(applyStepTimeout({ type: "waitFor" }, 2000)).toEqual({
+        type: "waitFor",
+      });
+      expect(applyStepTimeout({ type: "navigate", url: "/" }, 2000)).toEqual({
+        type: "navigate",
+        url: "/",
+      });
+      expect(applyStepTimeout(extract("a"))).toEqual(extract("a"));
+    });
+  });
+
+  describe("runFlowSteps", () => {
+    it("should run the selected range with the default timeout", async () => {
+      const { handlers, runStep } = fakeHandlers();
+      const result = await runFlowSteps(
+        [extract("a"), extract("b"), extract("c")],
+        () => handlers,
+        scope(),
+        { startAtStep: 1, endAtStep: 1, timeout: 1500 }
+      );
+
+      expect(result).toEqual({ success: true, extractedData: { b: "b" } });
+      expect(runStep).toHaveBeenCalledTimes(1);
+      expect(runStep.mock.calls[0][0]).toMatchObject({ timeoutMs: 1500 });
+    });
+
+    it("should retry failed steps", async () => {
+      const { handlers, runStep } = fakeHandlers({ "#b": 2 });
+      const steps = [extract("a"), extract("b")];
+      const retries: StepRetry[] = [];
+
+      const retried = await runFlowSteps(
+        steps,
+        () => handlers,
+        scope(),
+        { retry: { attempts: 3, backoffMs: 10 } },
+        { onStepRetry: (_step, _index, retry) => void retries.push(retry) }
+      );
+      expect(retried.success).toBe(true);
+      expect(runStep).toHaveBeenCalledTimes(4);
+      expect(retries).toEqual([
+        {
+          attempt: 1,
+          maxAttempts: 3,
+          error: "Element not found: #b",
+          delayMs: 10,
+        },
+        {
+          attempt: 2,
+          maxAttempts: 3,
+          error: "Element not found: #b",
+          delayMs: 20,
+        },
+      ]);
+
+      const { handlers: failing } = fakeHandlers({ "#b": 2 });
+      const failed = await runFlowSteps(steps, () => failing, scope(), {
+        retry: { attempts: 2, backoffMs: 0 },
+      });
+      expect(failed).toMatchObject({
+        success: false,
+        failedStepIndex: 1,
+        error: "Element not found: #b",
+      });
+    });
+
+    it("should use the step retry policy and its conditions", async () => {
+      const { handlers, runStep } = fakeHandlers({ "#a": 1, "#b": 1 });
+      const result = await runFlowSteps(
+        [
+          { ...extract("a"), retry: { attempts: 2, backoffMs: 0 } },
+          {
+            ...extract("b"),
+            retry: { attempts: 3, backoffMs: 0, retryOn: ["notInteractable"] },
+          },
+        ],
+        () => handlers,
+        scope(),
+        { retries: 5 }
+      );
+
+      expect(result).toMatchObject({ success: false, failedStepIndex: 1 });
+      expect(runStep).toHaveBeenCalledTimes(3);
+    });
+
+    it("should continue after failures when stopOnError is false", async () => {
+      const { handlers } = fakeHandlers({ "#a": 1, "#b": 1 });
+      const result = await runFlowSteps(
+        [extract("a"), extract("b"), extract("c")],
+        () => handlers,
+        scope(),
+        { stopOnError: false }
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: "Element not found: #a",
+        failedStepIndex: 0,
+        extractedData: { c: "c" },
+      });
+    });
+
+    it("should report progress and stop when asked", async () => {
+      const { handlers } = fakeHandlers();
+      let stop = false;
+      const started: number[] = [];
+      const result = await runFlowSteps(
+        [extract("a"), extract("b")],
+        () => ({ ...handlers, shouldStop: () => stop }),
+        scope(),
+        {},
+        {
+          onStepStart: (_step, index) => {
+            started.push(index);
+          },
+          onStepEnd: () => {
+            stop = true;
+          },
+        }
+      );
+
+      expect(started).toEqual([0]);
+      expect(result).toMatchObject({
+        success: false,
+        error: "Stopped by user",
+        failedStepIndex: 1,
+        extractedData: { a: "a" },
+      });
+    });
+
+    it("should record optional step failures and keep running", async () => {
+      const { handlers } = fakeHandlers({ "#a": 1, "#c": 1 });
+      const result = await runFlowSteps(
+        [
+          { ...extract("a"), continueOnError: true },
+          {
+            type: "repeat",
+            times: 1,
+            steps: [extract("b"), { ...extract("c"), continueOnError: true }],
+          },
+        ],
+        () => handlers,
+        scope()
+      );
+
+      expect(result).toEqual({
+        success: true,
+        extractedData: { b: ["b"] },
+        stepErrors: [
+          { stepIndex: 0, error: "Element not found: #a" },
+          { stepIndex: 1, error: "Step 2.2: Element not found: #c" },
+        ],
+      });
+    });
+
+    it("should run on-failure steps before reporting the failure", async () => {
+      const { handlers, runStep } = fakeHandlers({ "#b": 1, "#missing": 1 });
+      const flow = {
+        onFailure: [extract("missing"), extract("home")],
+      };
+      const result = await runFlowSteps(
+        [extract("a"), extract("b"), extract("c")],
+        () => handlers,
+        scope(),
+        withFlowDefaults(flow)
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: "Element not found: #b",
+        failedStepIndex: 1,
+        extractedData: { a: "a", home: "home" },
+        stepErrors: [
+          {
+            stepIndex: 1,
+            error: "On failure: Step 1: Element not found: #missing",
+            onFailure: true,
+          },
+        ],
+      });
+      expect(runStep).toHaveBeenCalledTimes(4);
+    });
+
+    it("should not run on-failure steps when the run succeeds", async () => {
+      const { handlers, runStep } = fakeHandlers();
+      const result = await runFlowSteps(
+        [extract("a")],
+        () => handlers,
+        scope(),
+        withFlowDefaults({ onFailure: [extract("home")] })
+      );
+
+      expect(result).toEqual({ success: true, extractedData: { a: "a" } });
+      expect(runStep).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report an invalid range as a failed run", async () => {
+      const { handlers, runStep } = fakeHandlers();
+      const result = await runFlowSteps(
+        [extract("a")],
+        () => handlers,
+        scope(),
+        {
+          startAtStep: 5,
+        }
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: "Start step 6 is out of range (1-1)",
+        extractedData: {},
+      });
+      expect(runStep).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import type { Flow } from "@auto-wiz/core";
+import {
+  FLOW_SCHEMA_VERSION,
+  createFlowFile,
+  serializeFlowFile,
+  parseFlowFile,
+  migrateFlow,
+} from "@auto-wiz/core";
+
+/**
+ * Flow 파일 내보내기/가져오기 테스트 (schemaVersion, migration, 검증)
+ */
+
+describe("Flow Schema", () => {
+  const login: Flow = {
+    id: "login",
+    title: "Login",
+    createdAt: 1,
+    variables: [{ name: "username" }],
+    steps: [
+      {
+        type: "type",
+        selector: "#user",
+        locator: { primary: "#user", fallbacks: [] },
+        text: "{{username}}",
+      },
+      {
+        type: "type",
+        selector: "#password",
+        locator: { primary: "#password", fallbacks: [] },
+        text: "********",
+        originalText: "hunter2",
+        secretRef: "secret-1",
+      },
+    ],
+  };
+
+  const checkout: Flow = {
+    id: "checkout",
+    title: "Checkout",
+    createdAt: 2,
+    steps: [
+      { type: "callFlow", flowId: "login", args: { username: "ada" } },
+      {
+        type: "click",
+        selector: "#buy",
+        locator: { primary: "#buy", fallbacks: [] },
+      },
+    ],
+  };
+
+  describe("export", () => {
+    it("should write the schema version and drop plaintext secrets", () => {
+      const file = createFlowFile([checkout, login], 100);
+
+      expect(file).toMatchObject({
+        format: "auto-wiz-flow",
+        schemaVersion: FLOW_SCHEMA_VERSION,
+        exportedAt: 100,
+      });
+      expect(JSON.stringify(file)).not.toContain("hunter2");
+      expect(file.flows[1].steps[1]).toMatchObject({ secretRef: "secret-1" });
+    });
+  });
+
+  describe("import", () => {
+    it("should round-trip exported flows", () => {
+      const { flows, issues } = parseFlowFile(
+        serializeFlowFile([checkout, login])
+      );
+
+      expect(flows.map((flow) => flow.id)).toEqual(["checkout", "login"]);
+      expect(flows[0].steps).toEqual(checkout.steps);
+      expect(issues).toEqual([
+        "Login: 1 secret input must be re-entered (secrets are not exported)",
+      ]);
+    });
+
+    it("should give new ids on conflict and keep sub-flow references", () => {
+      const { flows } = parseFlowFile(serializeFlowFile([checkout, login]), [
+        login,
+      ]);
+
+      const importedLogin = flows[1];
+      expect(importedLogin.id).not.toBe("login");
+      expect(flows[0].steps[0]).toMatchObject({
+        type: "callFlow",
+        flowId: importedLogin.id,
+      });
+    });
+
+    it("should migrate legacy selector-only flows", () => {
+      const legacy = {
+        id: "legacy",
+        title: "Legacy",
+        createdAt: 0,
+        steps: [
+          { type: "navigate", url: "https://example.com" },
+          { type: "click", selector: "#go" },
+          {
+            type: "repeat",
+            times: 2,
+            steps: [{ type: "extract", selector: ".row" }],
+          },
+        ],
+      };
+
+      const { flows, issues } = parseFlowFile(JSON.stringify(legacy));
+
+      expect(issues).toEqual([]);
+      expect(flows[0].steps[0]).toEqual(legacy.steps[0]);
+      expect(flows[0].steps[1]).toEqual({
+        type: "click",
+        selector: "#go",
+        locator: { primary: "#go", fallbacks: [] },
+      });
+      expect(flows[0].steps[2]).toMatchObject({
+        steps: [{ locator: { primary: ".row", fallbacks: [] } }],
+      });
+    });
+
+    it("should not change flows that are already current", () => {
+      expect(migrateFlow(checkout, FLOW_SCHEMA_VERSION)).toBe(checkout);
+    });
+
+    it("should skip flows with incompatible steps and report them", () => {
+      const file = JSON.stringify({
+        format: "auto-wiz-flow",
+        schemaVersion: FLOW_SCHEMA_VERSION,
+        exportedAt: 0,
+        flows: [
+          checkout,
+          {
+            id: "broken",
+            title: "Broken",
+            createdAt: 0,
+            steps: [
+              { type: "hover", selector: "#menu" },
+              { type: "click", selector: "#ok" },
+              { type: "navigate", url: "" },
+            ],
+          },
+        ],
+      });
+
+      const { flows, issues } = parseFlowFile(file, [login]);
+
+      expect(flows.map((flow) => flow.id)).toEqual(["checkout"]);
+      expect(issues).toEqual([
+        "Broken: not imported (Step 1: Unknown step type: hover; Step 3: Navigate step requires URL)",
+      ]);
+    });
+
+    it("should report calls to flows that are not available", () => {
+      const { flows, issues } = parseFlowFile(serializeFlowFile([checkout]));
+
+      expect(flows).toEqual([]);
+      expect(issues).toEqual([
+        "Checkout: not imported (Called flow not found: login)",
+      ]);
+    });
+
+    it("should reject unreadable and newer files", () => {
+      expect(() => parseFlowFile("{")).toThrow("not valid JSON");
+      expect(() =>
+        parseFlowFile(
+          JSON.stringify({
+            format: "auto-wiz-flow",
+            schemaVersion: FLOW_SCHEMA_VERSION + 1,
+            flows: [],
+          })
+        )
+      ).toThrow("Unsupported flow file version");
+      expect(() => parseFlowFile(JSON.stringify({ title: "x" }))).toThrow(
+        "no flows found"
+      );
+    });
+  });
+});
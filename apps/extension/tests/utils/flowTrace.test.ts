@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type {
+  ControlFlowHandlers,
+  ExecutionResult,
+  Step,
+} from "@auto-wiz/core";
+import {
+  TRACE_VERSION,
+  createFlowTrace,
+  createTraceRecorder,
+  deleteFlowRun,
+  getFlowTrace,
+  parseFlowTrace,
+  runFlowSteps,
+  saveFlowRun,
+  saveFlowTrace,
+  serializeFlowTrace,
+  setStorageAdapter,
+} from "@auto-wiz/core";
+
+/**
+ * 실행 trace 테스트
+ */
+
+describe("Flow trace", () => {
+  beforeEach(() => {
+    const data: Record<string, any> = {};
+    setStorageAdapter({
+      get: async (key) => data[key] ?? null,
+      set: async (key, value) => {
+        data[key] = value;
+      },
+    });
+  });
+
+  const steps: Step[] = [
+    { type: "click", selector: "#a" },
+    { type: "click", selector: "#b" },
+  ];
+
+  const handlers: ControlFlowHandlers = {
+    runStep: async (step: Step): Promise<ExecutionResult> =>
+      "selector" in step && step.selector === "#b"
+        ? { success: false, error: "Element not found", attempts: 2 }
+        : { success: true, usedSelector: "#a" },
+    readState: async () => ({ url: "", count: 0, visible: false }),
+    listElements: async () => [],
+  };
+
+  describe("createTraceRecorder", () => {
+    it("records step results and attached captures, then saves once", async () => {
+      let time = 1000;
+      const recorder = createTraceRecorder(
+        { id: "flow", title: "Flow" },
+        () => (time += 10)
+      );
+
+      const result = await runFlowSteps(
+        steps,
+        () => handlers,
+        { variables: {}, extractedData: {} },
+        {},
+        {
+          onStepStart: (step, index) => {
+            recorder.hooks.onStepStart?.(step, index);
+            recorder.attach(index, {
+              url: "https://example.com/",
+              beforeScreenshot: "data:image/jpeg;base64,before",
+              consoleErrors: [
+                { message: "early", source: "console", timestamp: 1 },
+              ],
+            });
+          },
+          onStepEnd: (step, index, stepResult) => {
+            recorder.hooks.onStepEnd?.(step, index, stepResult);
+            recorder.attach(index, {
+              afterScreenshot: "data:image/jpeg;base64,after",
+              consoleErrors: [
+                { message: "late", source: "exception", timestamp: 2 },
+              ],
+              networkFailures: [
+                { url: "/api", kind: "fetch", status: 500, timestamp: 3 },
+              ],
+            });
+          },
+        }
+      );
+
+      expect(await getFlowTrace(recorder.trace.id)).toBeNull();
+
+      const trace = await recorder.finish(result);
+      expect(trace).toMatchObject({
+        flowId: "flow",
+        flowTitle: "Flow",
+        status: "failed",
+        error: "Element not found",
+      });
+      expect(trace.steps).toHaveLength(2);
+      expect(trace.steps[0]).toMatchObject({
+        stepIndex: 0,
+        success: true,
+        durationMs: 10,
+        usedSelector: "#a",
+        url: "https://example.com/",
+        beforeScreenshot: "data:image/jpeg;base64,before",
+        afterScreenshot: "data:image/jpeg;base64,after",
+      });
+      expect(trace.steps[0].consoleErrors.map((e) => e.message)).toEqual([
+        "early",
+        "late",
+      ]);
+      expect(trace.steps[1]).toMatchObject({
+        success: false,
+        error: "Element not found",
+        attempts: 2,
+      });
+      expect(trace.steps[1].networkFailures).toHaveLength(1);
+      expect(await getFlowTrace(trace.id)).toEqual(trace);
+    });
+
+    it("marks stopped runs", async () => {
+      const recorder = createTraceRecorder({ id: "flow", title: "Flow" });
+      const trace = await recorder.finish(
+        { success: false, error: "Stopped by user" },
+        true
+      );
+      expect(trace.status).toBe("stopped");
+    });
+  });
+
+  describe("trace files", () => {
+    it("round-trips through serialize and parse", () => {
+      const trace = createFlowTrace({ id: "flow", title: "Flow" });
+      trace.steps.push({
+        stepIndex: 0,
+        step: steps[0],
+        startedAt: 0,
+        target: {
+          boundingBox: { x: 1, y: 2, width: 3, height: 4 },
+          viewport: { width: 800, height: 600 },
+          locatorTier: "fallback",
+          selector: "#a",
+        },
+        consoleErrors: [],
+        networkFailures: [],
+      });
+
+      expect(parseFlowTrace(serializeFlowTrace(trace))).toEqual(trace);
+    });
+
+    it("fills missing event lists", () => {
+      const trace = parseFlowTrace(
+        JSON.stringify({
+          format: "auto-wiz-trace",
+          version: 1,
+          steps: [{ stepIndex: 0, step: steps[0], startedAt: 0 }],
+        })
+      );
+      expect(trace.steps[0].consoleErrors).toEqual([]);
+      expect(trace.steps[0].networkFailures).toEqual([]);
+    });
+
+    it("rejects files that are not traces", () => {
+      expect(() => parseFlowTrace("{")).toThrow("not valid JSON");
+      expect(() => parseFlowTrace('{"steps":[]}')).toThrow(
+        "not an auto-wiz trace"
+      );
+      expect(() => parseFlowTrace('{"format":"auto-wiz-trace"}')).toThrow(
+        "missing version"
+      );
+      expect(() =>
+        parseFlowTrace(
+          JSON.stringify({
+            format: "auto-wiz-trace",
+            version: TRACE_VERSION + 1,
+            steps: [],
+          })
+        )
+      ).toThrow(`Unsupported trace version ${TRACE_VERSION + 1}`);
+      expect(() =>
+        parseFlowTrace('{"format":"auto-wiz-trace","version":1}')
+      ).toThrow("steps must be an array");
+    });
+  });
+
+  it("deletes the trace together with its run", async () => {
+    const trace = createFlowTrace({ id: "flow", title: "Flow" });
+    await saveFlowTrace(trace);
+    await saveFlowRun({
+      id: "run",
+      flowId: "flow",
+      flowTitle: "Flow",
+      startedAt: 0,
+      status: "passed",
+      totalSteps: 0,
+      steps: [],
+      traceRef: trace.id,
+    });
+
+    await deleteFlowRun("flow", "run");
+    expect(await getFlowTrace(trace.id)).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  extractVariableNames,
+  interpolate,
+  collectFlowVariables,
+  findMissingVariables,
+  resolveFlowVariables,
+  validateStep,
+} from "@auto-wiz/core";
+import type { Flow } from "@auto-wiz/core";
+import { DomFlowRunner } from "@auto-wiz/dom";
+
+/**
+ * Flow 변수 ({{name}} placeholder) 테스트
+ */
+
+describe("Flow Variables", () => {
+  const loginFlow: Flow = {
+    id: "login",
+    title: "Login",
+    createdAt: 0,
+    startUrl: "{{baseUrl}}/login",
+    variables: [
+      { name: "baseUrl", defaultValue: "https://example.com" },
+      { name: "username" },
+    ],
+    steps: [
+      { type: "navigate", url: "{{baseUrl}}/login" },
+      {
+        type: "type",
+        selector: "#user",
+        text: "********",
+        originalText: "{{ username }}",
+      },
+      { type: "select", selector: "#country", value: "{{country}}" },
+    ],
+  };
+
+  describe("extractVariableNames", () => {
+    it("should extract unique names with optional whitespace", () => {
+      expect(extractVariableNames("{{a}} and {{ b }} and {{a}}")).toEqual([
+        "a",
+        "b",
+      ]);
+    });
+
+    it("should return empty list for plain text", () => {
+      expect(extractVariableNames("hello")).toEqual([]);
+      expect(extractVariableNames(undefined)).toEqual([]);
+    });
+  });
+
+  describe("interpolate", () => {
+    it("should replace known placeholders", () => {
+      expect(interpolate("Hi {{name}}!", { name: "Kim" })).toBe("Hi Kim!");
+    });
+
+    it("should keep unknown placeholders untouched", () => {
+      expect(interpolate("{{a}}-{{b}}", { a: "1" })).toBe("1-{{b}}");
+    });
+
+    it("should allow empty string values", () => {
+      expect(interpolate("[{{a}}]", { a: "" })).toBe("[]");
+    });
+  });
+
+  describe("collectFlowVariables", () => {
+    it("should list declared variables first, then used ones", () => {
+      expect(collectFlowVariables(loginFlow)).toEqual([
+        "baseUrl",
+        "username",
+        "country",
+      ]);
+    });
+  });
+
+  describe("findMissingVariables", () => {
+    it("should report variables without default or provided value", () => {
+      expect(findMissingVariables(loginFlow)).toEqual(["username", "country"]);
+      expect(
+        findMissingVariables(loginFlow, { username: "kim", country: "KR" })
+      ).toEqual([]);
+    });
+  });
+
+  describe("resolveFlowVariables", () => {
+    it("should resolve step fields using defaults and provided values", () => {
+      const resolved = resolveFlowVariables(loginFlow, {
+        username: "kim",
+        country: "KR",
+      });
+
+      expect(resolved.startUrl).toBe("https://example.com/login");
+      expect(resolved.steps[0]).toMatchObject({
+        url: "https://example.com/login",
+      });
+      expect(resolved.steps[1]).toMatchObject({
+        text: "********",
+        originalText: "kim",
+      });
+      expect(resolved.steps[2]).toMatchObject({ value: "KR" });
+    });
+
+    it("should let provided values override defaults", () => {
+      const resolved = resolveFlowVariables(loginFlow, {
+        baseUrl: "https://staging.example.com",
+      });
+
+      expect(resolved.startUrl).toBe("https://staging.example.com/login");
+    });
+
+    it("should not mutate the original flow", () => {
+      resolveFlowVariables(loginFlow, { username: "kim" });
+      expect((loginFlow.steps[1] as any).originalText).toBe("{{ username }}");
+    });
+  });
+
+  describe("validation", () => {
+    it("should accept navigate steps with placeholder URLs", () => {
+      expect(
+        validateStep({ type: "navigate", url: "{{baseUrl}}/login" }).valid
+      ).toBe(true);
+    });
+  });
+
+  describe("DomFlowRunner", () => {
+    let container: HTMLDivElement;
+
+    beforeEach(() => {
+      container = document.createElement("div");
+      document.body.appendChild(container);
+    });
+
+    afterEach(() => {
+      document.body.removeChild(container);
+    });
+
+    it("should type resolved variable values", async () => {
+      container.innerHTML = `<input id="search-box" type="text" />`;
+
+      const flow: Flow = {
+        id: "search",
+        title: "Search",
+        createdAt: 0,
+        steps: [
+          { type: "type", selector: "#search-box", text: "{{query}}" },
+        ],
+      };
+
+      const result = await new DomFlowRunner().run(flow, undefined, {
+        variables: { query: "automation" },
+      });
+
+      expect(result.success).toBe(true);
+      expect(
+        (container.querySelector("#search-box") as HTMLInputElement).value
+      ).toBe("automation");
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { ElementLocator, Flow, Step } from "@auto-wiz/core";
+import {
+  applyLocatorHealing,
+  createLocatorHealing,
+  diffLocators,
+  dismissLocatorHealing,
+  getFlowById,
+  listLocatorHealings,
+  saveFlow,
+  saveLocatorHealing,
+  setStorageAdapter,
+  withHealedLocator,
+} from "@auto-wiz/core";
+
+/**
+ * Locator self-healing (업데이트 제안 생성/저장/적용) 테스트
+ */
+
+describe("Locator healing", () => {
+  beforeEach(() => {
+    const data: Record<string, any> = {};
+    setStorageAdapter({
+      get: async (key) => data[key] ?? null,
+      set: async (key, value) => {
+        data[key] = value;
+      },
+    });
+  });
+
+  const previous: ElementLocator = {
+    primary: "#old-save",
+    fallbacks: [".save", "button"],
+    metadata: { text: "Save", tagName: "button" },
+  };
+  const healed: ElementLocator = {
+    primary: '[data-testid="save"]',
+    fallbacks: [".save", "#save"],
+    metadata: { text: "Save", tagName: "button", testId: "save" },
+  };
+  const step: Step = {
+    type: "click",
+    selector: "#old-save",
+    locator: previous,
+  };
+
+  describe("diffLocators", () => {
+    it("lists changed primary, fallbacks and metadata", () => {
+      expect(diffLocators(previous, healed)).toEqual([
+        {
+          field: "primary",
+          before: "#old-save",
+          after: '[data-testid="save"]',
+        },
+        { field: "fallback", before: "button" },
+        { field: "fallback", after: "#save" },
+        { field: "metadata.testId", before: undefined, after: "save" },
+      ]);
+    });
+
+    it("is empty for equal locators", () => {
+      expect(diffLocators(previous, { ...previous })).toEqual([]);
+    });
+  });
+
+  describe("createLocatorHealing", () => {
+    it("suggests the healed locator when a non-primary tier matched", () => {
+      const healing = createLocatorHealing(
+        "flow",
+        2,
+        step,
+        { success: true, locatorTier: "text", healedLocator: healed },
+        () => 100
+      );
+
+      expect(healing).toEqual({
+        flowId: "flow",
+        stepIndex: 2,
+        tier: "text",
+        previous,
+        healed,
+        detectedAt: 100,
+      });
+    });
+
+    it("ignores primary matches, failures and unchanged locators", () => {
+      const result = { success: true, healedLocator: healed };
+      expect(
+        createLocatorHealing("flow", 0, step, {
+          ...result,
+          locatorTier: "primary",
+        })
+      ).toBeNull();
+      expect(
+        createLocatorHealing("flow", 0, step, {
+          ...result,
+          success: false,
+          locatorTier: "fallback",
+        })
+      ).toBeNull();
+      expect(
+        createLocatorHealing("flow", 0, step, {
+          success: true,
+          locatorTier: "fallback",
+          healedLocator: previous,
+        })
+      ).toBeNull();
+      expect(
+        createLocatorHealing(
+          "flow",
+          0,
+          { type: "click", selector: "#a" },
+          { ...result, locatorTier: "selector" }
+        )
+      ).toBeNull();
+    });
+  });
+
+  it("ignores steps with templated selectors or locators", () => {
+    const result = {
+      success: true,
+      locatorTier: "selector" as const,
+      healedLocator: healed,
+    };
+    expect(
+      createLocatorHealing(
+        "flow",
+        0,
+        { ...step, selector: '[data-row="{{row}}"] .save' },
+        result
+      )
+    ).toBeNull();
+    expect(
+      createLocatorHealing(
+        "flow",
+        0,
+        {
+          ...step,
+          locator: { ...previous, fallbacks: ["#save-{{id}}"] },
+        },
+        result
+      )
+    ).toBeNull();
+  });
+
+  it("keeps templated selectors when applying a locator", () => {
+    expect(
+      withHealedLocator({ ...step, selector: "#{{button}}" }, healed)
+    ).toEqual({
+      type: "click",
+      selector: "#{{button}}",
+      locator: healed,
+    });
+  });
+
+  it("replaces the locator and the selector", () => {
+    expect(withHealedLocator(step, healed)).toEqual({
+      type: "click",
+      selector: '[data-testid="save"]',
+      locator: healed,
+    });
+  });
+
+  describe("stored suggestions", () => {
+    const flow: Flow = {
+      id: "flow",
+      title: "Flow",
+      steps: [{ type: "navigate", url: "https://example.com" }, step],
+      createdAt: 0,
+    };
+    const healing = createLocatorHealing("flow", 1, step, {
+      success: true,
+      locatorTier: "fallback",
+      healedLocator: healed,
+    })!;
+
+    it("keeps one suggestion per step", async () => {
+      await saveLocatorHealing(healing);
+      await saveLocatorHealing({ ...healing, tier: "text" });
+      await saveLocatorHealing({ ...healing, stepIndex: 0 });
+
+      const saved = await listLocatorHealings("flow");
+      expect(saved.map((h) => [h.stepIndex, h.tier])).toEqual([
+        [0, "fallback"],
+        [1, "text"],
+      ]);
+
+      await dismissLocatorHealing("flow", 0);
+      expect(await listLocatorHealings("flow")).toHaveLength(1);
+    });
+
+    it("applies a suggestion to the stored step", async () => {
+      await saveFlow(structuredClone(flow));
+      await saveLocatorHealing(healing);
+
+      const updated = await applyLocatorHealing(healing);
+      expect(updated.steps[1]).toMatchObject({ locator: healed });
+      expect((await getFlowById("flow"))?.steps[1]).toMatchObject({
+        selector: healed.primary,
+      });
+      expect(await listLocatorHealings("flow")).toEqual([]);
+    });
+
+    it("rejects suggestions for steps that changed", async () => {
+      await saveFlow({ ...flow, steps: [step, flow.steps[0]] });
+
+      await expect(applyLocatorHealing(healing)).rejects.toThrow(
+        "Step 2 has changed since its locator was healed"
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  generateRobustLocator,
+  makeUniqueSelector,
+  rankSelectorCandidates,
+  scoreSelector,
+} from "@auto-wiz/dom";
+
+/**
+ * 기록 시점 selector 고유성 점수 테스트
+ */
+
+describe("Locator scoring", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="login">
+        <button class="btn" aria-label="Close">x</button>
+        <button class="btn primary" data-testid="submit">Sign in</button>
+      </form>
+      <div id="dialog">
+        <button class="btn" aria-label="Close">x</button>
+      </div>
+      <ul>
+        <li class="item">One</li>
+        <li class="item">Two</li>
+      </ul>
+    `;
+  });
+
+  const query = (selector: string) =>
+    document.querySelector(selector) as HTMLElement;
+
+  describe("scoreSelector", () => {
+    it("keeps the stability of unique selectors", () => {
+      const submit = query('[data-testid="submit"]');
+      expect(
+        scoreSelector(submit, { selector: "button.primary", kind: "class" })
+      ).toEqual({
+        selector: "button.primary",
+        kind: "class",
+        matchCount: 1,
+        unique: true,
+        score: 0.4,
+      });
+    });
+
+    it("divides the score of shared selectors by their match count", () => {
+      const close = query("#dialog button");
+      const scored = scoreSelector(close, {
+        selector: '[aria-label="Close"]',
+        kind: "ariaLabel",
+      });
+      expect(scored).toMatchObject({ matchCount: 2, unique: false });
+      expect(scored?.score).toBeCloseTo(0.375);
+    });
+
+    it("rejects selectors that miss the element", () => {
+      const close = query("#dialog button");
+      expect(
+        scoreSelector(close, { selector: "#login button", kind: "structure" })
+      ).toBeNull();
+      expect(
+        scoreSelector(close, { selector: "[[", kind: "class" })
+      ).toBeNull();
+    });
+  });
+
+  describe("makeUniqueSelector", () => {
+    it("scopes shared selectors by a unique ancestor", () => {
+      const close = query("#dialog button");
+      expect(
+        makeUniqueSelector(close, {
+          selector: '[aria-label="Close"]',
+          kind: "ariaLabel",
+        })
+      ).toMatchObject({
+        selector: '#dialog [aria-label="Close"]',
+        variant: "scoped",
+        unique: true,
+      });
+    });
+
+    it("falls back to :nth-of-type", () => {
+      const second = document.querySelectorAll("li")[1] as HTMLElement;
+      expect(
+        makeUniqueSelector(second, { selector: "li.item", kind: "class" })
+      ).toMatchObject({
+        selector: "li.item:nth-of-type(2)",
+        variant: "nth",
+        unique: true,
+      });
+    });
+  });
+
+  it("ranks unique candidates first and demotes shared ones", () => {
+    const close = query("#login button");
+    const ranked = rankSelectorCandidates(close, [
+      { selector: '[aria-label="Close"]', kind: "ariaLabel" },
+      { selector: "#missing", kind: "id" },
+      { selector: "form#login>button:nth-of-type(1)", kind: "structure" },
+    ]);
+
+    expect(ranked.map((scored) => scored.selector)).toEqual([
+      '#login [aria-label="Close"]',
+      "form#login>button:nth-of-type(1)",
+      '[aria-label="Close"]',
+    ]);
+  });
+
+  describe("generateRobustLocator", () => {
+    it("does not use a shared aria-label as primary", () => {
+      const locator = generateRobustLocator(query("#dialog button"));
+
+      expect(locator.primary).toBe('#dialog [aria-label="Close"]');
+      expect(locator.matchCount).toBe(1);
+      // 여러 요소와 일치하는 후보는 일치 수가 많을수록 뒤로
+      expect(locator.fallbacks.slice(-2)).toEqual([
+        '[aria-label="Close"]',
+        "button.btn",
+      ]);
+    });
+
+    it("prefers stable unique selectors over nth variants", () => {
+      const locator = generateRobustLocator(
+        document.querySelectorAll("li")[1] as HTMLElement
+      );
+
+      expect(locator.primary).not.toContain("li.item");
+      expect(locator.fallbacks).toEqual(["li.item:nth-of-type(2)", "li.item"]);
+      expect(locator.matchCount).toBe(1);
+    });
+
+    it("leaves detached elements unscored", () => {
+      const button = document.createElement("button");
+      button.setAttribute("aria-label", "Close");
+
+      const locator = generateRobustLocator(button);
+      expect(locator.primary).toBe('[aria-label="Close"]');
+      expect(locator.matchCount).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeLocatorStrategy,
+  joinShadowSelector,
+  locatorStrategies,
+  parseXPathSelector,
+  splitShadowSelector,
+  toPlaywrightSelector,
+  toPuppeteerSelector,
+} from "@auto-wiz/core";
+
+/**
+ * Locator 전략 순서 테스트
+ */
+
+describe("Locator Strategies", () => {
+  it("should try recorded selectors before metadata", () => {
+    const strategies = locatorStrategies({
+      selector: "#buy",
+      locator: {
+        primary: "#buy",
+        fallbacks: ["button.buy", "#buy"],
+        metadata: {
+          testId: "buy",
+          role: "button",
+          text: "Buy now",
+          ariaLabel: "Buy",
+          tagName: "button",
+        },
+      },
+    });
+
+    expect(strategies.map(describeLocatorStrategy)).toEqual([
+      "#buy",
+      "button.buy",
+      'getByTestId("buy")',
+      'getByRole("button", { name: "Buy" })',
+      'getByText("Buy now")',
+      'getByLabel("Buy")',
+    ]);
+  });
+
+  it("should name roles by their text when there is no aria-label", () => {
+    const strategies = locatorStrategies({
+      locator: {
+        primary: "a:nth-of-type(3)",
+        fallbacks: [],
+        metadata: { role: "link", text: " Pricing " },
+      },
+    });
+
+    expect(strategies).toEqual([
+      { kind: "css", selector: "a:nth-of-type(3)" },
+      { kind: "role", role: "link", name: "Pricing" },
+      { kind: "text", text: "Pricing", role: "link" },
+    ]);
+  });
+
+  it("should fall back to the step selector", () => {
+    expect(
+      locatorStrategies({
+        selector: "#email",
+        locator: {
+          primary: "#old-email",
+          fallbacks: [],
+          metadata: { placeholder: "Email" },
+        },
+      }).map(describeLocatorStrategy)
+    ).toEqual(["#old-email", 'getByPlaceholder("Email")', "#email"]);
+
+    expect(locatorStrategies({ selector: "#email" })).toEqual([
+      { kind: "css", selector: "#email" },
+    ]);
+    expect(locatorStrategies({})).toEqual([]);
+  });
+
+  it("should try xpath= selectors as XPath strategies", () => {
+    const strategies = locatorStrategies({
+      selector: "xpath=//a[@id='old']",
+      locator: {
+        primary: "#buy",
+        fallbacks: ["xpath=//button[normalize-space()='Buy now']"],
+      },
+    });
+
+    expect(strategies).toEqual([
+      { kind: "css", selector: "#buy" },
+      { kind: "xpath", xpath: "//button[normalize-space()='Buy now']" },
+      { kind: "xpath", xpath: "//a[@id='old']" },
+    ]);
+    expect(describeLocatorStrategy(strategies[1])).toBe(
+      "xpath=//button[normalize-space()='Buy now']"
+    );
+  });
+
+  it("should parse and translate xpath= selectors", () => {
+    expect(parseXPathSelector(" xpath=//button ")).toBe("//button");
+    expect(parseXPathSelector("xpath=")).toBeNull();
+    expect(parseXPathSelector("button.xpath")).toBeNull();
+
+    expect(toPuppeteerSelector("xpath=//a[text()='Go']")).toBe(
+      `::-p-xpath("//a[text()='Go']")`
+    );
+    expect(toPuppeteerSelector("#go")).toBe("#go");
+  });
+
+  it("should split and translate shadow host chains", () => {
+    expect(splitShadowSelector("my-app>>>my-form >>> button")).toEqual([
+      "my-app",
+      "my-form",
+      "button",
+    ]);
+    expect(splitShadowSelector("my-app >>> ")).toEqual(["my-app >>> "]);
+    expect(splitShadowSelector("xpath=//a[.='>>>']")).toEqual([
+      "xpath=//a[.='>>>']",
+    ]);
+    expect(joinShadowSelector(["my-app", "button"])).toBe("my-app >>> button");
+
+    expect(toPlaywrightSelector("my-app >>> my-form >>> button")).toBe(
+      "my-app >> my-form >> button"
+    );
+    expect(toPuppeteerSelector("my-app >>> button")).toBe("my-app >>> button");
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect } from "vitest";
+import type { Flow, Step } from "@auto-wiz/core";
+import {
+  generatePlaywrightTest,
+  metadataToPlaywrightLocator,
+} from "@auto-wiz/core";
+
+/**
+ * Playwright 테스트 코드 생성 테스트
+ */
+
+describe("Playwright Codegen", () => {
+  const flowOf = (steps: Step[], extra: Partial<Flow> = {}): Flow => ({
+    id: "checkout",
+    title: "Checkout",
+    createdAt: 0,
+    steps,
+    ...extra,
+  });
+
+  describe("metadataToPlaywrightLocator", () => {
+    it("should prefer test ids, then role and name, then placeholder", () => {
+      expect(
+        metadataToPlaywrightLocator({ testId: "buy", role: "button" })
+      ).toBe('page.getByTestId("buy")');
+      expect(
+        metadataToPlaywrightLocator({ role: "button", text: "Buy now" })
+      ).toBe('page.getByRole("button", { name: "Buy now" })');
+      expect(
+        metadataToPlaywrightLocator({
+          role: "textbox",
+          text: "typed value",
+          placeholder: "Email",
+        })
+      ).toBe('page.getByPlaceholder("Email")');
+      expect(metadataToPlaywrightLocator({ tagName: "div" })).toBeNull();
+    });
+  });
+
+  it("should generate a spec with locators from metadata", () => {
+    const code = generatePlaywrightTest(
+      flowOf([
+        { type: "navigate", url: "https://shop.example.com" },
+        {
+          type: "click",
+          selector: "#buy",
+          locator: {
+            primary: "#buy",
+            fallbacks: ["button.buy"],
+            metadata: { role: "button", text: "Buy" },
+          },
+        },
+        {
+          type: "type",
+          selector: "#email",
+          locator: { primary: "#email", fallbacks: ['input[name="email"]'] },
+          text: "ada@example.com",
+          submit: true,
+        },
+        {
+          type: "assert",
+          assertion: "textContains",
+          selector: ".status",
+          expected: "Thanks",
+          timeoutMs: 3000,
+        },
+      ])
+    );
+
+    expect(code).toBe(
+      [
+        '// Generated by Auto-Wiz from the flow "Checkout"',
+        'import { test, expect } from "@playwright/test";',
+        "",
+        'test("Checkout", async ({ page }) => {',
+        '  await page.goto("https://shop.example.com");',
+        '  // Selectors: "#buy", "button.buy"',
+        '  await page.getByRole("button", { name: "Buy" }).click();',
+        '  // Fallbacks: "input[name=\\"email\\"]"',
+        '  await page.locator("#email").fill("ada@example.com");',
+        '  await page.locator("#email").press("Enter");',
+        '  await expect(page.locator(".status")).toContainText("Thanks", { timeout: 3000 });',
+        "});",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should read variables and secrets from the environment", () => {
+    const code = generatePlaywrightTest(
+      flowOf(
+        [
+          { type: "navigate", url: "{{baseUrl}}/login" },
+          { type: "type", selector: "#user", text: "{{username}}" },
+          {
+            type: "type",
+            selector: "#password",
+            text: "********",
+            originalText: "hunter2",
+            secretRef: "secret-1",
+          },
+        ],
+        {
+          variables: [{ name: "baseUrl", defaultValue: "https://example.com" }],
+        }
+      )
+    );
+
+    expect(code).toContain("//   AUTO_WIZ_VAR_BASE_URL: {{baseUrl}}");
+    expect(code).toContain(
+      "//   AUTO_WIZ_SECRET_1: secret typed into #password"
+    );
+    expect(code).toContain(
+      'baseUrl: process.env.AUTO_WIZ_VAR_BASE_URL ?? "https://example.com",'
+    );
+    expect(code).toContain(
+      'username: process.env.AUTO_WIZ_VAR_USERNAME ?? "",'
+    );
+    expect(code).toContain("await page.goto(`${vars.baseUrl}/login`);");
+    expect(code).toContain('await page.locator("#user").fill(vars.username);');
+    expect(code).toContain(
+      'await page.locator("#password").fill(process.env.AUTO_WIZ_SECRET_1 ?? "");'
+    );
+    expect(code).not.toContain("hunter2");
+  });
+
+  it("should turn control flow into loops and conditions", () => {
+    const code = generatePlaywrightTest(
+      flowOf([
+        {
+          type: "if",
+          condition: { type: "exists", selector: "#cookies", negate: true },
+          then: [{ type: "click", selector: "#reload" }],
+          else: [{ type: "click", selector: "#accept" }],
+        },
+        {
+          type: "forEach",
+          source: { type: "elements", selector: "li.item" },
+          as: "row",
+          steps: [
+            {
+              type: "extract",
+              selector: "{{row.selector}} .price",
+              name: "prices",
+            },
+            { type: "type", selector: "#log", text: "{{row.index}}: {{row}}" },
+          ],
+        },
+        {
+          type: "while",
+          condition: {
+            type: "textMatches",
+            selector: "#more",
+            pattern: "/more/i",
+          },
+          maxIterations: 5,
+          steps: [{ type: "click", selector: "#more" }],
+        },
+      ])
+    );
+
+    expect(code).toContain(
+      'if (!(await page.locator("#cookies").first().isVisible())) {'
+    );
+    expect(code).toContain("} else {");
+    expect(code).toContain(
+      'for (const [rowIndex, row] of (await page.locator("li.item").all()).entries()) {'
+    );
+    expect(code).toContain(
+      'const rowText = ((await row.textContent()) ?? "").trim();'
+    );
+    expect(code).toContain(
+      '(extracted.prices ??= []).push(((await row.locator(".price").textContent()) ?? "").trim());'
+    );
+    expect(code).toContain("fill(`${rowIndex}: ${rowText}`)");
+    expect(code).toContain(
+      'for (let iteration = 0; (await page.locator("#more").allTextContents()).slice(0, 1).some((text) => /more/i.test(text.trim())); iteration++) {'
+    );
+    expect(code).toContain(
+      'throw new Error("While loop exceeded 5 iterations");'
+    );
+  });
+
+  it("should generate sub-flows as functions", () => {
+    const login: Flow = {
+      id: "login",
+      title: "Log in",
+      createdAt: 0,
+      variables: [{ name: "username", defaultValue: "ada" }],
+      steps: [{ type: "type", selector: "#user", text: "{{username}}" }],
+    };
+
+    const code = generatePlaywrightTest(
+      flowOf([
+        { type: "callFlow", flowId: "login", args: { username: "grace" } },
+        { type: "callFlow", flowId: "missing", flowTitle: "Missing" },
+      ]),
+      [login]
+    );
+
+    expect(code).toContain('import type { Page } from "@playwright/test";');
+    expect(code).toContain(
+      "async function logIn(page: Page, args: Record<string, string>) {"
+    );
+    expect(code).toContain(
+      'const vars: Record<string, string> = { username: "ada", ...args };'
+    );
+    expect(code).toContain('await logIn(page, { username: "grace" });');
+    expect(code).toContain(
+      'throw new Error("Called flow not found: Missing");'
+    );
+  });
+
+  it("should keep multi-line flow titles inside comments", () => {
+    const title = 'Log in\nawait page.goto("https://evil.example")';
+    const login: Flow = {
+      id: "login",
+      title,
+      createdAt: 0,
+      steps: [{ type: "click", selector: "#submit" }],
+    };
+
+    const code = generatePlaywrightTest(
+      flowOf(
+        [
+          { type: "callFlow", flowId: "login" },
+          { type: "callFlow", flowId: "missing", flowTitle: title },
+        ],
+        { title }
+      ),
+      [login]
+    );
+
+    const comment = 'Log in await page.goto("https://evil.example")';
+    expect(code).toContain(
+      `// Generated by Auto-Wiz from the flow "${comment}"`
+    );
+    expect(code).toContain(`// Sub-flow "${comment}"`);
+    expect(code).toContain(
+      `// Sub-flow "${comment}" was not included in the export`
+    );
+    expect(code).not.toMatch(/^\s*await page\.goto\("https:\/\/evil/m);
+    expect(code).toContain(
+      'test("Log in\\nawait page.goto(\\"https://evil.example\\")", async'
+    );
+  });
+
+  it("should chain shadow host selectors with >>", () => {
+    const code = generatePlaywrightTest(
+      flowOf([
+        {
+          type: "click",
+          selector: "my-app >>> my-form#signup >>> button.save",
+        },
+      ])
+    );
+
+    expect(code).toContain(
+      'await page.locator("my-app >> my-form#signup >> button.save").click();'
+    );
+  });
+});
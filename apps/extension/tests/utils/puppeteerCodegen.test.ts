@@ -0,0 +1,239 @@
+import { describe, it, expect } from "vitest";
+import type { Flow, Step } from "@auto-wiz/core";
+import { generatePuppeteerScript } from "@auto-wiz/core";
+
+/**
+ * Puppeteer 스크립트 코드 생성 테스트 (샘플 Flow 스냅샷)
+ */
+
+describe("Puppeteer Codegen", () => {
+  const flowOf = (
+    title: string,
+    steps: Step[],
+    extra: Partial<Flow> = {}
+  ): Flow => ({
+    id: title.toLowerCase(),
+    title,
+    createdAt: 0,
+    steps,
+    ...extra,
+  });
+
+  const login = flowOf(
+    "Log in",
+    [
+      { type: "navigate", url: "{{baseUrl}}/login" },
+      {
+        type: "type",
+        selector: "#user",
+        locator: {
+          primary: "#user",
+          fallbacks: ['input[name="user"]'],
+          metadata: { tagName: "input", placeholder: "User" },
+        },
+        text: "{{username}}",
+      },
+      {
+        type: "type",
+        selector: "#password",
+        text: "********",
+        secretRef: "secret-1",
+        submit: true,
+      },
+      { type: "waitForNavigation", timeoutMs: 10000 },
+    ],
+    {
+      variables: [
+        { name: "baseUrl", defaultValue: "https://shop.example.com" },
+        { name: "username" },
+      ],
+    }
+  );
+
+  it("should generate a script for a recorded flow", () => {
+    const code = generatePuppeteerScript(
+      flowOf(
+        "Checkout",
+        [
+          ...login.steps,
+          {
+            type: "select",
+            selector: "#shipping",
+            locator: { primary: "#shipping", fallbacks: [] },
+            value: "express",
+          },
+          {
+            type: "click",
+            selector: "#buy",
+            locator: {
+              primary: "#buy",
+              fallbacks: ["button.buy", '[aria-label="Buy"]'],
+            },
+            timeoutMs: 3000,
+          },
+          { type: "waitFor", selector: ".receipt", timeoutMs: 5000 },
+          {
+            type: "extract",
+            selector: ".receipt .total",
+            name: "total",
+          },
+          {
+            type: "extract",
+            selector: ".receipt a.item",
+            name: "links",
+            prop: "href",
+            multiple: true,
+          },
+          {
+            type: "assert",
+            assertion: "textMatches",
+            selector: ".receipt h1",
+            expected: "/thank you/i",
+          },
+        ],
+        { variables: login.variables }
+      )
+    );
+
+    expect(code).toMatchSnapshot();
+    expect(code).not.toContain("page.waitForNavigation(");
+    expect(code).toContain(
+      'await page.waitForFunction(() => document.readyState === "complete", { timeout: 10000 });'
+    );
+  });
+
+  it("should generate loops and conditions", () => {
+    const code = generatePuppeteerScript(
+      flowOf("Archive", [
+        { type: "navigate", url: "https://mail.example.com" },
+        {
+          type: "if",
+          condition: { type: "exists", selector: "#cookie-banner" },
+          then: [{ type: "click", selector: "#cookie-banner .accept" }],
+        },
+        {
+          type: "forEach",
+          source: { type: "elements", selector: "tr.unread" },
+          as: "row",
+          steps: [
+            {
+              type: "extract",
+              selector: "{{row.selector}} .subject",
+              name: "subjects",
+            },
+            { type: "click", selector: "{{row.selector}} .archive" },
+          ],
+        },
+        {
+          type: "while",
+          condition: { type: "exists", selector: "#next-page" },
+          maxIterations: 10,
+          steps: [{ type: "click", selector: "#next-page" }],
+        },
+        {
+          type: "assert",
+          assertion: "count",
+          selector: "tr.unread",
+          count: 0,
+        },
+      ])
+    );
+
+    expect(code).toMatchSnapshot();
+  });
+
+  it("should generate called sub-flows as functions", () => {
+    const code = generatePuppeteerScript(
+      flowOf(
+        "Reorder",
+        [
+          {
+            type: "callFlow",
+            flowId: login.id,
+            flowTitle: login.title,
+            args: { username: "{{user}}" },
+          },
+          { type: "click", selector: "#reorder" },
+        ],
+        { variables: [{ name: "user", defaultValue: "ada" }] }
+      ),
+      [login]
+    );
+
+    expect(code).toMatchSnapshot();
+    expect(code).toContain(
+      "async function logIn(page: Page, args: Record<string, string>) {"
+    );
+    expect(code).toContain("await logIn(page, { username: vars.user });");
+  });
+
+  it("should only add the locate helper when fallbacks are recorded", () => {
+    const code = generatePuppeteerScript(
+      flowOf("Simple", [{ type: "click", selector: "#go" }])
+    );
+
+    expect(code).toContain('import puppeteer from "puppeteer";');
+    expect(code).not.toContain("function locate");
+    expect(code).toContain('await page.locator("#go").click();');
+  });
+
+  it("should translate XPath fallbacks to ::-p-xpath selectors", () => {
+    const code = generatePuppeteerScript(
+      flowOf("XPath", [
+        {
+          type: "click",
+          selector: "#save",
+          locator: {
+            primary: "#save",
+            fallbacks: ["xpath=//button[normalize-space()='Save']"],
+          },
+        },
+      ])
+    );
+
+    expect(code).toContain(
+      `await locate(page, ["#save", "::-p-xpath(\\"//button[normalize-space()='Save']\\")"]).click();`
+    );
+  });
+
+  it("should resolve asserted elements with Puppeteer selectors", () => {
+    const code = generatePuppeteerScript(
+      flowOf("Assertions", [
+        {
+          type: "assert",
+          assertion: "textEquals",
+          selector: "xpath=//h1",
+          expected: "Done",
+        },
+        {
+          type: "assert",
+          assertion: "valueEquals",
+          selector: "app-form >>> #email",
+          locator: {
+            primary: "app-form >>> #email",
+            fallbacks: ["input[type=email]"],
+          },
+          expected: "ada@example.com",
+          timeoutMs: 2000,
+        },
+        {
+          type: "assert",
+          assertion: "count",
+          selector: "xpath=//li",
+          count: 3,
+        },
+      ])
+    );
+
+    expect(code).not.toContain("document.querySelector");
+    expect(code).toContain(
+      `await page.waitForFunction((el, expected) => el.textContent?.trim() === expected, { timeout: 5000 }, (await page.locator("::-p-xpath(\\"//h1\\")").setTimeout(5000).waitHandle()), "Done");`
+    );
+    expect(code).toContain(
+      `await page.waitForFunction((el, expected) => (el as HTMLInputElement).value === expected, { timeout: 2000 }, (await locate(page, ["app-form >>> #email", "input[type=email]"]).setTimeout(2000).waitHandle()), "ada@example.com");`
+    );
+    expect(code).toContain(
+      `await waitForCount(page, "::-p-xpath(\\"//li\\")", 3, 5000);`
+    );
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type {
+  ControlFlowHandlers,
+  ExecutionResult,
+  FlowRun,
+  Step,
+} from "@auto-wiz/core";
+import { executeStep } from "@auto-wiz/dom";
+import {
+  MAX_RUNS_PER_FLOW,
+  clearFlowRuns,
+  compareFlowRuns,
+  createRunRecorder,
+  deleteFlowRun,
+  getFailureArtifacts,
+  getFlowRun,
+  getRunStatus,
+  listFlowRuns,
+  redactSecretValues,
+  runFlowSteps,
+  saveFailureArtifacts,
+  saveFlowRun,
+  setStorageAdapter,
+} from "@auto-wiz/core";
+
+/**
+ * 실행 기록 (run history) 테스트
+ */
+
+describe("Run history", () => {
+  beforeEach(() => {
+    const data: Record<string, any> = {};
+    setStorageAdapter({
+      get: async (key) => data[key] ?? null,
+      set: async (key, value) => {
+        data[key] = value;
+      },
+    });
+  });
+
+  const runOf = (id: string, extra: Partial<FlowRun> = {}): FlowRun => ({
+    id,
+    flowId: "flow",
+    flowTitle: "Flow",
+    startedAt: 0,
+    status: "passed",
+    totalSteps: 0,
+    steps: [],
+    ...extra,
+  });
+
+  describe("storage", () => {
+    it("lists runs newest first and replaces runs with the same id", async () => {
+      await saveFlowRun(runOf("a"));
+      await saveFlowRun(runOf("b"));
+      await saveFlowRun(runOf("a", { status: "failed" }));
+
+      const runs = await listFlowRuns("flow");
+      expect(runs.map((run) => run.id)).toEqual(["b", "a"]);
+      expect((await getFlowRun("flow", "a"))?.status).toBe("failed");
+      expect(await getFlowRun("flow", "missing")).toBeNull();
+      expect(await listFlowRuns("other")).toEqual([]);
+    });
+
+    it("keeps only the most recent runs per flow", async () => {
+      for (let i = 0; i < MAX_RUNS_PER_FLOW + 2; i++) {
+        await saveFlowRun(runOf(`run-${i}`));
+      }
+
+      const runs = await listFlowRuns("flow");
+      expect(runs).toHaveLength(MAX_RUNS_PER_FLOW);
+      expect(runs[0].id).toBe(`run-${MAX_RUNS_PER_FLOW + 1}`);
+      expect(runs.some((run) => run.id === "run-0")).toBe(false);
+    });
+
+    it("deletes a single run or all runs of a flow", async () => {
+      await saveFlowRun(runOf("a"));
+      await saveFlowRun(runOf("b"));
+      await saveFlowRun(runOf("c", { flowId: "other" }));
+
+      await deleteFlowRun("flow", "a");
+      expect((await listFlowRuns("flow")).map((run) => run.id)).toEqual(["b"]);
+
+      await clearFlowRuns("flow");
+      expect(await listFlowRuns("flow")).toEqual([]);
+      expect(await listFlowRuns("other")).toHaveLength(1);
+    });
+  });
+
+  describe("getRunStatus", () => {
+    it("distinguishes passed, failed and stopped runs", () => {
+      expect(getRunStatus({ success: true })).toBe("passed");
+      expect(getRunStatus({ success: false, error: "x" })).toBe("failed");
+      expect(getRunStatus({ success: false, error: "x" }, true)).toBe(
+        "stopped"
+      );
+    });
+  });
+
+  describe("createRunRecorder", () => {
+    const steps: Step[] = [
+      { type: "click", selector: "#a" },
+      { type: "extract", selector: "#b" },
+      { type: "click", selector: "#c" },
+    ];
+
+    it("records per-step timings, selectors and results while running", async () => {
+      let time = 1000;
+      const recorder = createRunRecorder(
+        { id: "flow", title: "Flow", steps },
+        { options: { timeout: 500 } },
+        () => (time += 10)
+      );
+
+      const handlers: ControlFlowHandlers = {
+        runStep: async (step: Step): Promise<ExecutionResult> => {
+          if (step.type === "extract") {
+            return { success: true, extractedData: "value" };
+          }
+          return "selector" in step && step.selector === "#c"
+            ? { success: false, error: "Element not found" }
+            : { success: true, usedSelector: "#a-fallback" };
+        },
+        readState: async () => ({ url: "", count: 0, visible: false }),
+        listElements: async () => [],
+      };
+
+      const result = await runFlowSteps(
+        steps,
+        () => handlers,
+        { variables: {}, extractedData: {} },
+        {},
+        recorder.hooks
+      );
+
+      const running = await listFlowRuns("flow");
+      expect(running[0].status).toBe("running");
+      expect(running[0].steps).toHaveLength(3);
+
+      const run = await recorder.finish(result);
+      expect(run).toMatchObject({
+        flowId: "flow",
+        flowTitle: "Flow",
+        status: "failed",
+        totalSteps: 3,
+        failedStepIndex: 2,
+        error: "Element not found",
+        options: { timeout: 500 },
+      });
+      expect(run.durationMs).toBe(run.endedAt! - run.startedAt);
+      expect(run.steps[0]).toMatchObject({
+        stepIndex: 0,
+        type: "click",
+        success: true,
+        durationMs: 10,
+        usedSelector: "#a-fallback",
+      });
+      expect(run.steps[1].extractedData).toBe("value");
+      expect(run.steps[2]).toMatchObject({
+        success: false,
+        error: "Element not found",
+      });
+
+      const [saved] = await listFlowRuns("flow");
+      expect(saved).toEqual(run);
+    });
+
+    it("records the fallback selector that found the element", async () => {
+      document.body.innerHTML = `<button class="save">Save</button>`;
+      const fallbackSteps: Step[] = [
+        {
+          type: "click",
+          selector: "#save",
+          locator: { primary: "#save", fallbacks: [".save"] },
+        },
+      ];
+      const recorder = createRunRecorder({
+        id: "flow",
+        title: "Flow",
+        steps: fallbackSteps,
+      });
+
+      const result = await runFlowSteps(
+        fallbackSteps,
+        () => ({
+          runStep: executeStep,
+          readState: async () => ({ url: "", count: 0, visible: false }),
+          listElements: async () => [],
+        }),
+        { variables: {}, extractedData: {} },
+        {},
+        recorder.hooks
+      );
+
+      const run = await recorder.finish(result);
+      expect(run.steps[0]).toMatchObject({
+        success: true,
+        usedSelector: ".save",
+      });
+    });
+
+    it("records stopped runs and dataset rows", async () => {
+      const recorder = createRunRecorder(
+        { id: "flow", title: "Flow", steps },
+        { datasetRowIndex: 2 }
+      );
+
+      const run = await recorder.finish(
+        { success: false, error: "Stopped by user" },
+        true
+      );
+
+      expect(run.status).toBe("stopped");
+      expect(run.datasetRowIndex).toBe(2);
+      expect((await listFlowRuns("flow"))[0].status).toBe("stopped");
+    });
+  });
+
+  describe("failure artifacts", () => {
+    const capture = () =>
+      saveFailureArtifacts({
+        stepIndex: 0,
+        capturedAt: 1,
+        screenshot: "data:image/jpeg;base64,AAAA",
+      });
+    const runWithCapture = (id: string, artifactsRef: string) =>
+      runOf(id, {
+        steps: [{ stepIndex: 0, type: "click", startedAt: 0, artifactsRef }],
+      });
+
+    it("attaches captures to the failed step of a run", async () => {
+      const steps: Step[] = [{ type: "click", selector: "#a" }];
+      const recorder = createRunRecorder({ id: "flow", title: "Flow", steps });
+      await recorder.hooks.onStepStart?.(steps[0], 0);
+      await recorder.hooks.onStepEnd?.(steps[0], 0, {
+        success: false,
+        error: "Element not found",
+      });
+
+      const artifacts = await capture();
+      await recorder.attachArtifacts(0, artifacts.id);
+
+      const [saved] = await listFlowRuns("flow");
+      expect(saved.steps[0].artifactsRef).toBe(artifacts.id);
+      expect(await getFailureArtifacts(artifacts.id)).toEqual(artifacts);
+    });
+
+    it("deletes captures together with their runs", async () => {
+      const deleted = await capture();
+      const cleared = await capture();
+      const trimmed = await capture();
+      await saveFlowRun(runWithCapture("trimmed", trimmed.id));
+      for (let i = 0; i < MAX_RUNS_PER_FLOW; i++) {
+        await saveFlowRun(runOf(`run-${i}`));
+      }
+      expect(await getFailureArtifacts(trimmed.id)).toBeNull();
+
+      await saveFlowRun(runWithCapture("deleted", deleted.id));
+      await deleteFlowRun("flow", "deleted");
+      expect(await getFailureArtifacts(deleted.id)).toBeNull();
+
+      await saveFlowRun(runWithCapture("cleared", cleared.id));
+      await clearFlowRuns("flow");
+      expect(await getFailureArtifacts(cleared.id)).toBeNull();
+    });
+
+    it("masks secret values left in DOM snapshots", () => {
+      const snapshot = {
+        url: "https://example.com",
+        title: "Login",
+        html: '<input value="hunter2"><p>hunter2</p>',
+        truncated: false,
+      };
+
+      expect(redactSecretValues(snapshot, ["hunter2", ""]).html).toBe(
+        '<input value="*******"><p>*******</p>'
+      );
+    });
+  });
+
+  describe("compareFlowRuns", () => {
+    it("compares durations, status and selectors step by step", () => {
+      const base = runOf("base", {
+        steps: [
+          {
+            stepIndex: 0,
+            type: "click",
+            startedAt: 0,
+            durationMs: 100,
+            success: true,
+            usedSelector: "#a",
+          },
+          {
+            stepIndex: 1,
+            type: "click",
+            startedAt: 0,
+            durationMs: 50,
+            success: true,
+          },
+        ],
+      });
+      const other = runOf("other", {
+        steps: [
+          {
+            stepIndex: 0,
+            type: "click",
+            startedAt: 0,
+            durationMs: 250,
+            success: true,
+            usedSelector: "#a-text",
+          },
+          {
+            stepIndex: 1,
+            type: "click",
+            startedAt: 0,
+            durationMs: 40,
+            success: false,
+          },
+          {
+            stepIndex: 2,
+            type: "extract",
+            startedAt: 0,
+            durationMs: 10,
+            success: true,
+          },
+        ],
+      });
+
+      const rows = compareFlowRuns(base, other);
+
+      expect(rows.map((row) => row.stepIndex)).toEqual([0, 1, 2]);
+      expect(rows[0]).toMatchObject({
+        durationDeltaMs: 150,
+        statusChanged: false,
+        selectorChanged: true,
+      });
+      expect(rows[1]).toMatchObject({
+        durationDeltaMs: -10,
+        statusChanged: true,
+        selectorChanged: false,
+      });
+      expect(rows[2].base).toBeUndefined();
+      expect(rows[2].type).toBe("extract");
+      expect(rows[2].durationDeltaMs).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import type {
+  ControlFlowHandlers,
+  DebugPause,
+  ExecutionResult,
+  Step,
+} from "@auto-wiz/core";
+import {
+  canRepickElement,
+  createStepDebugger,
+  runFlowSteps,
+  validateStep,
+} from "@auto-wiz/core";
+
+/**
+ * Step 디버거 (breakpoint, 일시정지/재개/step over) 테스트
+ */
+
+describe("Step debugger", () => {
+  const steps: Step[] = [
+    { type: "click", selector: "#a" },
+    { type: "click", selector: "#b", breakpoint: true },
+    { type: "click", selector: "#c" },
+    { type: "click", selector: "#d" },
+  ];
+
+  // 실행한 selector 기록, onPause마다 다음 pause를 기다리는 resolver 호출
+  const setup = (
+    options: Parameters<typeof createStepDebugger>[0] = {},
+    shouldStop: () => boolean = () => false
+  ) => {
+    const executed: string[] = [];
+    const pauses: DebugPause[] = [];
+    let notify: (() => void) | null = null;
+
+    const stepDebugger = createStepDebugger({
+      ...options,
+      onPause: (pause) => {
+        pauses.push(pause);
+        notify?.();
+      },
+    });
+    const nextPause = () =>
+      new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+
+    const handlers: ControlFlowHandlers = {
+      runStep: async (step: Step): Promise<ExecutionResult> => {
+        if ("selector" in step && step.selector) executed.push(step.selector);
+        return { success: true };
+      },
+      readState: async () => ({ url: "", count: 0, visible: false }),
+      listElements: async () => [],
+      shouldStop,
+    };
+    const run = () =>
+      runFlowSteps(
+        steps,
+        () => handlers,
+        { variables: {}, extractedData: {} },
+        {},
+        { beforeStep: stepDebugger.beforeStep }
+      );
+
+    return { stepDebugger, executed, pauses, nextPause, run };
+  };
+
+  it("pauses before breakpoint steps until resumed", async () => {
+    const { stepDebugger, executed, pauses, nextPause, run } = setup();
+
+    const paused = nextPause();
+    const running = run();
+    await paused;
+
+    expect(executed).toEqual(["#a"]);
+    expect(pauses[0]).toMatchObject({ stepIndex: 1, reason: "breakpoint" });
+    expect(stepDebugger.getPause()?.stepIndex).toBe(1);
+
+    stepDebugger.resume();
+    expect((await running).success).toBe(true);
+    expect(executed).toEqual(["#a", "#b", "#c", "#d"]);
+    expect(stepDebugger.getPause()).toBeNull();
+  });
+
+  it("steps over one step at a time", async () => {
+    const { stepDebugger, executed, pauses, nextPause, run } = setup();
+
+    let paused = nextPause();
+    const running = run();
+    await paused;
+
+    paused = nextPause();
+    stepDebugger.stepOver();
+    await paused;
+    expect(executed).toEqual(["#a", "#b"]);
+    expect(pauses[1]).toMatchObject({ stepIndex: 2, reason: "step" });
+
+    stepDebugger.resume();
+    await running;
+    expect(executed).toEqual(["#a", "#b", "#c", "#d"]);
+    expect(pauses).toHaveLength(2);
+  });
+
+  it("pauses before the next step when requested while running", async () => {
+    const { stepDebugger, pauses, nextPause, run } = setup({
+      isBreakpoint: () => false,
+    });
+
+    stepDebugger.pause();
+    const paused = nextPause();
+    const running = run();
+    await paused;
+
+    expect(pauses[0]).toMatchObject({ stepIndex: 0, reason: "pause" });
+    stepDebugger.resume();
+    await running;
+    expect(pauses).toHaveLength(1);
+  });
+
+  it("runs the replaced step after re-picking an element", async () => {
+    const { stepDebugger, executed, nextPause, run } = setup();
+
+    const paused = nextPause();
+    const running = run();
+    await paused;
+
+    stepDebugger.replaceStep({ type: "click", selector: "#b-new" });
+    expect(stepDebugger.getPause()?.step).toMatchObject({
+      selector: "#b-new",
+    });
+    stepDebugger.resume();
+    await running;
+    expect(executed).toEqual(["#a", "#b-new", "#c", "#d"]);
+  });
+
+  it("stops the run when released while paused", async () => {
+    let stopped = false;
+    const { stepDebugger, executed, nextPause, run } = setup({}, () => stopped);
+
+    const paused = nextPause();
+    const running = run();
+    await paused;
+
+    stopped = true;
+    stepDebugger.release();
+    const result = await running;
+    expect(result).toMatchObject({
+      success: false,
+      error: "Stopped by user",
+      failedStepIndex: 1,
+    });
+    expect(executed).toEqual(["#a"]);
+
+    // release 이후에는 일시정지하지 않음
+    stepDebugger.pause();
+    expect(await stepDebugger.beforeStep(steps[1], 1)).toBe(steps[1]);
+  });
+
+  it("detects steps whose element can be re-picked", () => {
+    expect(canRepickElement({ type: "click", selector: "#a" })).toBe(true);
+    expect(canRepickElement({ type: "navigate", url: "https://a.com" })).toBe(
+      false
+    );
+    expect(canRepickElement({ type: "waitFor", timeoutMs: 100 })).toBe(false);
+    expect(
+      canRepickElement({ type: "repeat", times: 2, steps: [steps[0]] })
+    ).toBe(false);
+  });
+
+  it("validates the breakpoint flag", () => {
+    expect(validateStep(steps[1]).valid).toBe(true);
+    expect(
+      validateStep({ ...steps[0], breakpoint: "yes" } as unknown as Step)
+    ).toEqual({ valid: false, error: "Breakpoint must be a boolean" });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import type { Step } from "@auto-wiz/core";
+import {
+  classifyStepFailure,
+  getRetryDelay,
+  resolveRetryPolicy,
+  shouldRetryStep,
+  validateRetryPolicy,
+  validateStep,
+} from "@auto-wiz/core";
+
+/**
+ * Step 재시도 정책 테스트
+ */
+
+describe("Step Retry", () => {
+  const click: Step = { type: "click", selector: "#submit" };
+
+  describe("classifyStepFailure", () => {
+    it("should classify runner error messages", () => {
+      expect(
+        classifyStepFailure("Element not found with selector: #submit")
+      ).toBe("notFound");
+      expect(classifyStepFailure("Element is not interactable: #submit")).toBe(
+        "notInteractable"
+      );
+      expect(
+        classifyStepFailure(
+          "locator.click: Timeout 5000ms exceeded. element is not visible"
+        )
+      ).toBe("notInteractable");
+      expect(classifyStepFailure("Timeout waiting for element: #spinner")).toBe(
+        "timeout"
+      );
+      expect(
+        classifyStepFailure(
+          'Assertion failed: #title text equals "Done" (actual: not found)'
+        )
+      ).toBe("assertion");
+      expect(classifyStepFailure("Stopped by user")).toBe("other");
+      expect(classifyStepFailure(undefined)).toBe("other");
+    });
+  });
+
+  describe("resolveRetryPolicy", () => {
+    it("should prefer the step policy over the flow default and retries", () => {
+      const step: Step = { ...click, retry: { attempts: 4, backoffMs: 100 } };
+      expect(
+        resolveRetryPolicy(step, { retry: { attempts: 2 }, retries: 5 })
+      ).toEqual({
+        attempts: 4,
+        backoffMs: 100,
+        backoffFactor: 2,
+        maxBackoffMs: 10000,
+        retryOn: ["any"],
+      });
+      expect(
+        resolveRetryPolicy(click, { retry: { attempts: 2 }, retries: 5 })
+      ).toMatchObject({ attempts: 2 });
+      expect(resolveRetryPolicy(click, { retries: 2 })).toMatchObject({
+        attempts: 3,
+        backoffMs: 500,
+      });
+    });
+
+    it("should not retry single-attempt policies", () => {
+      expect(resolveRetryPolicy(click)).toBeNull();
+      expect(
+        resolveRetryPolicy({ ...click, retry: { attempts: 1 } }, { retries: 3 })
+      ).toBeNull();
+    });
+  });
+
+  describe("shouldRetryStep", () => {
+    it("should only retry the listed failure kinds", () => {
+      const policy = resolveRetryPolicy(click, {
+        retry: { attempts: 3, retryOn: ["notFound", "timeout"] },
+      })!;
+
+      expect(
+        shouldRetryStep(policy, "Element not found with selector: #a")
+      ).toBe(true);
+      expect(shouldRetryStep(policy, "Element is not interactable: #a")).toBe(
+        false
+      );
+      expect(shouldRetryStep(policy, "Something else")).toBe(false);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should back off exponentially up to the limit", () => {
+      const policy = resolveRetryPolicy(click, {
+        retry: { attempts: 5, backoffMs: 200, maxBackoffMs: 1000 },
+      })!;
+      expect(
+        [1, 2, 3, 4].map((attempt) => getRetryDelay(policy, attempt))
+      ).toEqual([200, 400, 800, 1000]);
+
+      const fixed = resolveRetryPolicy(click, {
+        retry: { attempts: 3, backoffMs: 300, backoffFactor: 1 },
+      })!;
+      expect(getRetryDelay(fixed, 2)).toBe(300);
+    });
+  });
+
+  describe("validation", () => {
+    it("should accept valid policies", () => {
+      expect(
+        validateRetryPolicy({
+          attempts: 3,
+          backoffMs: 0,
+          backoffFactor: 1.5,
+          retryOn: ["notFound", "notInteractable"],
+        })
+      ).toEqual({ valid: true });
+      expect(validateStep({ ...click, retry: { attempts: 2 } })).toEqual({
+        valid: true,
+      });
+    });
+
+    it("should reject invalid policies", () => {
+      expect(validateRetryPolicy({ attempts: 0 }).error).toBe(
+        "Retry attempts must be a positive integer"
+      );
+      expect(validateRetryPolicy({ attempts: 2, backoffMs: -1 }).error).toBe(
+        "Retry backoff must be a positive number"
+      );
+      expect(
+        validateRetryPolicy({ attempts: 2, backoffFactor: 0.5 }).error
+      ).toBe("Retry backoff factor must be at least 1");
+      expect(
+        validateRetryPolicy({ attempts: 2, retryOn: ["flaky" as any] }).error
+      ).toBe('Unknown retry condition: "flaky"');
+    });
+
+    it("should reject retry on control flow steps", () => {
+      expect(
+        validateStep({
+          type: "repeat",
+          times: 2,
+          steps: [click],
+          retry: { attempts: 2 },
+        }).error
+      ).toBe("Retry is not supported on control flow steps");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Flow, Step } from "@auto-wiz/core";
+import {
+  collectFlowVariables,
+  extractSubFlow,
+  findSubFlowCycle,
+  getCalledFlowIds,
+  validateStep,
+  validateSteps,
+} from "@auto-wiz/core";
+import { DomFlowRunner } from "@auto-wiz/dom";
+
+/**
+ * 하위 Flow (callFlow 스텝) 테스트
+ */
+
+describe("Sub-flows", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <input id="user" />
+      <button id="login">Login</button>
+      <div id="greeting">Hello</div>
+    `;
+    document.querySelector("#login")!.addEventListener("click", () => {
+      const user = (document.querySelector("#user") as HTMLInputElement).value;
+      document.querySelector("#greeting")!.textContent = `Hello ${user}`;
+    });
+  });
+
+  const flowOf = (id: string, steps: Step[], extra: Partial<Flow> = {}) => ({
+    id,
+    title: id,
+    createdAt: 0,
+    steps,
+    ...extra,
+  });
+
+  const login = flowOf(
+    "login",
+    [
+      { type: "type", selector: "#user", text: "{{username}}" },
+      { type: "click", selector: "#login" },
+    ],
+    { variables: [{ name: "username" }] }
+  );
+
+  const callLogin = (args?: Record<string, string>): Step => ({
+    type: "callFlow",
+    flowId: "login",
+    flowTitle: "Login",
+    ...(args ? { args } : {}),
+  });
+
+  const loaderFor =
+    (...flows: Flow[]) =>
+    async (flowId: string) =>
+      flows.find((flow) => flow.id === flowId) || null;
+
+  describe("validation", () => {
+    it("should require a flow id and valid argument names", () => {
+      expect(validateStep({ type: "callFlow", flowId: "" }).error).toBe(
+        "Call flow step requires flow id"
+      );
+      expect(
+        validateStep({ type: "callFlow", flowId: "x", args: { "a b": "1" } })
+          .valid
+      ).toBe(false);
+    });
+
+    it("should detect cycles through the saved flows", () => {
+      const a = flowOf("a", [{ type: "callFlow", flowId: "b" }]);
+      const b = flowOf("b", [
+        {
+          type: "repeat",
+          times: 1,
+          steps: [{ type: "callFlow", flowId: "a" }],
+        },
+      ]);
+
+      expect(findSubFlowCycle("a", a.steps, [a, b])).toEqual(["a", "b", "a"]);
+      expect(validateSteps(a.steps, { flowId: "a", flows: [a, b] }).error).toBe(
+        "Sub-flow cycle: a → b → a"
+      );
+      expect(
+        validateSteps(a.steps, { flowId: "a", flows: [a, login] }).error
+      ).toBe("Called flow not found: b");
+      expect(
+        validateSteps([callLogin()], { flowId: "a", flows: [login] })
+      ).toEqual({ valid: true });
+    });
+  });
+
+  describe("extractSubFlow", () => {
+    it("should move steps into a new flow and call it in place", () => {
+      const flow = flowOf(
+        "checkout",
+        [
+          { type: "navigate", url: "https://example.com" },
+          ...login.steps,
+          { type: "click", selector: "#buy" },
+        ],
+        { variables: [{ name: "username", defaultValue: "ada" }] }
+      );
+
+      const result = extractSubFlow(flow, 1, 2, "Login");
+
+      expect(result.subFlow.steps).toEqual(login.steps);
+      expect(result.subFlow.variables).toEqual([
+        { name: "username", defaultValue: "ada" },
+      ]);
+      expect(result.flow.steps).toHaveLength(3);
+      expect(result.flow.steps[1]).toEqual({
+        type: "callFlow",
+        flowId: result.subFlow.id,
+        flowTitle: "Login",
+        args: { username: "{{username}}" },
+      });
+      expect(getCalledFlowIds(result.flow.steps)).toEqual([result.subFlow.id]);
+      expect(collectFlowVariables(result.flow)).toEqual(["username"]);
+    });
+  });
+
+  describe("DOM execution", () => {
+    it("should run the called flow with its arguments", async () => {
+      const result = await new DomFlowRunner().run(
+        flowOf(
+          "main",
+          [
+            callLogin({ username: "{{name}}" }),
+            { type: "extract", selector: "#greeting", name: "greeting" },
+          ],
+          { variables: [{ name: "name" }] }
+        ),
+        undefined,
+        { variables: { name: "Ada" }, loadFlow: loaderFor(login) }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.extractedData).toMatchObject({ greeting: "Hello Ada" });
+    });
+
+    it("should report missing arguments and unknown flows", async () => {
+      const missing = await new DomFlowRunner().run(
+        flowOf("main", [callLogin()]),
+        undefined,
+        { loadFlow: loaderFor(login) }
+      );
+      expect(missing.error).toBe(
+        "Step 1: Missing variables for login: username"
+      );
+
+      const unknown = await new DomFlowRunner().run(
+        flowOf("main", [{ type: "callFlow", flowId: "nope" }]),
+        undefined,
+        { loadFlow: loaderFor(login) }
+      );
+      expect(unknown.error).toBe("Step 1: Called flow not found: nope");
+    });
+
+    it("should stop recursive calls at run time", async () => {
+      const loop = flowOf("loop", [{ type: "callFlow", flowId: "loop" }]);
+
+      const result = await new DomFlowRunner().run(loop, undefined, {
+        loadFlow: loaderFor(loop),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Step 1: Sub-flow cycle: loop → loop");
+    });
+
+    it("should prefix failures inside the sub-flow with their path", async () => {
+      const broken = flowOf("broken", [
+        { type: "click", selector: "#missing", timeoutMs: 50 },
+      ]);
+
+      const result = await new DomFlowRunner().run(
+        flowOf("main", [
+          { type: "click", selector: "#login" },
+          { type: "callFlow", flowId: "broken" },
+        ]),
+        undefined,
+        { loadFlow: loaderFor(broken) }
+      );
+
+      expect(result.failedStepIndex).toBe(1);
+      expect(result.error).toMatch(/^Step 2\.1: /);
+    });
+  });
+});
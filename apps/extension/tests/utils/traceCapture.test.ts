@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import {
+  captureTraceTarget,
+  drainTraceEvents,
+  installTraceEventHooks,
+} from "@auto-wiz/dom";
+
+/**
+ * Trace 수집 (대상 요소, 콘솔 오류, 네트워크 실패) 테스트
+ */
+
+describe("captureTraceTarget", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="save" data-testid="save-btn">Save</button>
+    `;
+  });
+
+  it("reports the primary locator tier and bounding box", () => {
+    const target = captureTraceTarget({
+      type: "click",
+      selector: "#save",
+      locator: { primary: "#save", fallbacks: [] },
+    });
+
+    expect(target).toMatchObject({
+      locatorTier: "primary",
+      selector: "#save",
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+    });
+    expect(target?.boundingBox).toEqual({ x: 0, y: 0, width: 0, height: 0 });
+  });
+
+  it("reports a fallback tier when the primary selector misses", () => {
+    const target = captureTraceTarget({
+      type: "click",
+      selector: "#missing",
+      locator: {
+        primary: "#missing",
+        fallbacks: ['[data-testid="save-btn"]'],
+      },
+    });
+
+    expect(target?.locatorTier).toBe("fallback");
+    expect(target?.selector).toBe('[data-testid="save-btn"]');
+  });
+
+  it("falls back to the step selector", () => {
+    const target = captureTraceTarget({ type: "click", selector: "#save" });
+
+    expect(target?.locatorTier).toBe("selector");
+  });
+
+  it("returns null when there is no target", () => {
+    expect(captureTraceTarget({ type: "click", selector: "#missing" })).toBe(
+      null
+    );
+    expect(captureTraceTarget({ type: "waitFor", timeoutMs: 10 })).toBeNull();
+  });
+});
+
+describe("installTraceEventHooks", () => {
+  const fetchMock = vi.fn();
+
+  beforeAll(() => {
+    window.fetch = fetchMock as any;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    installTraceEventHooks();
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    drainTraceEvents();
+  });
+
+  it("collects console errors and drains them", () => {
+    console.error("Failed", { code: 1 });
+
+    const events = drainTraceEvents();
+    expect(events.consoleErrors).toHaveLength(1);
+    expect(events.consoleErrors[0]).toMatchObject({
+      message: 'Failed {"code":1}',
+      source: "console",
+    });
+    expect(drainTraceEvents().consoleErrors).toEqual([]);
+  });
+
+  it("collects failed fetch responses and errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockResolvedValueOnce({ ok: false, status: 500 })
+      .mockRejectedValueOnce(new Error("Failed to fetch"));
+
+    await window.fetch("/ok");
+    await window.fetch("/api", { method: "POST" });
+    await expect(window.fetch("/down")).rejects.toThrow("Failed to fetch");
+
+    const { networkFailures } = drainTraceEvents();
+    expect(networkFailures).toEqual([
+      expect.objectContaining({
+        url: "/api",
+        method: "POST",
+        kind: "fetch",
+        status: 500,
+      }),
+      expect.objectContaining({
+        url: "/down",
+        method: "GET",
+        kind: "fetch",
+        error: "Failed to fetch",
+      }),
+    ]);
+  });
+
+  it("is installed only once", () => {
+    installTraceEventHooks();
+    console.error("once");
+
+    expect(drainTraceEvents().consoleErrors).toHaveLength(1);
+  });
+});
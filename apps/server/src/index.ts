@@ -4,26 +4,25 @@ import { chromium } from "playwright";
 import puppeteer from "puppeteer";
 import { PlaywrightFlowRunner } from "@auto-wiz/playwright";
 import { PuppeteerFlowRunner } from "@auto-wiz/puppeteer";
-import type { Flow } from "@auto-wiz/core";
+import { parseRunRequest, runFlow } from "./runFlow";
 
 const app = express();
 const PORT = 3001;
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: "10mb" }));
 
 // Run with Playwright
 app.post("/run/playwright", async (req, res) => {
-  const flow: Flow = req.body;
-  console.log(`[Playwright] Received flow: ${flow.title}`);
+  const request = parseRunRequest(req.body);
+  console.log(`[Playwright] Received flow: ${request.flow.title}`);
 
   let browser;
   try {
     browser = await chromium.launch({ headless: false }); // Visible for demo
     const page = await browser.newPage();
 
-    const runner = new PlaywrightFlowRunner();
-    const result = await runner.run(flow, page);
+    const result = await runFlow(new PlaywrightFlowRunner(), request, page);
 
     res.json(result);
   } catch (error) {
@@ -36,16 +35,15 @@ app.post("/run/playwright", async (req, res) => {
 
 // Run with Puppeteer
 app.post("/run/puppeteer", async (req, res) => {
-  const flow: Flow = req.body;
-  console.log(`[Puppeteer] Received flow: ${flow.title}`);
+  const request = parseRunRequest(req.body);
+  console.log(`[Puppeteer] Received flow: ${request.flow.title}`);
 
   let browser;
   try {
     browser = await puppeteer.launch({ headless: false }); // Visible for demo
     const page = await browser.newPage();
 
-    const runner = new PuppeteerFlowRunner();
-    const result = await runner.run(flow, page);
+    const result = await runFlow(new PuppeteerFlowRunner(), request, page);
 
     res.json(result);
   } catch (error) {
@@ -0,0 +1,43 @@
+import { runFlowWithDataset } from "@auto-wiz/core";
+import type { Flow, FlowRunner, RunnerOptions } from "@auto-wiz/core";
+
+// 실행 요청: Flow와 callFlow 스텝이 호출하는 하위 Flow 목록
+export interface RunRequest {
+  flow: Flow;
+  subFlows: Flow[];
+}
+
+/**
+ * 요청 본문 해석
+ * { flow, subFlows } 형식, 또는 하위 Flow 없이 Flow만 보낸 이전 형식
+ */
+export function parseRunRequest(body: any): RunRequest {
+  if (body && typeof body === "object" && "flow" in body) {
+    return {
+      flow: body.flow,
+      subFlows: Array.isArray(body.subFlows) ? body.subFlows : [],
+    };
+  }
+  return { flow: body, subFlows: [] };
+}
+
+/**
+ * Flow 실행 (Dataset이 첨부되어 있으면 행마다 실행하고 행별 결과 반환)
+ * 서버에는 Flow 저장소가 없으므로 callFlow 하위 Flow는 요청에 함께 보낸 목록에서 조회
+ */
+export async function runFlow<TContext>(
+  runner: FlowRunner<TContext>,
+  { flow, subFlows }: RunRequest,
+  context: TContext
+) {
+  const options: RunnerOptions = {
+    loadFlow: async (flowId) =>
+      subFlows.find((subFlow) => subFlow.id === flowId) ?? null,
+  };
+
+  if (flow.dataset && flow.dataset.rows.length > 0) {
+    const rows = await runFlowWithDataset(runner, flow, context, options);
+    return { success: rows.every((row) => row.success), rows };
+  }
+  return runner.run(flow, context, options);
+}
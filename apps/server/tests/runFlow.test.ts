@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Flow, FlowRunner } from "@auto-wiz/core";
+import { PlaywrightFlowRunner } from "@auto-wiz/playwright";
+import { PuppeteerFlowRunner } from "@auto-wiz/puppeteer";
+import { parseRunRequest, runFlow } from "../src/runFlow";
+
+/**
+ * 서버 Flow 실행 테스트 (요청에 함께 보낸 하위 Flow로 callFlow 실행)
+ * navigate 스텝만 사용하므로 브라우저 대신 page.goto만 있는 가짜 페이지 사용
+ */
+
+describe("Server runFlow", () => {
+  const login: Flow = {
+    id: "login",
+    title: "Log in",
+    createdAt: 0,
+    steps: [{ type: "navigate", url: "https://example.com/{{user}}" }],
+    variables: [{ name: "user" }],
+  };
+  const checkout: Flow = {
+    id: "checkout",
+    title: "Checkout",
+    createdAt: 0,
+    steps: [
+      { type: "callFlow", flowId: "login", args: { user: "ada" } },
+      { type: "navigate", url: "https://example.com/cart" },
+    ],
+  };
+
+  const runners: [string, FlowRunner<any>][] = [
+    ["PlaywrightFlowRunner", new PlaywrightFlowRunner()],
+    ["PuppeteerFlowRunner", new PuppeteerFlowRunner()],
+  ];
+
+  it("should accept a bare flow or a flow with sub-flows", () => {
+    expect(parseRunRequest(checkout)).toEqual({
+      flow: checkout,
+      subFlows: [],
+    });
+    expect(parseRunRequest({ flow: checkout, subFlows: [login] })).toEqual({
+      flow: checkout,
+      subFlows: [login],
+    });
+  });
+
+  it.each(runners)(
+    "should run callFlow steps from the request with %s",
+    async (_name, runner) => {
+      const page = { goto: vi.fn().mockResolvedValue(null) };
+
+      const result = await runFlow(
+        runner,
+        parseRunRequest({ flow: checkout, subFlows: [login] }),
+        page
+      );
+
+      expect(result.success).toBe(true);
+      expect(page.goto.mock.calls.map(([url]) => url)).toEqual([
+        "https://example.com/ada",
+        "https://example.com/cart",
+      ]);
+    }
+  );
+
+  it.each(runners)(
+    "should fail when the called flow was not sent with %s",
+    async (_name, runner) => {
+      const page = { goto: vi.fn().mockResolvedValue(null) };
+
+      const result = await runFlow(runner, parseRunRequest(checkout), page);
+
+      expect(result).toMatchObject({ success: false, failedStepIndex: 0 });
+      expect(page.goto).not.toHaveBeenCalled();
+    }
+  );
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import { chromium } from "playwright";
+import puppeteer from "puppeteer";
+import type { ConformanceHarness, ConformanceServer } from "@auto-wiz/core";
+import {
+  RUNNER_CONFORMANCE_CASES,
+  runConformanceCase,
+  startConformanceServer,
+} from "@auto-wiz/core";
+import { createPlaywrightConformanceHarness } from "@auto-wiz/playwright";
+import { createPuppeteerConformanceHarness } from "@auto-wiz/puppeteer";
+
+/**
+ * Runner conformance 테스트 (PlaywrightFlowRunner, PuppeteerFlowRunner를 공통 케이스에 연결)
+ * fixture 페이지는 로컬 서버로 제공하고, 브라우저를 띄울 수 없는 환경에서는 Runner 케이스를 건너뜀
+ */
+
+describe("Runner Conformance", () => {
+  let server: ConformanceServer;
+
+  beforeAll(async () => {
+    server = await startConformanceServer(http);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it("should serve fixture pages by path", async () => {
+    const response = await fetch(`${server.url}/form.html?step=1`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/html");
+    expect(await response.text()).toContain("<title>Checkout form</title>");
+
+    const missing = await fetch(`${server.url}/missing.html`);
+    expect(missing.status).toBe(404);
+  });
+
+  // 브라우저를 띄우고 harness를 만드는 Runner별 설정
+  const runners: {
+    name: string;
+    launch: () => Promise<{
+      harness: ConformanceHarness<any>;
+      close: () => Promise<void>;
+    }>;
+  }[] = [
+    {
+      name: "PlaywrightFlowRunner",
+      launch: async () => {
+        const browser = await chromium.launch();
+        return {
+          harness: createPlaywrightConformanceHarness(browser, server.url),
+          close: () => browser.close(),
+        };
+      },
+    },
+    {
+      name: "PuppeteerFlowRunner",
+      launch: async () => {
+        const browser = await puppeteer.launch();
+        return {
+          harness: createPuppeteerConformanceHarness(browser, server.url),
+          close: () => browser.close(),
+        };
+      },
+    },
+  ];
+
+  describe.each(runners)("$name", ({ launch }) => {
+    let launched: Awaited<ReturnType<typeof launch>> | null = null;
+
+    beforeAll(async () => {
+      // 브라우저가 설치되지 않았거나 실행할 수 없으면 케이스를 건너뜀
+      launched = await launch().catch(() => null);
+    }, 60000);
+
+    afterAll(async () => {
+      await launched?.close();
+    });
+
+    it.for(RUNNER_CONFORMANCE_CASES)(
+      "$name",
+      { timeout: 30000 },
+      async (testCase, { skip }) => {
+        if (!launched) return skip("browser is not available");
+        const result = await runConformanceCase(launched.harness, testCase);
+        expect(result.mismatches).toEqual([]);
+      }
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import type { AssertionKind, Step } from "../types";
+
+/**
+ * Assertion 유틸리티
+ * assert 스텝의 기대값 비교와 메시지 생성 (실행 환경과 무관한 공통 로직)
+ * 각 Runner는 페이지 상태(AssertionState)만 읽어오고 판정은 여기서 수행
+ */
+
+export type AssertStep = Extract<Step, { type: "assert" }>;
+
+// Runner가 읽어온 현재 페이지 상태
+export interface AssertionState {
+  url: string;
+  count: number; // selector와 일치하는 요소 수
+  visible: boolean; // 첫 번째 요소가 보이는지
+  text?: string; // 첫 번째 요소의 텍스트 (trim)
+  value?: string; // 첫 번째 요소의 value
+  attribute?: string | null; // 첫 번째 요소의 attribute 값 (없으면 null)
+}
+
+export interface AssertionOutcome {
+  passed: boolean;
+  message: string;
+}
+
+const DEFAULT_ASSERTION_TIMEOUT = 5000;
+const ASSERTION_POLL_INTERVAL = 100;
+
+/**
+ * 요소 selector가 필요한 assertion인지 확인
+ */
+export function assertionRequiresElement(kind: AssertionKind): boolean {
+  return kind !== "urlMatches";
+}
+
+/**
+ * 패턴 문자열을 정규식으로 변환
+ * "/pattern/flags" 형식이면 flags까지 사용, 아니면 전체를 pattern으로 사용
+ */
+export function parseAssertionPattern(pattern: string): RegExp {
+  const literal = pattern.match(/^\/([\s\S]*)\/([a-z]*)$/);
+  if (literal) {
+    return new RegExp(literal[1], literal[2]);
+  }
+  return new RegExp(pattern);
+}
+
+/**
+ * 사람이 읽기 쉬운 assertion 설명 (UI, 오류 메시지용)
+ */
+export function describeAssertion(step: AssertStep): string {
+  const target = step.selector || "element";
+  const expected = JSON.stringify(step.expected ?? "");
+
+  switch (step.assertion) {
+    case "visible":
+      return `${target} is visible`;
+    case "hidden":
+      return `${target} is hidden`;
+    case "textEquals":
+      return `text of ${target} equals ${expected}`;
+    case "textContains":
+      return `text of ${target} contains ${expected}`;
+    case "textMatches":
+      return `text of ${target} matches ${step.expected ?? ""}`;
+    case "attributeEquals":
+      return `${step.attribute} of ${target} equals ${expected}`;
+    case "valueEquals":
+      return `value of ${target} equals ${expected}`;
+    case "urlMatches":
+      return `URL matches ${step.expected ?? ""}`;
+    case "count":
+      return `${target} matches ${step.count} element(s)`;
+    default:
+      return `Unknown assertion: ${(step as AssertStep).assertion}`;
+  }
+}
+
+/**
+ * 현재 페이지 상태로 assertion 판정
+ */
+export function evaluateAssertion(
+  step: AssertStep,
+  state: AssertionState
+): AssertionOutcome {
+  const expected = step.expected ?? "";
+  let passed: boolean;
+  let actual: string;
+
+  switch (step.assertion) {
+    case "visible":
+      passed = state.count > 0 && state.visible;
+      actual = state.count === 0 ? "not found" : "hidden";
+      break;
+    case "hidden":
+      passed = state.count === 0 || !state.visible;
+      actual = "visible";
+      break;
+    case "textEquals":
+      passed = state.count > 0 && state.text === expected;
+      actual = state.count === 0 ? "not found" : JSON.stringify(state.text);
+      break;
+    case "textContains":
+      passed = state.count > 0 && (state.text ?? "").includes(expected);
+      actual = state.count === 0 ? "not found" : JSON.stringify(state.text);
+      break;
+    case "textMatches":
+      passed =
+        state.count > 0 &&
+        parseAssertionPattern(expected).test(state.text ?? "");
+      actual = state.count === 0 ? "not found" : JSON.stringify(state.text);
+      break;
+    case "attributeEquals":
+      passed = state.count > 0 && state.attribute === expected;
+      actual =
+        state.count === 0
+          ? "not found"
+          : state.attribute === null || state.attribute === undefined
+          ? "attribute missing"
+          : JSON.stringify(state.attribute);
+      break;
+    case "valueEquals":
+      passed = state.count > 0 && state.value === expected;
+      actual = state.count === 0 ? "not found" : JSON.stringify(state.value);
+      break;
+    case "urlMatches":
+      passed = parseAssertionPattern(expected).test(state.url);
+      actual = state.url;
+      break;
+    case "count":
+      passed = state.count === step.count;
+      actual = String(state.count);
+      break;
+    default:
+      return {
+        passed: false,
+        message: `Unknown assertion: ${(step as AssertStep).assertion}`,
+      };
+  }
+
+  const description = describeAssertion(step);
+  return {
+    passed,
+    message: passed
+      ? `Assertion passed: ${description}`
+      : `Assertion failed: ${description} (actual: ${actual})`,
+  };
+}
+
+/**
+ * 통과할 때까지 페이지 상태를 다시 읽어 판정 (timeoutMs 동안 재시도)
+ * 시간 안에 통과하지 못하면 마지막 판정 결과 반환
+ */
+export async function waitForAssertion(
+  step: AssertStep,
+  readState: () => Promise<AssertionState>,
+  timeoutMs: number = step.timeoutMs ?? DEFAULT_ASSERTION_TIMEOUT
+): Promise<AssertionOutcome> {
+  const startTime = Date.now();
+
+  while (true) {
+    const outcome = evaluateAssertion(step, await readState());
+    if (outcome.passed || Date.now() - startTime >= timeoutMs) {
+      return outcome;
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, ASSERTION_POLL_INTERVAL)
+    );
+  }
+}
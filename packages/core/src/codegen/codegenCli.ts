@@ -0,0 +1,110 @@
+import type { Flow } from "../types";
+import { parseFlowFile } from "../schema/flowSchema";
+
+/**
+ * Codegen CLI 유틸리티
+ * Flow 파일을 코드로 변환하는 bin(auto-wiz-playwright-codegen 등)의 공통 처리
+ * 인자 해석, 변환할 Flow 선택, 오류 출력은 여기서 하고 파일/표준 출력은 각 bin이 전달
+ * (core는 브라우저에서도 쓰이므로 Node API를 직접 사용하지 않음)
+ */
+
+// Flow와 하위 Flow 목록을 코드로 변환하는 생성기
+export type FlowCodeGenerator = (flow: Flow, subFlows: Flow[]) => string;
+
+export interface CodegenCli {
+  generate: FlowCodeGenerator;
+  usage: string; // 오류와 --help에 출력할 사용법
+}
+
+// bin이 제공하는 입출력 (Node의 fs와 process.stdout)
+export interface CodegenCliIO {
+  readFile: (path: string) => string;
+  writeFile: (path: string, content: string) => void;
+  write: (text: string) => void; // 표준 출력
+}
+
+export interface CodegenCliOptions {
+  input: string;
+  out?: string;
+  flow?: string; // 변환할 Flow의 id 또는 title
+}
+
+/**
+ * CLI 인자 해석 (잘못된 인자는 예외)
+ */
+export function parseCodegenArgs(args: string[]): CodegenCliOptions {
+  const options: Partial<CodegenCliOptions> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--out" || arg === "-o") {
+      options.out = args[++i];
+    } else if (arg === "--flow") {
+      options.flow = args[++i];
+    } else if (arg.startsWith("-") || options.input) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    } else {
+      options.input = arg;
+    }
+  }
+
+  if (!options.input) throw new Error("Missing flow file");
+  if ("out" in options && !options.out) throw new Error("Missing --out path");
+  if ("flow" in options && !options.flow) throw new Error("Missing --flow id");
+  return options as CodegenCliOptions;
+}
+
+/**
+ * 파일의 첫 번째 Flow(또는 --flow로 지정한 Flow)를 변환하고 나머지는 하위 Flow로 사용
+ * --out이 없으면 표준 출력으로 출력
+ */
+function convertFlowFile(
+  cli: CodegenCli,
+  options: CodegenCliOptions,
+  io: CodegenCliIO
+): void {
+  const { flows, issues } = parseFlowFile(io.readFile(options.input));
+  issues.forEach((issue) => console.warn(`Warning: ${issue}`));
+
+  const flow = options.flow
+    ? flows.find((f) => f.id === options.flow || f.title === options.flow)
+    : flows[0];
+  if (!flow) {
+    throw new Error(
+      options.flow ? `Flow not found: ${options.flow}` : "No flow to convert"
+    );
+  }
+
+  const code = cli.generate(
+    flow,
+    flows.filter((f) => f !== flow)
+  );
+  if (options.out) {
+    io.writeFile(options.out, code);
+    console.log(`Wrote ${options.out}`);
+  } else {
+    io.write(code);
+  }
+}
+
+/**
+ * CLI 실행 (종료 코드 반환, 오류는 메시지와 사용법을 출력하고 1)
+ */
+export function runCodegenCli(
+  cli: CodegenCli,
+  args: string[],
+  io: CodegenCliIO
+): number {
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(cli.usage);
+    return 0;
+  }
+
+  try {
+    convertFlowFile(cli, parseCodegenArgs(args), io);
+    return 0;
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    console.error(cli.usage);
+    return 1;
+  }
+}
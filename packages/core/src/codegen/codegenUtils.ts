@@ -0,0 +1,234 @@
+import { parseAssertionPattern } from "../assertions/assertionUtils";
+
+/**
+ * Codegen 유틸리티
+ * Flow를 테스트 스크립트로 변환할 때 쓰는 공통 도우미 (들여쓰기, 문자열/정규식 리터럴, 이름 변환)
+ */
+
+// flowVariables의 {{name}} placeholder와 같은 규칙
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// 생성 코드에서 식별자로 쓸 수 없는 이름
+const RESERVED_IDENTIFIERS = new Set([
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "let",
+  "new",
+  "null",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+]);
+
+// placeholder 이름 -> 생성 코드에서 값을 만드는 JS 식 (numeric: 반복 index 등 숫자 값)
+export type CodegenScope = Record<
+  string,
+  { expression: string; numeric?: boolean }
+>;
+
+/**
+ * 들여쓰기를 관리하며 코드 줄을 모음
+ */
+export class CodeWriter {
+  private lines: string[] = [];
+  private depth = 0;
+
+  constructor(private indentUnit = "  ") {}
+
+  line(text = ""): void {
+    this.lines.push(text ? this.indentUnit.repeat(this.depth) + text : "");
+  }
+
+  comment(text: string): void {
+    this.line(`// ${toCommentText(text)}`);
+  }
+
+  /**
+   * header { body } footer 형태의 블록
+   */
+  block(header: string, body: () => void, footer = "}"): void {
+    this.line(header);
+    this.indent(body);
+    this.line(footer);
+  }
+
+  /**
+   * 한 단계 들여쓴 줄
+   */
+  indent(body: () => void): void {
+    this.depth++;
+    body();
+    this.depth--;
+  }
+
+  toString(): string {
+    return this.lines.join("\n");
+  }
+}
+
+/**
+ * 한 줄 주석에 넣을 텍스트 (줄바꿈이 주석을 끝내지 않도록 공백으로 바꿈)
+ */
+export function toCommentText(text: string): string {
+  return text.replace(/[\r\n\u2028\u2029]+/g, " ");
+}
+
+/**
+ * 문자열 리터럴 (큰따옴표)
+ */
+export function toStringLiteral(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * {{name}} placeholder가 있는 문자열을 JS 식으로 변환
+ * scope에 있는 placeholder만 ${식}으로 바꾸고, 나머지는 실행 시와 같이 그대로 유지
+ */
+export function toStringExpression(
+  template: string,
+  scope: CodegenScope
+): string {
+  const known = Array.from(template.matchAll(PLACEHOLDER_PATTERN)).filter(
+    (match) => Object.prototype.hasOwnProperty.call(scope, match[1])
+  );
+  if (known.length === 0) return toStringLiteral(template);
+
+  // 전체가 placeholder 하나면 식 그대로 사용
+  if (known.length === 1 && known[0][0] === template) {
+    const value = scope[known[0][1]];
+    return value.numeric ? `String(${value.expression})` : value.expression;
+  }
+
+  let result = "";
+  let last = 0;
+  for (const match of known) {
+    result += escapeTemplateText(template.slice(last, match.index));
+    result += `\${${scope[match[1]].expression}}`;
+    last = match.index! + match[0].length;
+  }
+  result += escapeTemplateText(template.slice(last));
+  return `\`${result}\``;
+}
+
+function escapeTemplateText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/`/g, "\\`")
+    .replace(/\$\{/g, "\\${");
+}
+
+/**
+ * 패턴 문자열("/pattern/flags" 형식 가능)을 정규식 JS 식으로 변환
+ * placeholder가 있으면 new RegExp(...)로 실행 시 생성
+ */
+export function toRegExpExpression(
+  pattern: string,
+  scope: CodegenScope
+): string {
+  const literal = pattern.match(/^\/([\s\S]*)\/([a-z]*)$/);
+  const source = literal ? literal[1] : pattern;
+  const flags = literal ? literal[2] : "";
+
+  const expression = toStringExpression(source, scope);
+  if (expression !== toStringLiteral(source)) {
+    return flags
+      ? `new RegExp(${expression}, ${toStringLiteral(flags)})`
+      : `new RegExp(${expression})`;
+  }
+
+  const regex = parseAssertionPattern(pattern);
+  return `/${regex.source}/${regex.flags}`;
+}
+
+/**
+ * 이름을 camelCase 식별자로 변환 ("order-id" -> "orderId", "Log in" -> "logIn")
+ */
+export function toIdentifier(name: string, fallback = "value"): string {
+  const words = name.split(/[^A-Za-z0-9_$]+/).filter(Boolean);
+  const identifier = words
+    .map((word, index) =>
+      index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join("");
+
+  if (!identifier) return fallback;
+  if (/^[0-9]/.test(identifier)) return `_${identifier}`;
+  return RESERVED_IDENTIFIERS.has(identifier) ? `${identifier}_` : identifier;
+}
+
+// 생성 코드가 읽는 환경 변수 이름 앞에 붙임 (USER, PATH 같은 OS 환경 변수와 겹치지 않도록)
+export const VARIABLE_ENV_PREFIX = "AUTO_WIZ_VAR_";
+export const SECRET_ENV_PREFIX = "AUTO_WIZ_SECRET_";
+
+/**
+ * 이름을 환경 변수 이름으로 변환 ("baseUrl" -> "BASE_URL")
+ */
+export function toEnvName(name: string): string {
+  const envName = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+  return /^[0-9]/.test(envName) ? `_${envName}` : envName || "VALUE";
+}
+
+/**
+ * Flow 변수를 읽는 환경 변수 이름 ("username" -> "AUTO_WIZ_VAR_USERNAME")
+ */
+export function toVariableEnvName(name: string): string {
+  return `${VARIABLE_ENV_PREFIX}${toEnvName(name)}`;
+}
+
+/**
+ * 객체 속성 접근 식 (식별자가 아니면 대괄호 사용)
+ */
+export function toPropertyAccess(object: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${object}.${key}`
+    : `${object}[${toStringLiteral(key)}]`;
+}
+
+/**
+ * 사용하지 않은 이름 생성 (name, name2, name3, ...)
+ */
+export function makeUniqueIdentifier(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let suffix = 2; used.has(unique); suffix++) {
+    unique = `${name}${suffix}`;
+  }
+  used.add(unique);
+  return unique;
+}
@@ -0,0 +1,357 @@
+import type { ElementLocator, Flow } from "../types";
+import { hasPlaceholders } from "../variables/flowVariables";
+import { toPlaywrightSelector } from "../locators/locatorStrategies";
+import type { CodegenTarget, CodegenContext } from "./testCodegen";
+import {
+  extractValueExpression,
+  generateTestScript,
+  matchLoopElement,
+  resolveStepSelector,
+  timeoutOption,
+  typedTextExpression,
+} from "./testCodegen";
+import type { CodeWriter } from "./codegenUtils";
+import {
+  toRegExpExpression,
+  toStringExpression,
+  toStringLiteral,
+} from "./codegenUtils";
+
+/**
+ * Playwright codegen 유틸리티
+ * Flow를 @playwright/test spec으로 변환
+ * 요소는 locator metadata로 getByTestId/getByRole/getByPlaceholder를 우선 사용하고,
+ * 기록된 selector는 주석으로 남김
+ */
+
+// 접근 가능한 이름(name)으로 찾을 수 있는 role
+const NAMED_ROLES = new Set([
+  "button",
+  "link",
+  "heading",
+  "img",
+  "tab",
+  "menuitem",
+  "checkbox",
+  "radio",
+  "option",
+  "switch",
+  "textbox",
+  "combobox",
+  "searchbox",
+]);
+
+// 기록된 텍스트가 입력값이라 이름으로 쓸 수 없는 role
+const INPUT_ROLES = new Set(["textbox", "combobox", "searchbox"]);
+
+/**
+ * locator metadata로 만든 Playwright locator 식 (쓸 수 있는 metadata가 없으면 null)
+ * 우선순위: testId > role + 이름 > placeholder > aria-label
+ */
+export function metadataToPlaywrightLocator(
+  metadata: ElementLocator["metadata"]
+): string | null {
+  if (!metadata) return null;
+  if (metadata.testId) {
+    return `page.getByTestId(${toStringLiteral(metadata.testId)})`;
+  }
+
+  const role = metadata.role;
+  if (role && NAMED_ROLES.has(role)) {
+    const name =
+      metadata.ariaLabel || (INPUT_ROLES.has(role) ? "" : metadata.text);
+    if (name?.trim()) {
+      return `page.getByRole(${toStringLiteral(
+        role
+      )}, { name: ${toStringLiteral(name.trim())} })`;
+    }
+  }
+
+  if (metadata.placeholder) {
+    return `page.getByPlaceholder(${toStringLiteral(metadata.placeholder)})`;
+  }
+  if (metadata.ariaLabel) {
+    return `page.getByLabel(${toStringLiteral(metadata.ariaLabel)})`;
+  }
+  return null;
+}
+
+/**
+ * Step이 다루는 요소의 locator 식
+ * metadata로 만든 locator를 쓰면 기록된 selector 전체를, 아니면 fallback만 주석으로 남김
+ */
+function locatorExpression(
+  writer: CodeWriter,
+  step: { selector?: string; locator?: ElementLocator },
+  context: CodegenContext
+): string {
+  const selector = resolveStepSelector(step);
+
+  const loopElement = matchLoopElement(selector, context);
+  if (loopElement) {
+    return loopElement.rest
+      ? `${loopElement.element}.locator(${toStringLiteral(loopElement.rest)})`
+      : loopElement.element;
+  }
+  if (hasPlaceholders(selector)) {
+    return `page.locator(${toStringExpression(
+      toPlaywrightSelector(selector),
+      context.scope
+    )})`;
+  }
+
+  const fallbacks = (step.locator?.fallbacks || []).filter(
+    (fallback) => fallback !== selector
+  );
+  const byMetadata = metadataToPlaywrightLocator(step.locator?.metadata);
+  if (byMetadata) {
+    writer.comment(
+      `Selectors: ${[selector, ...fallbacks].map(toStringLiteral).join(", ")}`
+    );
+    return byMetadata;
+  }
+  if (fallbacks.length > 0) {
+    writer.comment(`Fallbacks: ${fallbacks.map(toStringLiteral).join(", ")}`);
+  }
+  return `page.locator(${toStringLiteral(toPlaywrightSelector(selector))})`;
+}
+
+/**
+ * 기록된 selector 그대로의 locator 식 (count, multiple처럼 일치하는 모든 요소가 필요할 때)
+ */
+function selectorLocator(selector: string, context: CodegenContext): string {
+  const loopElement = matchLoopElement(selector, context);
+  if (loopElement) {
+    return loopElement.rest
+      ? `${loopElement.element}.locator(${toStringLiteral(loopElement.rest)})`
+      : loopElement.element;
+  }
+  return `page.locator(${toStringExpression(
+    toPlaywrightSelector(selector),
+    context.scope
+  )})`;
+}
+
+function withTimeout(args: string[], timeoutMs: number | undefined): string {
+  const option = timeoutOption(timeoutMs);
+  return [...args, ...(option ? [option] : [])].join(", ");
+}
+
+export const playwrightTarget: CodegenTarget = {
+  pageType: "Page",
+
+  imports(usage) {
+    return [
+      'import { test, expect } from "@playwright/test";',
+      ...(usage.subFlows
+        ? ['import type { Page } from "@playwright/test";']
+        : []),
+    ];
+  },
+
+  writeTest(writer, title, body) {
+    writer.block(
+      `test(${toStringLiteral(title)}, async ({ page }) => {`,
+      body,
+      "});"
+    );
+  },
+
+  writeStep(writer, step, context) {
+    const text = (value: string) => toStringExpression(value, context.scope);
+
+    switch (step.type) {
+      case "navigate":
+        writer.line(`await page.goto(${text(step.url)});`);
+        return;
+
+      case "click": {
+        const locator = locatorExpression(writer, step, context);
+        writer.line(
+          `await ${locator}.click(${timeoutOption(step.timeoutMs)});`
+        );
+        return;
+      }
+
+      case "type": {
+        const locator = locatorExpression(writer, step, context);
+        writer.line(
+          `await ${locator}.fill(${withTimeout(
+            [typedTextExpression(step, context)],
+            step.timeoutMs
+          )});`
+        );
+        if (step.submit) {
+          writer.line(`await ${locator}.press("Enter");`);
+        }
+        return;
+      }
+
+      case "select": {
+        const locator = locatorExpression(writer, step, context);
+        writer.line(
+          `await ${locator}.selectOption(${withTimeout(
+            [text(step.value)],
+            step.timeoutMs
+          )});`
+        );
+        return;
+      }
+
+      case "waitFor":
+        if (step.selector || step.locator) {
+          const locator = locatorExpression(writer, step, context);
+          writer.line(
+            `await ${locator}.waitFor({ state: "visible"${
+              step.timeoutMs ? `, timeout: ${step.timeoutMs}` : ""
+            } });`
+          );
+        } else if (step.timeoutMs) {
+          writer.line(`await page.waitForTimeout(${step.timeoutMs});`);
+        }
+        return;
+
+      case "waitForNavigation":
+        writer.line(
+          `await page.waitForLoadState(${
+            step.timeoutMs ? `"load", { timeout: ${step.timeoutMs} }` : ""
+          });`
+        );
+        return;
+
+      case "screenshot": {
+        const locator = locatorExpression(writer, step, context);
+        writer.line(
+          `await ${locator}.screenshot(${timeoutOption(step.timeoutMs)});`
+        );
+        return;
+      }
+
+      case "assert": {
+        const expected = text(step.expected ?? "");
+        const expectation = (target: string, matcher: string, args: string[]) =>
+          writer.line(
+            `await expect(${target}).${matcher}(${withTimeout(
+              args,
+              step.timeoutMs
+            )});`
+          );
+
+        if (step.assertion === "urlMatches") {
+          expectation("page", "toHaveURL", [
+            toRegExpExpression(step.expected ?? "", context.scope),
+          ]);
+          return;
+        }
+        if (step.assertion === "count") {
+          expectation(
+            selectorLocator(step.selector || "", context),
+            "toHaveCount",
+            [String(step.count ?? 0)]
+          );
+          return;
+        }
+
+        const locator = locatorExpression(writer, step, context);
+        switch (step.assertion) {
+          case "visible":
+            expectation(locator, "toBeVisible", []);
+            return;
+          case "hidden":
+            expectation(locator, "toBeHidden", []);
+            return;
+          case "textEquals":
+            expectation(locator, "toHaveText", [expected]);
+            return;
+          case "textContains":
+            expectation(locator, "toContainText", [expected]);
+            return;
+          case "textMatches":
+            expectation(locator, "toHaveText", [
+              toRegExpExpression(step.expected ?? "", context.scope),
+            ]);
+            return;
+          case "attributeEquals":
+            expectation(locator, "toHaveAttribute", [
+              toStringLiteral(step.attribute || ""),
+              expected,
+            ]);
+            return;
+          case "valueEquals":
+            expectation(locator, "toHaveValue", [expected]);
+            return;
+        }
+        return;
+      }
+    }
+  },
+
+  extractExpression(writer, step, context) {
+    const prop = step.prop || "innerText";
+
+    // multiple: selector와 일치하는 모든 요소의 값을 배열로 추출
+    if (step.multiple) {
+      const locator = selectorLocator(step.selector, context);
+      return prop === "innerText"
+        ? `(await ${locator}.allTextContents()).map((text) => text.trim())`
+        : `await ${locator}.evaluateAll((elements) => elements.map((el) => ${extractValueExpression(
+            prop,
+            step.attribute
+          )}))`;
+    }
+
+    const locator = locatorExpression(writer, step, context);
+    const option = timeoutOption(step.timeoutMs);
+    switch (prop) {
+      case "value":
+        return `await ${locator}.inputValue(${option})`;
+      case "innerHTML":
+        return `await ${locator}.innerHTML(${option})`;
+      case "attribute":
+        return `(await ${locator}.getAttribute(${withTimeout(
+          [toStringLiteral(step.attribute || "")],
+          step.timeoutMs
+        )})) ?? ""`;
+      case "href":
+      case "outerHTML":
+        return `await ${locator}.evaluate((el) => ${extractValueExpression(
+          prop,
+          step.attribute
+        )})`;
+      case "innerText":
+      default:
+        return `((await ${locator}.textContent(${option})) ?? "").trim()`;
+    }
+  },
+
+  conditionExpression(condition, context) {
+    const locator = selectorLocator(condition.selector, context);
+    if (condition.type === "exists") {
+      return `await ${locator}.first().isVisible()`;
+    }
+    // 요소가 없으면 false (실행 시와 같이 첫 번째 요소의 텍스트만 검사)
+    return `(await ${locator}.allTextContents()).slice(0, 1).some((text) => ${toRegExpExpression(
+      condition.pattern,
+      context.scope
+    )}.test(text.trim()))`;
+  },
+
+  elementListExpression(selector, context) {
+    return `await ${selectorLocator(selector, context)}.all()`;
+  },
+
+  elementTextExpression(element) {
+    return `((await ${element}.textContent()) ?? "").trim()`;
+  },
+};
+
+/**
+ * Flow를 @playwright/test spec 파일 내용으로 변환
+ * subFlows: callFlow가 호출하는 하위 Flow (함수로 생성)
+ */
+export function generatePlaywrightTest(
+  flow: Flow,
+  subFlows: Flow[] = []
+): string {
+  return generateTestScript(flow, subFlows, playwrightTarget);
+}
@@ -0,0 +1,430 @@
+import type { ElementLocator, Flow } from "../types";
+import { hasPlaceholders } from "../variables/flowVariables";
+import { describeAssertion } from "../assertions/assertionUtils";
+import { toPuppeteerSelector } from "../locators/locatorStrategies";
+import type { CodegenContext, CodegenTarget } from "./testCodegen";
+import {
+  extractValueExpression,
+  generateTestScript,
+  matchLoopElement,
+  resolveStepSelector,
+  typedTextExpression,
+} from "./testCodegen";
+import {
+  toRegExpExpression,
+  toStringExpression,
+  toStringLiteral,
+} from "./codegenUtils";
+
+/**
+ * Puppeteer codegen 유틸리티
+ * Flow를 단독 실행 가능한 Puppeteer TypeScript 스크립트로 변환
+ * fallback selector가 기록된 요소는 locate() 도우미로 모든 selector를 함께 시도
+ */
+
+// assert 스텝의 기본 대기 시간 (Runner와 같음)
+const DEFAULT_ASSERTION_TIMEOUT = 5000;
+
+const LOCATE_HELPER = [
+  "// Waits for whichever recorded selector of the element matches first",
+  "function locate(page: Page, selectors: string[]) {",
+  "  return Locator.race(selectors.map((selector) => page.locator(selector)));",
+  "}",
+].join("\n");
+
+const COUNT_HELPER = [
+  "// Polls until the number of elements matching the selector equals count",
+  "async function waitForCount(",
+  "  root: { $$: (selector: string) => Promise<unknown[]> },",
+  "  selector: string,",
+  "  count: number,",
+  "  timeout: number",
+  ") {",
+  "  const deadline = Date.now() + timeout;",
+  "  while ((await root.$$(selector)).length !== count) {",
+  "    if (Date.now() >= deadline) {",
+  "      throw new Error(`Expected ${count} elements matching ${selector}`);",
+  "    }",
+  "    await new Promise((resolve) => setTimeout(resolve, 100));",
+  "  }",
+  "}",
+].join("\n");
+
+// 요소를 찾는 위치 (selector가 null이면 반복 중인 요소 자체)
+interface QuerySource {
+  root: string; // "page" 또는 반복 요소 ElementHandle 식
+  selector: string | null; // selector JS 식
+}
+
+// 페이지 조작 대상 (Locator 또는 이미 찾은 ElementHandle)
+interface ElementTarget {
+  kind: "locator" | "handle";
+  expression: string;
+}
+
+function querySource(selector: string, context: CodegenContext): QuerySource {
+  const loopElement = matchLoopElement(selector, context);
+  if (loopElement) {
+    return {
+      root: loopElement.element,
+      selector: loopElement.rest ? toStringLiteral(loopElement.rest) : null,
+    };
+  }
+  return {
+    root: "page",
+    selector: toStringExpression(toPuppeteerSelector(selector), context.scope),
+  };
+}
+
+/**
+ * 기록된 selector와 fallback (변수가 들어간 selector는 fallback 없음)
+ * xpath= selector는 Puppeteer의 ::-p-xpath selector로 변환
+ */
+function recordedSelectors(step: {
+  selector?: string;
+  locator?: ElementLocator;
+}): string[] {
+  const selector = resolveStepSelector(step);
+  if (hasPlaceholders(selector)) return [selector];
+  return [
+    selector,
+    ...(step.locator?.fallbacks || []).filter(
+      (fallback) => fallback !== selector
+    ),
+  ].map(toPuppeteerSelector);
+}
+
+/**
+ * Step이 다루는 요소
+ * 페이지의 요소는 Locator (fallback이 있으면 locate 도우미), 반복 요소는 ElementHandle
+ */
+function elementTarget(
+  step: { selector?: string; locator?: ElementLocator; timeoutMs?: number },
+  context: CodegenContext
+): ElementTarget {
+  const selectors = recordedSelectors(step);
+  const source = querySource(selectors[0], context);
+  if (source.root !== "page") {
+    return {
+      kind: "handle",
+      expression: source.selector
+        ? `(await ${source.root}.waitForSelector(${source.selector}))!`
+        : source.root,
+    };
+  }
+
+  let expression = `page.locator(${source.selector})`;
+  if (selectors.length > 1) {
+    context.helpers.set("locate", LOCATE_HELPER);
+    expression = `locate(page, [${selectors.map(toStringLiteral).join(", ")}])`;
+  }
+  if (step.timeoutMs) expression += `.setTimeout(${step.timeoutMs})`;
+  return { kind: "locator", expression };
+}
+
+/**
+ * ElementHandle 식 (Locator는 요소가 나타날 때까지 대기)
+ */
+function elementHandle(target: ElementTarget): string {
+  return target.kind === "locator"
+    ? `(await ${target.expression}.waitHandle())`
+    : target.expression;
+}
+
+export const puppeteerTarget: CodegenTarget = {
+  pageType: "Page",
+
+  imports(usage) {
+    const usesLocate = usage.helpers.includes("locate");
+    return [
+      usesLocate
+        ? 'import puppeteer, { Locator } from "puppeteer";'
+        : 'import puppeteer from "puppeteer";',
+      ...(usage.subFlows || usesLocate
+        ? ['import type { Page } from "puppeteer";']
+        : []),
+    ];
+  },
+
+  writeTest(writer, _title, body) {
+    writer.block("async function main() {", () => {
+      writer.line("const browser = await puppeteer.launch();");
+      writer.line("const page = await browser.newPage();");
+      writer.block("try {", body, "} finally {");
+      writer.indent(() => writer.line("await browser.close();"));
+      writer.line("}");
+    });
+    writer.line();
+    writer.block(
+      "main().catch((error) => {",
+      () => {
+        writer.line("console.error(error);");
+        writer.line("process.exit(1);");
+      },
+      "});"
+    );
+  },
+
+  writeTestEnd(writer, usesExtracted) {
+    if (usesExtracted) {
+      writer.line("console.log(JSON.stringify(extracted, null, 2));");
+    }
+  },
+
+  writeStep(writer, step, context) {
+    const text = (value: string) => toStringExpression(value, context.scope);
+
+    switch (step.type) {
+      case "navigate":
+        writer.line(`await page.goto(${text(step.url)});`);
+        return;
+
+      case "click": {
+        const target = elementTarget(step, context);
+        writer.line(`await ${target.expression}.click();`);
+        return;
+      }
+
+      case "type": {
+        const target = elementTarget(step, context);
+        const value = typedTextExpression(step, context);
+        writer.line(
+          target.kind === "locator"
+            ? `await ${target.expression}.fill(${value});`
+            : `await ${target.expression}.type(${value});`
+        );
+        if (step.submit) {
+          writer.line('await page.keyboard.press("Enter");');
+        }
+        return;
+      }
+
+      case "select": {
+        const target = elementTarget(step, context);
+        writer.line(
+          `await ${elementHandle(target)}.select(${text(step.value)});`
+        );
+        return;
+      }
+
+      case "waitFor": {
+        if (!step.selector && !step.locator) {
+          if (step.timeoutMs) {
+            writer.line(
+              `await new Promise((resolve) => setTimeout(resolve, ${step.timeoutMs}));`
+            );
+          }
+          return;
+        }
+
+        const selectors = recordedSelectors(step);
+        const source = querySource(selectors[0], context);
+        if (!source.selector) return; // 반복 중인 요소는 이미 있음
+
+        if (source.root === "page" && selectors.length > 1) {
+          const target = elementTarget(step, context);
+          writer.line(
+            `await ${target.expression}.setVisibility("visible").wait();`
+          );
+        } else {
+          writer.line(
+            `await ${source.root}.waitForSelector(${
+              source.selector
+            }, { visible: true${
+              step.timeoutMs ? `, timeout: ${step.timeoutMs}` : ""
+            } });`
+          );
+        }
+        return;
+      }
+
+      case "waitForNavigation":
+        // 앞 Step이 시작한 이동이 이미 끝났을 수 있으므로 navigation 이벤트 대신
+        // Runner와 같이 문서 로드 완료를 기다림
+        writer.line(
+          `await page.waitForFunction(() => document.readyState === "complete"${
+            step.timeoutMs ? `, { timeout: ${step.timeoutMs} }` : ""
+          });`
+        );
+        return;
+
+      case "screenshot": {
+        const target = elementTarget(step, context);
+        writer.line(`await ${elementHandle(target)}.screenshot();`);
+        return;
+      }
+
+      case "assert": {
+        const timeout = `{ timeout: ${
+          step.timeoutMs ?? DEFAULT_ASSERTION_TIMEOUT
+        } }`;
+        writer.comment(`Assert: ${describeAssertion(step)}`);
+
+        if (step.assertion === "urlMatches") {
+          const pattern = toRegExpExpression(
+            step.expected ?? "",
+            context.scope
+          );
+          writer.line(
+            `await page.waitForFunction((source, flags) => new RegExp(source, flags).test(location.href), ${timeout}, ${pattern}.source, ${pattern}.flags);`
+          );
+          return;
+        }
+
+        const source = querySource(step.selector || "", context);
+        if (
+          (step.assertion === "visible" || step.assertion === "hidden") &&
+          source.selector
+        ) {
+          writer.line(
+            `await ${source.root}.waitForSelector(${source.selector}, { ${
+              step.assertion
+            }: true, timeout: ${
+              step.timeoutMs ?? DEFAULT_ASSERTION_TIMEOUT
+            } });`
+          );
+          return;
+        }
+
+        const assertionTimeout = step.timeoutMs ?? DEFAULT_ASSERTION_TIMEOUT;
+        if (step.assertion === "count" && source.selector) {
+          context.helpers.set("waitForCount", COUNT_HELPER);
+          writer.line(
+            `await waitForCount(${source.root}, ${source.selector}, ${
+              step.count ?? 0
+            }, ${assertionTimeout});`
+          );
+          return;
+        }
+
+        // 요소는 Puppeteer selector(::-p-xpath, >>> 포함)로 찾고 찾은 handle로 검사
+        const handle = elementHandle(
+          elementTarget({ ...step, timeoutMs: assertionTimeout }, context)
+        );
+        const expected = text(step.expected ?? "");
+        const waitFor = (
+          predicate: string,
+          extra: Array<[string, string]> = []
+        ) => {
+          writer.line(
+            `await page.waitForFunction((${[
+              "el",
+              ...extra.map(([name]) => name),
+            ].join(", ")}) => ${predicate}, ${timeout}, ${[
+              handle,
+              ...extra.map(([, value]) => value),
+            ].join(", ")});`
+          );
+        };
+
+        switch (step.assertion) {
+          case "visible":
+            waitFor("el.checkVisibility()");
+            return;
+          case "hidden":
+            waitFor("!el.checkVisibility()");
+            return;
+          case "textEquals":
+            waitFor("el.textContent?.trim() === expected", [
+              ["expected", expected],
+            ]);
+            return;
+          case "textContains":
+            waitFor("el.textContent?.trim().includes(expected) ?? false", [
+              ["expected", expected],
+            ]);
+            return;
+          case "textMatches": {
+            const pattern = toRegExpExpression(
+              step.expected ?? "",
+              context.scope
+            );
+            waitFor(
+              'new RegExp(source, flags).test(el.textContent?.trim() ?? "")',
+              [
+                ["source", `${pattern}.source`],
+                ["flags", `${pattern}.flags`],
+              ]
+            );
+            return;
+          }
+          case "attributeEquals":
+            waitFor(
+              `el.getAttribute(${toStringLiteral(
+                step.attribute || ""
+              )}) === expected`,
+              [["expected", expected]]
+            );
+            return;
+          case "valueEquals":
+            waitFor("(el as HTMLInputElement).value === expected", [
+              ["expected", expected],
+            ]);
+            return;
+          case "count":
+            // 반복 중인 요소 자체
+            waitFor(`[el].length === ${step.count ?? 0}`);
+            return;
+        }
+        return;
+      }
+    }
+  },
+
+  extractExpression(_writer, step, context) {
+    const value = extractValueExpression(
+      step.prop || "innerText",
+      step.attribute
+    );
+
+    // multiple: selector와 일치하는 모든 요소의 값을 배열로 추출
+    if (step.multiple) {
+      const source = querySource(step.selector, context);
+      return source.selector
+        ? `await ${source.root}.$$eval(${source.selector}, (elements) => elements.map((el: Element) => ${value}))`
+        : `[await ${source.root}.evaluate((el: Element) => ${value})]`;
+    }
+
+    const target = elementTarget(step, context);
+    return target.kind === "locator"
+      ? `await ${target.expression}.map((el: Element) => ${value}).wait()`
+      : `await ${target.expression}.evaluate((el: Element) => ${value})`;
+  },
+
+  conditionExpression(condition, context) {
+    const source = querySource(condition.selector, context);
+    if (condition.type === "exists") {
+      return source.selector
+        ? `Boolean(await (await ${source.root}.$(${source.selector}))?.isVisible())`
+        : `await ${source.root}.isVisible()`;
+    }
+
+    // 요소가 없으면 false (실행 시와 같이 첫 번째 요소의 텍스트만 검사)
+    const pattern = toRegExpExpression(condition.pattern, context.scope);
+    return source.selector
+      ? `await ${source.root}.$$eval(${source.selector}, (elements, source, flags) => elements.slice(0, 1).some((el) => new RegExp(source, flags).test(el.textContent?.trim() ?? "")), ${pattern}.source, ${pattern}.flags)`
+      : `${pattern}.test(await ${source.root}.evaluate((el) => el.textContent?.trim() ?? ""))`;
+  },
+
+  elementListExpression(selector, context) {
+    const source = querySource(selector, context);
+    return source.selector
+      ? `await ${source.root}.$$(${source.selector})`
+      : `[${source.root}]`;
+  },
+
+  elementTextExpression(element) {
+    return `await ${element}.evaluate((el) => el.textContent?.trim() ?? "")`;
+  },
+};
+
+/**
+ * Flow를 단독 실행 가능한 Puppeteer 스크립트 내용으로 변환
+ * subFlows: callFlow가 호출하는 하위 Flow (함수로 생성)
+ */
+export function generatePuppeteerScript(
+  flow: Flow,
+  subFlows: Flow[] = []
+): string {
+  return generateTestScript(flow, subFlows, puppeteerTarget);
+}
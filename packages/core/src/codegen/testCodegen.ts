@@ -0,0 +1,619 @@
+import type { ExtractProp, Flow, FlowCondition, Step } from "../types";
+import type { CompositeStep } from "../control/controlFlow";
+import { isCompositeStep } from "../control/controlFlow";
+import { flattenSteps, getLoopVariableName } from "../control/stepTree";
+import {
+  collectFlowVariables,
+  getStepVariableNames,
+  hasPlaceholders,
+} from "../variables/flowVariables";
+import { getExtractOutputKey } from "../extract/extractOutputs";
+import { getCalledFlowIds } from "../subflows/subFlows";
+import type { CallFlowStep } from "../subflows/subFlows";
+import type { CodegenScope } from "./codegenUtils";
+import {
+  CodeWriter,
+  SECRET_ENV_PREFIX,
+  makeUniqueIdentifier,
+  toCommentText,
+  toIdentifier,
+  toPropertyAccess,
+  toStringExpression,
+  toStringLiteral,
+  toVariableEnvName,
+} from "./codegenUtils";
+
+/**
+ * Test codegen 유틸리티
+ * Flow를 테스트 코드로 변환하는 공통 생성기
+ * 변수, 시크릿, 제어 흐름, 하위 Flow는 여기서 처리하고 페이지 조작 코드는 CodegenTarget이 생성
+ */
+
+export type LeafStep = Exclude<Step, CompositeStep>;
+export type ExtractStep = Extract<Step, { type: "extract" }>;
+export type TypeStep = Extract<Step, { type: "type" }>;
+
+// 생성 코드에서 시크릿 값을 읽는 환경 변수
+export interface CodegenSecret {
+  envName: string;
+  selector: string; // 입력한 요소 (파일 머리 설명용)
+}
+
+export interface CodegenContext {
+  scope: CodegenScope; // {{name}} placeholder -> 값 식
+  elements: Record<string, string>; // forEach 반복 변수 -> 현재 요소 식 ({{as.selector}} 대신 사용)
+  secrets: Map<string, CodegenSecret>; // secretRef -> 환경 변수 (파일 전체에서 공유)
+  helpers: Map<string, string>; // 생성 코드가 사용하는 도우미 함수 이름 -> 코드 (파일 전체에서 공유)
+}
+
+// 파일 머리의 import를 정하는 데 필요한 사용 정보
+export interface CodegenUsage {
+  subFlows: boolean; // 하위 Flow 함수가 page 타입을 참조
+  helpers: string[]; // 사용한 도우미 함수 이름
+}
+
+export interface CodegenTarget {
+  /** 파일 맨 위 import 문 */
+  imports(usage: CodegenUsage): string[];
+  /** 하위 Flow 함수의 page 매개변수 타입 */
+  pageType: string;
+  /** 테스트 하나를 감싸는 코드 (body 안에서 page 사용 가능) */
+  writeTest(writer: CodeWriter, title: string, body: () => void): void;
+  /** 테스트 본문 마지막 코드 (예: extract 결과 출력) */
+  writeTestEnd?(writer: CodeWriter, usesExtracted: boolean): void;
+  /** extract를 제외한 단일 Step */
+  writeStep(writer: CodeWriter, step: LeafStep, context: CodegenContext): void;
+  /** extract 결과 값 식 */
+  extractExpression(
+    writer: CodeWriter,
+    step: ExtractStep,
+    context: CodegenContext
+  ): string;
+  /** exists/textMatches 조건 식 (negate는 생성기가 처리) */
+  conditionExpression(
+    condition: Exclude<FlowCondition, { type: "variableEquals" }>,
+    context: CodegenContext
+  ): string;
+  /** selector와 일치하는 요소 목록 식 (forEach) */
+  elementListExpression(selector: string, context: CodegenContext): string;
+  /** 요소 하나의 텍스트 식 (trim) */
+  elementTextExpression(element: string): string;
+}
+
+// 생성 코드의 최상위 이름 (반복 변수와 겹치지 않도록)
+const RESERVED_NAMES = ["page", "vars", "args", "extracted", "test", "expect"];
+
+interface GeneratorState {
+  target: CodegenTarget;
+  subFlows: Map<string, Flow>;
+  functionNames: Map<string, string>; // 하위 Flow id -> 함수 이름
+  usesExtracted: boolean; // extract 결과 객체를 선언하고 하위 Flow에 넘길지
+}
+
+/**
+ * Step이 실제로 사용하는 selector
+ * 변수가 들어간 selector는 실행 시 값이 정해지므로 기록된 locator보다 우선
+ */
+export function resolveStepSelector(step: {
+  selector?: string;
+  locator?: { primary: string };
+}): string {
+  if (hasPlaceholders(step.selector)) return step.selector!;
+  return step.locator?.primary || step.selector || "";
+}
+
+/**
+ * {{as.selector}}로 시작하는 selector를 현재 반복 요소 기준으로 분해
+ * ("{{row.selector}} .price" -> { element: "row", rest: ".price" })
+ */
+export function matchLoopElement(
+  selector: string,
+  context: CodegenContext
+): { element: string; rest: string } | null {
+  const match = selector.match(/^\{\{\s*([\w.-]+)\.selector\s*\}\}\s*(.*)$/);
+  if (!match || !context.elements[match[1]]) return null;
+  return { element: context.elements[match[1]], rest: match[2] };
+}
+
+/**
+ * type 스텝이 입력할 값 식
+ * 시크릿은 환경 변수에서 읽고 평문은 생성 코드에 넣지 않음
+ */
+export function typedTextExpression(
+  step: TypeStep,
+  context: CodegenContext
+): string {
+  if (step.secretRef) {
+    let secret = context.secrets.get(step.secretRef);
+    if (!secret) {
+      secret = {
+        envName: `${SECRET_ENV_PREFIX}${context.secrets.size + 1}`,
+        selector: resolveStepSelector(step),
+      };
+      context.secrets.set(step.secretRef, secret);
+    }
+    return `process.env.${secret.envName} ?? ""`;
+  }
+
+  // 레거시 Step은 변수 템플릿이 originalText에만 있을 수 있음
+  const text =
+    step.originalText !== undefined && hasPlaceholders(step.originalText)
+      ? step.originalText
+      : step.text;
+  return toStringExpression(text, context.scope);
+}
+
+/**
+ * { timeout: n } 옵션 식 (timeoutMs가 없으면 빈 문자열)
+ */
+export function timeoutOption(timeoutMs: number | undefined): string {
+  return timeoutMs ? `{ timeout: ${timeoutMs} }` : "";
+}
+
+/**
+ * 브라우저에서 요소 el의 extract 값을 읽는 식
+ */
+export function extractValueExpression(
+  prop: ExtractProp,
+  attribute: string | undefined
+): string {
+  switch (prop) {
+    case "value":
+      return "(el as HTMLInputElement).value";
+    case "href":
+      return "(el as HTMLAnchorElement).href";
+    case "innerHTML":
+      return "el.innerHTML";
+    case "outerHTML":
+      return "el.outerHTML";
+    case "attribute":
+      return `el.getAttribute(${toStringLiteral(attribute || "")}) ?? ""`;
+    case "innerText":
+    default:
+      return 'el.textContent?.trim() ?? ""';
+  }
+}
+
+/**
+ * Flow와 하위 Flow를 테스트 파일 하나로 변환
+ * 하위 Flow는 callFlow가 호출하는 함수로 생성 (subFlows에 없는 Flow는 실패하는 코드로 표시)
+ */
+export function generateTestScript(
+  flow: Flow,
+  subFlows: Flow[],
+  target: CodegenTarget
+): string {
+  const available = new Map(subFlows.map((subFlow) => [subFlow.id, subFlow]));
+  const called = collectGeneratedSubFlows(flow, available);
+
+  const usedNames = new Set(RESERVED_NAMES);
+  const state: GeneratorState = {
+    target,
+    subFlows: new Map(called.map((subFlow) => [subFlow.id, subFlow])),
+    functionNames: new Map(
+      called.map((subFlow) => [
+        subFlow.id,
+        makeUniqueIdentifier(toIdentifier(subFlow.title, "subFlow"), usedNames),
+      ])
+    ),
+    usesExtracted: [flow, ...called].some((candidate) =>
+      flattenSteps(candidate.steps).some(usesExtractedData)
+    ),
+  };
+  const secrets = new Map<string, CodegenSecret>();
+  const helpers = new Map<string, string>();
+
+  const functions = called.map((subFlow) => {
+    const writer = new CodeWriter();
+    writeSubFlowFunction(writer, subFlow, state, { secrets, helpers });
+    return writer.toString();
+  });
+
+  const testWriter = new CodeWriter();
+  const variableNames = collectFlowVariables(flow);
+  target.writeTest(testWriter, flow.title, () => {
+    if (variableNames.length > 0) {
+      testWriter.block(
+        "const vars: Record<string, string> = {",
+        () => {
+          for (const name of variableNames) {
+            const declared = flow.variables?.find(
+              (variable) => variable.name === name
+            );
+            testWriter.line(
+              `${toPropertyKey(name)}: process.env.${toVariableEnvName(
+                name
+              )} ?? ${toStringLiteral(declared?.defaultValue ?? "")},`
+            );
+          }
+        },
+        "};"
+      );
+    }
+    if (state.usesExtracted) {
+      testWriter.line("const extracted: Record<string, any> = {};");
+    }
+    if (variableNames.length > 0 || state.usesExtracted) testWriter.line();
+
+    const context: CodegenContext = {
+      scope: flowVariableScope(variableNames),
+      elements: {},
+      secrets,
+      helpers,
+    };
+    if (flow.startUrl && flow.steps[0]?.type !== "navigate") {
+      target.writeStep(
+        testWriter,
+        { type: "navigate", url: flow.startUrl },
+        context
+      );
+    }
+    writeSteps(testWriter, flow.steps, context, state);
+    target.writeTestEnd?.(testWriter, state.usesExtracted);
+  });
+
+  const header = [
+    `// Generated by Auto-Wiz from the flow "${toCommentText(flow.title)}"`,
+  ];
+  const envLines = [
+    ...variableNames.map(
+      (name) => `//   ${toVariableEnvName(name)}: {{${name}}}`
+    ),
+    ...Array.from(secrets.values()).map(
+      (secret) =>
+        `//   ${secret.envName}: secret typed into ${toCommentText(
+          secret.selector
+        )}`
+    ),
+  ];
+  if (envLines.length > 0) {
+    header.push("// Environment variables:", ...envLines);
+  }
+
+  return (
+    [
+      [
+        ...header,
+        ...target.imports({
+          subFlows: functions.length > 0,
+          helpers: Array.from(helpers.keys()),
+        }),
+      ].join("\n"),
+      ...helpers.values(),
+      ...functions,
+      testWriter.toString(),
+    ].join("\n\n") + "\n"
+  );
+}
+
+/**
+ * 생성할 하위 Flow 목록 (중첩 호출 포함, 호출 순서대로)
+ */
+function collectGeneratedSubFlows(
+  flow: Flow,
+  available: Map<string, Flow>
+): Flow[] {
+  const collected = new Map<string, Flow>();
+  const queue = getCalledFlowIds(flow.steps);
+  while (queue.length > 0) {
+    const flowId = queue.shift()!;
+    const subFlow = available.get(flowId);
+    if (flowId === flow.id || collected.has(flowId) || !subFlow) continue;
+    collected.set(flowId, subFlow);
+    queue.push(...getCalledFlowIds(subFlow.steps));
+  }
+  return Array.from(collected.values());
+}
+
+function usesExtractedData(step: Step): boolean {
+  switch (step.type) {
+    case "extract":
+      return true;
+    case "forEach":
+      return step.source.type === "extracted";
+    case "if":
+    case "while":
+      return step.condition.type === "variableEquals";
+    default:
+      return false;
+  }
+}
+
+function flowVariableScope(names: string[]): CodegenScope {
+  return Object.fromEntries(
+    names.map((name) => [name, { expression: toPropertyAccess("vars", name) }])
+  );
+}
+
+function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : toStringLiteral(name);
+}
+
+/**
+ * 하위 Flow 함수 (변수는 호출할 때 넘긴 args + 선언된 기본값)
+ */
+function writeSubFlowFunction(
+  writer: CodeWriter,
+  subFlow: Flow,
+  state: GeneratorState,
+  shared: Pick<CodegenContext, "secrets" | "helpers">
+): void {
+  const variableNames = collectFlowVariables(subFlow);
+  const defaults = (subFlow.variables || []).filter(
+    (variable) => variable.defaultValue !== undefined
+  );
+
+  const params = [`page: ${state.target.pageType}`];
+  if (variableNames.length > 0) {
+    params.push(
+      `${defaults.length > 0 ? "args" : "vars"}: Record<string, string>`
+    );
+  }
+  if (state.usesExtracted) params.push("extracted: Record<string, any>");
+
+  writer.comment(`Sub-flow "${subFlow.title}"`);
+  writer.block(
+    `async function ${state.functionNames.get(subFlow.id)}(${params.join(
+      ", "
+    )}) {`,
+    () => {
+      if (variableNames.length > 0 && defaults.length > 0) {
+        const values = defaults.map(
+          (variable) =>
+            `${toPropertyKey(variable.name)}: ${toStringLiteral(
+              variable.defaultValue!
+            )}`
+        );
+        writer.line(
+          `const vars: Record<string, string> = { ${values.join(
+            ", "
+          )}, ...args };`
+        );
+      }
+      writeSteps(
+        writer,
+        subFlow.steps,
+        { scope: flowVariableScope(variableNames), elements: {}, ...shared },
+        state
+      );
+    }
+  );
+}
+
+/**
+ * Step 목록 코드 생성
+ * path는 실행 시와 같은 extract 결과 키를 만드는 데 사용
+ */
+function writeSteps(
+  writer: CodeWriter,
+  steps: Step[],
+  context: CodegenContext,
+  state: GeneratorState,
+  path: number[] = [],
+  startIndex = 0,
+  loopDepth = 0
+): void {
+  steps.forEach((step, index) => {
+    const stepPath = [...path, startIndex + index];
+    if (isCompositeStep(step)) {
+      writeCompositeStep(writer, step, context, state, stepPath, loopDepth);
+    } else if (step.type === "extract") {
+      const key = toPropertyAccess(
+        "extracted",
+        getExtractOutputKey(step, stepPath.join("_"))
+      );
+      const value = state.target.extractExpression(writer, step, context);
+      // 반복 안에서는 실행 시와 같이 결과를 배열로 모음
+      writer.line(
+        loopDepth > 0 ? `(${key} ??= []).push(${value});` : `${key} = ${value};`
+      );
+    } else {
+      state.target.writeStep(writer, step, context);
+    }
+  });
+}
+
+function writeCompositeStep(
+  writer: CodeWriter,
+  step: CompositeStep,
+  context: CodegenContext,
+  state: GeneratorState,
+  path: number[],
+  loopDepth: number
+): void {
+  const writeBody = (
+    steps: Step[],
+    scope: CodegenScope,
+    elements = context.elements
+  ) =>
+    writeSteps(
+      writer,
+      steps,
+      { ...context, scope, elements },
+      state,
+      path,
+      0,
+      loopDepth + 1
+    );
+  const usedVariables = (steps: Step[]) =>
+    new Set(steps.flatMap(getStepVariableNames));
+
+  switch (step.type) {
+    case "if": {
+      writer.line(
+        `if (${conditionExpression(step.condition, context, state)}) {`
+      );
+      writer.indent(() =>
+        writeSteps(writer, step.then, context, state, path, 0, loopDepth)
+      );
+      if (step.else && step.else.length > 0) {
+        writer.line("} else {");
+        writer.indent(() =>
+          writeSteps(
+            writer,
+            step.else!,
+            context,
+            state,
+            path,
+            step.then.length,
+            loopDepth
+          )
+        );
+      }
+      writer.line("}");
+      return;
+    }
+
+    case "repeat": {
+      const as = getLoopVariableName(step)!;
+      const counter = loopIdentifier(as);
+      writer.block(
+        `for (let ${counter} = 0; ${counter} < ${step.times}; ${counter}++) {`,
+        () =>
+          writeBody(step.steps, {
+            ...context.scope,
+            [`${as}.index`]: { expression: counter, numeric: true },
+          })
+      );
+      return;
+    }
+
+    case "while": {
+      const as = getLoopVariableName(step)!;
+      const counter = loopIdentifier(as);
+      writer.block(
+        `for (let ${counter} = 0; ${conditionExpression(
+          step.condition,
+          context,
+          state
+        )}; ${counter}++) {`,
+        () => {
+          writer.block(`if (${counter} >= ${step.maxIterations}) {`, () =>
+            writer.line(
+              `throw new Error(${toStringLiteral(
+                `While loop exceeded ${step.maxIterations} iterations`
+              )});`
+            )
+          );
+          writeBody(step.steps, {
+            ...context.scope,
+            [`${as}.index`]: { expression: counter, numeric: true },
+          });
+        }
+      );
+      return;
+    }
+
+    case "forEach": {
+      const as = getLoopVariableName(step)!;
+      const item = loopIdentifier(as);
+      const used = usedVariables(step.steps);
+      const index = `${item}Index`;
+      const text = `${item}Text`;
+
+      const list =
+        step.source.type === "elements"
+          ? state.target.elementListExpression(step.source.selector, context)
+          : `[${toPropertyAccess("extracted", step.source.name)}].flat()`;
+      const header = used.has(`${as}.index`)
+        ? `for (const [${index}, ${item}] of ${
+            list.startsWith("await ") ? `(${list})` : list
+          }.entries()) {`
+        : `for (const ${item} of ${list}) {`;
+
+      writer.block(header, () => {
+        const scope: CodegenScope = {
+          ...context.scope,
+          [`${as}.index`]: { expression: index, numeric: true },
+        };
+        if (used.has(as)) {
+          writer.line(
+            `const ${text} = ${
+              step.source.type === "elements"
+                ? state.target.elementTextExpression(item)
+                : `typeof ${item} === "string" ? ${item} : JSON.stringify(${item})`
+            };`
+          );
+          scope[as] = { expression: text };
+        }
+        writeBody(
+          step.steps,
+          scope,
+          step.source.type === "elements"
+            ? { ...context.elements, [as]: item }
+            : context.elements
+        );
+      });
+      return;
+    }
+
+    case "callFlow":
+      writeCallFlow(writer, step, context, state);
+      return;
+  }
+}
+
+function writeCallFlow(
+  writer: CodeWriter,
+  step: CallFlowStep,
+  context: CodegenContext,
+  state: GeneratorState
+): void {
+  const subFlow = state.subFlows.get(step.flowId);
+  if (!subFlow) {
+    const title = step.flowTitle || step.flowId;
+    writer.comment(`Sub-flow "${title}" was not included in the export`);
+    writer.line(
+      `throw new Error(${toStringLiteral(`Called flow not found: ${title}`)});`
+    );
+    return;
+  }
+
+  const args = ["page"];
+  if (collectFlowVariables(subFlow).length > 0) {
+    const values = Object.entries(step.args || {}).map(
+      ([name, value]) =>
+        `${toPropertyKey(name)}: ${toStringExpression(value, context.scope)}`
+    );
+    args.push(values.length > 0 ? `{ ${values.join(", ")} }` : "{}");
+  }
+  if (state.usesExtracted) args.push("extracted");
+
+  writer.line(
+    `await ${state.functionNames.get(subFlow.id)}(${args.join(", ")});`
+  );
+}
+
+/**
+ * if/while 조건 식
+ * variableEquals는 변수, 없으면 extract 결과와 비교 (실행 시와 같은 순서)
+ */
+function conditionExpression(
+  condition: FlowCondition,
+  context: CodegenContext,
+  state: GeneratorState
+): string {
+  if (condition.type === "variableEquals") {
+    const variable = context.scope[condition.name];
+    const actual = variable
+      ? variable.numeric
+        ? `String(${variable.expression})`
+        : variable.expression
+      : `String(${toPropertyAccess("extracted", condition.name)})`;
+    return `${actual} ${condition.negate ? "!==" : "==="} ${toStringExpression(
+      condition.value,
+      context.scope
+    )}`;
+  }
+
+  const expression = state.target.conditionExpression(condition, context);
+  return condition.negate ? `!(${expression})` : expression;
+}
+
+/**
+ * 반복 변수 이름을 생성 코드의 식별자로 변환
+ */
+function loopIdentifier(name: string): string {
+  const identifier = toIdentifier(name, "item");
+  return RESERVED_NAMES.includes(identifier) ? `${identifier}Item` : identifier;
+}
@@ -0,0 +1,82 @@
+import { conformancePageHtml, findConformancePage } from "./runnerConformance";
+
+/**
+ * Conformance 서버 유틸리티
+ * fixture 페이지(CONFORMANCE_PAGES)를 로컬 HTTP 서버로 제공 (Playwright/Puppeteer harness가 page.goto로 로드)
+ * core는 브라우저에서도 쓰이므로 Node의 http 모듈은 호출하는 쪽(테스트)이 전달
+ */
+
+// Node http 모듈에서 서버가 사용하는 부분
+export interface ConformanceRequest {
+  url?: string;
+}
+
+export interface ConformanceResponse {
+  writeHead(statusCode: number, headers: Record<string, string>): unknown;
+  end(body: string): unknown;
+}
+
+export interface ConformanceHttpServer {
+  listen(port: number, hostname: string, callback: () => void): unknown;
+  address(): { port: number } | string | null;
+  close(callback: (error?: Error) => void): unknown;
+}
+
+export interface ConformanceHttp {
+  createServer(
+    listener: (
+      request: ConformanceRequest,
+      response: ConformanceResponse
+    ) => void
+  ): ConformanceHttpServer;
+}
+
+export interface ConformanceServer {
+  url: string; // 예: "http://127.0.0.1:54321" (fixture 경로를 붙여 사용)
+  close: () => Promise<void>;
+}
+
+const CONFORMANCE_HOST = "127.0.0.1";
+
+/**
+ * 요청 경로의 fixture 페이지 응답 (없으면 404)
+ */
+function handleConformanceRequest(
+  request: ConformanceRequest,
+  response: ConformanceResponse
+): void {
+  const path = new URL(request.url || "/", `http://${CONFORMANCE_HOST}`)
+    .pathname;
+  const page = findConformancePage(path);
+  if (!page) {
+    response.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+    response.end(`Conformance page not found: ${path}`);
+    return;
+  }
+  response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+  response.end(conformancePageHtml(page));
+}
+
+/**
+ * fixture 페이지를 제공하는 로컬 서버 시작 (port 0이면 빈 포트 사용)
+ */
+export function startConformanceServer(
+  http: ConformanceHttp,
+  port = 0
+): Promise<ConformanceServer> {
+  const server = http.createServer(handleConformanceRequest);
+  return new Promise((resolve) => {
+    server.listen(port, CONFORMANCE_HOST, () => {
+      const address = server.address();
+      const boundPort =
+        typeof address === "object" && address ? address.port : port;
+      resolve({
+        url: `http://${CONFORMANCE_HOST}:${boundPort}`,
+        close: () =>
+          new Promise<void>((done, fail) =>
+            server.close((error) => (error ? fail(error) : done()))
+          ),
+      });
+    });
+  });
+}
@@ -0,0 +1,562 @@
+import type { Flow, Step } from "../types";
+import type { FlowRunner, RunResult, RunnerOptions } from "../runner";
+
+/**
+ * Runner conformance 유틸리티
+ * 모든 FlowRunner 구현이 같은 Flow에 같은 RunResult를 내는지 검사하는 공통 케이스
+ * 각 Runner는 fixture 페이지를 여는 harness만 제공하고 실행과 결과 비교는 runConformanceSuite가 수행
+ * - DOM: document에 body를 삽입 (확장 프로그램 테스트에 연결됨)
+ * - Playwright/Puppeteer: startConformanceServer로 띄운 로컬 서버의 페이지를 여는 harness
+ *   (각 Runner 패키지의 create*ConformanceHarness, 서버 앱 테스트에 연결됨)
+ */
+
+// 케이스가 실행되는 fixture 페이지
+export interface ConformancePage {
+  path: string; // 로컬 서버에서 제공할 경로 (예: "/form.html")
+  title: string;
+  body: string; // <body> 안의 마크업 (스크립트 없이 정적인 HTML)
+}
+
+// 비교할 RunResult 필드 (error 메시지는 Runner마다 달라 비교하지 않음)
+export interface ExpectedRunResult {
+  success: boolean;
+  failedStepIndex?: number;
+  extractedData?: Record<string, any>;
+  imageKeys?: string[]; // PNG data URL이어야 하는 키 (스크린샷 값은 비교하지 않음)
+}
+
+export interface ConformanceCase {
+  name: string;
+  page: string; // ConformancePage.path
+  flow: Flow;
+  options?: RunnerOptions;
+  expected: ExpectedRunResult;
+  browserOnly?: boolean; // 페이지 로드/스크린샷이 필요해 실제 브라우저 Runner에서만 실행
+}
+
+/**
+ * Runner를 conformance 케이스에 연결하는 harness
+ * openPage: fixture 페이지를 연 실행 컨텍스트 생성 (DOM Runner는 void)
+ */
+export interface ConformanceHarness<TContext> {
+  runner: FlowRunner<TContext>;
+  openPage: (page: ConformancePage) => Promise<TContext>;
+  closePage?: (context: TContext) => Promise<void>;
+}
+
+export interface ConformanceCaseResult {
+  name: string;
+  passed: boolean;
+  mismatches: string[];
+  actual: RunResult;
+}
+
+// 실패를 기대하는 Step의 대기 시간 (케이스가 빨리 끝나도록)
+const FAILING_STEP_TIMEOUT = 300;
+
+// screenshot Step 결과 형식 (기록 시 step.screenshot과 같은 형식)
+const PNG_DATA_URL_PREFIX = "data:image/png;base64,";
+
+export const CONFORMANCE_PAGES: ConformancePage[] = [
+  {
+    path: "/form.html",
+    title: "Checkout form",
+    body: `
+      <h1 id="title">Checkout</h1>
+      <form id="checkout" onsubmit="return false">
+        <input id="name" name="name" />
+        <input id="email" type="email" placeholder="Email address" />
+        <input id="password" type="password" />
+        <select id="shipping">
+          <option value="standard">Standard</option>
+          <option value="express">Express</option>
+        </select>
+        <button type="button" class="continue" data-testid="continue">Continue</button>
+      </form>
+    `,
+  },
+  {
+    path: "/list.html",
+    title: "Order list",
+    body: `
+      <h1 id="title">Orders</h1>
+      <a id="help" href="/help" data-state="active">Help</a>
+      <input id="total" value="42" />
+      <ul id="orders">
+        <li class="order" data-sku="A-1">Apples</li>
+        <li class="order" data-sku="B-2">Bread</li>
+        <li class="order" data-sku="C-3">Cheese</li>
+      </ul>
+      <div id="banner" style="display: none">Saved</div>
+    `,
+  },
+  {
+    path: "/matching.html",
+    title: "Locator matching",
+    body: `
+      <h1 id="title">Saved items</h1>
+      <span data-test="status">Legacy</span>
+      <span data-testid="status">Current</span>
+      <button type="button">Save draft</button>
+      <button type="button">
+        Save
+      </button>
+    `,
+  },
+];
+
+const flowOf = (id: string, steps: Flow["steps"]): Flow => ({
+  id,
+  title: id,
+  createdAt: 0,
+  steps,
+});
+
+export const RUNNER_CONFORMANCE_CASES: ConformanceCase[] = [
+  {
+    name: "extracts every prop by output name",
+    page: "/list.html",
+    flow: flowOf("extract-props", [
+      { type: "extract", selector: "#title", name: "title" },
+      { type: "extract", selector: "#total", name: "total", prop: "value" },
+      {
+        type: "extract",
+        selector: "#help",
+        name: "state",
+        prop: "attribute",
+        attribute: "data-state",
+      },
+      {
+        type: "extract",
+        selector: ".order",
+        name: "skus",
+        prop: "attribute",
+        attribute: "data-sku",
+        multiple: true,
+      },
+      { type: "extract", selector: "#orders li" },
+    ]),
+    expected: {
+      success: true,
+      extractedData: {
+        title: "Orders",
+        total: "42",
+        state: "active",
+        skus: ["A-1", "B-2", "C-3"],
+        step_4: "Apples",
+      },
+    },
+  },
+  {
+    name: "types and selects through locator fallbacks",
+    page: "/form.html",
+    flow: flowOf("fallbacks", [
+      {
+        type: "type",
+        selector: "#full-name",
+        locator: { primary: "#full-name", fallbacks: ['input[name="name"]'] },
+        text: "Ada",
+      },
+      {
+        type: "select",
+        selector: "#shipping-method",
+        locator: { primary: "#shipping-method", fallbacks: ["#shipping"] },
+        value: "express",
+      },
+      { type: "extract", selector: "#name", name: "name", prop: "value" },
+      {
+        type: "extract",
+        selector: "#shipping",
+        name: "shipping",
+        prop: "value",
+      },
+    ]),
+    expected: {
+      success: true,
+      extractedData: { name: "Ada", shipping: "express" },
+    },
+  },
+  {
+    name: "finds elements by locator metadata",
+    page: "/form.html",
+    flow: flowOf("metadata", [
+      {
+        type: "type",
+        selector: "#old-email",
+        locator: {
+          primary: "#old-email",
+          fallbacks: [],
+          metadata: { placeholder: "Email address" },
+        },
+        text: "ada@example.com",
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+      {
+        type: "click",
+        selector: "#old-continue",
+        locator: {
+          primary: "#old-continue",
+          fallbacks: [],
+          metadata: { text: "Continue", role: "button", tagName: "button" },
+        },
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+      { type: "extract", selector: "#email", name: "email", prop: "value" },
+    ]),
+    expected: {
+      success: true,
+      extractedData: { email: "ada@example.com" },
+    },
+  },
+  {
+    name: "matches test ids by attribute priority and text exactly",
+    page: "/matching.html",
+    flow: flowOf("metadata-rules", [
+      {
+        type: "extract",
+        selector: "#old-status",
+        locator: {
+          primary: "#old-status",
+          fallbacks: [],
+          metadata: { testId: "status" },
+        },
+        name: "status",
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+      {
+        type: "extract",
+        selector: "#old-save",
+        locator: {
+          primary: "#old-save",
+          fallbacks: [],
+          metadata: { text: "Save", tagName: "button" },
+        },
+        name: "button",
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+    ]),
+    expected: {
+      success: true,
+      extractedData: { status: "Current", button: "Save" },
+    },
+  },
+  {
+    name: "replaces variables and prefers originalText over masked text",
+    page: "/form.html",
+    flow: {
+      ...flowOf("variables", [
+        { type: "type", selector: "#name", text: "{{user}}" },
+        {
+          type: "type",
+          selector: "#password",
+          text: "********",
+          originalText: "hunter2",
+        },
+        { type: "extract", selector: "#name", name: "name", prop: "value" },
+        {
+          type: "extract",
+          selector: "#password",
+          name: "password",
+          prop: "value",
+        },
+      ]),
+      variables: [{ name: "user", defaultValue: "Grace" }],
+    },
+    options: { variables: { user: "Ada" } },
+    expected: {
+      success: true,
+      extractedData: { name: "Ada", password: "hunter2" },
+    },
+  },
+  {
+    name: "loops over elements and branches on conditions",
+    page: "/list.html",
+    flow: flowOf("control-flow", [
+      {
+        type: "forEach",
+        source: { type: "elements", selector: ".order" },
+        as: "row",
+        steps: [
+          {
+            type: "extract",
+            selector: "{{row.selector}}",
+            name: "products",
+          },
+        ],
+      },
+      {
+        type: "if",
+        condition: { type: "exists", selector: "#banner" },
+        then: [{ type: "extract", selector: "#banner", name: "branch" }],
+        else: [{ type: "extract", selector: "#title", name: "branch" }],
+      },
+    ]),
+    expected: {
+      success: true,
+      extractedData: {
+        products: ["Apples", "Bread", "Cheese"],
+        branch: "Orders",
+      },
+    },
+  },
+  {
+    name: "passes and fails assertions",
+    page: "/list.html",
+    flow: flowOf("assertions", [
+      {
+        type: "assert",
+        assertion: "textContains",
+        selector: "#title",
+        expected: "Order",
+      },
+      { type: "assert", assertion: "count", selector: ".order", count: 3 },
+      { type: "assert", assertion: "hidden", selector: "#banner" },
+      {
+        type: "assert",
+        assertion: "textEquals",
+        selector: "#title",
+        expected: "Invoices",
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+      { type: "extract", selector: "#title", name: "title" },
+    ]),
+    expected: { success: false, failedStepIndex: 3, extractedData: {} },
+  },
+  {
+    name: "stops at the first missing element",
+    page: "/form.html",
+    flow: flowOf("missing-element", [
+      { type: "extract", selector: "#title", name: "title" },
+      {
+        type: "click",
+        selector: "#missing",
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+      { type: "extract", selector: "#name", name: "name", prop: "value" },
+    ]),
+    expected: {
+      success: false,
+      failedStepIndex: 1,
+      extractedData: { title: "Checkout" },
+    },
+  },
+  {
+    name: "keeps running after a failure when stopOnError is false",
+    page: "/form.html",
+    flow: flowOf("continue-after-error", [
+      {
+        type: "click",
+        selector: "#missing",
+        timeoutMs: FAILING_STEP_TIMEOUT,
+      },
+      { type: "extract", selector: "#title", name: "title" },
+    ]),
+    options: { stopOnError: false, timeout: FAILING_STEP_TIMEOUT },
+    expected: {
+      success: false,
+      failedStepIndex: 0,
+      extractedData: { title: "Checkout" },
+    },
+  },
+  {
+    name: "runs only the selected step range",
+    page: "/list.html",
+    flow: flowOf("step-range", [
+      { type: "click", selector: "#missing" },
+      { type: "extract", selector: "#title", name: "title" },
+      { type: "extract", selector: "#total", name: "total", prop: "value" },
+      { type: "extract", selector: "#help", name: "help" },
+    ]),
+    options: { startAtStep: 1, endAtStep: 2 },
+    expected: {
+      success: true,
+      extractedData: { title: "Orders", total: "42" },
+    },
+  },
+  {
+    name: "skips optional steps and runs on-failure steps",
+    page: "/list.html",
+    flow: {
+      ...flowOf("error-handling", [
+        {
+          type: "click",
+          selector: "#missing",
+          timeoutMs: FAILING_STEP_TIMEOUT,
+          continueOnError: true,
+        },
+        { type: "extract", selector: "#title", name: "title" },
+        {
+          type: "click",
+          selector: "#also-missing",
+          timeoutMs: FAILING_STEP_TIMEOUT,
+        },
+      ]),
+      onFailure: [
+        { type: "extract", selector: "#total", name: "total", prop: "value" },
+      ],
+    },
+    expected: {
+      success: false,
+      failedStepIndex: 2,
+      extractedData: { title: "Orders", total: "42" },
+    },
+  },
+  {
+    name: "rejects unknown step types",
+    page: "/form.html",
+    flow: flowOf("unknown-step", [
+      { type: "hover", selector: "#title" } as unknown as Step,
+      { type: "extract", selector: "#title", name: "title" },
+    ]),
+    expected: { success: false, failedStepIndex: 0, extractedData: {} },
+  },
+  {
+    name: "waits for the page load and captures element screenshots",
+    page: "/form.html",
+    browserOnly: true,
+    flow: flowOf("page-steps", [
+      { type: "waitForNavigation", timeoutMs: 2000 },
+      { type: "screenshot", selector: "#title", screenshot: "" },
+      { type: "extract", selector: "#title", name: "title" },
+    ]),
+    expected: {
+      success: true,
+      extractedData: { title: "Checkout" },
+      imageKeys: ["step_1"],
+    },
+  },
+];
+
+/**
+ * path에 해당하는 fixture 페이지 (로컬 서버의 요청 처리용, 없으면 null)
+ */
+export function findConformancePage(path: string): ConformancePage | null {
+  return CONFORMANCE_PAGES.find((page) => page.path === path) ?? null;
+}
+
+/**
+ * fixture 페이지의 전체 HTML 문서
+ */
+export function conformancePageHtml(page: ConformancePage): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${page.title}</title>
+  </head>
+  <body>${page.body}</body>
+</html>
+`;
+}
+
+/**
+ * 실제 RunResult와 기대값의 차이 목록 (같으면 빈 배열)
+ */
+export function compareRunResult(
+  actual: RunResult,
+  expected: ExpectedRunResult
+): string[] {
+  const mismatches: string[] = [];
+  if (actual.success !== expected.success) {
+    mismatches.push(
+      `success: expected ${expected.success}, got ${actual.success}${
+        actual.error ? ` (${actual.error})` : ""
+      }`
+    );
+  }
+  if (
+    "failedStepIndex" in expected &&
+    actual.failedStepIndex !== expected.failedStepIndex
+  ) {
+    mismatches.push(
+      `failedStepIndex: expected ${expected.failedStepIndex}, got ${actual.failedStepIndex}`
+    );
+  }
+  const images = expected.imageKeys || [];
+  for (const key of images) {
+    const value = actual.extractedData?.[key];
+    if (typeof value !== "string" || !value.startsWith(PNG_DATA_URL_PREFIX)) {
+      mismatches.push(`extractedData.${key}: expected a PNG data URL`);
+    }
+  }
+  if (expected.extractedData) {
+    const actualData = JSON.stringify(
+      omitKeys(actual.extractedData ?? {}, images),
+      sortedKeys
+    );
+    const expectedData = JSON.stringify(expected.extractedData, sortedKeys);
+    if (actualData !== expectedData) {
+      mismatches.push(
+        `extractedData: expected ${expectedData}, got ${actualData}`
+      );
+    }
+  }
+  return mismatches;
+}
+
+// images 키를 뺀 extractedData
+function omitKeys(
+  data: Record<string, any>,
+  keys: string[]
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([key]) => !keys.includes(key))
+  );
+}
+
+// JSON.stringify replacer: 객체 키 순서와 무관하게 비교
+function sortedKeys(_key: string, value: any): any {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, value[key]])
+  );
+}
+
+/**
+ * 케이스 하나를 harness로 실행하고 결과 비교
+ */
+export async function runConformanceCase<TContext>(
+  harness: ConformanceHarness<TContext>,
+  testCase: ConformanceCase
+): Promise<ConformanceCaseResult> {
+  const page = findConformancePage(testCase.page);
+  if (!page) {
+    throw new Error(`Conformance page not found: ${testCase.page}`);
+  }
+
+  const context = await harness.openPage(page);
+  try {
+    const actual = await harness.runner.run(
+      testCase.flow,
+      context,
+      testCase.options
+    );
+    const mismatches = compareRunResult(actual, testCase.expected);
+    return {
+      name: testCase.name,
+      passed: mismatches.length === 0,
+      mismatches,
+      actual,
+    };
+  } finally {
+    await harness.closePage?.(context);
+  }
+}
+
+/**
+ * 모든 케이스를 순서대로 실행 (Runner 패키지의 테스트에서 사용)
+ */
+export async function runConformanceSuite<TContext>(
+  harness: ConformanceHarness<TContext>,
+  cases: ConformanceCase[] = RUNNER_CONFORMANCE_CASES
+): Promise<ConformanceCaseResult[]> {
+  const results: ConformanceCaseResult[] = [];
+  for (const testCase of cases) {
+    results.push(await runConformanceCase(harness, testCase));
+  }
+  return results;
+}
@@ -0,0 +1,477 @@
+import type { Flow, FlowCondition, Step } from "../types";
+import type { ExecutionResult, StepError } from "../runner";
+import type { AssertionState } from "../assertions/assertionUtils";
+import { parseAssertionPattern } from "../assertions/assertionUtils";
+import { getExtractOutputKey } from "../extract/extractOutputs";
+import {
+  interpolate,
+  findMissingVariables,
+  resolveConditionVariables,
+  resolveStepVariables,
+  resolveVariableValues,
+} from "../variables/flowVariables";
+import type { CallFlowStep } from "../subflows/subFlows";
+import { getLoopVariableName, isControlStep } from "./stepTree";
+import type { ControlStep } from "./stepTree";
+
+/**
+ * Control flow 유틸리티
+ * if/repeat/forEach/while, callFlow 스텝을 실행하는 공통 인터프리터
+ * 페이지 접근(단일 스텝 실행, 요소 상태 읽기)과 하위 Flow 조회는 각 Runner가 handlers로 제공
+ */
+
+// forEach가 순회하는 요소 (selector는 해당 요소 하나만 가리킴)
+export interface LoopElement {
+  text: string;
+  selector: string;
+}
+
+export interface ControlFlowHandlers {
+  /** 제어 흐름이 아닌 단일 Step 실행 */
+  runStep(step: Step): Promise<ExecutionResult>;
+  /** 조건 판정용 요소 상태 읽기 (대기 없이 즉시) */
+  readState(selector: string): Promise<AssertionState>;
+  /** forEach 대상 요소 목록 */
+  listElements(selector: string): Promise<LoopElement[]>;
+  /** callFlow가 호출할 Flow 조회 (시크릿 참조는 runStep과 같은 방식으로 처리) */
+  loadFlow?: (flowId: string) => Promise<Flow | null | undefined>;
+  /** 사용자 중단 여부 */
+  shouldStop?: () => boolean;
+}
+
+export interface ControlFlowScope {
+  variables: Record<string, string>; // 플로우 변수 + 반복 변수
+  extractedData: Record<string, any>; // 실행 중 수집된 extract 결과 (공유)
+  loopDepth?: number; // 반복 안에서는 extract 결과를 배열로 누적
+  callStack?: string[]; // 실행 중인 Flow id (순환 호출 방지)
+  stepErrors?: StepError[]; // continueOnError Step의 오류 (공유)
+}
+
+// 인터프리터가 실행하는 스텝 (Runner가 직접 실행하지 않음)
+export type CompositeStep = ControlStep | CallFlowStep;
+
+/**
+ * 인터프리터로 실행해야 하는 스텝인지 확인 (제어 흐름, callFlow)
+ */
+export function isCompositeStep(step: Step): step is CompositeStep {
+  return isControlStep(step) || step.type === "callFlow";
+}
+
+/**
+ * Step 경로를 사람이 읽는 번호로 표시 ([2, 0] -> "3.1")
+ */
+export function formatStepPath(path: number[]): string {
+  return path.map((index) => index + 1).join(".");
+}
+
+const CONDITION_NEGATION = /^not\s+/i;
+
+/**
+ * 조건을 편집용 텍스트로 표시
+ * - exists <selector>
+ * - text <selector> matches <pattern>
+ * - var <name> = <value>
+ * (negate면 앞에 "not ")
+ */
+export function formatCondition(condition: FlowCondition): string {
+  let text: string;
+  switch (condition.type) {
+    case "exists":
+      text = `exists ${condition.selector}`;
+      break;
+    case "textMatches":
+      text = `text ${condition.selector} matches ${condition.pattern}`;
+      break;
+    case "variableEquals":
+      text = `var ${condition.name} = ${condition.value}`;
+      break;
+    default:
+      text = JSON.stringify(condition);
+  }
+  return condition.negate ? `not ${text}` : text;
+}
+
+/**
+ * formatCondition 형식의 텍스트를 조건으로 변환 (형식이 맞지 않으면 null)
+ */
+export function parseCondition(input: string): FlowCondition | null {
+  let text = input.trim();
+  const negate = CONDITION_NEGATION.test(text);
+  if (negate) text = text.replace(CONDITION_NEGATION, "");
+
+  let condition: FlowCondition | null = null;
+  const exists = text.match(/^exists\s+(.+)$/i);
+  const textMatches = text.match(/^text\s+(.+?)\s+matches\s+(.+)$/i);
+  const variable = text.match(/^var\s+([\w.-]+)\s*=\s*(.*)$/i);
+
+  if (exists) {
+    condition = { type: "exists", selector: exists[1].trim() };
+  } else if (textMatches) {
+    condition = {
+      type: "textMatches",
+      selector: textMatches[1].trim(),
+      pattern: textMatches[2].trim(),
+    };
+  } else if (variable) {
+    condition = {
+      type: "variableEquals",
+      name: variable[1],
+      value: variable[2].trim(),
+    };
+  }
+
+  if (!condition) return null;
+  return negate ? { ...condition, negate: true } : condition;
+}
+
+/**
+ * 사람이 읽기 쉬운 제어 흐름 스텝 설명 (UI용)
+ */
+export function describeControlStep(step: ControlStep): string {
+  switch (step.type) {
+    case "if":
+      return `If ${formatCondition(step.condition)}`;
+    case "repeat":
+      return `Repeat ${step.times} time${step.times === 1 ? "" : "s"}`;
+    case "forEach": {
+      const as = getLoopVariableName(step);
+      return step.source.type === "elements"
+        ? `For each ${step.source.selector} as {{${as}}}`
+        : `For each item of ${step.source.name} as {{${as}}}`;
+    }
+    case "while":
+      return `While ${formatCondition(step.condition)} (max ${
+        step.maxIterations
+      })`;
+    default:
+      return "Control flow";
+  }
+}
+
+/**
+ * 조건 판정
+ * variableEquals는 변수, 없으면 문자열 extract 결과와 비교
+ */
+export async function evaluateCondition(
+  condition: FlowCondition,
+  scope: ControlFlowScope,
+  readState: (selector: string) => Promise<AssertionState>
+): Promise<boolean> {
+  const resolved = resolveConditionVariables(condition, scope.variables);
+  let result: boolean;
+
+  switch (resolved.type) {
+    case "exists": {
+      const state = await readState(resolved.selector);
+      result = state.count > 0 && state.visible;
+      break;
+    }
+    case "textMatches": {
+      const state = await readState(resolved.selector);
+      result =
+        state.count > 0 &&
+        parseAssertionPattern(resolved.pattern).test(state.text ?? "");
+      break;
+    }
+    case "variableEquals": {
+      const actual = Object.prototype.hasOwnProperty.call(
+        scope.variables,
+        resolved.name
+      )
+        ? scope.variables[resolved.name]
+        : scope.extractedData[resolved.name];
+      result = actual !== undefined && String(actual) === resolved.value;
+      break;
+    }
+    default:
+      throw new Error(
+        `Unknown condition: ${(condition as FlowCondition).type}`
+      );
+  }
+
+  return resolved.negate ? !result : result;
+}
+
+/**
+ * continueOnError Step의 실패를 scope에 기록하고 계속 실행할지 확인
+ * path[0]은 최상위 Step index
+ */
+export function recordStepError(
+  step: Step,
+  result: ExecutionResult,
+  scope: ControlFlowScope,
+  path: number[]
+): boolean {
+  if (!step.continueOnError) return false;
+  scope.stepErrors?.push({
+    stepIndex: path[0] ?? 0,
+    error: result.error || "Step failed",
+  });
+  return true;
+}
+
+/**
+ * Step 목록 순서대로 실행 (제어 흐름 스텝은 재귀 실행)
+ * path: 목록의 위치 (실패 메시지와 extract 결과 키에 사용)
+ */
+export async function runStepList(
+  steps: Step[],
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope,
+  path: number[] = [],
+  startIndex = 0
+): Promise<ExecutionResult> {
+  for (let i = 0; i < steps.length; i++) {
+    if (handlers.shouldStop?.()) {
+      return { success: false, error: "Stopped by user" };
+    }
+
+    const step = steps[i];
+    const stepPath = [...path, startIndex + i];
+    const result = isCompositeStep(step)
+      ? await runCompositeStep(step, handlers, scope, stepPath)
+      : await runLeafStep(step, handlers, scope, stepPath);
+    if (
+      !result.success &&
+      (handlers.shouldStop?.() ||
+        !recordStepError(step, result, scope, stepPath))
+    ) {
+      return result;
+    }
+  }
+  return { success: true };
+}
+
+async function runLeafStep(
+  step: Step,
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope,
+  path: number[]
+): Promise<ExecutionResult> {
+  const result = await handlers.runStep(
+    resolveStepVariables(step, scope.variables)
+  );
+  if (!result.success) {
+    return {
+      ...result,
+      error: `Step ${formatStepPath(path)}: ${result.error || "Step failed"}`,
+    };
+  }
+
+  if (result.extractedData !== undefined) {
+    const key = getExtractOutputKey(step, path.join("_"));
+    if (scope.loopDepth) {
+      // 반복마다 추출한 값을 순서대로 모음
+      if (!Array.isArray(scope.extractedData[key])) {
+        scope.extractedData[key] = [];
+      }
+      scope.extractedData[key].push(result.extractedData);
+    } else {
+      scope.extractedData[key] = result.extractedData;
+    }
+  }
+  return { success: true };
+}
+
+/**
+ * 한 번의 반복에서 사용할 scope (반복 변수 추가)
+ */
+function iterationScope(
+  scope: ControlFlowScope,
+  variables: Record<string, string>
+): ControlFlowScope {
+  return {
+    ...scope,
+    variables: { ...scope.variables, ...variables },
+    loopDepth: (scope.loopDepth || 0) + 1,
+  };
+}
+
+/**
+ * 제어 흐름 또는 callFlow 스텝 실행
+ */
+export async function runCompositeStep(
+  step: CompositeStep,
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope,
+  path: number[] = []
+): Promise<ExecutionResult> {
+  return step.type === "callFlow"
+    ? runCallFlowStep(step, handlers, scope, path)
+    : runControlStep(step, handlers, scope, path);
+}
+
+/**
+ * callFlow 스텝 실행
+ * 하위 Flow의 Step을 그 자리에서 실행 (변수는 args + 하위 Flow 기본값만 사용)
+ * extract 결과는 호출한 Flow의 결과에 합쳐짐
+ */
+export async function runCallFlowStep(
+  step: CallFlowStep,
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope,
+  path: number[] = []
+): Promise<ExecutionResult> {
+  const fail = (error: string): ExecutionResult => ({
+    success: false,
+    error: `Step ${formatStepPath(path)}: ${error}`,
+  });
+
+  if (!handlers.loadFlow) {
+    return fail("Sub-flows are not supported by this runner");
+  }
+
+  const callStack = scope.callStack || [];
+  if (callStack.includes(step.flowId)) {
+    return fail(`Sub-flow cycle: ${[...callStack, step.flowId].join(" → ")}`);
+  }
+
+  try {
+    const flow = await handlers.loadFlow(step.flowId);
+    if (!flow) {
+      return fail(`Called flow not found: ${step.flowTitle || step.flowId}`);
+    }
+
+    const args = Object.fromEntries(
+      Object.entries(step.args || {}).map(([name, value]) => [
+        name,
+        interpolate(value, scope.variables),
+      ])
+    );
+    const missing = findMissingVariables(flow, args);
+    if (missing.length > 0) {
+      return fail(`Missing variables for ${flow.title}: ${missing.join(", ")}`);
+    }
+
+    return await runStepList(
+      flow.steps,
+      handlers,
+      {
+        ...scope,
+        variables: resolveVariableValues(flow, args),
+        callStack: [...callStack, flow.id],
+      },
+      path
+    );
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+}
+
+/**
+ * 제어 흐름 스텝 실행
+ */
+export async function runControlStep(
+  step: ControlStep,
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope,
+  path: number[] = []
+): Promise<ExecutionResult> {
+  try {
+    switch (step.type) {
+      case "if": {
+        if (
+          await evaluateCondition(step.condition, scope, handlers.readState)
+        ) {
+          return runStepList(step.then, handlers, scope, path);
+        }
+        // else 목록의 번호는 then 뒤에 이어짐
+        return runStepList(
+          step.else || [],
+          handlers,
+          scope,
+          path,
+          step.then.length
+        );
+      }
+
+      case "repeat": {
+        const as = getLoopVariableName(step)!;
+        for (let iteration = 0; iteration < step.times; iteration++) {
+          const result = await runStepList(
+            step.steps,
+            handlers,
+            iterationScope(scope, { [`${as}.index`]: String(iteration) }),
+            path
+          );
+          if (!result.success) return result;
+        }
+        return { success: true };
+      }
+
+      case "forEach": {
+        const as = getLoopVariableName(step)!;
+        const items = await listForEachItems(step, handlers, scope);
+        for (const [index, item] of items.entries()) {
+          const result = await runStepList(
+            step.steps,
+            handlers,
+            iterationScope(scope, {
+              [as]: item.text,
+              [`${as}.index`]: String(index),
+              ...(item.selector ? { [`${as}.selector`]: item.selector } : {}),
+            }),
+            path
+          );
+          if (!result.success) return result;
+        }
+        return { success: true };
+      }
+
+      case "while": {
+        const as = getLoopVariableName(step)!;
+        let iteration = 0;
+        while (
+          await evaluateCondition(step.condition, scope, handlers.readState)
+        ) {
+          if (iteration >= step.maxIterations) {
+            return {
+              success: false,
+              error: `Step ${formatStepPath(path)}: While loop exceeded ${
+                step.maxIterations
+              } iterations`,
+            };
+          }
+          const result = await runStepList(
+            step.steps,
+            handlers,
+            iterationScope(scope, { [`${as}.index`]: String(iteration) }),
+            path
+          );
+          if (!result.success) return result;
+          iteration++;
+        }
+        return { success: true };
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Step ${formatStepPath(path)}: ${(error as Error).message}`,
+    };
+  }
+}
+
+/**
+ * forEach 반복 대상 목록 (요소 또는 앞선 extract 결과)
+ */
+async function listForEachItems(
+  step: Extract<ControlStep, { type: "forEach" }>,
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope
+): Promise<Array<{ text: string; selector?: string }>> {
+  if (step.source.type === "elements") {
+    return handlers.listElements(
+      interpolate(step.source.selector, scope.variables)
+    );
+  }
+
+  const value = scope.extractedData[step.source.name];
+  if (value === undefined) {
+    throw new Error(`Extract output not found: ${step.source.name}`);
+  }
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((item) => ({
+    text: typeof item === "string" ? item : JSON.stringify(item),
+  }));
+}
@@ -0,0 +1,172 @@
+import type { Step } from "../types";
+
+/**
+ * Step tree 유틸리티
+ * 제어 흐름 스텝(if/repeat/forEach/while)이 가진 하위 Step 목록 탐색 및 편집
+ */
+
+export type ControlStep = Extract<
+  Step,
+  { type: "if" | "repeat" | "forEach" | "while" }
+>;
+
+const CONTROL_STEP_TYPES = ["if", "repeat", "forEach", "while"];
+
+export const DEFAULT_FOREACH_VARIABLE = "item";
+export const DEFAULT_LOOP_VARIABLE = "iteration";
+
+/**
+ * 하위 Step 목록을 가진 제어 흐름 스텝인지 확인
+ */
+export function isControlStep(step: Step): step is ControlStep {
+  return CONTROL_STEP_TYPES.includes(step.type);
+}
+
+/**
+ * 제어 흐름 스텝의 하위 Step 목록들 (if는 [then, else])
+ */
+export function getChildStepLists(step: Step): Step[][] {
+  switch (step.type) {
+    case "if":
+      return [step.then, step.else || []];
+    case "repeat":
+    case "forEach":
+    case "while":
+      return [step.steps];
+    default:
+      return [];
+  }
+}
+
+/**
+ * 하위 Step 목록을 변환한 새 Step 반환 (제어 흐름 스텝이 아니면 그대로)
+ */
+export function mapChildSteps(
+  step: Step,
+  transform: (steps: Step[]) => Step[]
+): Step {
+  switch (step.type) {
+    case "if":
+      return {
+        ...step,
+        then: transform(step.then),
+        ...(step.else ? { else: transform(step.else) } : {}),
+      };
+    case "repeat":
+    case "forEach":
+    case "while":
+      return { ...step, steps: transform(step.steps) };
+    default:
+      return step;
+  }
+}
+
+/**
+ * mapChildSteps의 비동기 버전 (하위 목록을 순서대로 변환)
+ */
+export async function mapChildStepsAsync(
+  step: Step,
+  transform: (steps: Step[]) => Promise<Step[]>
+): Promise<Step> {
+  switch (step.type) {
+    case "if":
+      return {
+        ...step,
+        then: await transform(step.then),
+        ...(step.else ? { else: await transform(step.else) } : {}),
+      };
+    case "repeat":
+    case "forEach":
+    case "while":
+      return { ...step, steps: await transform(step.steps) };
+    default:
+      return step;
+  }
+}
+
+/**
+ * 중첩된 Step까지 모두 펼친 목록 (깊이 우선, 부모가 먼저)
+ */
+export function flattenSteps(steps: Step[]): Step[] {
+  return steps.flatMap((step) => [
+    step,
+    ...getChildStepLists(step).flatMap(flattenSteps),
+  ]);
+}
+
+/**
+ * 반복 스텝이 하위 Step에 제공하는 변수 이름 (반복 스텝이 아니면 undefined)
+ */
+export function getLoopVariableName(step: Step): string | undefined {
+  switch (step.type) {
+    case "forEach":
+      return step.as?.trim() || DEFAULT_FOREACH_VARIABLE;
+    case "repeat":
+    case "while":
+      return step.as?.trim() || DEFAULT_LOOP_VARIABLE;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 반복 변수에 속한 placeholder 이름인지 확인 ({{item}}, {{item.index}} 등)
+ */
+export function isLoopVariable(name: string, loopVariable: string): boolean {
+  return name === loopVariable || name.startsWith(`${loopVariable}.`);
+}
+
+/**
+ * steps[start]부터 count개의 Step을 제어 흐름 스텝 하나로 묶은 새 목록 반환
+ */
+export function wrapSteps(
+  steps: Step[],
+  start: number,
+  count: number,
+  createBlock: (children: Step[]) => ControlStep
+): Step[] {
+  const children = steps.slice(start, start + count);
+  return [
+    ...steps.slice(0, start),
+    createBlock(children),
+    ...steps.slice(start + children.length),
+  ];
+}
+
+/**
+ * 제어 흐름 스텝을 풀어서 하위 Step을 그 자리에 펼친 새 목록 반환
+ */
+export function unwrapStep(steps: Step[], index: number): Step[] {
+  const step = steps[index];
+  if (!step || !isControlStep(step)) return steps;
+
+  return [
+    ...steps.slice(0, index),
+    ...getChildStepLists(step).flat(),
+    ...steps.slice(index + 1),
+  ];
+}
+
+/**
+ * path 위치의 중첩된 Step을 제거한 새 목록 반환
+ * path의 각 index는 상위 스텝의 하위 목록을 이어 붙인 순서 (if는 then 다음 else)
+ */
+export function removeStepAtPath(steps: Step[], path: number[]): Step[] {
+  const [index, ...rest] = path;
+  if (index === undefined || index < 0 || index >= steps.length) return steps;
+  if (rest.length === 0) {
+    return steps.filter((_, i) => i !== index);
+  }
+
+  let offset = 0;
+  const updated = mapChildSteps(steps[index], (children) => {
+    const start = offset;
+    offset += children.length;
+    const [childIndex, ...childRest] = rest;
+    if (childIndex < start || childIndex >= start + children.length) {
+      return children;
+    }
+    return removeStepAtPath(children, [childIndex - start, ...childRest]);
+  });
+  return steps.map((step, i) => (i === index ? updated : step));
+}
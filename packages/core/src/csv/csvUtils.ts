@@ -0,0 +1,17 @@
+/**
+ * CSV 유틸리티 함수들
+ */
+
+/**
+ * CSV 필드 이스케이프 (RFC 4180)
+ * 객체/배열은 JSON 문자열로 변환
+ */
+export function escapeCsvField(value: unknown): string {
+  const text =
+    value === undefined || value === null
+      ? ""
+      : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,200 @@
+import type { Flow, FlowDataset } from "../types";
+import type { FlowRunner, RunResult, RunnerOptions } from "../runner";
+import { escapeCsvField } from "../csv/csvUtils";
+
+/**
+ * Dataset 유틸리티
+ * CSV/JSON 데이터를 파싱하고 행마다 Flow를 실행 (data-driven run)
+ */
+
+export interface DatasetRowResult extends RunResult {
+  rowIndex: number;
+  row: Record<string, string>;
+}
+
+/**
+ * CSV 텍스트 파싱 (RFC 4180: 따옴표, 이스케이프된 따옴표, CRLF 지원)
+ * 첫 행은 헤더로 사용
+ */
+export function parseCsv(text: string): FlowDataset {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // 빈 줄 제거
+  const nonEmpty = records.filter(
+    (r) => !(r.length === 1 && r[0].trim() === "")
+  );
+  if (nonEmpty.length === 0) {
+    throw new Error("Invalid CSV: missing header row");
+  }
+
+  const [header, ...body] = nonEmpty;
+  const columns = header.map((column) => column.trim());
+  const rows = body.map((values) =>
+    Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]))
+  );
+
+  return { format: "csv", columns, rows };
+}
+
+/**
+ * JSON 텍스트 파싱 (객체 배열)
+ * 값은 문자열로 변환되며, 컬럼은 모든 행의 키 합집합
+ */
+export function parseJsonDataset(text: string): FlowDataset {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (
+    !Array.isArray(data) ||
+    data.some((row) => !row || typeof row !== "object" || Array.isArray(row))
+  ) {
+    throw new Error("Invalid JSON dataset: expected an array of objects");
+  }
+
+  const columns = Array.from(
+    new Set(data.flatMap((row) => Object.keys(row as object)))
+  );
+  const rows = data.map((row) =>
+    Object.fromEntries(
+      Object.entries(row as Record<string, unknown>).map(([key, value]) => [
+        key,
+        value === null || value === undefined
+          ? ""
+          : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value),
+      ])
+    )
+  );
+
+  return { format: "json", columns, rows };
+}
+
+/**
+ * 파일 이름(확장자) 기준으로 Dataset 파싱
+ */
+export function parseDataset(text: string, fileName: string): FlowDataset {
+  const dataset = fileName.toLowerCase().endsWith(".json")
+    ? parseJsonDataset(text)
+    : parseCsv(text);
+  return { ...dataset, name: fileName };
+}
+
+/**
+ * 행마다 Flow 실행 (행의 필드를 {{name}} 변수로 바인딩)
+ * 실패한 행이 있어도 나머지 행은 계속 실행
+ */
+export async function runFlowWithDataset<TContext>(
+  runner: FlowRunner<TContext>,
+  flow: Flow,
+  context: TContext,
+  options: RunnerOptions = {}
+): Promise<DatasetRowResult[]> {
+  const rows = flow.dataset?.rows || [];
+  const results: DatasetRowResult[] = [];
+
+  for (const [rowIndex, row] of rows.entries()) {
+    try {
+      const result = await runner.run(flow, context, {
+        ...options,
+        variables: { ...options.variables, ...row },
+      });
+      results.push({ ...result, rowIndex, row });
+    } catch (error) {
+      results.push({
+        success: false,
+        error: (error as Error).message,
+        rowIndex,
+        row,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 행별 실행 결과를 CSV로 변환
+ * 컬럼: row, success, failedStepIndex, error, 입력 필드, 추출 데이터 키
+ */
+export function datasetResultsToCsv(results: DatasetRowResult[]): string {
+  const inputColumns = Array.from(
+    new Set(results.flatMap((result) => Object.keys(result.row)))
+  );
+  const extractedColumns = Array.from(
+    new Set(
+      results.flatMap((result) => Object.keys(result.extractedData || {}))
+    )
+  );
+
+  const header = [
+    "row",
+    "success",
+    "failedStepIndex",
+    "error",
+    ...inputColumns,
+    ...extractedColumns,
+  ];
+  const lines = results.map((result) =>
+    [
+      result.rowIndex + 1,
+      result.success,
+      result.failedStepIndex,
+      result.error,
+      ...inputColumns.map((column) => result.row[column]),
+      ...extractedColumns.map((column) => result.extractedData?.[column]),
+    ]
+      .map(escapeCsvField)
+      .join(",")
+  );
+
+  return [header.map(escapeCsvField).join(","), ...lines].join("\n");
+}
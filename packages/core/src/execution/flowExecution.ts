@@ -0,0 +1,305 @@
+import type { Flow, Step } from "../types";
+import type { ExecutionResult, RunResult, RunnerOptions } from "../runner";
+import { getExtractOutputKey } from "../extract/extractOutputs";
+import {
+  isCompositeStep,
+  recordStepError,
+  runCompositeStep,
+  runStepList,
+  type ControlFlowHandlers,
+  type ControlFlowScope,
+} from "../control/controlFlow";
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  shouldRetryStep,
+} from "./stepRetry";
+
+/**
+ * Flow 실행 유틸리티
+ * 모든 Runner(DOM, background, Playwright, Puppeteer)가 공유하는 최상위 Step 실행 루프
+ * RunnerOptions(시작/끝 Step, 기본 timeout, 재시도 정책, 지연, stopOnError, onFailure)를 한 곳에서 적용하고
+ * 페이지 접근은 각 Runner가 ControlFlowHandlers로 제공
+ */
+
+export const DEFAULT_STEP_TIMEOUT = 5000;
+
+// 실패한 시도를 다시 시도하기 직전의 정보
+export interface StepRetry {
+  attempt: number; // 실패한 시도 번호 (1부터)
+  maxAttempts: number;
+  error?: string;
+  delayMs: number; // 다음 시도까지 대기 시간
+}
+
+// 진행 상황 알림용 (background의 STEP_EXECUTING/STEP_COMPLETED 등)
+// onStepRetry의 step은 재시도하는 Step (제어 흐름 안이면 하위 Step), index는 최상위 Step index
+// beforeStep은 Step 실행 전에 기다릴 수 있고 (debugger 일시정지), 반환한 Step으로 실행
+export interface FlowRunHooks {
+  beforeStep?: (
+    step: Step,
+    index: number
+  ) => Step | void | Promise<Step | void>;
+  onStepStart?: (step: Step, index: number) => void | Promise<void>;
+  onStepRetry?: (
+    step: Step,
+    index: number,
+    retry: StepRetry
+  ) => void | Promise<void>;
+  onStepEnd?: (
+    step: Step,
+    index: number,
+    result: ExecutionResult
+  ) => void | Promise<void>;
+}
+
+// timeoutMs가 대기 시간 상한인 Step (selector 없는 waitFor는 고정 대기라 제외)
+const TIMEOUT_STEP_TYPES = new Set<Step["type"]>([
+  "click",
+  "type",
+  "select",
+  "extract",
+  "assert",
+  "screenshot",
+  "waitForNavigation",
+]);
+
+/**
+ * timeoutMs가 없는 Step에 기본 timeout 적용 (timeout이 없으면 그대로)
+ */
+export function applyStepTimeout(step: Step, timeout?: number): Step {
+  if (!timeout || ("timeoutMs" in step && step.timeoutMs !== undefined)) {
+    return step;
+  }
+  const waitsForElement =
+    step.type === "waitFor" && Boolean(step.selector || step.locator);
+  if (!TIMEOUT_STEP_TYPES.has(step.type) && !waitsForElement) return step;
+  return { ...step, timeoutMs: timeout } as Step;
+}
+
+/**
+ * 실행할 최상위 Step 범위 [start, end] (포함)
+ * endAtStep이 마지막 Step을 넘으면 마지막 Step까지 실행
+ */
+export function getStepRange(
+  stepCount: number,
+  options: Pick<RunnerOptions, "startAtStep" | "endAtStep"> = {}
+): { start: number; end: number } {
+  if (stepCount === 0) return { start: 0, end: -1 };
+
+  const start = options.startAtStep ?? 0;
+  const end = Math.min(options.endAtStep ?? stepCount - 1, stepCount - 1);
+  if (!Number.isInteger(start) || start < 0 || start >= stepCount) {
+    throw new Error(`Start step ${start + 1} is out of range (1-${stepCount})`);
+  }
+  if (!Number.isInteger(end) || end < start) {
+    throw new Error(`End step ${end + 1} is before start step ${start + 1}`);
+  }
+  return { start, end };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runner의 handlers에 RunnerOptions 적용 (하위 Step 포함 모든 Step에 적용)
+ * - timeoutMs가 없는 Step에 기본 timeout
+ * - 실행 전 slowMo 대기
+ * - 실패하면 재시도 정책(step.retry, options.retry, retries)에 따라 backoff 후 다시 시도
+ */
+export function withRunnerOptions(
+  handlers: ControlFlowHandlers,
+  options: RunnerOptions = {},
+  onRetry?: (step: Step, retry: StepRetry) => void | Promise<void>
+): ControlFlowHandlers {
+  return {
+    ...handlers,
+    runStep: async (step) => {
+      const timedStep = applyStepTimeout(step, options.timeout);
+      const policy = resolveRetryPolicy(step, options);
+      const maxAttempts = policy?.attempts ?? 1;
+      for (let attempt = 1; ; attempt++) {
+        if (options.slowMo) await sleep(options.slowMo);
+
+        let result: ExecutionResult;
+        try {
+          result = await handlers.runStep(timedStep);
+        } catch (error) {
+          result = { success: false, error: (error as Error).message };
+        }
+        if (attempt > 1) result = { ...result, attempts: attempt };
+
+        if (
+          result.success ||
+          !policy ||
+          attempt >= maxAttempts ||
+          !shouldRetryStep(policy, result.error)
+        ) {
+          return result;
+        }
+
+        const delayMs = getRetryDelay(policy, attempt);
+        await onRetry?.(step, {
+          attempt,
+          maxAttempts,
+          error: result.error,
+          delayMs,
+        });
+        if (delayMs > 0) await sleep(delayMs);
+        if (handlers.shouldStop?.()) return result;
+      }
+    },
+  };
+}
+
+/**
+ * Flow에 저장된 실행 기본값(retry, onFailure)을 options에 채움 (options가 우선)
+ */
+export function withFlowDefaults(
+  flow: Pick<Flow, "retry" | "onFailure">,
+  options: RunnerOptions = {}
+): RunnerOptions {
+  return {
+    ...options,
+    retry: options.retry ?? flow.retry,
+    onFailure: options.onFailure ?? flow.onFailure,
+  };
+}
+
+/**
+ * 실패를 보고하기 전에 onFailure Step 실행
+ * 각 Step은 앞선 Step이 실패해도 실행하고, 오류는 stepErrors에 기록
+ */
+async function runOnFailureSteps(
+  steps: Step[],
+  handlers: ControlFlowHandlers,
+  scope: ControlFlowScope,
+  failedStepIndex: number
+): Promise<void> {
+  for (let i = 0; i < steps.length; i++) {
+    if (handlers.shouldStop?.()) return;
+    const result = await runStepList([steps[i]], handlers, scope, [], i);
+    if (!result.success) {
+      scope.stepErrors?.push({
+        stepIndex: failedStepIndex,
+        error: `On failure: ${result.error || "Step failed"}`,
+        onFailure: true,
+      });
+    }
+  }
+}
+
+/**
+ * Flow의 최상위 Step 실행
+ * getHandlers: 최상위 Step index별 handlers (하위 Step 진행 상황을 상위 index로 보고할 때 사용)
+ * stopOnError가 false면 실패한 뒤에도 계속 실행하고 첫 실패를 결과로 보고
+ * continueOnError Step의 실패는 stepErrors에 기록하고 성공으로 진행
+ * 실패로 끝나면 결과를 보고하기 전에 options.onFailure Step 실행 (사용자 중단 제외)
+ */
+export async function runFlowSteps(
+  steps: Step[],
+  getHandlers: (index: number) => ControlFlowHandlers,
+  scope: ControlFlowScope,
+  options: RunnerOptions = {},
+  hooks: FlowRunHooks = {}
+): Promise<RunResult> {
+  const extractedData = scope.extractedData;
+  const stepErrors = (scope.stepErrors ??= []);
+  const finish = (result: RunResult): RunResult =>
+    stepErrors.length > 0 ? { ...result, stepErrors } : result;
+
+  let range: { start: number; end: number };
+  try {
+    range = getStepRange(steps.length, options);
+  } catch (error) {
+    return { success: false, error: (error as Error).message, extractedData };
+  }
+
+  const fail = async (failure: {
+    error?: string;
+    failedStepIndex: number;
+  }): Promise<RunResult> => {
+    if (options.onFailure?.length) {
+      await runOnFailureSteps(
+        options.onFailure,
+        withRunnerOptions(getHandlers(failure.failedStepIndex), options),
+        scope,
+        failure.failedStepIndex
+      );
+    }
+    return finish({ success: false, ...failure, extractedData });
+  };
+
+  let firstFailure: { error?: string; failedStepIndex: number } | undefined;
+  for (let index = range.start; index <= range.end; index++) {
+    let step = steps[index];
+    const handlers = withRunnerOptions(
+      getHandlers(index),
+      options,
+      hooks.onStepRetry &&
+        ((retryStep, retry) => hooks.onStepRetry?.(retryStep, index, retry))
+    );
+
+    if (handlers.shouldStop?.()) {
+      return finish({
+        success: false,
+        error: "Stopped by user",
+        failedStepIndex: index,
+        extractedData,
+      });
+    }
+    if (index > range.start && options.delayMs) {
+      await sleep(options.delayMs);
+    }
+
+    if (hooks.beforeStep) {
+      step = (await hooks.beforeStep(step, index)) ?? step;
+      // 일시정지 중에 중단한 경우
+      if (handlers.shouldStop?.()) {
+        return finish({
+          success: false,
+          error: "Stopped by user",
+          failedStepIndex: index,
+          extractedData,
+        });
+      }
+    }
+
+    await hooks.onStepStart?.(step, index);
+    let result: ExecutionResult;
+    try {
+      result = isCompositeStep(step)
+        ? await runCompositeStep(step, handlers, scope, [index])
+        : await handlers.runStep(step);
+    } catch (error) {
+      result = { success: false, error: (error as Error).message };
+    }
+    await hooks.onStepEnd?.(step, index, result);
+
+    if (!result.success) {
+      if (handlers.shouldStop?.()) {
+        return finish({
+          success: false,
+          error: result.error,
+          failedStepIndex: index,
+          extractedData,
+        });
+      }
+      if (recordStepError(step, result, scope, [index])) continue;
+
+      const failure = { error: result.error, failedStepIndex: index };
+      if (options.stopOnError !== false) return fail(failure);
+      firstFailure ??= failure;
+      continue;
+    }
+
+    if (result.extractedData !== undefined) {
+      extractedData[getExtractOutputKey(step, index)] = result.extractedData;
+    }
+  }
+
+  return firstFailure
+    ? fail(firstFailure)
+    : finish({ success: true, extractedData });
+}
@@ -0,0 +1,102 @@
+import type { Step } from "../types";
+import type { FlowRunHooks } from "./flowExecution";
+import { isCompositeStep } from "../control/controlFlow";
+
+/**
+ * Step 디버거 유틸리티
+ * 최상위 Step 실행 직전에 일시정지하고 재개, 한 Step 실행(step over), 중단을 제어
+ * runFlowSteps의 beforeStep hook으로 연결하며, 일시정지 중에는 실행할 Step을 바꿀 수 있음 (요소 다시 고르기)
+ */
+
+// breakpoint: Step의 breakpoint, step: step over 후 다음 Step, pause: 실행 중 일시정지 요청
+export type DebugPauseReason = "breakpoint" | "step" | "pause";
+
+export interface DebugPause {
+  stepIndex: number;
+  step: Step; // 재개하면 실행할 Step
+  reason: DebugPauseReason;
+}
+
+export interface StepDebuggerOptions {
+  // breakpoint 여부 (기본값: step.breakpoint). 실행 중 바꾼 breakpoint를 반영할 때 지정
+  isBreakpoint?: (step: Step, index: number) => boolean | Promise<boolean>;
+  onPause?: (pause: DebugPause) => void;
+  onResume?: (pause: DebugPause) => void;
+}
+
+export interface StepDebugger {
+  beforeStep: NonNullable<FlowRunHooks["beforeStep"]>;
+  getPause: () => DebugPause | null; // 일시정지 중이 아니면 null
+  pause: () => void; // 다음 Step 직전에 일시정지
+  resume: () => void;
+  stepOver: () => void; // 현재 Step을 실행하고 다음 Step 직전에 다시 일시정지
+  replaceStep: (step: Step) => void; // 일시정지 중인 Step 대신 실행할 Step
+  release: () => void; // 재개하고 이후 일시정지하지 않음 (실행 중단 시)
+}
+
+/**
+ * 페이지에서 대상 요소를 다시 고를 수 있는 Step (selector/locator가 있는 단일 Step)
+ */
+export function canRepickElement(step: Step): boolean {
+  if (isCompositeStep(step)) return false;
+  return Boolean(
+    ("selector" in step && step.selector) || ("locator" in step && step.locator)
+  );
+}
+
+/**
+ * Step 디버거 생성
+ */
+export function createStepDebugger(
+  options: StepDebuggerOptions = {}
+): StepDebugger {
+  let current: (DebugPause & { resolve: (step: Step) => void }) | null = null;
+  let requested: "step" | "pause" | null = null;
+  let released = false;
+
+  const isBreakpoint =
+    options.isBreakpoint ?? ((step: Step) => Boolean(step.breakpoint));
+
+  const continueRun = (next: "step" | null) => {
+    if (!current) return;
+    const { resolve, ...pause } = current;
+    current = null;
+    requested = next;
+    options.onResume?.(pause);
+    resolve(pause.step);
+  };
+
+  return {
+    beforeStep: async (step, index) => {
+      if (released) return step;
+      let reason: DebugPauseReason | null = requested;
+      requested = null;
+      if (!reason && (await isBreakpoint(step, index))) reason = "breakpoint";
+      if (!reason) return step;
+
+      const pause: DebugPause = { stepIndex: index, step, reason };
+      return new Promise<Step>((resolve) => {
+        current = { ...pause, resolve };
+        options.onPause?.(pause);
+      });
+    },
+    getPause: () => {
+      if (!current) return null;
+      const { resolve: _resolve, ...pause } = current;
+      return pause;
+    },
+    pause: () => {
+      if (!current && !released) requested = "pause";
+    },
+    resume: () => continueRun(null),
+    stepOver: () => continueRun("step"),
+    replaceStep: (step) => {
+      if (current) current.step = step;
+    },
+    release: () => {
+      released = true;
+      requested = null;
+      continueRun(null);
+    },
+  };
+}
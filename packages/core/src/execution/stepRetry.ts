@@ -0,0 +1,94 @@
+import type { RetryCondition, Step, StepRetryPolicy } from "../types";
+import type { RunnerOptions } from "../runner";
+
+/**
+ * Step 재시도 유틸리티
+ * 재시도 정책 결정 (Step의 retry > RunnerOptions.retry(flow.retry) > retries 순),
+ * 실패 종류 분류, 재시도 간 대기 시간(backoff) 계산
+ * 오류 메시지는 Runner마다 다르므로 DOM/Playwright/Puppeteer의 메시지를 함께 분류
+ */
+
+export const DEFAULT_RETRY_BACKOFF_MS = 500;
+export const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+export const DEFAULT_RETRY_MAX_BACKOFF_MS = 10000;
+
+export const RETRY_CONDITIONS: RetryCondition[] = [
+  "notFound",
+  "notInteractable",
+  "timeout",
+  "assertion",
+  "any",
+];
+
+// 분류할 수 없는 실패는 "other" (retryOn에 "any"가 있을 때만 재시도)
+export type StepFailureKind = Exclude<RetryCondition, "any"> | "other";
+
+// 위에서부터 처음 일치하는 종류로 분류
+// (assert 실패 메시지에는 "not found"가, Playwright timeout 메시지에는 원인이 함께 들어 있음)
+const FAILURE_PATTERNS: Array<[StepFailureKind, RegExp]> = [
+  ["assertion", /^Assertion failed/i],
+  [
+    "notInteractable",
+    /not interactable|not visible|not enabled|not editable|disabled|detached|intercepts pointer events/i,
+  ],
+  ["notFound", /not found|no element|no node found|failed to find/i],
+  ["timeout", /timeout|timed out/i],
+];
+
+export type ResolvedRetryPolicy = Required<StepRetryPolicy>;
+
+/**
+ * 오류 메시지로 실패 종류 분류
+ */
+export function classifyStepFailure(error?: string): StepFailureKind {
+  if (!error) return "other";
+  const match = FAILURE_PATTERNS.find(([, pattern]) => pattern.test(error));
+  return match ? match[0] : "other";
+}
+
+/**
+ * Step에 적용할 재시도 정책 (재시도하지 않으면 null)
+ * retries만 있으면 모든 실패를 기본 backoff로 재시도
+ */
+export function resolveRetryPolicy(
+  step: Step,
+  options: Pick<RunnerOptions, "retry" | "retries"> = {}
+): ResolvedRetryPolicy | null {
+  const retries = Math.max(0, options.retries || 0);
+  const policy =
+    step.retry ??
+    options.retry ??
+    (retries > 0 ? { attempts: retries + 1 } : undefined);
+  if (!policy || !(policy.attempts > 1)) return null;
+
+  return {
+    attempts: Math.floor(policy.attempts),
+    backoffMs: policy.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS,
+    backoffFactor: policy.backoffFactor ?? DEFAULT_RETRY_BACKOFF_FACTOR,
+    maxBackoffMs: policy.maxBackoffMs ?? DEFAULT_RETRY_MAX_BACKOFF_MS,
+    retryOn: policy.retryOn?.length ? policy.retryOn : ["any"],
+  };
+}
+
+/**
+ * 실패한 시도를 정책에 따라 다시 시도할지 확인
+ */
+export function shouldRetryStep(
+  policy: ResolvedRetryPolicy,
+  error?: string
+): boolean {
+  if (policy.retryOn.includes("any")) return true;
+  const kind = classifyStepFailure(error);
+  return kind !== "other" && policy.retryOn.includes(kind);
+}
+
+/**
+ * attempt번째 시도가 실패한 뒤 다음 시도까지의 대기 시간 (attempt는 1부터)
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number
+): number {
+  const delay = policy.backoffMs * policy.backoffFactor ** (attempt - 1);
+  return Math.max(0, Math.min(delay, policy.maxBackoffMs));
+}
@@ -0,0 +1,82 @@
+import type { Flow, Step } from "../types";
+import { escapeCsvField } from "../csv/csvUtils";
+import { flattenSteps } from "../control/stepTree";
+
+/**
+ * Extract 결과 유틸리티
+ * extract 스텝의 출력 이름 관리 및 실행 결과 내보내기
+ */
+
+// {{name}} placeholder와 같은 문자 규칙 (결과를 변수로 재사용할 수 있도록)
+const EXTRACT_NAME_PATTERN = /^[\w.-]+$/;
+
+/**
+ * 출력 이름이 유효한지 확인
+ */
+export function isValidExtractName(name: string): boolean {
+  return EXTRACT_NAME_PATTERN.test(name);
+}
+
+/**
+ * extractedData에 저장될 키
+ * 이름이 없는 extract 스텝은 하위 호환성을 위해 step_${index} 사용
+ * (중첩된 스텝의 index는 경로 문자열, 예: "2_0")
+ */
+export function getExtractOutputKey(
+  step: Step,
+  index: number | string
+): string {
+  if (step.type === "extract" && step.name?.trim()) {
+    return step.name.trim();
+  }
+  return `step_${index}`;
+}
+
+/**
+ * Flow에 선언된 extract 출력 이름 목록 (중첩된 스텝 포함)
+ */
+export function getExtractOutputNames(flow: Flow): string[] {
+  return flattenSteps(flow.steps).flatMap((step) =>
+    step.type === "extract" && step.name?.trim() ? [step.name.trim()] : []
+  );
+}
+
+/**
+ * Flow 안에서 겹치지 않는 출력 이름 생성 (name, name_2, name_3, ...)
+ */
+export function makeUniqueExtractName(flow: Flow, name: string): string {
+  const used = new Set(getExtractOutputNames(flow));
+  if (!used.has(name)) return name;
+
+  let suffix = 2;
+  while (used.has(`${name}_${suffix}`)) suffix++;
+  return `${name}_${suffix}`;
+}
+
+/**
+ * 한 번의 실행에서 수집된 extract 결과를 CSV로 변환
+ * 컬럼은 출력 이름, 배열 값은 행으로 펼치고 단일 값은 모든 행에 반복
+ */
+export function extractedDataToCsv(data: Record<string, any>): string {
+  const columns = Object.keys(data);
+  const rowCount = Math.max(
+    1,
+    ...columns.map((column) =>
+      Array.isArray(data[column]) ? data[column].length : 1
+    )
+  );
+
+  const lines: string[] = [];
+  for (let row = 0; row < rowCount; row++) {
+    lines.push(
+      columns
+        .map((column) => {
+          const value = data[column];
+          return escapeCsvField(Array.isArray(value) ? value[row] : value);
+        })
+        .join(",")
+    );
+  }
+
+  return [columns.map(escapeCsvField).join(","), ...lines].join("\n");
+}
@@ -0,0 +1,80 @@
+import { getStorageAdapter } from "../storage/flowStorage";
+import { maskSecretValue } from "../secrets/secretVault";
+
+/**
+ * Failure artifacts 유틸리티
+ * Step이 실패한 순간의 화면 스크린샷과 DOM 스냅샷을 저장하고 조회
+ * 용량이 크므로 실행 기록과 별도 key에 저장하고, 실행 기록에는 id(artifactsRef)만 남김
+ */
+
+const FAILURE_ARTIFACTS_KEY_PREFIX = "failureArtifacts:";
+
+// 실패한 frame의 직렬화된 DOM (스크립트 제외, 입력 값 반영)
+export interface DomSnapshot {
+  url: string;
+  title: string;
+  html: string;
+  truncated: boolean; // 최대 길이를 넘어 잘렸는지
+}
+
+export interface FailureArtifacts {
+  id: string;
+  stepIndex: number;
+  capturedAt: number;
+  error?: string;
+  url?: string; // 캡처 시점의 탭 URL
+  screenshot?: string; // 보이는 영역의 스크린샷 (data URL)
+  domSnapshot?: DomSnapshot;
+}
+
+const artifactsKey = (id: string) => `${FAILURE_ARTIFACTS_KEY_PREFIX}${id}`;
+
+/**
+ * 실패 자료 저장 (id를 새로 발급)
+ */
+export async function saveFailureArtifacts(
+  artifacts: Omit<FailureArtifacts, "id">
+): Promise<FailureArtifacts> {
+  const saved: FailureArtifacts = { id: crypto.randomUUID(), ...artifacts };
+  await getStorageAdapter().set(artifactsKey(saved.id), saved);
+  return saved;
+}
+
+/**
+ * id로 실패 자료 조회 (없으면 null)
+ */
+export async function getFailureArtifacts(
+  id: string
+): Promise<FailureArtifacts | null> {
+  return (await getStorageAdapter().get(artifactsKey(id))) || null;
+}
+
+/**
+ * 실패 자료 삭제 (실행 기록을 삭제할 때 사용)
+ */
+export async function deleteFailureArtifacts(ids: string[]): Promise<void> {
+  const adapter = getStorageAdapter();
+  for (const id of ids) {
+    if (adapter.remove) {
+      await adapter.remove(artifactsKey(id));
+    } else {
+      await adapter.set(artifactsKey(id), null);
+    }
+  }
+}
+
+/**
+ * DOM 스냅샷에 남은 시크릿 값을 마스킹 (입력 필드에 입력된 값 등)
+ */
+export function redactSecretValues(
+  snapshot: DomSnapshot,
+  secretValues: string[]
+): DomSnapshot {
+  const html = secretValues
+    .filter((value) => value.length > 0)
+    .reduce(
+      (result, value) => result.split(value).join(maskSecretValue(value)),
+      snapshot.html
+    );
+  return { ...snapshot, html };
+}
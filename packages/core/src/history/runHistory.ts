@@ -0,0 +1,289 @@
+import type { Flow, Step } from "../types";
+import type {
+  ExecutionResult,
+  RunResult,
+  RunSettings,
+  StepError,
+} from "../runner";
+import type { FlowRunHooks } from "../execution/flowExecution";
+import type { LocatorTier } from "../locators/locatorStrategies";
+import { getStorageAdapter } from "../storage/flowStorage";
+import { deleteFailureArtifacts } from "./failureArtifacts";
+import { deleteFlowTraces } from "../trace/flowTrace";
+
+/**
+ * Run history 유틸리티
+ * Flow별 실행 기록(시작/끝 시각, Step별 소요 시간, 사용한 selector, 오류, extract 결과)을
+ * StorageAdapter에 저장하고, 두 실행을 Step 단위로 비교
+ * 실패 시 캡처한 스크린샷/DOM 스냅샷은 failureArtifacts에 따로 저장하고 id만 기록
+ */
+
+// flowId -> FlowRun[] (최근 실행이 앞)
+const RUN_HISTORY_KEY = "runHistory";
+
+// Flow마다 보관하는 실행 기록 수 (오래된 기록부터 삭제)
+export const MAX_RUNS_PER_FLOW = 20;
+
+export type FlowRunStatus = "running" | "passed" | "failed" | "stopped";
+
+// 최상위 Step 하나의 실행 기록
+export interface StepRunRecord {
+  stepIndex: number;
+  type: Step["type"];
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+  success?: boolean; // 실행 중이면 없음
+  attempts?: number; // 재시도했을 때 시도한 횟수
+  usedSelector?: string; // 요소를 찾은 selector (fallback 포함)
+  locatorTier?: LocatorTier; // 요소를 찾은 locator 단계
+  error?: string;
+  extractedData?: any;
+  artifactsRef?: string; // 실패 시 캡처한 스크린샷/DOM 스냅샷 (FailureArtifacts id)
+}
+
+export interface FlowRun {
+  id: string;
+  flowId: string;
+  flowTitle: string;
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+  status: FlowRunStatus;
+  totalSteps: number;
+  steps: StepRunRecord[]; // 실행한 순서
+  error?: string;
+  failedStepIndex?: number;
+  extractedData?: Record<string, any>;
+  stepErrors?: StepError[];
+  options?: RunSettings;
+  datasetRowIndex?: number; // 데이터셋 실행이면 행 index
+  traceRef?: string; // trace를 기록한 실행이면 FlowTrace id
+}
+
+// 두 실행의 같은 Step 비교 (한쪽에서만 실행됐으면 나머지는 없음)
+export interface StepRunComparison {
+  stepIndex: number;
+  type: Step["type"];
+  base?: StepRunRecord;
+  other?: StepRunRecord;
+  durationDeltaMs?: number; // other - base
+  statusChanged: boolean;
+  selectorChanged: boolean;
+}
+
+async function loadHistory(): Promise<Record<string, FlowRun[]>> {
+  return (await getStorageAdapter().get(RUN_HISTORY_KEY)) || {};
+}
+
+async function saveHistory(history: Record<string, FlowRun[]>): Promise<void> {
+  await getStorageAdapter().set(RUN_HISTORY_KEY, history);
+}
+
+// 삭제하는 실행 기록의 실패 자료와 trace도 함께 삭제
+async function deleteRunArtifacts(runs: FlowRun[]): Promise<void> {
+  await deleteFailureArtifacts(
+    runs.flatMap((run) =>
+      run.steps.flatMap((record) =>
+        record.artifactsRef ? [record.artifactsRef] : []
+      )
+    )
+  );
+  await deleteFlowTraces(
+    runs.flatMap((run) => (run.traceRef ? [run.traceRef] : []))
+  );
+}
+
+/**
+ * Flow의 실행 기록 (최근 실행 순)
+ */
+export async function listFlowRuns(flowId: string): Promise<FlowRun[]> {
+  return (await loadHistory())[flowId] || [];
+}
+
+/**
+ * id로 실행 기록 조회 (없으면 null)
+ */
+export async function getFlowRun(
+  flowId: string,
+  runId: string
+): Promise<FlowRun | null> {
+  const runs = await listFlowRuns(flowId);
+  return runs.find((run) => run.id === runId) ?? null;
+}
+
+/**
+ * 실행 기록 저장 (같은 id가 있으면 교체, 없으면 맨 앞에 추가)
+ */
+export async function saveFlowRun(run: FlowRun): Promise<void> {
+  const history = await loadHistory();
+  const runs = history[run.flowId] || [];
+  const index = runs.findIndex((saved) => saved.id === run.id);
+  if (index >= 0) {
+    history[run.flowId] = runs.map((saved, i) => (i === index ? run : saved));
+    await saveHistory(history);
+    return;
+  }
+  const next = [run, ...runs];
+  history[run.flowId] = next.slice(0, MAX_RUNS_PER_FLOW);
+  await saveHistory(history);
+  await deleteRunArtifacts(next.slice(MAX_RUNS_PER_FLOW));
+}
+
+/**
+ * 실행 기록 하나 삭제
+ */
+export async function deleteFlowRun(
+  flowId: string,
+  runId: string
+): Promise<void> {
+  const history = await loadHistory();
+  const runs = history[flowId] || [];
+  history[flowId] = runs.filter((run) => run.id !== runId);
+  await saveHistory(history);
+  await deleteRunArtifacts(runs.filter((run) => run.id === runId));
+}
+
+/**
+ * Flow의 실행 기록 전체 삭제 (Flow를 삭제할 때도 사용)
+ */
+export async function clearFlowRuns(flowId: string): Promise<void> {
+  const history = await loadHistory();
+  const runs = history[flowId] || [];
+  delete history[flowId];
+  await saveHistory(history);
+  await deleteRunArtifacts(runs);
+}
+
+/**
+ * 실행 결과의 상태
+ * stopped: 사용자가 중단한 실행
+ */
+export function getRunStatus(
+  result: RunResult,
+  stopped = false
+): FlowRunStatus {
+  if (result.success) return "passed";
+  return stopped ? "stopped" : "failed";
+}
+
+/**
+ * 실행 기록 작성기
+ * hooks를 runFlowSteps에 넘기면 Step마다 기록하고 저장 (실행 중에도 Runs 화면에서 확인 가능)
+ * attachArtifacts로 실패한 Step에 캡처한 자료(id)를 연결하고, finish로 실행 결과를 기록
+ */
+export function createRunRecorder(
+  flow: Pick<Flow, "id" | "title" | "steps">,
+  details: Pick<FlowRun, "options" | "datasetRowIndex" | "traceRef"> = {},
+  now: () => number = Date.now
+): {
+  run: FlowRun;
+  hooks: FlowRunHooks;
+  attachArtifacts: (stepIndex: number, artifactsRef: string) => Promise<void>;
+  finish: (result: RunResult, stopped?: boolean) => Promise<FlowRun>;
+} {
+  const run: FlowRun = {
+    id: crypto.randomUUID(),
+    flowId: flow.id,
+    flowTitle: flow.title,
+    startedAt: now(),
+    status: "running",
+    totalSteps: flow.steps.length,
+    steps: [],
+    ...details,
+  };
+  // 저장은 순서대로 (실행 중 저장과 finish가 겹치지 않도록)
+  // 이후 변경이 저장된 기록에 반영되지 않도록 복사본 저장
+  let saving = saveFlowRun(structuredClone(run));
+  const save = () => {
+    saving = saving
+      .catch(() => {})
+      .then(() => saveFlowRun(structuredClone(run)));
+    return saving;
+  };
+
+  // 해당 Step의 가장 최근 기록 (반복 실행된 Step 포함)
+  const findRecord = (index: number) =>
+    [...run.steps].reverse().find((saved) => saved.stepIndex === index);
+
+  const hooks: FlowRunHooks = {
+    onStepStart: (step, index) => {
+      run.steps.push({ stepIndex: index, type: step.type, startedAt: now() });
+    },
+    onStepEnd: async (_step, index, result: ExecutionResult) => {
+      const record = findRecord(index);
+      if (!record) return;
+      record.endedAt = now();
+      record.durationMs = record.endedAt - record.startedAt;
+      record.success = result.success;
+      if (result.attempts) record.attempts = result.attempts;
+      if (result.usedSelector) record.usedSelector = result.usedSelector;
+      if (result.locatorTier) record.locatorTier = result.locatorTier;
+      if (result.error) record.error = result.error;
+      if (result.extractedData !== undefined) {
+        record.extractedData = result.extractedData;
+      }
+      await save();
+    },
+  };
+
+  const attachArtifacts = async (stepIndex: number, artifactsRef: string) => {
+    const record = findRecord(stepIndex);
+    if (!record) return;
+    record.artifactsRef = artifactsRef;
+    await save();
+  };
+
+  const finish = async (result: RunResult, stopped = false) => {
+    run.endedAt = now();
+    run.durationMs = run.endedAt - run.startedAt;
+    run.status = getRunStatus(result, stopped);
+    if (result.error) run.error = result.error;
+    if (result.failedStepIndex !== undefined) {
+      run.failedStepIndex = result.failedStepIndex;
+    }
+    if (result.extractedData) run.extractedData = result.extractedData;
+    if (result.stepErrors) run.stepErrors = result.stepErrors;
+    await save();
+    return run;
+  };
+
+  return { run, hooks, attachArtifacts, finish };
+}
+
+/**
+ * 두 실행을 최상위 Step 단위로 비교 (stepIndex 순)
+ * 반복해서 실행된 Step은 마지막 기록으로 비교
+ */
+export function compareFlowRuns(
+  base: FlowRun,
+  other: FlowRun
+): StepRunComparison[] {
+  const byIndex = (run: FlowRun) =>
+    new Map(run.steps.map((record) => [record.stepIndex, record]));
+  const baseSteps = byIndex(base);
+  const otherSteps = byIndex(other);
+  const indexes = [
+    ...new Set([...baseSteps.keys(), ...otherSteps.keys()]),
+  ].sort((a, b) => a - b);
+
+  return indexes.map((stepIndex) => {
+    const before = baseSteps.get(stepIndex);
+    const after = otherSteps.get(stepIndex);
+    const comparison: StepRunComparison = {
+      stepIndex,
+      type: (after ?? before)!.type,
+      base: before,
+      other: after,
+      statusChanged: before?.success !== after?.success,
+      selectorChanged:
+        !!before?.usedSelector &&
+        !!after?.usedSelector &&
+        before.usedSelector !== after.usedSelector,
+    };
+    if (before?.durationMs !== undefined && after?.durationMs !== undefined) {
+      comparison.durationDeltaMs = after.durationMs - before.durationMs;
+    }
+    return comparison;
+  });
+}
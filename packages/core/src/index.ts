@@ -2,3 +2,27 @@ export * from "./types";
 export * from "./steps/stepValidation";
 export * from "./storage/flowStorage";
 export * from "./runner";
+export * from "./variables/flowVariables";
+export * from "./datasets/flowDataset";
+export * from "./extract/extractOutputs";
+export * from "./secrets/secretVault";
+export * from "./secrets/pendingSecrets";
+export * from "./assertions/assertionUtils";
+export * from "./locators/locatorStrategies";
+export * from "./locators/locatorHealing";
+export * from "./conformance/runnerConformance";
+export * from "./conformance/conformanceServer";
+export * from "./control/stepTree";
+export * from "./control/controlFlow";
+export * from "./execution/flowExecution";
+export * from "./execution/stepRetry";
+export * from "./execution/stepDebugger";
+export * from "./history/runHistory";
+export * from "./history/failureArtifacts";
+export * from "./trace/flowTrace";
+export * from "./subflows/subFlows";
+export * from "./schema/flowSchema";
+export * from "./codegen/testCodegen";
+export * from "./codegen/playwrightCodegen";
+export * from "./codegen/puppeteerCodegen";
+export * from "./codegen/codegenCli";
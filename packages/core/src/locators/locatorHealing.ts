@@ -0,0 +1,229 @@
+import type { ElementLocator, Flow, Step } from "../types";
+import type { ExecutionResult } from "../runner";
+import type { LocatorTier } from "./locatorStrategies";
+import { isCompositeStep } from "../control/controlFlow";
+import { hasPlaceholders } from "../variables/flowVariables";
+import {
+  getFlowById,
+  getStorageAdapter,
+  updateStep,
+} from "../storage/flowStorage";
+
+/**
+ * Locator self-healing 유틸리티
+ * 실행 중 primary selector가 아닌 단계(fallback, 메타데이터 fuzzy matching 등)로 요소를 찾으면
+ * 찾은 요소로 새로 만든 locator를 Step 업데이트 제안으로 저장하고, 적용하면 저장된 Step의 locator를 교체
+ */
+
+// flowId -> LocatorHealing[] (stepIndex 순)
+const LOCATOR_HEALINGS_KEY = "locatorHealings";
+
+// 최상위 Step의 locator 업데이트 제안
+export interface LocatorHealing {
+  flowId: string;
+  stepIndex: number;
+  tier: LocatorTier; // 실행 중 요소를 찾은 단계
+  previous: ElementLocator; // 실행한 Step의 locator
+  healed: ElementLocator; // 찾은 요소로 새로 만든 locator
+  detectedAt: number;
+}
+
+// locator의 바뀐 항목 하나 (추가된 항목은 before, 삭제된 항목은 after가 없음)
+export interface LocatorChange {
+  field: string; // primary, fallback, metadata.text 등
+  before?: string;
+  after?: string;
+}
+
+/**
+ * 저장된 primary selector가 더 이상 요소를 찾지 못한 단계인지 확인
+ */
+export function needsLocatorHealing(tier?: LocatorTier): boolean {
+  return tier !== undefined && tier !== "primary";
+}
+
+// selector나 locator에 {{name}} placeholder가 있는 Step (실행할 때마다 다른 요소를 가리킴)
+function hasTemplatedLocator(step: Step): boolean {
+  const locator = "locator" in step ? step.locator : undefined;
+  return [
+    "selector" in step ? step.selector : undefined,
+    locator?.primary,
+    ...(locator?.fallbacks || []),
+  ].some(hasPlaceholders);
+}
+
+/**
+ * 두 locator의 차이 (primary, fallback 추가/삭제, 메타데이터 순)
+ */
+export function diffLocators(
+  previous: ElementLocator,
+  healed: ElementLocator
+): LocatorChange[] {
+  const changes: LocatorChange[] = [];
+  if (previous.primary !== healed.primary) {
+    changes.push({
+      field: "primary",
+      before: previous.primary,
+      after: healed.primary,
+    });
+  }
+
+  for (const selector of previous.fallbacks) {
+    if (!healed.fallbacks.includes(selector)) {
+      changes.push({ field: "fallback", before: selector });
+    }
+  }
+  for (const selector of healed.fallbacks) {
+    if (!previous.fallbacks.includes(selector)) {
+      changes.push({ field: "fallback", after: selector });
+    }
+  }
+
+  const before: Record<string, string | undefined> = previous.metadata || {};
+  const after: Record<string, string | undefined> = healed.metadata || {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (before[key] === after[key]) continue;
+    changes.push({
+      field: `metadata.${key}`,
+      before: before[key],
+      after: after[key],
+    });
+  }
+  return changes;
+}
+
+/**
+ * Step 실행 결과로 locator 업데이트 제안 생성
+ * locator가 있는 단일 Step이 primary가 아닌 단계로 성공했고 새 locator가 다를 때만 (아니면 null)
+ * placeholder가 있는 Step은 변수가 치환된 값으로 고정되므로 제안하지 않음
+ */
+export function createLocatorHealing(
+  flowId: string,
+  stepIndex: number,
+  step: Step,
+  result: ExecutionResult,
+  now: () => number = Date.now
+): LocatorHealing | null {
+  if (isCompositeStep(step) || !("locator" in step) || !step.locator) {
+    return null;
+  }
+  if (hasTemplatedLocator(step)) return null;
+  if (!result.success || !needsLocatorHealing(result.locatorTier)) return null;
+  if (!result.healedLocator) return null;
+  if (diffLocators(step.locator, result.healedLocator).length === 0) {
+    return null;
+  }
+
+  return {
+    flowId,
+    stepIndex,
+    tier: result.locatorTier!,
+    previous: step.locator,
+    healed: result.healedLocator,
+    detectedAt: now(),
+  };
+}
+
+/**
+ * Step의 locator를 교체 (selector가 있으면 새 primary로 함께 교체)
+ * placeholder가 있는 selector는 그대로 유지
+ */
+export function withHealedLocator(step: Step, healed: ElementLocator): Step {
+  if (!("locator" in step)) return step;
+  const next = { ...step, locator: healed } as Step;
+  if ("selector" in next && next.selector && !hasPlaceholders(next.selector)) {
+    (next as { selector: string }).selector = healed.primary;
+  }
+  return next;
+}
+
+async function loadHealings(): Promise<Record<string, LocatorHealing[]>> {
+  return (await getStorageAdapter().get(LOCATOR_HEALINGS_KEY)) || {};
+}
+
+async function saveHealings(
+  healings: Record<string, LocatorHealing[]>
+): Promise<void> {
+  await getStorageAdapter().set(LOCATOR_HEALINGS_KEY, healings);
+}
+
+/**
+ * Flow의 locator 업데이트 제안 (stepIndex 순)
+ */
+export async function listLocatorHealings(
+  flowId: string
+): Promise<LocatorHealing[]> {
+  return (await loadHealings())[flowId] || [];
+}
+
+/**
+ * locator 업데이트 제안 저장 (같은 Step의 이전 제안은 교체)
+ */
+export async function saveLocatorHealing(
+  healing: LocatorHealing
+): Promise<void> {
+  const healings = await loadHealings();
+  const others = (healings[healing.flowId] || []).filter(
+    (saved) => saved.stepIndex !== healing.stepIndex
+  );
+  healings[healing.flowId] = [...others, healing].sort(
+    (a, b) => a.stepIndex - b.stepIndex
+  );
+  await saveHealings(healings);
+}
+
+/**
+ * locator 업데이트 제안 삭제
+ */
+export async function dismissLocatorHealing(
+  flowId: string,
+  stepIndex: number
+): Promise<void> {
+  const healings = await loadHealings();
+  const remaining = (healings[flowId] || []).filter(
+    (saved) => saved.stepIndex !== stepIndex
+  );
+  if (remaining.length > 0) {
+    healings[flowId] = remaining;
+  } else {
+    delete healings[flowId];
+  }
+  await saveHealings(healings);
+}
+
+/**
+ * Flow의 locator 업데이트 제안 전체 삭제 (Flow를 삭제할 때 사용)
+ */
+export async function clearLocatorHealings(flowId: string): Promise<void> {
+  const healings = await loadHealings();
+  delete healings[flowId];
+  await saveHealings(healings);
+}
+
+/**
+ * locator 업데이트 제안을 저장된 Step에 적용하고 제안 삭제
+ * 제안 이후 Step이 바뀌었으면 (삭제, 이동, 요소 다시 고르기 등) 적용하지 않고 오류
+ */
+export async function applyLocatorHealing(
+  healing: LocatorHealing
+): Promise<Flow> {
+  const flow = await getFlowById(healing.flowId);
+  const step = flow?.steps[healing.stepIndex];
+  if (
+    !step ||
+    !("locator" in step) ||
+    step.locator?.primary !== healing.previous.primary
+  ) {
+    throw new Error(
+      `Step ${healing.stepIndex + 1} has changed since its locator was healed`
+    );
+  }
+
+  const updated = await updateStep(
+    healing.stepIndex,
+    withHealedLocator(step, healing.healed),
+    healing.flowId
+  );
+  await dismissLocatorHealing(healing.flowId, healing.stepIndex);
+  return updated;
+}
@@ -0,0 +1,162 @@
+import type { ElementLocator } from "../types";
+
+/**
+ * Locator 전략 유틸리티
+ * ElementLocator를 시도할 순서대로 나열 (실행 환경과 무관한 공통 로직)
+ * 각 Runner는 전략을 자신의 API(CSS, getByRole 등)로 옮겨 차례로 시도하고,
+ * 일치한 전략의 설명을 ExecutionResult.usedSelector로 보고
+ */
+
+export type LocatorStrategy =
+  | { kind: "css"; selector: string }
+  | { kind: "xpath"; xpath: string }
+  | { kind: "testId"; testId: string }
+  | { kind: "role"; role: string; name: string }
+  | { kind: "text"; text: string; role?: string; tagName?: string } // role 필터, tagName 일치 우선
+  | { kind: "placeholder"; placeholder: string }
+  | { kind: "label"; label: string };
+
+// 요소를 찾은 locator 단계 (trace에 기록)
+// selector: locator로 찾지 못해 step.selector로 찾음
+export type LocatorTier =
+  | "primary"
+  | "fallback"
+  | "testId"
+  | "role"
+  | "text"
+  | "placeholder"
+  | "label"
+  | "selector";
+
+// XPath selector 접두사 (Playwright selector 형식, 예: xpath=//button[normalize-space()='Save'])
+export const XPATH_SELECTOR_PREFIX = "xpath=";
+
+/**
+ * xpath= selector의 XPath 식 (XPath selector가 아니면 null)
+ */
+export function parseXPathSelector(selector: string): string | null {
+  const trimmed = selector.trim();
+  if (!trimmed.startsWith(XPATH_SELECTOR_PREFIX)) return null;
+  return trimmed.slice(XPATH_SELECTOR_PREFIX.length).trim() || null;
+}
+
+// Shadow DOM host chain 구분자 (Puppeteer의 >>> 결합자와 같은 형식, 예: my-app >>> button.save)
+// 각 구간은 바로 앞 host의 shadowRoot 안에서 찾는 CSS selector
+export const SHADOW_SELECTOR_SEPARATOR = " >>> ";
+
+/**
+ * host chain selector를 구간으로 분리 (host chain이 아니면 selector 하나)
+ */
+export function splitShadowSelector(selector: string): string[] {
+  if (parseXPathSelector(selector) !== null) return [selector];
+  const segments = selector.split(">>>").map((segment) => segment.trim());
+  return segments.length > 1 && segments.every(Boolean) ? segments : [selector];
+}
+
+/**
+ * 구간을 host chain selector로 연결 (구간이 하나면 그대로)
+ */
+export function joinShadowSelector(segments: string[]): string {
+  return segments.join(SHADOW_SELECTOR_SEPARATOR);
+}
+
+/**
+ * Puppeteer selector로 변환 (xpath= selector는 ::-p-xpath P-selector, 나머지는 그대로)
+ * host chain은 Puppeteer의 >>> 결합자와 형식이 같으므로 그대로 사용
+ */
+export function toPuppeteerSelector(selector: string): string {
+  const xpath = parseXPathSelector(selector);
+  return xpath === null ? selector : `::-p-xpath(${JSON.stringify(xpath)})`;
+}
+
+/**
+ * Playwright selector로 변환 (host chain은 >> 연결, 나머지는 그대로)
+ * Playwright의 CSS selector는 open shadow root를 뚫고 찾으므로 각 구간을 앞 구간 안에서 차례로 찾음
+ */
+export function toPlaywrightSelector(selector: string): string {
+  return splitShadowSelector(selector).join(" >> ");
+}
+
+// selector 하나를 전략으로 (xpath= 접두사가 있으면 XPath, 아니면 CSS)
+function selectorStrategy(selector: string): LocatorStrategy {
+  const xpath = parseXPathSelector(selector);
+  return xpath === null ? { kind: "css", selector } : { kind: "xpath", xpath };
+}
+
+/**
+ * 요소를 찾을 전략 목록 (DOM의 findByLocator와 같은 순서)
+ * primary > fallbacks > testId > role + 이름 > 텍스트 > placeholder > aria-label
+ * locator로 찾지 못하면 step.selector도 마지막으로 시도
+ */
+export function locatorStrategies(target: {
+  selector?: string;
+  locator?: ElementLocator;
+}): LocatorStrategy[] {
+  const selectors = [
+    target.locator?.primary,
+    ...(target.locator?.fallbacks || []),
+  ].filter((selector): selector is string => Boolean(selector?.trim()));
+
+  const strategies: LocatorStrategy[] = [...new Set(selectors)].map(
+    selectorStrategy
+  );
+
+  const metadata = target.locator?.metadata;
+  if (metadata) {
+    const text = metadata.text?.trim();
+    if (metadata.testId) {
+      strategies.push({ kind: "testId", testId: metadata.testId });
+    }
+    const name = metadata.ariaLabel?.trim() || text;
+    if (metadata.role && name) {
+      strategies.push({ kind: "role", role: metadata.role, name });
+    }
+    if (text) {
+      strategies.push({
+        kind: "text",
+        text,
+        ...(metadata.role && { role: metadata.role }),
+        ...(metadata.tagName && { tagName: metadata.tagName }),
+      });
+    }
+    if (metadata.placeholder) {
+      strategies.push({
+        kind: "placeholder",
+        placeholder: metadata.placeholder,
+      });
+    }
+    if (metadata.ariaLabel) {
+      strategies.push({ kind: "label", label: metadata.ariaLabel });
+    }
+  }
+
+  if (target.selector?.trim() && !selectors.includes(target.selector)) {
+    strategies.push(selectorStrategy(target.selector));
+  }
+  return strategies;
+}
+
+/**
+ * 사람이 읽기 쉬운 전략 설명 (usedSelector, 오류 메시지용)
+ * CSS/XPath는 selector 그대로, metadata는 Playwright locator 형식으로 표시
+ */
+export function describeLocatorStrategy(strategy: LocatorStrategy): string {
+  switch (strategy.kind) {
+    case "css":
+      return strategy.selector;
+    case "xpath":
+      return `${XPATH_SELECTOR_PREFIX}${strategy.xpath}`;
+    case "testId":
+      return `getByTestId(${JSON.stringify(strategy.testId)})`;
+    case "role":
+      return `getByRole(${JSON.stringify(
+        strategy.role
+      )}, { name: ${JSON.stringify(strategy.name)} })`;
+    case "text":
+      return `getByText(${JSON.stringify(strategy.text)})`;
+    case "placeholder":
+      return `getByPlaceholder(${JSON.stringify(strategy.placeholder)})`;
+    case "label":
+      return `getByLabel(${JSON.stringify(strategy.label)})`;
+  }
+}
@@ -1,24 +1,60 @@
-import type { Flow, Step } from "./types";
+import type { ElementLocator, Flow, Step, StepRetryPolicy } from "./types";
+import type { LocatorTier } from "./locators/locatorStrategies";
 
 export interface ExecutionResult {
   success: boolean;
   error?: string;
   extractedData?: any;
   usedSelector?: string;
+  attempts?: number; // 재시도했을 때 시도한 횟수
+  locatorTier?: LocatorTier; // 요소를 찾은 locator 단계
+  healedLocator?: ElementLocator; // primary가 아닌 단계로 찾았으면 찾은 요소로 새로 만든 locator
+}
+
+// 실행을 멈추지 않은 Step 오류 (continueOnError Step, onFailure Step)
+export interface StepError {
+  stepIndex: number; // 최상위 Step index (onFailure Step이면 실패한 Step의 index)
+  error: string; // 하위 Step이면 "Step 2.1: ..." 형식
+  onFailure?: boolean; // onFailure Step 실행 중 발생
 }
 
 export interface RunResult {
   success: boolean;
   error?: string;
   failedStepIndex?: number;
-  extractedData?: Record<string, any>;
+  extractedData?: Record<string, any>; // extract 스텝의 출력 이름(name) 기준 결과
+  stepErrors?: StepError[]; // 치명적이지 않은 Step 오류 (있을 때만)
 }
 
 export interface RunnerOptions {
-  timeout?: number;
-  stopOnError?: boolean;
+  timeout?: number; // timeoutMs가 없는 Step의 기본 대기 시간 (기본값 5000)
+  stopOnError?: boolean; // false면 실패한 Step 뒤에도 계속 실행하고 첫 실패를 보고
+  delayMs?: number; // 최상위 Step 사이 대기 시간
+  retries?: number; // 실패한 Step을 다시 시도하는 횟수 (retry 정책이 없는 Step에 적용)
+  retry?: StepRetryPolicy; // retry가 없는 Step의 기본 재시도 정책 (기본값: flow.retry)
+  onFailure?: Step[]; // 실패를 보고하기 전에 실행할 Step (기본값: flow.onFailure)
+  slowMo?: number; // 모든 Step(하위 Step 포함) 실행 전 대기 시간
+  startAtStep?: number; // 실행을 시작할 최상위 Step index
+  endAtStep?: number; // 실행을 끝낼 최상위 Step index (포함)
+  variables?: Record<string, string>; // {{name}} placeholder 값
+  resolveSecret?: (secretRef: string) => Promise<string>; // 기본값: 시크릿 저장소
+  loadFlow?: (flowId: string) => Promise<Flow | null>; // callFlow 하위 Flow 조회 (기본값: Flow 저장소)
 }
 
+// 메시지나 저장소로 전달할 수 있는 실행 옵션 (함수 제외)
+// trace: Step마다 스크린샷/콘솔/네트워크를 기록 (확장 프로그램 실행에서만 사용)
+// autoHeal: 새로 만든 locator를 제안하지 않고 바로 Step에 적용 (확장 프로그램 실행에서만 사용)
+export type RunSettings = Pick<
+  RunnerOptions,
+  | "timeout"
+  | "stopOnError"
+  | "delayMs"
+  | "retries"
+  | "slowMo"
+  | "startAtStep"
+  | "endAtStep"
+> & { trace?: boolean; autoHeal?: boolean };
+
 /**
  * Abstract Flow Runner Interface
  *
@@ -0,0 +1,238 @@
+import type { Flow, Step } from "../types";
+import { mapChildSteps } from "../control/stepTree";
+import { validateRetryPolicy, validateSteps } from "../steps/stepValidation";
+import { getSecretRefs, redactFlowSecrets } from "../secrets/secretVault";
+
+/**
+ * Flow schema 유틸리티
+ * 버전이 있는 Flow 파일 형식으로 내보내기/가져오기
+ * 이전 버전 파일은 migration을 순서대로 적용해 현재 버전으로 변환
+ */
+
+export const FLOW_FILE_FORMAT = "auto-wiz-flow";
+
+// 버전 기록
+// 1: schemaVersion 없는 Flow JSON (백엔드 전송 형식), selector만 있는 Step 허용
+// 2: 요소를 다루는 Step은 locator를 가짐
+export const FLOW_SCHEMA_VERSION = 2;
+
+export interface FlowFile {
+  format: typeof FLOW_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  flows: Flow[]; // 첫 번째가 내보낸 Flow, 나머지는 callFlow가 호출하는 하위 Flow
+}
+
+export interface FlowImportResult {
+  flows: Flow[]; // 가져올 수 있는 Flow (라이브러리와 id가 겹치면 새 id)
+  issues: string[]; // 건너뛴 Flow와 호환되지 않는 Step, 다시 입력해야 할 시크릿
+}
+
+// fromVersion -> fromVersion + 1 변환
+const FLOW_MIGRATIONS: Record<number, (flow: Flow) => Flow> = {
+  1: (flow) => ({ ...flow, steps: addLegacyLocators(flow.steps) }),
+};
+
+/**
+ * selector만 있는 레거시 Step에 같은 selector를 primary로 하는 locator 추가
+ */
+function addLegacyLocators(steps: Step[]): Step[] {
+  return steps.map((step) => {
+    const migrated = mapChildSteps(step, addLegacyLocators);
+    const selector = "selector" in migrated ? migrated.selector : undefined;
+    if (!selector || ("locator" in migrated && migrated.locator)) {
+      return migrated;
+    }
+    return {
+      ...migrated,
+      locator: { primary: selector, fallbacks: [] },
+    } as Step;
+  });
+}
+
+/**
+ * fromVersion 형식의 Flow를 현재 버전으로 변환
+ */
+export function migrateFlow(flow: Flow, fromVersion: number): Flow {
+  let migrated = flow;
+  for (let version = fromVersion; version < FLOW_SCHEMA_VERSION; version++) {
+    const migrate = FLOW_MIGRATIONS[version];
+    if (migrate) migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * 내보내기 파일 생성 (평문 시크릿 제거)
+ */
+export function createFlowFile(
+  flows: Flow[],
+  exportedAt: number = Date.now()
+): FlowFile {
+  return {
+    format: FLOW_FILE_FORMAT,
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    exportedAt,
+    flows: flows.map(redactFlowSecrets),
+  };
+}
+
+/**
+ * 내보내기 파일 JSON 문자열
+ */
+export function serializeFlowFile(flows: Flow[]): string {
+  return JSON.stringify(createFlowFile(flows), null, 2);
+}
+
+/**
+ * 파일 내용에서 Flow 목록과 schemaVersion 읽기
+ * schemaVersion이 없으면 레거시 Flow JSON(단일 Flow 또는 배열)으로 간주
+ */
+function readFlowFile(text: string): { flows: any[]; schemaVersion: number } {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid flow file: not valid JSON");
+  }
+
+  if (data && typeof data === "object" && data.format === FLOW_FILE_FORMAT) {
+    if (!Number.isInteger(data.schemaVersion) || data.schemaVersion < 1) {
+      throw new Error("Invalid flow file: missing schemaVersion");
+    }
+    if (data.schemaVersion > FLOW_SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported flow file version ${data.schemaVersion} (this version reads up to ${FLOW_SCHEMA_VERSION})`
+      );
+    }
+    if (!Array.isArray(data.flows)) {
+      throw new Error("Invalid flow file: flows must be an array");
+    }
+    return { flows: data.flows, schemaVersion: data.schemaVersion };
+  }
+
+  return { flows: Array.isArray(data) ? data : [data], schemaVersion: 1 };
+}
+
+/**
+ * 필수 필드를 채운 Flow (형식이 맞지 않으면 null)
+ */
+function normalizeFlow(value: any, index: number): Flow | null {
+  if (!value || typeof value !== "object" || !Array.isArray(value.steps)) {
+    return null;
+  }
+
+  const now = Date.now();
+  return {
+    ...value,
+    id:
+      typeof value.id === "string" && value.id ? value.id : crypto.randomUUID(),
+    title:
+      typeof value.title === "string" && value.title
+        ? value.title
+        : `Imported flow ${index + 1}`,
+    createdAt: typeof value.createdAt === "number" ? value.createdAt : now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * callFlow가 참조하는 Flow id를 바꾼 새 Step 목록
+ */
+function remapCalledFlowIds(steps: Step[], ids: Map<string, string>): Step[] {
+  return steps.map((step) => {
+    if (step.type === "callFlow" && ids.has(step.flowId)) {
+      return { ...step, flowId: ids.get(step.flowId)! };
+    }
+    return mapChildSteps(step, (children) => remapCalledFlowIds(children, ids));
+  });
+}
+
+/**
+ * 호환되지 않는 Step과 Flow 설정 목록 ("Step 3: Unknown step type: hover" 형식)
+ * 최상위 Step마다 따로 검증해 모든 문제를 모은 뒤, Step 사이의 문제(중복 이름, 하위 Flow 참조)를 검사
+ */
+function findIncompatibleSteps(flow: Flow, flows: Flow[]): string[] {
+  const errors: string[] = [];
+  if (flow.retry !== undefined) {
+    const result = validateRetryPolicy(flow.retry);
+    if (!result.valid && result.error) errors.push(`Retry: ${result.error}`);
+  }
+  if (flow.onFailure !== undefined) {
+    const result = validateSteps(flow.onFailure);
+    if (!result.valid && result.error) {
+      errors.push(`On failure: ${result.error}`);
+    }
+  }
+  flow.steps.forEach((step, index) => {
+    const result = validateSteps([step]);
+    if (!result.valid && result.error) {
+      errors.push(result.error.replace(/^Step 1(?=[.:])/, `Step ${index + 1}`));
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const result = validateSteps(flow.steps, { flowId: flow.id, flows });
+  return result.valid ? [] : [result.error || "Invalid steps"];
+}
+
+/**
+ * Flow 파일 가져오기
+ * - 이전 버전 파일은 migration 후 검증 (validateSteps)
+ * - 호환되지 않는 Step이 있는 Flow는 건너뛰고 issues에 보고
+ * - 라이브러리(existingFlows)와 id가 겹치면 새 id를 부여하고 callFlow 참조도 변경
+ * 파일 자체를 읽을 수 없으면 에러
+ */
+export function parseFlowFile(
+  text: string,
+  existingFlows: Flow[] = []
+): FlowImportResult {
+  const file = readFlowFile(text);
+  const issues: string[] = [];
+
+  const parsed: Flow[] = [];
+  file.flows.forEach((value, index) => {
+    const flow = normalizeFlow(value, index);
+    if (flow) {
+      parsed.push(migrateFlow(flow, file.schemaVersion));
+    } else {
+      issues.push(`Flow ${index + 1}: not a flow (steps are missing)`);
+    }
+  });
+  if (parsed.length === 0) {
+    throw new Error("Invalid flow file: no flows found");
+  }
+
+  // 이미 있는 id는 새 id로 바꾸고 가져오는 Flow끼리의 callFlow 참조도 맞춤
+  const existingIds = new Set(existingFlows.map((flow) => flow.id));
+  const renamedIds = new Map<string, string>();
+  for (const flow of parsed) {
+    if (existingIds.has(flow.id)) renamedIds.set(flow.id, crypto.randomUUID());
+  }
+  const imported = parsed.map((flow) => ({
+    ...flow,
+    id: renamedIds.get(flow.id) ?? flow.id,
+    steps: remapCalledFlowIds(flow.steps, renamedIds),
+  }));
+
+  const available = [...existingFlows, ...imported];
+  const flows = imported.filter((flow) => {
+    const errors = findIncompatibleSteps(flow, available);
+    if (errors.length > 0) {
+      issues.push(`${flow.title}: not imported (${errors.join("; ")})`);
+      return false;
+    }
+
+    const secrets = getSecretRefs(flow).length;
+    if (secrets > 0) {
+      issues.push(
+        `${flow.title}: ${secrets} secret input${
+          secrets > 1 ? "s" : ""
+        } must be re-entered (secrets are not exported)`
+      );
+    }
+    return true;
+  });
+
+  return { flows, issues };
+}
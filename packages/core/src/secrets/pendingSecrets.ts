@@ -0,0 +1,101 @@
+import type { StorageAdapter } from "../storage/flowStorage";
+import { createSecretRef, storeSecret } from "./secretVault";
+
+/**
+ * Pending secret 유틸리티
+ * Vault가 잠긴 상태에서 녹화된 시크릿을 잠금 해제 전까지 보관하고, 잠금 해제 후 Vault에 암호화 저장
+ * MV3 service worker는 유휴 상태면 중단되므로 메모리 대신 storage.session에 보관
+ * (storage.session은 디스크에 쓰지 않고 브라우저를 닫으면 삭제됨)
+ */
+
+declare var browser: any;
+
+const PENDING_SECRETS_KEY = "pendingSecrets";
+
+export interface PendingSecret {
+  value: string;
+  label?: string;
+}
+
+// 확장 프로그램 세션 스토리지 어댑터 (browser.storage.session)
+class ExtensionSessionStorageAdapter implements StorageAdapter {
+  async get(key: string): Promise<any> {
+    if (typeof browser !== "undefined" && browser.storage?.session) {
+      const result = await browser.storage.session.get(key);
+      return result[key];
+    }
+    return null;
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    if (typeof browser !== "undefined" && browser.storage?.session) {
+      await browser.storage.session.set({ [key]: value });
+    }
+  }
+}
+
+let pendingSecretStorage: StorageAdapter = new ExtensionSessionStorageAdapter();
+
+/**
+ * 대기 중인 시크릿을 보관할 스토리지 설정 (테스트 또는 비-확장 프로그램 환경용)
+ */
+export function setPendingSecretStorage(adapter: StorageAdapter) {
+  pendingSecretStorage = adapter;
+}
+
+/**
+ * 대기 중인 시크릿 (secretRef -> 값)
+ */
+export async function listPendingSecrets(): Promise<
+  Record<string, PendingSecret>
+> {
+  return (await pendingSecretStorage.get(PENDING_SECRETS_KEY)) || {};
+}
+
+async function savePendingSecrets(
+  secrets: Record<string, PendingSecret>
+): Promise<void> {
+  await pendingSecretStorage.set(PENDING_SECRETS_KEY, secrets);
+}
+
+/**
+ * 시크릿을 대기열에 보관하고 미리 발급한 참조 id 반환
+ */
+export async function addPendingSecret(
+  value: string,
+  label?: string
+): Promise<string> {
+  const secretRef = createSecretRef();
+  const secrets = await listPendingSecrets();
+  secrets[secretRef] = { value, label };
+  await savePendingSecrets(secrets);
+  return secretRef;
+}
+
+/**
+ * 대기 중인 시크릿 (없으면 null)
+ */
+export async function getPendingSecret(
+  secretRef: string
+): Promise<PendingSecret | null> {
+  return (await listPendingSecrets())[secretRef] ?? null;
+}
+
+/**
+ * 대기 중인 시크릿을 미리 발급한 참조 id로 Vault에 저장하고 대기열에서 삭제 (잠금 해제 후 사용)
+ * 저장한 개수 반환
+ */
+export async function persistPendingSecrets(): Promise<number> {
+  const secrets = await listPendingSecrets();
+  const refs = Object.keys(secrets);
+  for (const secretRef of refs) {
+    await storeSecret(
+      secrets[secretRef].value,
+      secrets[secretRef].label,
+      secretRef
+    );
+    delete secrets[secretRef];
+    await savePendingSecrets(secrets);
+  }
+  return refs.length;
+}
@@ -0,0 +1,372 @@
+import type { Flow, Step } from "../types";
+import { getStorageAdapter } from "../storage/flowStorage";
+import { hasPlaceholders } from "../variables/flowVariables";
+import {
+  flattenSteps,
+  mapChildSteps,
+  mapChildStepsAsync,
+} from "../control/stepTree";
+
+/**
+ * Secret vault 유틸리티
+ * 비밀번호 등 민감한 입력값을 사용자 passphrase로 암호화하여 저장 (WebCrypto)
+ * Step에는 secretRef(참조)만 저장하고, 실행 시점에 복호화하여 사용
+ */
+
+const SECRET_VAULT_KEY = "secretVault";
+const PBKDF2_ITERATIONS = 250000;
+// passphrase 검증용 평문 (암호화된 값이 복호화되면 passphrase가 맞음)
+const VAULT_CHECK_VALUE = "auto-wiz-secret-vault";
+
+interface EncryptedValue {
+  iv: string; // base64
+  data: string; // base64 (AES-GCM ciphertext + tag)
+}
+
+export interface SecretMetadata {
+  id: string;
+  label?: string;
+  createdAt: number;
+}
+
+type StoredSecret = SecretMetadata & EncryptedValue;
+
+interface VaultData {
+  version: 1;
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedValue;
+  secrets: Record<string, StoredSecret>;
+}
+
+// 잠금 해제된 키 (메모리에만 보관)
+let vaultKey: CryptoKey | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): ArrayBuffer {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function encrypt(key: CryptoKey, value: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(value)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+async function loadVault(): Promise<VaultData | null> {
+  return (await getStorageAdapter().get(SECRET_VAULT_KEY)) || null;
+}
+
+async function saveVault(vault: VaultData): Promise<void> {
+  await getStorageAdapter().set(SECRET_VAULT_KEY, vault);
+}
+
+function requireKey(): CryptoKey {
+  if (!vaultKey) {
+    throw new Error("Secret vault is locked");
+  }
+  return vaultKey;
+}
+
+async function requireVault(): Promise<VaultData> {
+  const vault = await loadVault();
+  if (!vault) {
+    throw new Error("Secret vault is not initialized");
+  }
+  return vault;
+}
+
+/**
+ * Vault가 생성되었는지 확인 (passphrase 설정 여부)
+ */
+export async function isVaultInitialized(): Promise<boolean> {
+  return (await loadVault()) !== null;
+}
+
+/**
+ * Vault 잠금 해제 여부
+ */
+export function isVaultUnlocked(): boolean {
+  return vaultKey !== null;
+}
+
+/**
+ * Vault 잠금 해제 (처음이면 해당 passphrase로 새 Vault 생성)
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  if (!passphrase) {
+    throw new Error("Passphrase is required");
+  }
+
+  const vault = await loadVault();
+
+  if (!vault) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    await saveVault({
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encrypt(key, VAULT_CHECK_VALUE),
+      secrets: {},
+    });
+    vaultKey = key;
+    return;
+  }
+
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(vault.salt),
+    vault.iterations
+  );
+  try {
+    if ((await decrypt(key, vault.check)) !== VAULT_CHECK_VALUE) {
+      throw new Error();
+    }
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+  vaultKey = key;
+}
+
+/**
+ * Vault 잠금 (메모리의 키 제거)
+ */
+export function lockVault(): void {
+  vaultKey = null;
+}
+
+/**
+ * 새 시크릿 참조 id 발급
+ */
+export function createSecretRef(): string {
+  return `secret_${crypto.randomUUID()}`;
+}
+
+/**
+ * 시크릿 암호화 저장 후 참조 id 반환
+ * secretRef를 주면 미리 발급한 참조 id로 저장 (잠금 상태에서 녹화된 시크릿)
+ */
+export async function storeSecret(
+  value: string,
+  label?: string,
+  secretRef: string = createSecretRef()
+): Promise<string> {
+  const key = requireKey();
+  const vault = await requireVault();
+
+  const id = secretRef;
+  vault.secrets[id] = {
+    id,
+    label,
+    createdAt: Date.now(),
+    ...(await encrypt(key, value)),
+  };
+  await saveVault(vault);
+  return id;
+}
+
+/**
+ * 시크릿 복호화
+ */
+export async function getSecret(secretRef: string): Promise<string> {
+  const key = requireKey();
+  const vault = await requireVault();
+
+  const secret = vault.secrets[secretRef];
+  if (!secret) {
+    throw new Error(`Secret not found: ${secretRef}`);
+  }
+  return decrypt(key, secret);
+}
+
+/**
+ * 시크릿 삭제
+ */
+export async function deleteSecret(secretRef: string): Promise<void> {
+  const vault = await requireVault();
+  delete vault.secrets[secretRef];
+  await saveVault(vault);
+}
+
+/**
+ * 저장된 시크릿 목록 (값 제외)
+ */
+export async function listSecrets(): Promise<SecretMetadata[]> {
+  const vault = await loadVault();
+  return Object.values(vault?.secrets || {}).map(
+    ({ id, label, createdAt }) => ({ id, label, createdAt })
+  );
+}
+
+/**
+ * 화면 표시용 마스킹 값
+ */
+export function maskSecretValue(value: string): string {
+  return "*".repeat(value.length);
+}
+
+/**
+ * Flow에서 사용하는 시크릿 참조 id 목록 (중첩된 스텝 포함)
+ */
+export function getSecretRefs(flow: Flow): string[] {
+  return flattenSteps(flow.steps).flatMap((step) =>
+    step.type === "type" && step.secretRef ? [step.secretRef] : []
+  );
+}
+
+/**
+ * Flow에 시크릿 참조가 있는지 확인
+ */
+export function hasSecretRefs(flow: Flow): boolean {
+  return getSecretRefs(flow).length > 0;
+}
+
+/**
+ * Step의 시크릿 참조를 실제 값으로 치환한 새 Step 반환 (실행 직전에만 사용)
+ * 제어 흐름 스텝이면 하위 Step까지 치환
+ */
+export async function resolveStepSecret(
+  step: Step,
+  resolveSecret: (secretRef: string) => Promise<string> = getSecret
+): Promise<Step> {
+  if (step.type !== "type") {
+    return mapChildStepsAsync(step, (steps) =>
+      resolveStepSecrets(steps, resolveSecret)
+    );
+  }
+  if (!step.secretRef) return step;
+
+  const { secretRef, ...rest } = step;
+  return { ...rest, text: await resolveSecret(secretRef) };
+}
+
+async function resolveStepSecrets(
+  steps: Step[],
+  resolveSecret: (secretRef: string) => Promise<string>
+): Promise<Step[]> {
+  const resolved: Step[] = [];
+  for (const step of steps) {
+    resolved.push(await resolveStepSecret(step, resolveSecret));
+  }
+  return resolved;
+}
+
+/**
+ * Flow 전체의 시크릿 참조를 실제 값으로 치환한 새 Flow 반환
+ */
+export async function resolveFlowSecrets(
+  flow: Flow,
+  resolveSecret: (secretRef: string) => Promise<string> = getSecret
+): Promise<Flow> {
+  if (!hasSecretRefs(flow)) return flow;
+
+  return {
+    ...flow,
+    steps: await resolveStepSecrets(flow.steps, resolveSecret),
+  };
+}
+
+/**
+ * 내보내기/백엔드 전송용 Flow (평문 originalText 제거)
+ */
+export function redactFlowSecrets(flow: Flow): Flow {
+  const redactSteps = (steps: Step[]): Step[] =>
+    steps.map((step) => {
+      if (step.type !== "type") {
+        return mapChildSteps(step, redactSteps);
+      }
+      if (step.originalText === undefined) return step;
+      const { originalText, ...rest } = step;
+      return rest;
+    });
+
+  return { ...flow, steps: redactSteps(flow.steps) };
+}
+
+/**
+ * 레거시 평문 originalText를 Vault로 이동
+ * {{name}} placeholder는 비밀값이 아니므로 text로 옮김
+ * 변경이 없으면 null 반환
+ */
+export async function migrateLegacySecrets(flow: Flow): Promise<Flow | null> {
+  if (
+    !flattenSteps(flow.steps).some(
+      (step) => step.type === "type" && step.originalText !== undefined
+    )
+  ) {
+    return null;
+  }
+
+  const migrateSteps = async (steps: Step[]): Promise<Step[]> => {
+    const migrated: Step[] = [];
+    for (const step of steps) {
+      if (step.type !== "type") {
+        migrated.push(await mapChildStepsAsync(step, migrateSteps));
+        continue;
+      }
+      if (step.originalText === undefined) {
+        migrated.push(step);
+        continue;
+      }
+
+      const { originalText, ...rest } = step;
+      if (hasPlaceholders(originalText)) {
+        migrated.push({ ...rest, text: originalText });
+      } else {
+        migrated.push({
+          ...rest,
+          text: maskSecretValue(originalText),
+          secretRef: await storeSecret(originalText, flow.title),
+        });
+      }
+    }
+    return migrated;
+  };
+
+  return { ...flow, steps: await migrateSteps(flow.steps) };
+}
@@ -1,4 +1,17 @@
-import type { Step } from "../types";
+import type { Flow, FlowCondition, Step, StepRetryPolicy } from "../types";
+import { hasPlaceholders } from "../variables/flowVariables";
+import { isValidExtractName } from "../extract/extractOutputs";
+import {
+  assertionRequiresElement,
+  parseAssertionPattern,
+} from "../assertions/assertionUtils";
+import { getChildStepLists, isControlStep } from "../control/stepTree";
+import { RETRY_CONDITIONS } from "../execution/stepRetry";
+import {
+  findSubFlowCycle,
+  formatSubFlowCycle,
+  getCalledFlowIds,
+} from "../subflows/subFlows";
 
 /**
  * Step validation 유틸리티
@@ -10,6 +23,12 @@ export interface ValidationResult {
   error?: string;
 }
 
+// 하위 Flow 참조 검사용 옵션 (flows가 있을 때만 검사)
+export interface StepListValidationOptions {
+  flowId?: string; // 검사하는 Step이 속한 Flow
+  flows?: Flow[]; // callFlow가 참조할 수 있는 저장된 Flow 목록
+}
+
 /**
  * Step의 기본 구조 검증
  */
@@ -22,6 +41,28 @@ export function validateStep(step: Step): ValidationResult {
     return { valid: false, error: "Step type is required" };
   }
 
+  if (
+    step.continueOnError !== undefined &&
+    typeof step.continueOnError !== "boolean"
+  ) {
+    return { valid: false, error: "Continue on error must be a boolean" };
+  }
+
+  if (step.breakpoint !== undefined && typeof step.breakpoint !== "boolean") {
+    return { valid: false, error: "Breakpoint must be a boolean" };
+  }
+
+  if (step.retry !== undefined) {
+    if (isControlStep(step) || step.type === "callFlow") {
+      return {
+        valid: false,
+        error: "Retry is not supported on control flow steps",
+      };
+    }
+    const retryResult = validateRetryPolicy(step.retry);
+    if (!retryResult.valid) return retryResult;
+  }
+
   // 타입별 검증
   switch (step.type) {
     case "click":
@@ -36,11 +77,67 @@ export function validateStep(step: Step): ValidationResult {
       return validateNavigateStep(step);
     case "waitFor":
       return validateWaitForStep(step);
+    case "assert":
+      return validateAssertStep(step);
+    case "if":
+    case "repeat":
+    case "forEach":
+    case "while":
+      return validateControlStep(step);
+    case "callFlow":
+      return validateCallFlowStep(step);
     default:
       return { valid: false, error: `Unknown step type: ${step.type}` };
   }
 }
 
+/**
+ * 재시도 정책 검증 (Step의 retry, Flow의 retry)
+ */
+export function validateRetryPolicy(retry: StepRetryPolicy): ValidationResult {
+  if (!retry || typeof retry !== "object") {
+    return { valid: false, error: "Retry must be an object" };
+  }
+
+  if (!Number.isInteger(retry.attempts) || retry.attempts < 1) {
+    return {
+      valid: false,
+      error: "Retry attempts must be a positive integer",
+    };
+  }
+
+  for (const key of ["backoffMs", "maxBackoffMs"] as const) {
+    const value = retry[key];
+    if (value !== undefined && (typeof value !== "number" || value < 0)) {
+      return { valid: false, error: "Retry backoff must be a positive number" };
+    }
+  }
+
+  if (
+    retry.backoffFactor !== undefined &&
+    (typeof retry.backoffFactor !== "number" || retry.backoffFactor < 1)
+  ) {
+    return {
+      valid: false,
+      error: "Retry backoff factor must be at least 1",
+    };
+  }
+
+  if (retry.retryOn !== undefined) {
+    const unknown = Array.isArray(retry.retryOn)
+      ? retry.retryOn.find((condition) => !RETRY_CONDITIONS.includes(condition))
+      : retry.retryOn;
+    if (unknown !== undefined) {
+      return {
+        valid: false,
+        error: `Unknown retry condition: ${JSON.stringify(unknown)}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
 function validateClickStep(step: Step): ValidationResult {
   if (step.type !== "click") {
     return { valid: false, error: "Invalid step type for click validation" };
@@ -94,6 +191,20 @@ function validateExtractStep(step: Step): ValidationResult {
     return { valid: false, error: "Extract step requires selector" };
   }
 
+  if (step.name !== undefined && !isValidExtractName(step.name)) {
+    return {
+      valid: false,
+      error: `Invalid output name: "${step.name}" (use letters, digits, _, . or -)`,
+    };
+  }
+
+  if (step.prop === "attribute" && !step.attribute) {
+    return {
+      valid: false,
+      error: "Extract step requires attribute name when prop is attribute",
+    };
+  }
+
   return { valid: true };
 }
 
@@ -106,7 +217,11 @@ function validateNavigateStep(step: Step): ValidationResult {
     return { valid: false, error: "Navigate step requires URL" };
   }
 
-  // URL 형식 검증
+  // URL 형식 검증 ({{name}} placeholder는 실행 시 치환되므로 제외)
+  if (hasPlaceholders(step.url)) {
+    return { valid: true };
+  }
+
   try {
     new URL(step.url);
   } catch {
@@ -137,22 +252,315 @@ function validateWaitForStep(step: Step): ValidationResult {
   return { valid: true };
 }
 
+const ASSERTION_KINDS = [
+  "visible",
+  "hidden",
+  "textEquals",
+  "textContains",
+  "textMatches",
+  "attributeEquals",
+  "valueEquals",
+  "urlMatches",
+  "count",
+];
+
+function validateAssertStep(step: Step): ValidationResult {
+  if (step.type !== "assert") {
+    return { valid: false, error: "Invalid step type for assert validation" };
+  }
+
+  if (!ASSERTION_KINDS.includes(step.assertion)) {
+    return {
+      valid: false,
+      error: `Unknown assertion: ${step.assertion}`,
+    };
+  }
+
+  if (assertionRequiresElement(step.assertion) && !step.selector) {
+    return { valid: false, error: "Assert step requires selector" };
+  }
+
+  switch (step.assertion) {
+    case "textEquals":
+    case "textContains":
+    case "valueEquals":
+      if (step.expected === undefined) {
+        return { valid: false, error: "Assert step requires expected value" };
+      }
+      break;
+    case "attributeEquals":
+      if (!step.attribute) {
+        return {
+          valid: false,
+          error: "Assert step requires attribute name for attributeEquals",
+        };
+      }
+      if (step.expected === undefined) {
+        return { valid: false, error: "Assert step requires expected value" };
+      }
+      break;
+    case "textMatches":
+    case "urlMatches":
+      if (!step.expected) {
+        return { valid: false, error: "Assert step requires pattern" };
+      }
+      // {{name}} placeholder는 실행 시 치환되므로 제외
+      if (!hasPlaceholders(step.expected)) {
+        try {
+          parseAssertionPattern(step.expected);
+        } catch {
+          return {
+            valid: false,
+            error: `Invalid pattern: ${step.expected}`,
+          };
+        }
+      }
+      break;
+    case "count":
+      if (
+        typeof step.count !== "number" ||
+        !Number.isInteger(step.count) ||
+        step.count < 0
+      ) {
+        return {
+          valid: false,
+          error: "Count must be a non-negative integer",
+        };
+      }
+      break;
+  }
+
+  if (step.timeoutMs !== undefined) {
+    if (typeof step.timeoutMs !== "number" || step.timeoutMs < 0) {
+      return { valid: false, error: "Timeout must be a positive number" };
+    }
+  }
+
+  return { valid: true };
+}
+
+function validateCondition(condition: FlowCondition): ValidationResult {
+  if (!condition || typeof condition !== "object") {
+    return { valid: false, error: "Condition is required" };
+  }
+
+  switch (condition.type) {
+    case "exists":
+      if (!condition.selector) {
+        return { valid: false, error: "Condition requires selector" };
+      }
+      return { valid: true };
+    case "textMatches":
+      if (!condition.selector) {
+        return { valid: false, error: "Condition requires selector" };
+      }
+      if (!condition.pattern) {
+        return { valid: false, error: "Condition requires pattern" };
+      }
+      if (!hasPlaceholders(condition.pattern)) {
+        try {
+          parseAssertionPattern(condition.pattern);
+        } catch {
+          return {
+            valid: false,
+            error: `Invalid pattern: ${condition.pattern}`,
+          };
+        }
+      }
+      return { valid: true };
+    case "variableEquals":
+      if (!condition.name) {
+        return { valid: false, error: "Condition requires variable name" };
+      }
+      if (condition.value === undefined) {
+        return { valid: false, error: "Condition requires value" };
+      }
+      return { valid: true };
+    default:
+      return {
+        valid: false,
+        error: `Unknown condition: ${(condition as FlowCondition).type}`,
+      };
+  }
+}
+
 /**
- * Step 배열의 모든 Step 검증
+ * 제어 흐름 스텝 자체의 필드 검증 (하위 Step은 validateSteps에서 검증)
  */
-export function validateSteps(steps: Step[]): ValidationResult {
-  if (!Array.isArray(steps)) {
+function validateControlStep(step: Step): ValidationResult {
+  switch (step.type) {
+    case "if":
+      if (!Array.isArray(step.then)) {
+        return { valid: false, error: "If step requires then steps" };
+      }
+      if (step.else !== undefined && !Array.isArray(step.else)) {
+        return { valid: false, error: "Else steps must be an array" };
+      }
+      return validateCondition(step.condition);
+    case "repeat":
+      if (
+        typeof step.times !== "number" ||
+        !Number.isInteger(step.times) ||
+        step.times < 0
+      ) {
+        return {
+          valid: false,
+          error: "Repeat count must be a non-negative integer",
+        };
+      }
+      break;
+    case "forEach":
+      if (step.source?.type === "elements") {
+        if (!step.source.selector) {
+          return { valid: false, error: "ForEach step requires selector" };
+        }
+      } else if (step.source?.type === "extracted") {
+        if (!step.source.name) {
+          return {
+            valid: false,
+            error: "ForEach step requires extract output name",
+          };
+        }
+      } else {
+        return { valid: false, error: "ForEach step requires source" };
+      }
+      break;
+    case "while": {
+      if (
+        typeof step.maxIterations !== "number" ||
+        !Number.isInteger(step.maxIterations) ||
+        step.maxIterations < 1
+      ) {
+        return {
+          valid: false,
+          error: "Max iterations must be a positive integer",
+        };
+      }
+      const condition = validateCondition(step.condition);
+      if (!condition.valid) return condition;
+      break;
+    }
+    default:
+      return {
+        valid: false,
+        error: "Invalid step type for control validation",
+      };
+  }
+
+  if (!Array.isArray(step.steps)) {
     return { valid: false, error: "Steps must be an array" };
   }
+  if (step.as !== undefined && !isValidExtractName(step.as)) {
+    return {
+      valid: false,
+      error: `Invalid loop variable name: "${step.as}" (use letters, digits, _, . or -)`,
+    };
+  }
 
+  return { valid: true };
+}
+
+function validateCallFlowStep(step: Step): ValidationResult {
+  if (step.type !== "callFlow") {
+    return { valid: false, error: "Invalid step type for callFlow validation" };
+  }
+
+  if (!step.flowId) {
+    return { valid: false, error: "Call flow step requires flow id" };
+  }
+
+  for (const [name, value] of Object.entries(step.args || {})) {
+    if (!isValidExtractName(name)) {
+      return {
+        valid: false,
+        error: `Invalid argument name: "${name}" (use letters, digits, _, . or -)`,
+      };
+    }
+    if (typeof value !== "string") {
+      return { valid: false, error: `Argument "${name}" must be a string` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Step 목록을 재귀적으로 검증
+ * 중첩된 스텝은 "Step 3.2" 형식의 경로로 표시
+ */
+function validateStepList(
+  steps: Step[],
+  prefix: string,
+  outputNames: Set<string>,
+  startNumber = 1
+): ValidationResult {
   for (let i = 0; i < steps.length; i++) {
-    const result = validateStep(steps[i]);
+    const step = steps[i];
+    const label = `${prefix}${startNumber + i}`;
+    const result = validateStep(step);
     if (!result.valid) {
       return {
         valid: false,
-        error: `Step ${i + 1}: ${result.error}`,
+        error: `Step ${label}: ${result.error}`,
       };
     }
+
+    // extract 출력 이름은 결과 키로 쓰이므로 중복 불가
+    if (step.type === "extract" && step.name) {
+      if (outputNames.has(step.name)) {
+        return {
+          valid: false,
+          error: `Step ${label}: Duplicate output name: "${step.name}"`,
+        };
+      }
+      outputNames.add(step.name);
+    }
+
+    // if의 else 목록은 then 뒤에 이어서 번호를 매김
+    let childNumber = 1;
+    for (const children of getChildStepLists(step)) {
+      const childResult = validateStepList(
+        children,
+        `${label}.`,
+        outputNames,
+        childNumber
+      );
+      if (!childResult.valid) return childResult;
+      childNumber += children.length;
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Step 배열의 모든 Step 검증 (중첩된 스텝 포함)
+ * options.flows가 있으면 callFlow가 참조하는 Flow의 존재 여부와 순환 호출도 검사
+ */
+export function validateSteps(
+  steps: Step[],
+  options: StepListValidationOptions = {}
+): ValidationResult {
+  if (!Array.isArray(steps)) {
+    return { valid: false, error: "Steps must be an array" };
+  }
+
+  const result = validateStepList(steps, "", new Set<string>());
+  if (!result.valid || !options.flows) return result;
+
+  const { flows } = options;
+  for (const flowId of getCalledFlowIds(steps)) {
+    if (!flows.some((flow) => flow.id === flowId)) {
+      return { valid: false, error: `Called flow not found: ${flowId}` };
+    }
+  }
+
+  const cycle = findSubFlowCycle(options.flowId ?? "", steps, flows);
+  if (cycle) {
+    return {
+      valid: false,
+      error: `Sub-flow cycle: ${formatSubFlowCycle(cycle, flows)}`,
+    };
   }
 
   return { valid: true };
@@ -172,4 +580,3 @@ export function hasRequiredFields(step: Step): boolean {
   const validation = validateStep(step);
   return validation.valid;
 }
-
@@ -7,11 +7,17 @@ import type { Flow, Step } from "../types";
 
 declare var browser: any;
 
-const FLOW_STORAGE_KEY = "flow";
+// 레거시 단일 Flow 키 (마이그레이션용)
+const LEGACY_FLOW_STORAGE_KEY = "flow";
+// Flow 라이브러리 (id -> Flow)
+const FLOWS_STORAGE_KEY = "flows";
+// 현재 활성 Flow id
+const ACTIVE_FLOW_ID_KEY = "activeFlowId";
 
 export interface StorageAdapter {
   get(key: string): Promise<any>;
   set(key: string, value: any): Promise<void>;
+  remove?(key: string): Promise<void>;
 }
 
 // 기본 브라우저 확장 프로그램 스토리지 어댑터
@@ -29,6 +35,12 @@ class ExtensionStorageAdapter implements StorageAdapter {
       await browser.storage.local.set({ [key]: value });
     }
   }
+
+  async remove(key: string): Promise<void> {
+    if (typeof browser !== "undefined" && browser.storage) {
+      await browser.storage.local.remove(key);
+    }
+  }
 }
 
 // 메모리 스토리지 어댑터 (테스트 또는 비-확장 프로그램 환경용)
@@ -42,6 +54,10 @@ class MemoryStorageAdapter implements StorageAdapter {
   async set(key: string, value: any): Promise<void> {
     this.storage[key] = value;
   }
+
+  async remove(key: string): Promise<void> {
+    delete this.storage[key];
+  }
 }
 
 let storageAdapter: StorageAdapter = new ExtensionStorageAdapter();
@@ -54,12 +70,190 @@ export function setStorageAdapter(adapter: StorageAdapter) {
 }
 
 /**
- * Flow 가져오기
+ * 현재 스토리지 어댑터 (다른 저장소 모듈과 공유)
+ */
+export function getStorageAdapter(): StorageAdapter {
+  return storageAdapter;
+}
+
+function createEmptyFlow(title: string = "New Flow"): Flow {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title,
+    steps: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Flow 라이브러리 로드
+ * 레거시 "flow" 키만 있으면 라이브러리로 옮기고 활성 Flow로 지정
+ */
+async function loadLibrary(): Promise<Record<string, Flow>> {
+  const flows = await storageAdapter.get(FLOWS_STORAGE_KEY);
+  if (flows) return flows;
+
+  const legacyFlow: Flow | null = await storageAdapter.get(
+    LEGACY_FLOW_STORAGE_KEY
+  );
+  if (!legacyFlow) return {};
+
+  const migrated = { [legacyFlow.id]: legacyFlow };
+  await storageAdapter.set(FLOWS_STORAGE_KEY, migrated);
+  await storageAdapter.set(ACTIVE_FLOW_ID_KEY, legacyFlow.id);
+  return migrated;
+}
+
+async function saveLibrary(flows: Record<string, Flow>): Promise<void> {
+  await storageAdapter.set(FLOWS_STORAGE_KEY, flows);
+}
+
+/**
+ * Flow를 라이브러리에 기록 (활성 Flow는 변경하지 않음)
+ */
+async function putFlow(flow: Flow): Promise<void> {
+  const flows = await loadLibrary();
+  flows[flow.id] = flow;
+  await saveLibrary(flows);
+}
+
+/**
+ * id로 Flow를 찾고, 없으면 에러
+ */
+async function requireFlow(flowId?: string): Promise<Flow> {
+  const flow = flowId ? await getFlowById(flowId) : await getFlow();
+  if (!flow) {
+    throw new Error(`Flow not found: ${flowId ?? "(active)"}`);
+  }
+  return flow;
+}
+
+/**
+ * 저장된 모든 Flow 목록 (최근 수정 순)
+ */
+export async function listFlows(): Promise<Flow[]> {
+  try {
+    const flows = await loadLibrary();
+    return Object.values(flows).sort(
+      (a, b) => (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt)
+    );
+  } catch (error) {
+    console.error("Failed to list flows from storage:", error);
+    return [];
+  }
+}
+
+/**
+ * id로 Flow 가져오기
+ */
+export async function getFlowById(flowId: string): Promise<Flow | null> {
+  try {
+    const flows = await loadLibrary();
+    return flows[flowId] || null;
+  } catch (error) {
+    console.error("Failed to get flow from storage:", error);
+    return null;
+  }
+}
+
+/**
+ * 현재 활성 Flow id
+ */
+export async function getActiveFlowId(): Promise<string | null> {
+  await loadLibrary();
+  return (await storageAdapter.get(ACTIVE_FLOW_ID_KEY)) || null;
+}
+
+/**
+ * 활성 Flow 지정
+ */
+export async function setActiveFlow(flowId: string): Promise<Flow> {
+  const flow = await requireFlow(flowId);
+  await storageAdapter.set(ACTIVE_FLOW_ID_KEY, flowId);
+  return flow;
+}
+
+/**
+ * 새 Flow 생성 후 활성 Flow로 지정
+ */
+export async function createFlow(title?: string): Promise<Flow> {
+  const flow = createEmptyFlow(title);
+  await putFlow(flow);
+  await storageAdapter.set(ACTIVE_FLOW_ID_KEY, flow.id);
+  return flow;
+}
+
+/**
+ * 저장된 Flow 열기 (활성 Flow로 전환)
+ */
+export async function openFlow(flowId: string): Promise<Flow> {
+  return setActiveFlow(flowId);
+}
+
+/**
+ * Flow를 라이브러리에 추가 (활성 Flow는 변경하지 않음)
+ */
+export async function addFlow(flow: Flow): Promise<Flow> {
+  await putFlow(flow);
+  return flow;
+}
+
+/**
+ * Flow 복제 (새 id, " (copy)" 접미사)
+ */
+export async function duplicateFlow(flowId: string): Promise<Flow> {
+  const source = await requireFlow(flowId);
+  const now = Date.now();
+  const copy: Flow = {
+    ...JSON.parse(JSON.stringify(source)),
+    id: crypto.randomUUID(),
+    title: `${source.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putFlow(copy);
+  return copy;
+}
+
+/**
+ * Flow 이름 변경
+ */
+export async function renameFlow(flowId: string, title: string): Promise<Flow> {
+  const flow = await requireFlow(flowId);
+  const renamed = { ...flow, title, updatedAt: Date.now() };
+  await putFlow(renamed);
+  return renamed;
+}
+
+/**
+ * Flow 삭제
+ * 활성 Flow를 삭제하면 가장 최근 Flow로 전환 (없으면 활성 해제)
+ */
+export async function deleteFlow(flowId: string): Promise<void> {
+  const flows = await loadLibrary();
+  if (!flows[flowId]) {
+    throw new Error(`Flow not found: ${flowId}`);
+  }
+  delete flows[flowId];
+  await saveLibrary(flows);
+
+  const activeId = await storageAdapter.get(ACTIVE_FLOW_ID_KEY);
+  if (activeId === flowId) {
+    const [next] = await listFlows();
+    await storageAdapter.set(ACTIVE_FLOW_ID_KEY, next ? next.id : null);
+  }
+}
+
+/**
+ * 활성 Flow 가져오기
  */
 export async function getFlow(): Promise<Flow | null> {
   try {
-    const flow = await storageAdapter.get(FLOW_STORAGE_KEY);
-    return flow || null;
+    const flows = await loadLibrary();
+    const activeId = await storageAdapter.get(ACTIVE_FLOW_ID_KEY);
+    return (activeId && flows[activeId]) || null;
   } catch (error) {
     console.error("Failed to get flow from storage:", error);
     return null;
@@ -67,11 +261,12 @@ export async function getFlow(): Promise<Flow | null> {
 }
 
 /**
- * Flow 저장하기
+ * Flow 저장하기 (라이브러리에 기록하고 활성 Flow로 지정)
  */
 export async function saveFlow(flow: Flow): Promise<void> {
   try {
-    await storageAdapter.set(FLOW_STORAGE_KEY, flow);
+    await putFlow(flow);
+    await storageAdapter.set(ACTIVE_FLOW_ID_KEY, flow.id);
   } catch (error) {
     console.error("Failed to save flow to storage:", error);
     throw error;
@@ -79,17 +274,18 @@ export async function saveFlow(flow: Flow): Promise<void> {
 }
 
 /**
- * Flow 초기화 (비우기)
+ * 활성 Flow 초기화 (Step 비우기)
+ * 라이브러리의 다른 Flow는 유지됨
  */
 export async function clearFlow(): Promise<void> {
   try {
-    const emptyFlow: Flow = {
-      id: crypto.randomUUID(),
-      title: "New Flow",
-      steps: [],
-      createdAt: Date.now(),
-    };
-    await saveFlow(emptyFlow);
+    const flow = await getFlow();
+    if (!flow) {
+      await createFlow();
+      return;
+    }
+    const { startUrl: _startUrl, ...rest } = flow;
+    await saveFlow({ ...rest, steps: [] });
   } catch (error) {
     console.error("Failed to clear flow:", error);
     throw error;
@@ -97,84 +293,84 @@ export async function clearFlow(): Promise<void> {
 }
 
 /**
- * Flow에 Step 추가
+ * Flow에 Step 추가 (flowId 생략 시 활성 Flow, 없으면 새로 생성)
  */
-export async function addStep(step: Step): Promise<Flow> {
-  const flow = (await getFlow()) || {
-    id: crypto.randomUUID(),
-    title: "New Flow",
-    steps: [],
-    createdAt: Date.now(),
-  };
+export async function addStep(step: Step, flowId?: string): Promise<Flow> {
+  const flow = flowId
+    ? await requireFlow(flowId)
+    : (await getFlow()) || (await createFlow());
   flow.steps.push(step);
 
   if (!flow.startUrl && (step as any).url) {
     flow.startUrl = (step as any).url;
   }
 
-  await saveFlow(flow);
+  flow.updatedAt = Date.now();
+  await putFlow(flow);
   return flow;
 }
 
 /**
  * Flow에서 마지막 Step 제거
  */
-export async function removeLastStep(): Promise<Flow> {
-  const flow = await getFlow();
+export async function removeLastStep(flowId?: string): Promise<Flow> {
+  const flow = flowId ? await getFlowById(flowId) : await getFlow();
   if (!flow || flow.steps.length === 0) {
-    return {
-      id: crypto.randomUUID(),
-      title: "New Flow",
-      steps: [],
-      createdAt: Date.now(),
-    };
+    return flow || createEmptyFlow();
   }
 
   flow.steps.pop();
-  await saveFlow(flow);
+  flow.updatedAt = Date.now();
+  await putFlow(flow);
   return flow;
 }
 
 /**
  * Flow에서 특정 Step 제거
  */
-export async function removeStep(index: number): Promise<Flow> {
-  const flow = await getFlow();
+export async function removeStep(index: number, flowId?: string): Promise<Flow> {
+  const flow = flowId ? await getFlowById(flowId) : await getFlow();
   if (!flow || index < 0 || index >= flow.steps.length) {
     throw new Error(`Invalid step index: ${index}`);
   }
 
   flow.steps.splice(index, 1);
-  await saveFlow(flow);
+  flow.updatedAt = Date.now();
+  await putFlow(flow);
   return flow;
 }
 
 /**
  * Flow의 특정 Step 업데이트
  */
-export async function updateStep(index: number, step: Step): Promise<Flow> {
-  const flow = await getFlow();
+export async function updateStep(
+  index: number,
+  step: Step,
+  flowId?: string
+): Promise<Flow> {
+  const flow = flowId ? await getFlowById(flowId) : await getFlow();
   if (!flow || index < 0 || index >= flow.steps.length) {
     throw new Error(`Invalid step index: ${index}`);
   }
 
   flow.steps[index] = step;
-  await saveFlow(flow);
+  flow.updatedAt = Date.now();
+  await putFlow(flow);
   return flow;
 }
 
 /**
  * Flow 업데이트 (전체 교체)
  */
-export async function updateFlow(updates: Partial<Flow>): Promise<Flow> {
-  const flow = (await getFlow()) || {
-    id: crypto.randomUUID(),
-    title: "New Flow",
-    steps: [],
-    createdAt: Date.now(),
-  };
-  const updatedFlow = { ...flow, ...updates };
-  await saveFlow(updatedFlow);
+export async function updateFlow(
+  updates: Partial<Flow>,
+  flowId?: string
+): Promise<Flow> {
+  const flow = flowId
+    ? await requireFlow(flowId)
+    : (await getFlow()) || (await createFlow());
+  const updatedFlow = { ...flow, ...updates, id: flow.id, updatedAt: Date.now() };
+  await putFlow(updatedFlow);
   return updatedFlow;
 }
 
@@ -0,0 +1,170 @@
+import type { Flow, FlowVariable, Step } from "../types";
+import type { RunnerOptions } from "../runner";
+import { flattenSteps } from "../control/stepTree";
+import { getStepVariableNames } from "../variables/flowVariables";
+import { getFlowById } from "../storage/flowStorage";
+import { resolveFlowSecrets } from "../secrets/secretVault";
+
+/**
+ * Sub-flow 유틸리티
+ * callFlow 스텝이 참조하는 하위 Flow 탐색, 순환 호출 검사, 하위 Flow 추출
+ */
+
+export type CallFlowStep = Extract<Step, { type: "callFlow" }>;
+
+/**
+ * Step 목록(중첩 포함)에서 호출하는 Flow id 목록 (중복 제거)
+ */
+export function getCalledFlowIds(steps: Step[]): string[] {
+  const ids = new Set<string>();
+  for (const step of flattenSteps(steps)) {
+    if (step.type === "callFlow" && step.flowId) ids.add(step.flowId);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * flowId의 Step에서 시작해 callFlow 참조를 따라가며 순환 호출 탐색
+ * 순환이 있으면 [A, B, A] 형태의 id 경로, 없으면 null
+ * 저장 전 편집 내용도 검사할 수 있도록 시작 Flow의 steps는 따로 받음
+ */
+export function findSubFlowCycle(
+  flowId: string,
+  steps: Step[],
+  flows: Flow[]
+): string[] | null {
+  const flowsById = new Map(flows.map((flow) => [flow.id, flow]));
+  // 순환이 없다고 확인된 Flow (같은 하위 Flow를 여러 번 탐색하지 않음)
+  const acyclic = new Set<string>();
+
+  const visit = (stepsToVisit: Step[], path: string[]): string[] | null => {
+    for (const calledId of getCalledFlowIds(stepsToVisit)) {
+      const cycleStart = path.indexOf(calledId);
+      if (cycleStart !== -1) return [...path.slice(cycleStart), calledId];
+
+      const called = flowsById.get(calledId);
+      if (!called || acyclic.has(calledId)) continue;
+      const cycle = visit(called.steps, [...path, calledId]);
+      if (cycle) return cycle;
+      acyclic.add(calledId);
+    }
+    return null;
+  };
+
+  return visit(steps, [flowId]);
+}
+
+/**
+ * 순환 경로를 Flow 제목으로 표시 ("Login → Checkout → Login")
+ */
+export function formatSubFlowCycle(cycle: string[], flows: Flow[]): string {
+  return cycle
+    .map((id) => flows.find((flow) => flow.id === id)?.title || id)
+    .join(" → ");
+}
+
+/**
+ * flow가 호출하는 모든 하위 Flow (중첩 호출 포함, 중복 없이)
+ * 찾을 수 없는 Flow는 건너뜀
+ */
+export async function collectCalledFlows(
+  flow: Flow,
+  loadFlow: (flowId: string) => Promise<Flow | null | undefined>
+): Promise<Flow[]> {
+  const collected = new Map<string, Flow>();
+  const queue = getCalledFlowIds(flow.steps);
+
+  while (queue.length > 0) {
+    const flowId = queue.shift()!;
+    if (flowId === flow.id || collected.has(flowId)) continue;
+
+    const called = await loadFlow(flowId);
+    if (!called) continue;
+    collected.set(flowId, called);
+    queue.push(...getCalledFlowIds(called.steps));
+  }
+
+  return Array.from(collected.values());
+}
+
+/**
+ * Runner에서 실행할 하위 Flow 조회 (시크릿 참조는 실제 값으로 치환)
+ * options.loadFlow가 없으면 Flow 저장소에서 조회
+ */
+export async function loadSubFlow(
+  flowId: string,
+  options: Pick<RunnerOptions, "loadFlow" | "resolveSecret"> = {}
+): Promise<Flow | null> {
+  const flow = await (options.loadFlow ?? getFlowById)(flowId);
+  return flow ? resolveFlowSecrets(flow, options.resolveSecret) : null;
+}
+
+/**
+ * 사람이 읽기 쉬운 callFlow 스텝 설명 (UI용)
+ */
+export function describeCallFlow(step: CallFlowStep): string {
+  const target = step.flowTitle || step.flowId;
+  const args = Object.entries(step.args || {}).map(
+    ([name, value]) => `${name} = ${value}`
+  );
+  return args.length > 0
+    ? `Call ${target} (${args.join(", ")})`
+    : `Call ${target}`;
+}
+
+/**
+ * steps[start]부터 count개의 Step을 새 하위 Flow로 추출
+ * 추출한 Step이 쓰는 {{변수}}는 하위 Flow의 변수로 선언하고,
+ * 원래 자리에 넣는 callFlow 스텝이 같은 이름의 변수 값을 그대로 넘김
+ */
+export function extractSubFlow(
+  flow: Flow,
+  start: number,
+  count: number,
+  title: string
+): { flow: Flow; subFlow: Flow } {
+  const extracted = flow.steps.slice(start, start + count);
+  const names = Array.from(new Set(extracted.flatMap(getStepVariableNames)));
+  const now = Date.now();
+
+  const subFlow: Flow = {
+    id: crypto.randomUUID(),
+    title,
+    steps: extracted,
+    createdAt: now,
+    updatedAt: now,
+    ...(names.length > 0
+      ? {
+          variables: names.map(
+            (name): FlowVariable =>
+              flow.variables?.find((variable) => variable.name === name) || {
+                name,
+              }
+          ),
+        }
+      : {}),
+  };
+
+  const call: CallFlowStep = {
+    type: "callFlow",
+    flowId: subFlow.id,
+    flowTitle: title,
+    ...(names.length > 0
+      ? {
+          args: Object.fromEntries(names.map((name) => [name, `{{${name}}}`])),
+        }
+      : {}),
+  };
+
+  return {
+    flow: {
+      ...flow,
+      steps: [
+        ...flow.steps.slice(0, start),
+        call,
+        ...flow.steps.slice(start + extracted.length),
+      ],
+    },
+    subFlow,
+  };
+}
@@ -0,0 +1,245 @@
+import type { Flow, Step } from "../types";
+import type { ExecutionResult, RunResult } from "../runner";
+import type { FlowRunHooks } from "../execution/flowExecution";
+import type { LocatorTier } from "../locators/locatorStrategies";
+import { getStorageAdapter } from "../storage/flowStorage";
+import { getRunStatus, type FlowRunStatus } from "../history/runHistory";
+
+/**
+ * Flow trace 유틸리티
+ * 실행한 최상위 Step마다 전/후 스크린샷, 대상 요소 위치, 요소를 찾은 locator 단계,
+ * Step 중 발생한 콘솔 오류와 네트워크 실패를 기록하는 trace 파일 형식
+ * 실행 기록(FlowRun.traceRef)과 연결해 저장하고, 파일로 내보내 trace 화면에서 열 수 있음
+ */
+
+export const TRACE_FILE_FORMAT = "auto-wiz-trace";
+export const TRACE_VERSION = 1;
+
+const TRACE_KEY_PREFIX = "flowTrace:";
+
+// 뷰포트 기준 좌표 (CSS px)
+export interface TraceBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Step 대상 요소 (Step 실행 직전에 찾은 위치)
+export interface TraceTarget {
+  boundingBox: TraceBoundingBox;
+  viewport: { width: number; height: number };
+  locatorTier: LocatorTier;
+  selector?: string; // 요소를 찾은 selector (metadata 단계면 없음)
+}
+
+export interface TraceConsoleError {
+  message: string;
+  source: "console" | "exception" | "rejection";
+  timestamp: number;
+}
+
+export interface TraceNetworkFailure {
+  url: string;
+  kind: "fetch" | "xhr" | "resource";
+  method?: string;
+  status?: number; // HTTP 오류 응답이면 상태 코드
+  error?: string; // 연결 실패 등 응답이 없을 때
+  timestamp: number;
+}
+
+// 페이지에서 수집한 Step 중 이벤트
+export interface TraceEvents {
+  consoleErrors: TraceConsoleError[];
+  networkFailures: TraceNetworkFailure[];
+}
+
+export interface TraceStep extends TraceEvents {
+  stepIndex: number;
+  step: Step;
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+  success?: boolean;
+  error?: string;
+  attempts?: number;
+  usedSelector?: string;
+  url?: string; // Step 실행 전 탭 URL
+  target?: TraceTarget;
+  beforeScreenshot?: string; // data URL
+  afterScreenshot?: string;
+}
+
+export interface FlowTrace {
+  format: typeof TRACE_FILE_FORMAT;
+  version: number;
+  id: string;
+  flowId: string;
+  flowTitle: string;
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+  status: FlowRunStatus;
+  steps: TraceStep[]; // 실행한 순서
+  error?: string;
+}
+
+const traceKey = (id: string) => `${TRACE_KEY_PREFIX}${id}`;
+
+/**
+ * 빈 trace 생성
+ */
+export function createFlowTrace(
+  flow: Pick<Flow, "id" | "title">,
+  now: () => number = Date.now
+): FlowTrace {
+  return {
+    format: TRACE_FILE_FORMAT,
+    version: TRACE_VERSION,
+    id: crypto.randomUUID(),
+    flowId: flow.id,
+    flowTitle: flow.title,
+    startedAt: now(),
+    status: "running",
+    steps: [],
+  };
+}
+
+/**
+ * trace 저장 (같은 id면 덮어씀)
+ */
+export async function saveFlowTrace(trace: FlowTrace): Promise<void> {
+  await getStorageAdapter().set(traceKey(trace.id), trace);
+}
+
+/**
+ * id로 trace 조회 (없으면 null)
+ */
+export async function getFlowTrace(id: string): Promise<FlowTrace | null> {
+  return (await getStorageAdapter().get(traceKey(id))) || null;
+}
+
+/**
+ * trace 삭제 (실행 기록을 삭제할 때 사용)
+ */
+export async function deleteFlowTraces(ids: string[]): Promise<void> {
+  const adapter = getStorageAdapter();
+  for (const id of ids) {
+    if (adapter.remove) {
+      await adapter.remove(traceKey(id));
+    } else {
+      await adapter.set(traceKey(id), null);
+    }
+  }
+}
+
+/**
+ * 내보내기 파일 JSON 문자열
+ */
+export function serializeFlowTrace(trace: FlowTrace): string {
+  return JSON.stringify(trace);
+}
+
+/**
+ * trace 파일 읽기
+ */
+export function parseFlowTrace(text: string): FlowTrace {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid trace file: not valid JSON");
+  }
+
+  if (!data || typeof data !== "object" || data.format !== TRACE_FILE_FORMAT) {
+    throw new Error("Invalid trace file: not an auto-wiz trace");
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new Error("Invalid trace file: missing version");
+  }
+  if (data.version > TRACE_VERSION) {
+    throw new Error(
+      `Unsupported trace version ${data.version} (this version reads up to ${TRACE_VERSION})`
+    );
+  }
+  if (!Array.isArray(data.steps)) {
+    throw new Error("Invalid trace file: steps must be an array");
+  }
+
+  return {
+    ...data,
+    steps: data.steps.map((step: any) => ({
+      ...step,
+      consoleErrors: Array.isArray(step.consoleErrors)
+        ? step.consoleErrors
+        : [],
+      networkFailures: Array.isArray(step.networkFailures)
+        ? step.networkFailures
+        : [],
+    })),
+  };
+}
+
+/**
+ * trace 작성기
+ * hooks를 runFlowSteps에 넘기면 Step 시작/끝을 기록하고,
+ * Runner 밖에서 수집한 스크린샷/대상 요소/이벤트는 attach로 마지막 기록에 추가
+ * 스크린샷이 많아 실행 중에는 저장하지 않고 finish에서 한 번 저장
+ */
+export function createTraceRecorder(
+  flow: Pick<Flow, "id" | "title">,
+  now: () => number = Date.now
+): {
+  trace: FlowTrace;
+  hooks: FlowRunHooks;
+  attach: (stepIndex: number, details: Partial<TraceStep>) => void;
+  finish: (result: RunResult, stopped?: boolean) => Promise<FlowTrace>;
+} {
+  const trace = createFlowTrace(flow, now);
+
+  // 해당 Step의 가장 최근 기록
+  const findStep = (index: number) =>
+    [...trace.steps].reverse().find((saved) => saved.stepIndex === index);
+
+  const hooks: FlowRunHooks = {
+    onStepStart: (step, index) => {
+      trace.steps.push({
+        stepIndex: index,
+        step,
+        startedAt: now(),
+        consoleErrors: [],
+        networkFailures: [],
+      });
+    },
+    onStepEnd: (_step, index, result: ExecutionResult) => {
+      const traced = findStep(index);
+      if (!traced) return;
+      traced.endedAt = now();
+      traced.durationMs = traced.endedAt - traced.startedAt;
+      traced.success = result.success;
+      if (result.error) traced.error = result.error;
+      if (result.attempts) traced.attempts = result.attempts;
+      if (result.usedSelector) traced.usedSelector = result.usedSelector;
+    },
+  };
+
+  const attach = (stepIndex: number, details: Partial<TraceStep>) => {
+    const traced = findStep(stepIndex);
+    if (!traced) return;
+    const { consoleErrors, networkFailures, ...rest } = details;
+    Object.assign(traced, rest);
+    if (consoleErrors) traced.consoleErrors.push(...consoleErrors);
+    if (networkFailures) traced.networkFailures.push(...networkFailures);
+  };
+
+  const finish = async (result: RunResult, stopped = false) => {
+    trace.endedAt = now();
+    trace.durationMs = trace.endedAt - trace.startedAt;
+    trace.status = getRunStatus(result, stopped);
+    if (result.error) trace.error = result.error;
+    await saveFlowTrace(trace);
+    return trace;
+  };
+
+  return { trace, hooks, attach, finish };
+}
@@ -1,3 +1,10 @@
+import type { DatasetRowResult } from "./datasets/flowDataset";
+import type { RunSettings, StepError } from "./runner";
+import type { FailureArtifacts } from "./history/failureArtifacts";
+import type { DebugPauseReason } from "./execution/stepDebugger";
+import type { LocatorTier } from "./locators/locatorStrategies";
+import type { LocatorHealing } from "./locators/locatorHealing";
+
 /**
  * ElementLocator: 다중 selector 전략 (Playwright/Maestro 스타일)
  * 우선순위 기반으로 여러 selector를 시도하여 안정성 향상
@@ -19,8 +26,43 @@ export interface ElementLocator {
     placeholder?: string; // placeholder 속성
     title?: string;       // title 속성
   };
+
+  /** 기록 시점에 primary selector와 일치한 요소 수 (1이면 고유, 없으면 측정하지 않음) */
+  matchCount?: number;
 }
 
+// extract 스텝이 읽어오는 값의 종류
+export type ExtractProp =
+  | "innerText" // 텍스트 내용 (기본값)
+  | "value" // input/select/textarea의 value
+  | "href" // 링크의 절대 URL
+  | "innerHTML"
+  | "outerHTML"
+  | "attribute"; // attribute 필드에 지정한 속성 값
+
+// assert 스텝이 검증하는 페이지 상태의 종류
+export type AssertionKind =
+  | "visible" // 요소가 보임
+  | "hidden" // 요소가 없거나 보이지 않음
+  | "textEquals"
+  | "textContains"
+  | "textMatches" // expected: 정규식 (/pattern/flags 형식 가능)
+  | "attributeEquals" // attribute 필드에 지정한 속성 값
+  | "valueEquals" // input/select/textarea의 value
+  | "urlMatches" // 현재 URL (selector 불필요)
+  | "count"; // selector와 일치하는 요소 수
+
+// if/while 조건 (negate: 결과 반전)
+export type FlowCondition =
+  | { type: "exists"; selector: string; negate?: boolean } // 보이는 요소가 있음
+  | { type: "textMatches"; selector: string; pattern: string; negate?: boolean }
+  | { type: "variableEquals"; name: string; value: string; negate?: boolean };
+
+// forEach 반복 대상
+export type ForEachSource =
+  | { type: "elements"; selector: string } // selector와 일치하는 요소마다
+  | { type: "extracted"; name: string }; // 앞선 extract 결과 목록마다
+
 // 레코드 가능한 액션 타입
 type CoreStep =
   | { 
@@ -36,7 +78,8 @@ type CoreStep =
       selector: string;  // deprecated: 하위 호환성을 위해 유지
       locator?: ElementLocator;
       text: string;
-      originalText?: string; // 보안을 위해 마스킹된 원본 텍스트
+      originalText?: string; // deprecated: 평문 원본 (시크릿 저장소로 마이그레이션됨)
+      secretRef?: string; // 시크릿 저장소 참조 (text는 마스킹된 값)
       submit?: boolean; // 입력 후 Enter 제출 여부
       url?: string;
       screenshot?: string;
@@ -55,7 +98,10 @@ type CoreStep =
       type: "extract";
       selector: string;  // deprecated: 하위 호환성을 위해 유지
       locator?: ElementLocator;
-      prop?: "innerText" | "value";
+      name?: string; // 결과 키 (extractedData[name]), 없으면 step_${index}
+      prop?: ExtractProp;
+      attribute?: string; // prop이 "attribute"일 때 읽을 속성 이름
+      multiple?: boolean; // selector와 일치하는 모든 요소의 값을 배열로 추출
       url?: string;
       screenshot?: string;
       timeoutMs?: number;
@@ -68,6 +114,18 @@ type CoreStep =
       url?: string;
       screenshot?: string;
     }
+  | {
+      type: "assert";
+      assertion: AssertionKind;
+      selector?: string;  // urlMatches 외에는 필수
+      locator?: ElementLocator;
+      expected?: string; // 비교할 텍스트/값/패턴
+      attribute?: string; // attributeEquals일 때 검사할 속성 이름
+      count?: number; // count일 때 기대하는 요소 수
+      timeoutMs?: number; // 통과할 때까지 재시도하는 시간
+      url?: string;
+      screenshot?: string;
+    }
   | {
       type: "screenshot";
       selector: string;  // deprecated: 하위 호환성을 위해 유지
@@ -77,27 +135,104 @@ type CoreStep =
       timeoutMs?: number;
     }
   | { type: "navigate"; url: string }
-  | { type: "waitForNavigation"; timeoutMs?: number };
+  | { type: "waitForNavigation"; timeoutMs?: number }
+  // 제어 흐름 스텝 (하위 Step 목록을 가짐)
+  // 반복 스텝은 {{<as>.index}} (0부터), forEach는 {{<as>}}와 {{<as>.selector}}도 제공
+  | { type: "if"; condition: FlowCondition; then: Step[]; else?: Step[] }
+  | {
+      type: "repeat";
+      times: number;
+      as?: string; // 반복 변수 이름 (기본값: iteration)
+      steps: Step[];
+    }
+  | {
+      type: "forEach";
+      source: ForEachSource;
+      as?: string; // 반복 변수 이름 (기본값: item)
+      steps: Step[];
+    }
+  | {
+      type: "while";
+      condition: FlowCondition;
+      maxIterations: number; // 무한 루프 방지
+      as?: string; // 반복 변수 이름 (기본값: iteration)
+      steps: Step[];
+    }
+  // 저장된 다른 Flow를 그 자리에서 실행 (하위 Flow)
+  | {
+      type: "callFlow";
+      flowId: string;
+      flowTitle?: string; // 표시용 (연결 당시 제목)
+      args?: Record<string, string>; // 하위 Flow의 {{name}} 변수 값 ({{placeholder}} 사용 가능)
+    };
+
+// 재시도할 실패 종류 (오류 메시지로 분류)
+export type RetryCondition =
+  | "notFound" // 요소를 찾지 못함
+  | "notInteractable" // 요소가 보이지 않거나 비활성화됨
+  | "timeout" // 대기 시간 초과
+  | "assertion" // assert 조건 불일치
+  | "any"; // 모든 실패
+
+// 실패한 Step의 재시도 정책
+export interface StepRetryPolicy {
+  attempts: number; // 첫 실행을 포함한 최대 시도 횟수
+  backoffMs?: number; // 첫 재시도 전 대기 시간 (기본값 500)
+  backoffFactor?: number; // 재시도마다 대기 시간에 곱할 값 (기본값 2, 1이면 고정 간격)
+  maxBackoffMs?: number; // 대기 시간 상한 (기본값 10000)
+  retryOn?: RetryCondition[]; // 재시도할 실패 종류 (기본값: 모든 실패)
+}
 
 // 각 스텝에 프레임 메타데이터를 선택적으로 포함
 export type Step = CoreStep & {
   _frameId?: number; // 기록된 프레임 ID (브라우저 frameId)
   _frameUrl?: string; // 기록 당시 프레임 URL
+  retry?: StepRetryPolicy; // Flow의 기본 재시도 정책 대신 사용 (제어 흐름 Step 제외)
+  continueOnError?: boolean; // 실패해도 다음 Step을 실행 (오류는 RunResult.stepErrors에 기록)
+  breakpoint?: boolean; // 확장 프로그램에서 실행할 때 이 Step 직전에 일시정지 (최상위 Step만)
 };
 
+// 플로우 변수 선언 ({{name}} placeholder)
+export interface FlowVariable {
+  name: string;
+  defaultValue?: string; // 실행 시 값이 주어지지 않으면 사용
+  description?: string; // 입력 폼에 표시할 설명
+}
+
+// data-driven 실행용 데이터셋 (행마다 Flow 1회 실행)
+export interface FlowDataset {
+  name?: string; // 원본 파일 이름
+  format: "csv" | "json";
+  columns: string[];
+  rows: Record<string, string>[]; // 각 행의 필드는 {{column}} 변수로 바인딩
+}
+
 // 플로우 전체 구조
 export interface Flow {
   id: string;
   title: string;
   steps: Step[];
   createdAt: number;
+  updatedAt?: number; // 마지막 수정 시각 (라이브러리 정렬용)
   startUrl?: string; // 시작 URL (선택사항)
+  variables?: FlowVariable[]; // 파라미터화된 플로우의 변수 선언
+  dataset?: FlowDataset; // 첨부 시 행마다 실행
+  retry?: StepRetryPolicy; // retry가 없는 Step의 기본 재시도 정책
+  onFailure?: Step[]; // 실패를 보고하기 전에 실행할 Step (모달 닫기, 스크린샷, 홈으로 이동 등)
 }
 
 // 메시지 타입
-export type RecordStepMessage = { type: "REC_STEP"; step: Step };
+export type RecordStepMessage = {
+  type: "REC_STEP";
+  step: Step;
+  secretValue?: string; // 시크릿 입력값 (background에서 암호화 후 secretRef로 대체)
+};
 export type TogglePickerMessage = { type: "TOGGLE_PICKER"; on: boolean };
-export type RunFlowMessage = { type: "RUN_FLOW" };
+export type RunFlowMessage = {
+  type: "RUN_FLOW";
+  variables?: Record<string, string>; // {{name}} placeholder에 바인딩할 값
+  options?: RunSettings; // timeout, 재시도, 시작/끝 Step 등 실행 옵션
+};
 export type SendToBackendMessage = {
   type: "SEND_TO_BACKEND";
   endpoint: string;
@@ -110,6 +245,8 @@ export type StepExecutingMessage = {
   stepIndex: number;
   totalSteps: number;
   currentUrl?: string;
+  attempt?: number; // 재시도 중일 때 현재 시도 번호 (1부터)
+  maxAttempts?: number;
 };
 export type StepCompletedMessage = {
   type: "STEP_COMPLETED";
@@ -118,6 +255,19 @@ export type StepCompletedMessage = {
   success: boolean;
   error?: string;
   extractedData?: any; // extract 액션에서 추출된 데이터
+  usedSelector?: string; // 요소를 찾은 selector (fallback 포함)
+  locatorTier?: LocatorTier; // 요소를 찾은 locator 단계
+  healedLocator?: ElementLocator; // primary가 아닌 단계로 찾았으면 새로 만든 locator
+  attempt?: number; // 재시도 정책이 있을 때 끝난 시도 번호 (1부터)
+  maxAttempts?: number;
+  willRetry?: boolean; // 실패했지만 다시 시도함
+};
+
+export type FlowCompletedMessage = {
+  type: "FLOW_COMPLETED";
+  totalSteps: number;
+  extractedData?: Record<string, any>; // 실행에서 수집된 extract 결과
+  stepErrors?: StepError[]; // continueOnError로 건너뛴 Step 오류
 };
 
 export type FlowFailedMessage = {
@@ -125,6 +275,21 @@ export type FlowFailedMessage = {
   error: string;
   failedStepIndex: number;
   failedStep: Step;
+  extractedData?: Record<string, any>; // 실패 전까지 수집된 extract 결과
+  stepErrors?: StepError[]; // 치명적이지 않은 Step 오류 (onFailure Step 오류 포함)
+  failureArtifacts?: FailureArtifacts; // 실패한 Step의 스크린샷과 DOM 스냅샷
+};
+
+// 데이터셋 실행 관련 메시지
+export type DatasetRowCompletedMessage = {
+  type: "DATASET_ROW_COMPLETED";
+  rowIndex: number;
+  totalRows: number;
+  result: DatasetRowResult;
+};
+export type DatasetCompletedMessage = {
+  type: "DATASET_COMPLETED";
+  results: DatasetRowResult[];
 };
 
 export type ElementScreenshotMessage = {
@@ -138,6 +303,68 @@ export type ElementScreenshotMessage = {
   };
 };
 
+// 시크릿 저장소 관련 메시지
+export type GetVaultStateMessage = { type: "GET_VAULT_STATE" };
+export type UnlockVaultMessage = { type: "UNLOCK_VAULT"; passphrase: string };
+export type LockVaultMessage = { type: "LOCK_VAULT" };
+export type MarkStepSecretMessage = {
+  type: "MARK_STEP_SECRET";
+  stepIndex: number;
+};
+export type VaultStateMessage = {
+  type: "VAULT_STATE";
+  initialized: boolean;
+  unlocked: boolean;
+  pendingSecrets: number; // 잠금 상태에서 녹화되어 암호화 대기 중인 시크릿 수
+};
+
+// 제어 흐름 실행 시 content script에 요소 상태를 묻는 메시지 (응답으로 반환)
+export type ReadElementStateMessage = {
+  type: "READ_ELEMENT_STATE";
+  selector: string;
+}; // 응답: AssertionState
+export type ListElementsMessage = {
+  type: "LIST_ELEMENTS";
+  selector: string;
+}; // 응답: LoopElement[]
+export type CaptureDomSnapshotMessage = {
+  type: "CAPTURE_DOM_SNAPSHOT";
+}; // 응답: DomSnapshot
+export type CaptureTraceTargetMessage = {
+  type: "CAPTURE_TRACE_TARGET";
+  step: Step;
+}; // 응답: TraceTarget | null
+
+// Step 디버거 메시지 (사이드패널 -> background)
+export type DebugPauseMessage = { type: "DEBUG_PAUSE" }; // 다음 Step 직전에 일시정지
+export type DebugResumeMessage = { type: "DEBUG_RESUME" };
+export type DebugStepOverMessage = { type: "DEBUG_STEP_OVER" }; // 현재 Step만 실행하고 다시 일시정지
+export type DebugRepickMessage = { type: "DEBUG_REPICK" }; // 일시정지한 Step의 요소를 페이지에서 다시 고르기
+// background -> 사이드패널
+export type DebugPausedMessage = {
+  type: "DEBUG_PAUSED";
+  stepIndex: number;
+  step: Step; // 재개하면 실행할 Step
+  reason: DebugPauseReason;
+  totalSteps: number;
+};
+export type DebugResumedMessage = { type: "DEBUG_RESUMED"; stepIndex: number };
+// background -> content script, content script -> background/사이드패널
+export type StartRepickMessage = { type: "START_REPICK"; stepIndex: number };
+export type ElementRepickedMessage = {
+  type: "ELEMENT_REPICKED";
+  selector: string;
+  locator: ElementLocator;
+};
+export type RepickCancelledMessage = { type: "REPICK_CANCELLED" };
+
+// Locator self-healing: 새 locator를 제안으로 저장했거나 (applied: false) Step에 적용함
+export type LocatorHealedMessage = {
+  type: "LOCATOR_HEALED";
+  healing: LocatorHealing;
+  applied: boolean;
+};
+
 // 레코딩 관련 메시지
 export type StartRecordMessage = { type: "START_RECORD" };
 export type StopRecordMessage = { type: "STOP_RECORD" };
@@ -162,8 +389,30 @@ export type Message =
   | SentOkMessage
   | StepExecutingMessage
   | StepCompletedMessage
+  | FlowCompletedMessage
   | FlowFailedMessage
+  | DatasetRowCompletedMessage
+  | DatasetCompletedMessage
   | ElementScreenshotMessage
+  | GetVaultStateMessage
+  | UnlockVaultMessage
+  | LockVaultMessage
+  | MarkStepSecretMessage
+  | VaultStateMessage
+  | ReadElementStateMessage
+  | ListElementsMessage
+  | CaptureDomSnapshotMessage
+  | CaptureTraceTargetMessage
+  | DebugPauseMessage
+  | DebugResumeMessage
+  | DebugStepOverMessage
+  | DebugRepickMessage
+  | DebugPausedMessage
+  | DebugResumedMessage
+  | StartRepickMessage
+  | ElementRepickedMessage
+  | RepickCancelledMessage
+  | LocatorHealedMessage
   | StartRecordMessage
   | StopRecordMessage
   | StopRunMessage
@@ -0,0 +1,246 @@
+import type { Flow, FlowCondition, Step } from "../types";
+import {
+  getChildStepLists,
+  getLoopVariableName,
+  isLoopVariable,
+  mapChildSteps,
+} from "../control/stepTree";
+
+/**
+ * Flow 변수 유틸리티
+ * Step 필드의 {{name}} placeholder를 실행 시점에 값으로 치환
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * 문자열에 포함된 변수 이름 추출 (중복 제거)
+ */
+export function extractVariableNames(text: string | undefined): string[] {
+  if (!text) return [];
+  const names = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * 문자열에 placeholder가 있는지 확인
+ */
+export function hasPlaceholders(text: string | undefined): boolean {
+  return extractVariableNames(text).length > 0;
+}
+
+/**
+ * {{name}} placeholder 치환
+ * 값이 없는 placeholder는 그대로 유지
+ */
+export function interpolate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? String(values[name])
+      : placeholder
+  );
+}
+
+/**
+ * 조건에서 템플릿 치환 대상 필드 값 목록
+ */
+function getConditionFields(
+  condition: FlowCondition
+): Array<string | undefined> {
+  switch (condition.type) {
+    case "exists":
+      return [condition.selector];
+    case "textMatches":
+      return [condition.selector, condition.pattern];
+    case "variableEquals":
+      return [condition.value];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Step에서 템플릿 치환 대상 필드 값 목록 (하위 Step 제외)
+ */
+function getTemplateFields(step: Step): Array<string | undefined> {
+  const selector = "selector" in step ? step.selector : undefined;
+  switch (step.type) {
+    case "type":
+      return [selector, step.text, step.originalText, step.url];
+    case "select":
+      return [selector, step.value, step.url];
+    case "navigate":
+      return [step.url];
+    case "assert":
+      return [selector, step.expected, step.url];
+    case "if":
+    case "while":
+      return getConditionFields(step.condition);
+    case "forEach":
+      return step.source.type === "elements" ? [step.source.selector] : [];
+    case "callFlow":
+      return Object.values(step.args || {});
+    default:
+      return "url" in step ? [selector, step.url] : [selector];
+  }
+}
+
+/**
+ * Step 하나에서 사용된 변수 이름 목록
+ * 하위 Step 포함, 반복 스텝이 제공하는 반복 변수({{item}} 등)는 제외
+ */
+export function getStepVariableNames(step: Step): string[] {
+  const names = new Set<string>();
+  for (const field of getTemplateFields(step)) {
+    extractVariableNames(field).forEach((name) => names.add(name));
+  }
+
+  const loopVariable = getLoopVariableName(step);
+  for (const child of getChildStepLists(step).flat()) {
+    getStepVariableNames(child)
+      .filter((name) => !loopVariable || !isLoopVariable(name, loopVariable))
+      .forEach((name) => names.add(name));
+  }
+  return Array.from(names);
+}
+
+/**
+ * Flow에서 사용/선언된 모든 변수 이름 (선언 순서 우선)
+ */
+export function collectFlowVariables(flow: Flow): string[] {
+  const names = new Set<string>(
+    (flow.variables || []).map((variable) => variable.name)
+  );
+  extractVariableNames(flow.startUrl).forEach((name) => names.add(name));
+  for (const step of flow.steps) {
+    getStepVariableNames(step).forEach((name) => names.add(name));
+  }
+  return Array.from(names);
+}
+
+/**
+ * 선언된 기본값과 실행 시 전달된 값을 병합
+ */
+export function resolveVariableValues(
+  flow: Flow,
+  provided: Record<string, string> = {}
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const variable of flow.variables || []) {
+    if (variable.defaultValue !== undefined) {
+      values[variable.name] = variable.defaultValue;
+    }
+  }
+  return { ...values, ...provided };
+}
+
+/**
+ * 값이 지정되지 않은 변수 이름 목록
+ */
+export function findMissingVariables(
+  flow: Flow,
+  provided: Record<string, string> = {}
+): string[] {
+  const values = resolveVariableValues(flow, provided);
+  return collectFlowVariables(flow).filter(
+    (name) => !Object.prototype.hasOwnProperty.call(values, name)
+  );
+}
+
+/**
+ * 조건의 placeholder를 치환한 새 조건 반환
+ */
+export function resolveConditionVariables(
+  condition: FlowCondition,
+  values: Record<string, string>
+): FlowCondition {
+  switch (condition.type) {
+    case "exists":
+      return {
+        ...condition,
+        selector: interpolate(condition.selector, values),
+      };
+    case "textMatches":
+      return {
+        ...condition,
+        selector: interpolate(condition.selector, values),
+        pattern: interpolate(condition.pattern, values),
+      };
+    case "variableEquals":
+      return { ...condition, value: interpolate(condition.value, values) };
+    default:
+      return condition;
+  }
+}
+
+/**
+ * Step의 placeholder를 치환한 새 Step 반환 (하위 Step 포함)
+ * 값이 없는 placeholder(반복 변수 등)는 그대로 남아 실행 시점에 치환됨
+ */
+export function resolveStepVariables(
+  step: Step,
+  values: Record<string, string>
+): Step {
+  const resolved: any = {
+    ...mapChildSteps(step, (steps) =>
+      steps.map((child) => resolveStepVariables(child, values))
+    ),
+  };
+
+  if ("url" in resolved && typeof resolved.url === "string") {
+    resolved.url = interpolate(resolved.url, values);
+  }
+
+  if ("selector" in resolved && typeof resolved.selector === "string") {
+    resolved.selector = interpolate(resolved.selector, values);
+  }
+
+  if (step.type === "type") {
+    resolved.text = interpolate(step.text, values);
+    if (step.originalText !== undefined) {
+      resolved.originalText = interpolate(step.originalText, values);
+    }
+  } else if (step.type === "select") {
+    resolved.value = interpolate(step.value, values);
+  } else if (step.type === "assert" && step.expected !== undefined) {
+    resolved.expected = interpolate(step.expected, values);
+  } else if (step.type === "if" || step.type === "while") {
+    resolved.condition = resolveConditionVariables(step.condition, values);
+  } else if (step.type === "forEach" && step.source.type === "elements") {
+    resolved.source = {
+      ...step.source,
+      selector: interpolate(step.source.selector, values),
+    };
+  } else if (step.type === "callFlow" && step.args) {
+    resolved.args = Object.fromEntries(
+      Object.entries(step.args).map(([name, value]) => [
+        name,
+        interpolate(value, values),
+      ])
+    );
+  }
+
+  return resolved as Step;
+}
+
+/**
+ * Flow 전체의 placeholder를 치환한 새 Flow 반환
+ * (선언된 기본값 + 전달된 값 사용)
+ */
+export function resolveFlowVariables(
+  flow: Flow,
+  provided: Record<string, string> = {}
+): Flow {
+  const values = resolveVariableValues(flow, provided);
+  return {
+    ...flow,
+    startUrl: flow.startUrl ? interpolate(flow.startUrl, values) : undefined,
+    steps: flow.steps.map((step) => resolveStepVariables(step, values)),
+  };
+}
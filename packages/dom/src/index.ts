@@ -1,5 +1,10 @@
 export * from "./selectors/selectorGenerator";
 export * from "./selectors/locatorUtils";
+export * from "./selectors/locatorScoring";
+export * from "./selectors/xpathSelectors";
+export * from "./selectors/shadowSelectors";
 export * from "./steps/stepExecution";
 export * from "./runner";
+export * from "./snapshot/domSnapshot";
+export * from "./trace/traceCapture";
 // stepValidation might still belong in core if it's pure logic, but checking dependencies...
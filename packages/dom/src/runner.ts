@@ -5,55 +5,89 @@ import {
   type RunnerOptions,
   type Flow,
   type Step,
+  type ControlFlowHandlers,
+  type ControlFlowScope,
+  resolveFlowVariables,
+  resolveFlowSecrets,
+  resolveVariableValues,
+  isCompositeStep,
+  runCompositeStep,
+  loadSubFlow,
+  runFlowSteps,
+  withFlowDefaults,
+  withRunnerOptions,
+  applyStepTimeout,
 } from "@auto-wiz/core";
-import { executeStep } from "./steps/stepExecution";
+import {
+  executeStep,
+  readElementState,
+  listLoopElements,
+} from "./steps/stepExecution";
 
 export class DomFlowRunner implements FlowRunner<void> {
   async run(
     flow: Flow,
     _context: any = {}, // unused
-    _options: RunnerOptions = {} // unused
+    options: RunnerOptions = {}
   ): Promise<RunResult> {
     const extractedData: Record<string, any> = {};
-    const steps = flow.steps;
-
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-      try {
-        const result = await this.runStep(step);
-
-        if (!result.success) {
-          return {
-            success: false,
-            error: result.error,
-            failedStepIndex: i,
-            extractedData,
-          };
-        }
-
-        if (result.extractedData) {
-          extractedData[`step_${i}`] = result.extractedData;
-        }
-      } catch (e) {
-        return {
-          success: false,
-          error: (e as Error).message,
-          failedStepIndex: i,
-          extractedData,
-        };
-      }
+    // {{name}} placeholder와 시크릿 참조를 실행 전에 치환
+    let steps: Step[];
+    try {
+      const resolved = await resolveFlowSecrets(
+        resolveFlowVariables(flow, options.variables),
+        options.resolveSecret
+      );
+      steps = resolved.steps;
+    } catch (e) {
+      return { success: false, error: (e as Error).message, extractedData };
     }
 
-    return { success: true, extractedData };
+    // 제어 흐름 스텝의 반복 변수와 중첩 extract 결과를 공유하는 scope
+    const scope: ControlFlowScope = {
+      variables: resolveVariableValues(flow, options.variables),
+      extractedData,
+      callStack: [flow.id],
+    };
+
+    const handlers = this.controlFlowHandlers(options);
+    return runFlowSteps(
+      steps,
+      () => handlers,
+      scope,
+      withFlowDefaults(flow, options)
+    );
   }
 
-  async runStep(step: Step): Promise<ExecutionResult> {
+  async runStep(
+    step: Step,
+    _context: any = {}, // unused
+    options: RunnerOptions = {}
+  ): Promise<ExecutionResult> {
     try {
+      // 제어 흐름/callFlow 스텝을 단독으로 실행하면 변수 없이 새 scope 사용
+      if (isCompositeStep(step)) {
+        return await runCompositeStep(
+          step,
+          withRunnerOptions(this.controlFlowHandlers(options), options),
+          { variables: {}, extractedData: {} }
+        );
+      }
+
       // Direct DOM execution using existing logic
-      const result = await executeStep(step);
+      const result = await executeStep(applyStepTimeout(step, options.timeout));
       return result;
     } catch (error) {
       return { success: false, error: (error as Error).message };
     }
   }
+
+  private controlFlowHandlers(options: RunnerOptions): ControlFlowHandlers {
+    return {
+      runStep: (step) => this.runStep(step, undefined, options),
+      readState: async (selector) => readElementState(selector),
+      listElements: async (selector) => listLoopElements(selector),
+      loadFlow: (flowId) => loadSubFlow(flowId, options),
+    };
+  }
 }
@@ -0,0 +1,174 @@
+import { parseXPathSelector, XPATH_SELECTOR_PREFIX } from "@auto-wiz/core";
+import { selectElements } from "./xpathSelectors";
+
+/**
+ * Locator 점수 유틸리티
+ * 기록 시점에 selector 후보마다 문서에서 일치하는 요소 수와 안정성으로 점수를 매김
+ * 여러 요소와 일치하는 후보는 상위 요소로 범위를 좁히거나 :nth-of-type을 붙인 고유한 변형으로 보완
+ */
+
+// 후보 selector 종류별 안정성 (높을수록 페이지가 바뀌어도 유지됨)
+export const SELECTOR_STABILITY = {
+  testId: 1,
+  id: 0.9,
+  name: 0.8,
+  ariaLabel: 0.75,
+  placeholder: 0.7,
+  title: 0.6,
+  alt: 0.6,
+  class: 0.4,
+  structure: 0.3,
+  xpathText: 0.25,
+  xpathAttribute: 0.2,
+} as const;
+
+export type SelectorKind = keyof typeof SELECTOR_STABILITY;
+
+// 고유하게 만든 변형의 안정성 비율 (순서에 의존하는 nth가 더 취약)
+const VARIANT_STABILITY = { scoped: 0.9, nth: 0.6 } as const;
+
+export interface SelectorCandidate {
+  selector: string;
+  kind: SelectorKind;
+}
+
+export interface ScoredSelector extends SelectorCandidate {
+  matchCount: number; // 문서에서 일치하는 요소 수
+  unique: boolean; // 대상 요소 하나에만 일치
+  variant?: keyof typeof VARIANT_STABILITY; // 고유하게 만들기 위해 변형한 selector
+  score: number; // 0~1 (고유하면 안정성, 아니면 안정성 / 일치 수)
+}
+
+function matchElements(selector: string): Element[] {
+  try {
+    return selectElements(selector);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * selector 후보 점수 (대상 요소와 일치하지 않으면 null)
+ */
+export function scoreSelector(
+  element: Element,
+  candidate: SelectorCandidate,
+  variant?: ScoredSelector["variant"]
+): ScoredSelector | null {
+  const matches = matchElements(candidate.selector);
+  if (!matches.includes(element)) return null;
+
+  const unique = matches.length === 1;
+  const stability =
+    SELECTOR_STABILITY[candidate.kind] *
+    (variant ? VARIANT_STABILITY[variant] : 1);
+  return {
+    ...candidate,
+    matchCount: matches.length,
+    unique,
+    ...(variant && { variant }),
+    score: unique ? stability : stability / matches.length,
+  };
+}
+
+// 문서에서 고유한 id/data-testid를 가진 가장 가까운 상위 요소의 selector
+function findScopeSelector(element: Element): string | null {
+  let node = element.parentElement;
+  for (let depth = 0; node && node !== document.body && depth < 5; depth++) {
+    const testId = node.getAttribute("data-testid");
+    const selector =
+      node.id && !node.id.match(/[0-9a-f]{8,}/)
+        ? `#${CSS.escape(node.id)}`
+        : testId
+        ? `[data-testid="${testId}"]`
+        : null;
+    if (selector && matchElements(selector).length === 1) return selector;
+    node = node.parentElement;
+  }
+  return null;
+}
+
+// 같은 태그의 형제 중 위치
+function nthOfType(element: Element): string {
+  let index = 1;
+  let sibling = element.previousElementSibling;
+  while (sibling) {
+    if (sibling.tagName === element.tagName) index++;
+    sibling = sibling.previousElementSibling;
+  }
+  return `:nth-of-type(${index})`;
+}
+
+/**
+ * 여러 요소와 일치하는 selector의 고유한 변형 (없으면 null)
+ * 상위 요소로 범위 좁히기 > :nth-of-type > 둘 다 순서로 시도
+ * XPath는 일치하는 요소 중 위치로 고유하게 만듦 ((식)[n])
+ */
+export function makeUniqueSelector(
+  element: Element,
+  candidate: SelectorCandidate
+): ScoredSelector | null {
+  const xpath = parseXPathSelector(candidate.selector);
+  if (xpath !== null) {
+    const position = matchElements(candidate.selector).indexOf(element) + 1;
+    if (position === 0) return null;
+    const scored = scoreSelector(
+      element,
+      {
+        selector: `${XPATH_SELECTOR_PREFIX}(${xpath})[${position}]`,
+        kind: candidate.kind,
+      },
+      "nth"
+    );
+    return scored?.unique ? scored : null;
+  }
+
+  const scope = findScopeSelector(element);
+  const nth = nthOfType(element);
+  const variants: Array<[string, NonNullable<ScoredSelector["variant"]>]> = [];
+  if (scope) variants.push([`${scope} ${candidate.selector}`, "scoped"]);
+  variants.push([`${candidate.selector}${nth}`, "nth"]);
+  if (scope) variants.push([`${scope} ${candidate.selector}${nth}`, "nth"]);
+
+  for (const [selector, variant] of variants) {
+    const scored = scoreSelector(
+      element,
+      { selector, kind: candidate.kind },
+      variant
+    );
+    if (scored?.unique) return scored;
+  }
+  return null;
+}
+
+/**
+ * selector 후보 순위 (고유한 후보 먼저, 그 안에서 점수 높은 순)
+ * 대상 요소와 일치하지 않는 후보는 버리고, 고유하지 않은 후보는 고유한 변형을 추가하고 뒤로 내림
+ * 점수가 같으면 후보 순서 유지
+ */
+export function rankSelectorCandidates(
+  element: Element,
+  candidates: SelectorCandidate[]
+): ScoredSelector[] {
+  const ranked: ScoredSelector[] = [];
+  const seen = new Set<string>();
+  const add = (scored: ScoredSelector) => {
+    if (seen.has(scored.selector)) return;
+    seen.add(scored.selector);
+    ranked.push(scored);
+  };
+
+  for (const candidate of candidates) {
+    const scored = scoreSelector(element, candidate);
+    if (!scored) continue;
+    if (!scored.unique) {
+      const variant = makeUniqueSelector(element, candidate);
+      if (variant) add(variant);
+    }
+    add(scored);
+  }
+
+  return ranked.sort(
+    (a, b) => Number(b.unique) - Number(a.unique) || b.score - a.score
+  );
+}
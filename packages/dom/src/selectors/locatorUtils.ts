@@ -3,7 +3,8 @@
  * Playwright/Maestro 스타일의 텍스트 기반, role 기반 매칭
  */
 
-import type { ElementLocator } from "@auto-wiz/core";
+import type { ElementLocator, LocatorTier } from "@auto-wiz/core";
+import { selectElement } from "./xpathSelectors";
 
 /**
  * 텍스트 정규화 (공백, 대소문자 무시)
@@ -308,13 +309,29 @@ export function findByTestId(testId: string): HTMLElement | null {
  * ElementLocator로 요소 찾기 (fallback 지원)
  * 
  * Primary selector부터 시도하고, 실패하면 fallback들을 순차적으로 시도
+ * selector는 CSS 또는 xpath= 형식
  */
 export function findByLocator(locator: ElementLocator): HTMLElement | null {
+  return resolveLocator(locator)?.element ?? null;
+}
+
+// ElementLocator로 찾은 요소와 찾은 단계(tier), selector (메타데이터 단계면 selector 없음)
+export interface LocatorMatch {
+  element: HTMLElement;
+  tier: LocatorTier;
+  selector?: string;
+}
+
+/**
+ * ElementLocator로 요소를 찾고, 찾은 단계(tier)와 selector를 함께 반환
+ * 시도 순서는 findByLocator와 같음
+ */
+export function resolveLocator(locator: ElementLocator): LocatorMatch | null {
   // 1. Primary selector 시도
   try {
-    const el = document.querySelector(locator.primary);
+    const el = selectElement(locator.primary);
     if (el instanceof HTMLElement && isVisible(el)) {
-      return el;
+      return { element: el, tier: "primary", selector: locator.primary };
     }
   } catch (error) {
     console.warn(`Primary selector failed: ${locator.primary}`, error);
@@ -323,9 +340,9 @@ export function findByLocator(locator: ElementLocator): HTMLElement | null {
   // 2. Fallback selectors 순차 시도
   for (const selector of locator.fallbacks) {
     try {
-      const el = document.querySelector(selector);
+      const el = selectElement(selector);
       if (el instanceof HTMLElement && isVisible(el)) {
-        return el;
+        return { element: el, tier: "fallback", selector };
       }
     } catch (error) {
       console.warn(`Fallback selector failed: ${selector}`, error);
@@ -338,7 +355,7 @@ export function findByLocator(locator: ElementLocator): HTMLElement | null {
   // TestID로 시도
   if (locator.metadata.testId) {
     const el = findByTestId(locator.metadata.testId);
-    if (el && isVisible(el)) return el;
+    if (el && isVisible(el)) return { element: el, tier: "testId" };
   }
 
   // 텍스트로 시도 (role 필터링)
@@ -353,11 +370,11 @@ export function findByLocator(locator: ElementLocator): HTMLElement | null {
       const matchingTag = elements.find(
         (el) => el.tagName.toLowerCase() === locator.metadata!.tagName
       );
-      if (matchingTag) return matchingTag;
+      if (matchingTag) return { element: matchingTag, tier: "text" };
     }
 
     if (elements.length > 0 && isVisible(elements[0])) {
-      return elements[0];
+      return { element: elements[0], tier: "text" };
     }
   }
 
@@ -367,7 +384,7 @@ export function findByLocator(locator: ElementLocator): HTMLElement | null {
       exact: true,
     });
     if (elements.length > 0 && isVisible(elements[0])) {
-      return elements[0];
+      return { element: elements[0], tier: "placeholder" };
     }
   }
 
@@ -377,7 +394,7 @@ export function findByLocator(locator: ElementLocator): HTMLElement | null {
       exact: true,
     });
     if (elements.length > 0 && isVisible(elements[0])) {
-      return elements[0];
+      return { element: elements[0], tier: "label" };
     }
   }
 
@@ -387,7 +404,7 @@ export function findByLocator(locator: ElementLocator): HTMLElement | null {
 /**
  * 요소가 화면에 보이는지 확인
  */
-function isVisible(element: HTMLElement): boolean {
+export function isVisible(element: HTMLElement): boolean {
   // BODY와 HTML은 항상 visible로 간주
   if (element.tagName === "BODY" || element.tagName === "HTML") {
     return true;
@@ -426,6 +443,22 @@ export function isInteractable(element: HTMLElement): boolean {
   return true;
 }
 
+/**
+ * 민감한 입력 필드인지 확인 (비밀번호, OTP)
+ * 해당 필드의 입력값은 평문 대신 시크릿 참조로 기록
+ */
+export function isSensitiveInput(element: Element): boolean {
+  if (!(element instanceof HTMLInputElement)) return false;
+  if (element.type === "password") return true;
+
+  const autocomplete = (
+    element.getAttribute("autocomplete") || ""
+  ).toLowerCase();
+  return /\b(current-password|new-password|one-time-code)\b/.test(
+    autocomplete
+  );
+}
+
 /**
  * Smart waiting: 요소가 나타날 때까지 대기
  */
@@ -437,14 +470,27 @@ export async function waitForLocator(
     interactable?: boolean; // 상호작용 가능한 요소만
   }
 ): Promise<HTMLElement> {
+  return (await waitForLocatorMatch(locator, options)).element;
+}
+
+/**
+ * 요소가 나타날 때까지 대기하고, 찾은 단계(tier)와 selector를 함께 반환
+ * (locator self-healing에서 primary가 아닌 단계로 찾았는지 확인)
+ */
+export async function waitForLocatorMatch(
+  locator: ElementLocator,
+  options?: Parameters<typeof waitForLocator>[1]
+): Promise<LocatorMatch> {
   const timeout = options?.timeout || 5000;
   const startTime = Date.now();
   const pollInterval = 100;
 
   while (Date.now() - startTime < timeout) {
-    const element = findByLocator(locator);
+    const match = resolveLocator(locator);
+
+    if (match) {
+      const { element } = match;
 
-    if (element) {
       // visible 체크
       if (options?.visible && !isVisible(element)) {
         await new Promise((resolve) => setTimeout(resolve, pollInterval));
@@ -457,7 +503,7 @@ export async function waitForLocator(
         continue;
       }
 
-      return element;
+      return match;
     }
 
     await new Promise((resolve) => setTimeout(resolve, pollInterval));
@@ -17,18 +17,64 @@
  * - CSS selector (class + structure)
  * - nth-of-type
  * 
- * Tier 4 (텍스트 기반):
- * - 텍스트 내용 검색
+ * Tier 4 (XPath 폴백):
+ * - 텍스트 기반 XPath (normalize-space())
+ * - 상위 요소 속성 기반 XPath
+ *
+ * open shadow root 안의 요소는 모든 selector 앞에 shadow host chain을 붙임 (host >>> 요소)
  */
 
 import type { ElementLocator } from "@auto-wiz/core";
+import { joinShadowSelector } from "@auto-wiz/core";
+import {
+  rankSelectorCandidates,
+  type SelectorCandidate,
+} from "./locatorScoring";
+import {
+  makeAttributeXPath,
+  makeTextXPath,
+  selectElement,
+  selectElements,
+} from "./xpathSelectors";
+import { getShadowHosts } from "./shadowSelectors";
+import { isSensitiveInput } from "./locatorUtils";
+
+/**
+ * shadow host의 selector (host가 있는 문서나 shadow root 기준)
+ * 의미있는 id > root에서 고유한 태그(custom element) > 구조 기반 순
+ */
+function makeHostSelector(host: Element): string {
+  const tagName = host.localName;
+  if (host.id && !host.id.match(/[0-9a-f]{8,}/)) {
+    return `${tagName}#${CSS.escape(host.id)}`;
+  }
+  const root = host.getRootNode() as Document | ShadowRoot;
+  if (root.querySelectorAll(tagName).length === 1) return tagName;
+  return makeSelectorSegments(host as HTMLElement).join(">");
+}
+
+/**
+ * 요소가 있는 root 기준 selector 앞에 shadow host chain을 붙임 (문서에 바로 있으면 그대로)
+ */
+function withShadowHosts(element: Element, selector: string): string {
+  return joinShadowSelector([
+    ...getShadowHosts(element).map(makeHostSelector),
+    selector,
+  ]);
+}
 
 /**
  * 단순 selector 생성 (빠른 선택용)
  * ID가 있으면 ID만 사용, 없으면 전체 경로 생성
+ * shadow root 안의 요소는 host chain selector
  */
 export function getSimpleSelector(el: Element): string {
   if (!(el instanceof Element)) return "";
+  return withShadowHosts(el, getRootSimpleSelector(el));
+}
+
+// 요소가 있는 문서나 shadow root 기준 단순 selector
+function getRootSimpleSelector(el: Element): string {
   if (el.id) return `#${CSS.escape(el.id)}`;
 
   const parts: string[] = [];
@@ -63,8 +109,13 @@ export function getSimpleSelector(el: Element): string {
 /**
  * 상세한 selector 생성 (안정성 우선)
  * data-testid, aria-label 등 안정적인 속성 우선 사용
+ * shadow root 안의 요소는 host chain selector
  */
 export function makeSelector(el: HTMLElement): string {
+  return withShadowHosts(el, makeSelectorSegments(el).join(">"));
+}
+
+function makeSelectorSegments(el: HTMLElement): string[] {
   const segs: string[] = [];
   let cur: HTMLElement | null = el;
 
@@ -101,15 +152,42 @@ export function makeSelector(el: HTMLElement): string {
     cur = cur.parentElement;
   }
 
-  return segs.join(">");
+  return segs;
+}
+
+/**
+ * 반복되는 목록 항목 selector 생성 (list extract용)
+ * 요소에 가까운 단계부터 :nth-of-type을 제거해 여러 요소가 매칭되는 selector를 찾음
+ * 목록이 아니면 makeSelector 결과를 그대로 반환
+ */
+export function makeListSelector(el: HTMLElement): string {
+  const segs = makeSelectorSegments(el);
+
+  for (let i = segs.length - 1; i >= 0; i--) {
+    if (!segs[i].includes(":nth-of-type(")) continue;
+
+    const candidate = withShadowHosts(
+      el,
+      [
+        ...segs.slice(0, i),
+        segs[i].replace(/:nth-of-type\(\d+\)/, ""),
+        ...segs.slice(i + 1),
+      ].join(">")
+    );
+    if (querySelectorAll(candidate).length > 1) {
+      return candidate;
+    }
+  }
+
+  return withShadowHosts(el, segs.join(">"));
 }
 
 /**
- * Selector가 유효한지 검증
+ * Selector가 유효한지 검증 (CSS 또는 xpath=)
  */
 export function isValidSelector(selector: string): boolean {
   try {
-    document.querySelector(selector);
+    selectElement(selector);
     return true;
   } catch {
     return false;
@@ -117,11 +195,11 @@ export function isValidSelector(selector: string): boolean {
 }
 
 /**
- * Selector로 단일 요소 찾기 (안전)
+ * Selector로 단일 요소 찾기 (안전, CSS 또는 xpath=)
  */
 export function querySelector(selector: string): HTMLElement | null {
   try {
-    const el = document.querySelector(selector);
+    const el = selectElement(selector);
     return el instanceof HTMLElement ? el : null;
   } catch (error) {
     console.error(`Invalid selector: ${selector}`, error);
@@ -130,12 +208,11 @@ export function querySelector(selector: string): HTMLElement | null {
 }
 
 /**
- * Selector로 여러 요소 찾기 (안전)
+ * Selector로 여러 요소 찾기 (안전, CSS 또는 xpath=)
  */
 export function querySelectorAll(selector: string): HTMLElement[] {
   try {
-    const elements = document.querySelectorAll(selector);
-    return Array.from(elements).filter(
+    return selectElements(selector).filter(
       (el): el is HTMLElement => el instanceof HTMLElement
     );
   } catch (error) {
@@ -178,8 +255,9 @@ function inferRole(element: HTMLElement): string | null {
  * 요소의 가시 텍스트 추출 (trimmed)
  */
 function getVisibleText(element: HTMLElement): string {
-  // input/textarea의 경우 value 또는 placeholder
+  // input/textarea의 경우 value 또는 placeholder (비밀번호/OTP 입력의 값은 기록하지 않음)
   if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    if (isSensitiveInput(element)) return element.placeholder || "";
     return element.value || element.placeholder || "";
   }
 
@@ -241,9 +319,10 @@ function generateClassSelector(element: HTMLElement): string | null {
 
 /**
  * Robust한 다중 selector 생성 (Playwright/Maestro 스타일)
+ * 문서에 있는 요소면 후보마다 일치하는 요소 수를 세어 고유한 selector를 primary로 사용
  */
 export function generateRobustLocator(element: HTMLElement): ElementLocator {
-  const selectors: string[] = [];
+  const selectors: SelectorCandidate[] = [];
   const metadata: ElementLocator["metadata"] = {
     tagName: element.tagName.toLowerCase(),
   };
@@ -253,26 +332,32 @@ export function generateRobustLocator(element: HTMLElement): ElementLocator {
   // Test ID (최우선)
   const testId = getTestId(element);
   if (testId) {
-    selectors.push(`[data-testid="${testId}"]`);
+    selectors.push({ selector: `[data-testid="${testId}"]`, kind: "testId" });
     metadata.testId = testId;
   }
 
   // ID 속성
   if (element.id && !element.id.match(/[0-9a-f]{8,}/)) {
     // 랜덤 해시가 아닌 의미있는 ID만
-    selectors.push(`#${CSS.escape(element.id)}`);
+    selectors.push({ selector: `#${CSS.escape(element.id)}`, kind: "id" });
   }
 
   // Name 속성 (forms)
   const name = element.getAttribute("name");
   if (name) {
-    selectors.push(`${element.tagName.toLowerCase()}[name="${name}"]`);
+    selectors.push({
+      selector: `${element.tagName.toLowerCase()}[name="${name}"]`,
+      kind: "name",
+    });
   }
 
   // ARIA label
   const ariaLabel = element.getAttribute("aria-label");
   if (ariaLabel) {
-    selectors.push(`[aria-label="${ariaLabel}"]`);
+    selectors.push({
+      selector: `[aria-label="${ariaLabel}"]`,
+      kind: "ariaLabel",
+    });
     metadata.ariaLabel = ariaLabel;
   }
 
@@ -293,7 +378,10 @@ export function generateRobustLocator(element: HTMLElement): ElementLocator {
   const placeholder = element.getAttribute("placeholder");
   if (placeholder) {
     const tagName = element.tagName.toLowerCase();
-    selectors.push(`${tagName}[placeholder="${placeholder}"]`);
+    selectors.push({
+      selector: `${tagName}[placeholder="${placeholder}"]`,
+      kind: "placeholder",
+    });
     metadata.placeholder = placeholder;
   }
 
@@ -301,13 +389,13 @@ export function generateRobustLocator(element: HTMLElement): ElementLocator {
   const title = element.getAttribute("title");
   if (title) {
     const tagName = element.tagName.toLowerCase();
-    selectors.push(`${tagName}[title="${title}"]`);
+    selectors.push({ selector: `${tagName}[title="${title}"]`, kind: "title" });
     metadata.title = title;
   }
 
   // Alt (이미지)
   if (element instanceof HTMLImageElement && element.alt) {
-    selectors.push(`img[alt="${element.alt}"]`);
+    selectors.push({ selector: `img[alt="${element.alt}"]`, kind: "alt" });
   }
 
   // === Tier 3: 구조적 selector ===
@@ -315,29 +403,54 @@ export function generateRobustLocator(element: HTMLElement): ElementLocator {
   // 클래스 기반
   const classSelector = generateClassSelector(element);
   if (classSelector) {
-    selectors.push(classSelector);
+    selectors.push({ selector: classSelector, kind: "class" });
   }
 
-  // 기존 makeSelector 함수 사용 (구조 기반)
-  const structuralSelector = makeSelector(element);
+  // 기존 makeSelector와 같은 구조 기반 (host chain은 아래에서 한 번에 붙임)
+  const structuralSelector = makeSelectorSegments(element).join(">");
   if (structuralSelector) {
-    selectors.push(structuralSelector);
+    selectors.push({ selector: structuralSelector, kind: "structure" });
   }
 
   // === Tier 4: 폴백 - XPath (가장 정확하지만 취약) ===
-  // XPath는 마지막 수단으로만 사용
-  // (기존 XPath 생성 로직이 필요하다면 여기 추가)
+  // XPath는 마지막 수단으로만 사용 (안정성 점수가 가장 낮아 다른 고유한 후보 뒤로 감)
+  // 문서에 바로 있는 요소만 (일치하는지 확인할 수 없거나 shadow root를 뚫지 못하는 XPath는 제외)
+  if (element.getRootNode() === document) {
+    const textXPath = makeTextXPath(element);
+    if (textXPath) selectors.push({ selector: textXPath, kind: "xpathText" });
+
+    const attributeXPath = makeAttributeXPath(element);
+    if (attributeXPath) {
+      selectors.push({ selector: attributeXPath, kind: "xpathAttribute" });
+    }
+  }
 
-  // Primary는 첫 번째, 나머지는 fallback
-  const [primary, ...fallbacks] = selectors;
+  // === Shadow DOM: 후보는 가장 안쪽 shadow root 기준이므로 host chain을 앞에 붙임 ===
+  const candidates = selectors.map((candidate) => ({
+    ...candidate,
+    selector: withShadowHosts(element, candidate.selector),
+  }));
+  const fallbackPrimary = withShadowHosts(element, structuralSelector);
+
+  // 문서에 없는 요소는 일치하는 요소 수를 셀 수 없으므로 후보 순서 그대로 사용
+  if (!element.isConnected) {
+    const [primary, ...fallbacks] = candidates.map((c) => c.selector);
+    return {
+      primary: primary || fallbackPrimary, // 최소한 구조 기반이라도
+      fallbacks: Array.from(new Set(fallbacks)),
+      metadata,
+    };
+  }
 
-  // 중복 제거
-  const uniqueFallbacks = Array.from(new Set(fallbacks));
+  // 고유하고 안정적인 selector가 primary, 나머지는 fallback
+  // 대상 요소와 일치하지 않는 후보는 제외되고, 여러 요소와 일치하는 후보는 뒤로 내려감
+  const [primary, ...fallbacks] = rankSelectorCandidates(element, candidates);
 
   return {
-    primary: primary || structuralSelector, // 최소한 구조 기반이라도
-    fallbacks: uniqueFallbacks,
+    primary: primary?.selector || fallbackPrimary,
+    fallbacks: fallbacks.map((scored) => scored.selector),
     metadata,
+    ...(primary && { matchCount: primary.matchCount }),
   };
 }
 
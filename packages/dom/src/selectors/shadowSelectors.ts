@@ -0,0 +1,68 @@
+/**
+ * Shadow DOM 유틸리티
+ * open shadow root 안의 요소를 host chain selector(my-app >>> my-form >>> button)로 찾고,
+ * 기록할 때 이벤트/좌표의 실제 대상을 shadow root 안까지 찾음
+ * closed shadow root는 페이지 스크립트에서 접근할 수 없으므로 지원하지 않음
+ */
+
+/**
+ * 요소를 감싼 shadow host 목록 (바깥쪽부터, 문서에 바로 있으면 빈 배열)
+ */
+export function getShadowHosts(element: Element): Element[] {
+  const hosts: Element[] = [];
+  let root = element.getRootNode();
+  while (root instanceof ShadowRoot) {
+    hosts.unshift(root.host);
+    root = root.host.getRootNode();
+  }
+  return hosts;
+}
+
+/**
+ * 부모 요소 (shadow root의 최상위 요소면 host)
+ */
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) return element.parentElement;
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+}
+
+/**
+ * host chain 구간을 차례로 shadowRoot 안에서 찾기 (잘못된 selector는 예외)
+ * 마지막 구간을 뺀 구간은 host로, shadowRoot가 없는 요소는 건너뜀
+ */
+export function queryShadowSegments(segments: string[]): Element[] {
+  let roots: ParentNode[] = [document];
+  for (const segment of segments.slice(0, -1)) {
+    roots = roots
+      .flatMap((root) => Array.from(root.querySelectorAll(segment)))
+      .map((host) => host.shadowRoot)
+      .filter((shadowRoot): shadowRoot is ShadowRoot => shadowRoot !== null);
+  }
+
+  const target = segments[segments.length - 1];
+  return roots.flatMap((root) => Array.from(root.querySelectorAll(target)));
+}
+
+/**
+ * 이벤트가 실제로 일어난 요소 (open shadow root 안이면 host가 아닌 안쪽 요소)
+ * document에서 받은 이벤트의 target은 shadow host로 바뀌므로 composedPath의 첫 요소 사용
+ */
+export function getEventTarget(event: Event): Element | null {
+  const [origin] = event.composedPath();
+  if (origin instanceof Element) return origin;
+  return event.target instanceof Element ? event.target : null;
+}
+
+/**
+ * 좌표에 있는 가장 안쪽 요소 (open shadow root 안까지)
+ */
+export function deepElementFromPoint(x: number, y: number): Element | null {
+  let element = document.elementFromPoint(x, y);
+  while (element?.shadowRoot) {
+    const inner = element.shadowRoot.elementFromPoint(x, y);
+    if (!inner || inner === element) break;
+    element = inner;
+  }
+  return element;
+}
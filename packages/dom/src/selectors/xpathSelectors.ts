@@ -0,0 +1,153 @@
+import {
+  parseXPathSelector,
+  splitShadowSelector,
+  XPATH_SELECTOR_PREFIX,
+} from "@auto-wiz/core";
+import { queryShadowSegments } from "./shadowSelectors";
+
+/**
+ * XPath selector 유틸리티
+ * xpath= selector를 CSS selector와 같은 방식으로 찾고, 다른 selector가 모두 실패할 때 쓸 XPath를 생성
+ * - 텍스트 기반: //button[normalize-space()='Save']
+ * - 속성 기반: 가장 가까운 상위 요소의 안정적인 속성에서 시작하는 경로 (//form[@id='login']/div[2]/button)
+ */
+
+// 텍스트 기반 XPath에 쓸 텍스트 최대 길이 (길면 페이지마다 바뀌는 내용일 가능성이 큼)
+const MAX_XPATH_TEXT_LENGTH = 50;
+
+// 속성 기반 XPath의 기준으로 쓸 속성 (앞에 있을수록 우선)
+const XPATH_ANCHOR_ATTRIBUTES = [
+  "data-testid",
+  "id",
+  "name",
+  "aria-label",
+  "placeholder",
+  "title",
+];
+
+// 기준 요소를 찾을 최대 상위 단계
+const MAX_XPATH_ANCHOR_DEPTH = 5;
+
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+/**
+ * XPath 문자열 리터럴 (작은따옴표와 큰따옴표가 모두 있으면 concat())
+ */
+export function xpathLiteral(value: string): string {
+  if (!value.includes("'")) return `'${value}'`;
+  if (!value.includes('"')) return `"${value}"`;
+  return `concat(${value
+    .split("'")
+    .map((part) => `'${part}'`)
+    .join(`, "'", `)})`;
+}
+
+/**
+ * XPath 식으로 요소 찾기 (문서 순서, 잘못된 식은 예외)
+ */
+export function evaluateXPath(expression: string): Element[] {
+  const result = document.evaluate(
+    expression,
+    document,
+    null,
+    XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+    null
+  );
+  const elements: Element[] = [];
+  for (let i = 0; i < result.snapshotLength; i++) {
+    const node = result.snapshotItem(i);
+    if (node instanceof Element) elements.push(node);
+  }
+  return elements;
+}
+
+/**
+ * CSS, xpath= 또는 shadow host chain selector로 여러 요소 찾기 (잘못된 selector는 예외)
+ */
+export function selectElements(selector: string): Element[] {
+  const xpath = parseXPathSelector(selector);
+  if (xpath !== null) return evaluateXPath(xpath);
+  const segments = splitShadowSelector(selector);
+  return segments.length > 1
+    ? queryShadowSegments(segments)
+    : Array.from(document.querySelectorAll(selector));
+}
+
+/**
+ * CSS, xpath= 또는 shadow host chain selector로 첫 요소 찾기 (잘못된 selector는 예외)
+ */
+export function selectElement(selector: string): Element | null {
+  const xpath = parseXPathSelector(selector);
+  if (xpath !== null) return evaluateXPath(xpath)[0] ?? null;
+  const segments = splitShadowSelector(selector);
+  return segments.length > 1
+    ? queryShadowSegments(segments)[0] ?? null
+    : document.querySelector(selector);
+}
+
+// 요소 이름 검사 (HTML 요소가 아니면 local-name()으로 비교)
+function nodeTest(element: Element): string {
+  const name = element.localName;
+  return element.namespaceURI === XHTML_NAMESPACE
+    ? name
+    : `*[local-name()=${xpathLiteral(name)}]`;
+}
+
+// 같은 이름의 형제가 있으면 위치를 붙인 경로 단계
+function positionStep(element: Element): string {
+  const parent = element.parentElement;
+  if (!parent) return nodeTest(element);
+  const same = Array.from(parent.children).filter(
+    (child) => child.localName === element.localName
+  );
+  return same.length > 1
+    ? `${nodeTest(element)}[${same.indexOf(element) + 1}]`
+    : nodeTest(element);
+}
+
+// 기준으로 쓸 속성 조건 (랜덤 해시 id는 제외)
+function anchorPredicate(element: Element): string | null {
+  for (const attribute of XPATH_ANCHOR_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (!value) continue;
+    if (attribute === "id" && value.match(/[0-9a-f]{8,}/)) continue;
+    return `[@${attribute}=${xpathLiteral(value)}]`;
+  }
+  return null;
+}
+
+/**
+ * 텍스트 기반 XPath selector (텍스트가 없거나 너무 길면 null)
+ * normalize-space()와 같은 방식으로 공백을 정리한 요소 전체 텍스트와 비교
+ */
+export function makeTextXPath(element: Element): string | null {
+  const text = (element.textContent || "").replace(/[ \t\r\n]+/g, " ").trim();
+  if (!text || text.length > MAX_XPATH_TEXT_LENGTH) return null;
+  return `${XPATH_SELECTOR_PREFIX}//${nodeTest(
+    element
+  )}[normalize-space()=${xpathLiteral(text)}]`;
+}
+
+/**
+ * 속성 기반 XPath selector (기준이 될 상위 요소가 없으면 null)
+ * 요소 자신의 속성은 CSS 후보가 이미 다루므로 상위 요소의 속성에서 시작하는 경로를 만듦
+ */
+export function makeAttributeXPath(element: Element): string | null {
+  const steps = [positionStep(element)];
+  let node = element.parentElement;
+  for (
+    let depth = 0;
+    node && node !== document.body && depth < MAX_XPATH_ANCHOR_DEPTH;
+    depth++
+  ) {
+    const predicate = anchorPredicate(node);
+    if (predicate) {
+      return `${XPATH_SELECTOR_PREFIX}//${nodeTest(
+        node
+      )}${predicate}/${steps.join("/")}`;
+    }
+    steps.unshift(positionStep(node));
+    node = node.parentElement;
+  }
+  return null;
+}
@@ -0,0 +1,98 @@
+import type { DomSnapshot } from "@auto-wiz/core";
+
+/**
+ * DOM 스냅샷 유틸리티
+ * Step이 실패한 순간의 문서를 정적인 HTML로 직렬화
+ * 스크립트와 이벤트 핸들러는 제거하고, 입력 값/체크 상태는 속성으로 옮겨 그대로 보이게 함
+ */
+
+// 저장 용량을 위해 HTML 길이 제한 (넘으면 잘라냄)
+export const MAX_DOM_SNAPSHOT_LENGTH = 500_000;
+
+// 스냅샷에 남기지 않는 요소 (실행되거나 외부 문서를 불러오는 요소)
+const REMOVED_ELEMENTS = "script, noscript, iframe, frame, object, embed";
+
+interface DomSnapshotOptions {
+  maxLength?: number;
+  exclude?: string; // 스냅샷에서 뺄 요소의 selector (확장 프로그램 UI 등)
+}
+
+// 원본 요소의 현재 입력 상태를 복사본의 속성으로 옮김
+// password 입력 값은 남기지 않음
+function reflectFormState(original: Element, copy: Element) {
+  if (original instanceof HTMLInputElement) {
+    if (original.type === "checkbox" || original.type === "radio") {
+      copy.toggleAttribute("checked", original.checked);
+    } else if (original.type === "password") {
+      copy.removeAttribute("value");
+    } else if (original.type !== "file") {
+      copy.setAttribute("value", original.value);
+    }
+  } else if (original instanceof HTMLTextAreaElement) {
+    copy.textContent = original.value;
+  } else if (original instanceof HTMLSelectElement) {
+    const options = copy.querySelectorAll("option");
+    Array.from(original.options).forEach((option, i) => {
+      options[i]?.toggleAttribute("selected", option.selected);
+    });
+  }
+}
+
+// 이벤트 핸들러 속성과 javascript: URL 제거
+function removeScriptAttributes(element: Element) {
+  for (const { name, value } of Array.from(element.attributes)) {
+    if (
+      name.startsWith("on") ||
+      /^\s*javascript:/i.test(value) ||
+      (name === "srcdoc" && value)
+    ) {
+      element.removeAttribute(name);
+    }
+  }
+}
+
+/**
+ * 현재 문서의 DOM 스냅샷
+ * 상대 경로의 이미지/스타일이 열었을 때도 보이도록 <base href> 추가
+ */
+export function captureDomSnapshot(
+  doc: Document = document,
+  options: DomSnapshotOptions = {}
+): DomSnapshot {
+  const maxLength = options.maxLength ?? MAX_DOM_SNAPSHOT_LENGTH;
+  const root = doc.documentElement.cloneNode(true) as HTMLElement;
+
+  // 복사본은 원본과 구조가 같으므로 같은 순서로 대응 (요소를 지우기 전에 처리)
+  const formFields = "input, textarea, select";
+  const copies = root.querySelectorAll(formFields);
+  doc.documentElement.querySelectorAll(formFields).forEach((original, i) => {
+    if (copies[i]) reflectFormState(original, copies[i]);
+  });
+
+  root.querySelectorAll(REMOVED_ELEMENTS).forEach((element) => {
+    element.remove();
+  });
+  if (options.exclude) {
+    root.querySelectorAll(options.exclude).forEach((element) => {
+      element.remove();
+    });
+  }
+  [root, ...Array.from(root.querySelectorAll("*"))].forEach(
+    removeScriptAttributes
+  );
+
+  const head = root.querySelector("head");
+  if (head && !head.querySelector("base")) {
+    const base = doc.createElement("base");
+    base.setAttribute("href", doc.baseURI);
+    head.prepend(base);
+  }
+
+  const html = `<!DOCTYPE html>\n${root.outerHTML}`;
+  return {
+    url: doc.location?.href || doc.URL,
+    title: doc.title,
+    html: html.length > maxLength ? html.slice(0, maxLength) : html,
+    truncated: html.length > maxLength,
+  };
+}
@@ -1,6 +1,25 @@
-import type { Step } from "@auto-wiz/core";
-import { querySelector } from "../selectors/selectorGenerator";
-import { waitForLocator, isInteractable } from "../selectors/locatorUtils";
+import type {
+  Step,
+  ExtractProp,
+  AssertionState,
+  ElementLocator,
+  LocatorTier,
+  LoopElement,
+} from "@auto-wiz/core";
+import { waitForAssertion, needsLocatorHealing } from "@auto-wiz/core";
+import {
+  querySelector,
+  querySelectorAll,
+  makeSelector,
+  generateRobustLocator,
+} from "../selectors/selectorGenerator";
+import {
+  waitForLocator,
+  waitForLocatorMatch,
+  isInteractable,
+  isVisible,
+  findByLocator,
+} from "../selectors/locatorUtils";
 
 /**
  * Step execution 유틸리티
@@ -16,24 +35,48 @@ export interface ExecutionResult {
   error?: string;
   extractedData?: any;
   usedSelector?: string; // 실제로 사용된 selector (디버깅용)
+  locatorTier?: LocatorTier; // 요소를 찾은 locator 단계
+  healedLocator?: ElementLocator; // primary가 아닌 단계로 찾았으면 찾은 요소로 새로 만든 locator
 }
 
+// 성공한 Step 결과에 더할 locator 단계와 새 locator
+type LocatorHealingResult = Pick<
+  ExecutionResult,
+  "locatorTier" | "healedLocator"
+>;
+
 /**
  * Step에서 요소 찾기 (locator 우선, fallback to selector)
+ * locator가 있는 Step을 primary가 아닌 단계로 찾으면 찾은 요소로 locator를 새로 만듦 (self-healing)
  */
 async function findElement(step: Step): Promise<{
   element: HTMLElement | null;
   usedSelector: string;
+  healing: LocatorHealingResult;
 }> {
+  const locator = "locator" in step ? step.locator : undefined;
+  const healingFor = (
+    element: HTMLElement,
+    tier: LocatorTier
+  ): LocatorHealingResult =>
+    locator && needsLocatorHealing(tier)
+      ? { locatorTier: tier, healedLocator: generateRobustLocator(element) }
+      : { locatorTier: tier };
+
   // 1. 새로운 locator 시스템 시도
-  if ("locator" in step && step.locator) {
+  if (locator) {
     try {
-      const element = await waitForLocator(step.locator, {
+      const match = await waitForLocatorMatch(locator, {
         timeout: (step as any).timeoutMs || 5000,
         visible: true,
         interactable: true,
       });
-      return { element, usedSelector: step.locator.primary };
+      // 메타데이터 단계로 찾았으면 selector 대신 단계 이름
+      return {
+        element: match.element,
+        usedSelector: match.selector ?? match.tier,
+        healing: healingFor(match.element, match.tier),
+      };
     } catch (error) {
       // Locator로 찾지 못하면 selector로 폴백
       console.warn("Locator failed, falling back to selector", error);
@@ -43,10 +86,14 @@ async function findElement(step: Step): Promise<{
   // 2. 기존 selector 사용 (하위 호환성)
   if ("selector" in step && step.selector) {
     const element = querySelector(step.selector);
-    return { element, usedSelector: step.selector };
+    return {
+      element,
+      usedSelector: step.selector,
+      healing: element ? healingFor(element, "selector") : {},
+    };
   }
 
-  return { element: null, usedSelector: "none" };
+  return { element: null, usedSelector: "none", healing: {} };
 }
 
 /**
@@ -57,7 +104,7 @@ export async function executeClickStep(step: Step): Promise<ExecutionResult> {
     return { success: false, error: "Invalid click step" };
   }
 
-  const { element, usedSelector } = await findElement(step);
+  const { element, usedSelector, healing } = await findElement(step);
   if (!element) {
     return {
       success: false,
@@ -75,7 +122,7 @@ export async function executeClickStep(step: Step): Promise<ExecutionResult> {
 
   try {
     element.click();
-    return { success: true, usedSelector };
+    return { success: true, usedSelector, ...healing };
   } catch (error) {
     return {
       success: false,
@@ -93,7 +140,7 @@ export async function executeTypeStep(step: Step): Promise<ExecutionResult> {
     return { success: false, error: "Invalid type step" };
   }
 
-  const { element, usedSelector } = await findElement(step);
+  const { element, usedSelector, healing } = await findElement(step);
   if (!element) {
     return {
       success: false,
@@ -150,7 +197,7 @@ export async function executeTypeStep(step: Step): Promise<ExecutionResult> {
       }
     }
 
-    return { success: true, usedSelector };
+    return { success: true, usedSelector, ...healing };
   } catch (error) {
     return {
       success: false,
@@ -168,7 +215,7 @@ export async function executeSelectStep(step: Step): Promise<ExecutionResult> {
     return { success: false, error: "Invalid select step" };
   }
 
-  const { element, usedSelector } = await findElement(step);
+  const { element, usedSelector, healing } = await findElement(step);
   if (!element) {
     return {
       success: false,
@@ -194,7 +241,7 @@ export async function executeSelectStep(step: Step): Promise<ExecutionResult> {
   try {
     element.value = step.value;
     element.dispatchEvent(new Event("change", { bubbles: true }));
-    return { success: true, usedSelector };
+    return { success: true, usedSelector, ...healing };
   } catch (error) {
     return {
       success: false,
@@ -204,15 +251,61 @@ export async function executeSelectStep(step: Step): Promise<ExecutionResult> {
   }
 }
 
+/**
+ * 요소에서 extract prop에 해당하는 값 읽기
+ */
+function readExtractValue(
+  element: HTMLElement,
+  prop: ExtractProp,
+  attribute?: string
+): string {
+  switch (prop) {
+    case "value":
+      return "value" in element
+        ? String((element as HTMLInputElement).value)
+        : element.textContent?.trim() || "";
+    case "href":
+      return (
+        (element as HTMLAnchorElement).href ||
+        element.getAttribute("href") ||
+        ""
+      );
+    case "innerHTML":
+      return element.innerHTML;
+    case "outerHTML":
+      return element.outerHTML;
+    case "attribute":
+      return element.getAttribute(attribute || "") ?? "";
+    case "innerText":
+    default:
+      return element.textContent?.trim() || "";
+  }
+}
+
 /**
  * Extract step 실행
+ * multiple이면 selector와 일치하는 모든 요소의 값을 배열로 반환
  */
 export async function executeExtractStep(step: Step): Promise<ExecutionResult> {
   if (step.type !== "extract") {
     return { success: false, error: "Invalid extract step" };
   }
 
-  const { element, usedSelector } = await findElement(step);
+  // prop에 따라 다른 데이터 추출 (기본값: innerText)
+  const prop = step.prop || "innerText";
+
+  if (step.multiple) {
+    const elements = querySelectorAll(step.selector);
+    return {
+      success: true,
+      extractedData: elements.map((element) =>
+        readExtractValue(element, prop, step.attribute)
+      ),
+      usedSelector: step.selector,
+    };
+  }
+
+  const { element, usedSelector, healing } = await findElement(step);
   if (!element) {
     return {
       success: false,
@@ -221,20 +314,8 @@ export async function executeExtractStep(step: Step): Promise<ExecutionResult> {
   }
 
   try {
-    let extractedData: any;
-
-    // prop에 따라 다른 데이터 추출 (기본값: innerText)
-    const prop = step.prop || "innerText";
-
-    if (prop === "value" && "value" in element) {
-      extractedData = (element as HTMLInputElement).value;
-    } else if (prop === "innerText") {
-      extractedData = element.textContent?.trim() || "";
-    } else {
-      extractedData = element.textContent?.trim() || "";
-    }
-
-    return { success: true, extractedData, usedSelector };
+    const extractedData = readExtractValue(element, prop, step.attribute);
+    return { success: true, extractedData, usedSelector, ...healing };
   } catch (error) {
     return {
       success: false,
@@ -301,6 +382,76 @@ export async function executeWaitForStep(step: Step): Promise<ExecutionResult> {
   }
 }
 
+/**
+ * 요소의 현재 상태 읽기 (assert 판정, if/while 조건용)
+ * locator가 있으면 locator로 찾은 요소를, 없으면 selector의 첫 번째 요소를 검사
+ */
+export function readElementState(
+  selector: string | undefined,
+  options: { locator?: ElementLocator; attribute?: string } = {}
+): AssertionState {
+  const state: AssertionState = {
+    url: window.location.href,
+    count: 0,
+    visible: false,
+  };
+  if (!selector) return state;
+
+  const elements = querySelectorAll(selector);
+  const element =
+    (options.locator && findByLocator(options.locator)) || elements[0] || null;
+  state.count = elements.length || (element ? 1 : 0);
+  if (!element) return state;
+
+  state.visible = isVisible(element);
+  state.text = element.textContent?.trim() || "";
+  state.value =
+    "value" in element ? String((element as HTMLInputElement).value) : "";
+  state.attribute = options.attribute
+    ? element.getAttribute(options.attribute)
+    : null;
+  return state;
+}
+
+/**
+ * forEach 대상 요소 목록 (각 요소를 가리키는 고유 selector 포함)
+ */
+export function listLoopElements(selector: string): LoopElement[] {
+  return querySelectorAll(selector).map((element) => ({
+    text: element.textContent?.trim() || "",
+    selector: makeSelector(element),
+  }));
+}
+
+/**
+ * Assert step 실행
+ * 통과할 때까지 timeoutMs 동안 재시도 (기본 5초)
+ */
+export async function executeAssertStep(step: Step): Promise<ExecutionResult> {
+  if (step.type !== "assert") {
+    return { success: false, error: "Invalid assert step" };
+  }
+
+  const usedSelector = step.locator?.primary || step.selector;
+  try {
+    const outcome = await waitForAssertion(step, async () =>
+      readElementState(step.selector, {
+        locator: step.locator,
+        attribute: step.attribute,
+      })
+    );
+    return outcome.passed
+      ? { success: true, usedSelector }
+      : { success: false, error: outcome.message, usedSelector };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Assertion error: ${(error as Error).message}`,
+      usedSelector,
+    };
+  }
+}
+
 /**
  * Step 실행 (타입에 따라 자동 분기)
  */
@@ -317,6 +468,8 @@ export async function executeStep(step: Step): Promise<ExecutionResult> {
         return await executeExtractStep(step);
       case "waitFor":
         return await executeWaitForStep(step);
+      case "assert":
+        return await executeAssertStep(step);
       case "navigate":
         // navigate는 background에서 처리
         return { success: true };
@@ -0,0 +1,182 @@
+import type { Step, TraceEvents, TraceTarget } from "@auto-wiz/core";
+import { querySelector } from "../selectors/selectorGenerator";
+import { resolveLocator } from "../selectors/locatorUtils";
+
+/**
+ * Trace 수집 유틸리티
+ * Step 대상 요소의 위치와 요소를 찾은 locator 단계, 페이지의 콘솔 오류/네트워크 실패 수집
+ */
+
+/**
+ * Step 실행 직전 대상 요소의 위치 (요소가 없거나 대상이 없는 Step이면 null)
+ * locator로 찾지 못하면 step.selector로 찾음 (Step 실행과 같은 순서)
+ */
+export function captureTraceTarget(step: Step): TraceTarget | null {
+  const locator = "locator" in step ? step.locator : undefined;
+  const selector = "selector" in step ? step.selector : undefined;
+
+  let match = locator ? resolveLocator(locator) : null;
+  if (!match && selector) {
+    const element = querySelector(selector);
+    if (element) match = { element, tier: "selector", selector };
+  }
+  if (!match) return null;
+
+  const rect = match.element.getBoundingClientRect();
+  return {
+    boundingBox: {
+      x: rect.left,
+      y: rect.top,
+      width: rect.width,
+      height: rect.height,
+    },
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    locatorTier: match.tier,
+    selector: match.selector,
+  };
+}
+
+/**
+ * 페이지의 콘솔 오류, 처리되지 않은 예외, fetch/XHR/리소스 실패를 수집하는 hook 설치
+ * 페이지 스크립트의 console/fetch를 감싸야 하므로 MAIN world에서 실행
+ * (scripting.executeScript의 func로 전달되므로 모듈의 다른 값을 참조하지 않음)
+ * 이미 설치된 페이지에서는 아무것도 하지 않음 (페이지를 이동하면 다시 설치 필요)
+ */
+export function installTraceEventHooks(): void {
+  const target = window as any;
+  if (target.__autoWizTraceEvents) return;
+
+  // 오래 실행되는 페이지에서 무한히 쌓이지 않도록 종류별 최대 100개
+  const maxEvents = 100;
+  const events: TraceEvents = { consoleErrors: [], networkFailures: [] };
+  target.__autoWizTraceEvents = events;
+
+  const pushConsoleError = (
+    message: string,
+    source: TraceEvents["consoleErrors"][number]["source"]
+  ) => {
+    if (events.consoleErrors.length >= maxEvents) return;
+    events.consoleErrors.push({ message, source, timestamp: Date.now() });
+  };
+  const pushNetworkFailure = (
+    failure: Omit<TraceEvents["networkFailures"][number], "timestamp">
+  ) => {
+    if (events.networkFailures.length >= maxEvents) return;
+    events.networkFailures.push({ ...failure, timestamp: Date.now() });
+  };
+  const format = (value: unknown): string => {
+    if (value instanceof Error) return value.message;
+    if (typeof value === "string") return value;
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const originalError = console.error;
+  console.error = function (...args: unknown[]) {
+    pushConsoleError(args.map(format).join(" "), "console");
+    return originalError.apply(this, args);
+  };
+
+  // 리소스 로드 실패는 버블링되지 않으므로 capture 단계에서 수신
+  window.addEventListener(
+    "error",
+    (event) => {
+      const element = event.target;
+      if (element instanceof Element) {
+        pushNetworkFailure({
+          url:
+            element.getAttribute("src") || element.getAttribute("href") || "",
+          kind: "resource",
+          error: `Failed to load <${element.tagName.toLowerCase()}>`,
+        });
+        return;
+      }
+      pushConsoleError(
+        event.error ? format(event.error) : event.message || "Script error",
+        "exception"
+      );
+    },
+    true
+  );
+  window.addEventListener("unhandledrejection", (event) => {
+    pushConsoleError(format(event.reason), "rejection");
+  });
+
+  const originalFetch = window.fetch;
+  window.fetch = async function (input, init) {
+    const url =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+        ? input.href
+        : input.url;
+    const method =
+      init?.method || (input instanceof Request ? input.method : "GET");
+    try {
+      const response = await originalFetch.call(this, input, init);
+      if (!response.ok) {
+        pushNetworkFailure({
+          url,
+          method,
+          kind: "fetch",
+          status: response.status,
+        });
+      }
+      return response;
+    } catch (error) {
+      pushNetworkFailure({ url, method, kind: "fetch", error: format(error) });
+      throw error;
+    }
+  };
+
+  const originalOpen = XMLHttpRequest.prototype.open;
+  const originalSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function (
+    this: XMLHttpRequest & {
+      __autoWizRequest?: { method: string; url: string };
+    },
+    method: string,
+    url: string | URL,
+    ...rest: any[]
+  ) {
+    this.__autoWizRequest = { method, url: String(url) };
+    return (originalOpen as any).call(this, method, url, ...rest);
+  };
+  XMLHttpRequest.prototype.send = function (
+    this: XMLHttpRequest & {
+      __autoWizRequest?: { method: string; url: string };
+    },
+    body?: Document | XMLHttpRequestBodyInit | null
+  ) {
+    const request = this.__autoWizRequest;
+    if (request) {
+      this.addEventListener("loadend", () => {
+        if (this.status === 0) {
+          pushNetworkFailure({
+            ...request,
+            kind: "xhr",
+            error: "Network error",
+          });
+        } else if (this.status >= 400) {
+          pushNetworkFailure({ ...request, kind: "xhr", status: this.status });
+        }
+      });
+    }
+    return originalSend.call(this, body);
+  };
+}
+
+/**
+ * installTraceEventHooks 이후 수집된 이벤트를 꺼내고 비움 (MAIN world에서 실행)
+ */
+export function drainTraceEvents(): TraceEvents {
+  const events: TraceEvents | undefined = (window as any).__autoWizTraceEvents;
+  if (!events) return { consoleErrors: [], networkFailures: [] };
+  return {
+    consoleErrors: events.consoleErrors.splice(0),
+    networkFailures: events.networkFailures.splice(0),
+  };
+}
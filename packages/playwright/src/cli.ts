@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "fs";
+import { generatePlaywrightTest, runCodegenCli } from "@auto-wiz/core";
+
+/**
+ * Flow 파일을 @playwright/test spec으로 변환하는 CLI
+ *
+ * 사용법: auto-wiz-playwright-codegen <flow.json> [--out <file.spec.ts>] [--flow <id|title>]
+ * 인자 해석과 오류 처리는 core의 runCodegenCli가 담당
+ */
+
+const USAGE =
+  "Usage: auto-wiz-playwright-codegen <flow.json> [--out <file.spec.ts>] [--flow <id|title>]";
+
+process.exitCode = runCodegenCli(
+  { generate: generatePlaywrightTest, usage: USAGE },
+  process.argv.slice(2),
+  {
+    readFile: (path) => readFileSync(path, "utf8"),
+    writeFile: (path, content) => writeFileSync(path, content),
+    write: (text) => process.stdout.write(text),
+  }
+);
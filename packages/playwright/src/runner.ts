@@ -6,9 +6,70 @@ import {
   type Flow,
   type Step,
   type ElementLocator,
+  type ExtractProp,
+  type AssertionState,
+  type ControlFlowHandlers,
+  type ControlFlowScope,
+  type LoopElement,
+  type LocatorStrategy,
+  resolveFlowVariables,
+  resolveFlowSecrets,
+  resolveVariableValues,
+  waitForAssertion,
+  isCompositeStep,
+  runCompositeStep,
+  loadSubFlow,
+  runFlowSteps,
+  withFlowDefaults,
+  withRunnerOptions,
+  DEFAULT_STEP_TIMEOUT,
+  locatorStrategies,
+  describeLocatorStrategy,
+  toPlaywrightSelector,
 } from "@auto-wiz/core";
 import { Page, Locator } from "playwright";
 
+// 요소를 찾을 때 전략 목록을 다시 시도하는 간격
+const LOCATOR_POLL_INTERVAL = 100;
+
+// waitForNavigation 스텝의 기본 대기 시간 (확장 프로그램과 동일)
+const NAVIGATION_TIMEOUT = 10000;
+
+// 요소가 보여야 하는지(visible), DOM에 있기만 하면 되는지(attached)
+type LocatorState = "visible" | "attached";
+
+interface ResolvedLocator {
+  locator: Locator;
+  usedSelector: string; // 일치한 전략의 설명
+}
+
+/**
+ * 요소에서 extract prop에 해당하는 값 읽기
+ * (브라우저 컨텍스트에서 직렬화되어 실행되므로 외부 참조 없이 작성)
+ */
+function readExtractValue(
+  el: Element,
+  [prop, attribute]: [ExtractProp, string | undefined]
+): string {
+  switch (prop) {
+    case "value":
+      return "value" in el
+        ? String((el as HTMLInputElement).value)
+        : el.textContent?.trim() || "";
+    case "href":
+      return (el as HTMLAnchorElement).href || el.getAttribute("href") || "";
+    case "innerHTML":
+      return el.innerHTML;
+    case "outerHTML":
+      return el.outerHTML;
+    case "attribute":
+      return el.getAttribute(attribute || "") ?? "";
+    case "innerText":
+    default:
+      return el.textContent?.trim() || "";
+  }
+}
+
 export class PlaywrightFlowRunner implements FlowRunner<Page> {
   async run(
     flow: Flow,
@@ -16,37 +77,32 @@ export class PlaywrightFlowRunner implements FlowRunner<Page> {
     options: RunnerOptions = {}
   ): Promise<RunResult> {
     const extractedData: Record<string, any> = {};
-
-    for (const [index, step] of flow.steps.entries()) {
-      try {
-        const result = await this.runStep(step, page, options);
-
-        if (!result.success) {
-          // Playwright usually throws, but if we catch it:
-          if (options.stopOnError !== false) {
-            return {
-              success: false,
-              error: result.error,
-              failedStepIndex: index,
-              extractedData,
-            };
-          }
-        }
-
-        if (result.extractedData) {
-          extractedData[`step_${index}`] = result.extractedData;
-        }
-      } catch (error) {
-        return {
-          success: false,
-          error: (error as Error).message,
-          failedStepIndex: index,
-          extractedData,
-        };
-      }
+    // {{name}} placeholder와 시크릿 참조를 실행 전에 치환
+    let steps: Step[];
+    try {
+      const resolved = await resolveFlowSecrets(
+        resolveFlowVariables(flow, options.variables),
+        options.resolveSecret
+      );
+      steps = resolved.steps;
+    } catch (error) {
+      return { success: false, error: (error as Error).message, extractedData };
     }
 
-    return { success: true, extractedData };
+    // 제어 흐름 스텝의 반복 변수와 중첩 extract 결과를 공유하는 scope
+    const scope: ControlFlowScope = {
+      variables: resolveVariableValues(flow, options.variables),
+      extractedData,
+      callStack: [flow.id],
+    };
+
+    const handlers = this.controlFlowHandlers(page, options);
+    return runFlowSteps(
+      steps,
+      () => handlers,
+      scope,
+      withFlowDefaults(flow, options)
+    );
   }
 
   async runStep(
@@ -54,7 +110,25 @@ export class PlaywrightFlowRunner implements FlowRunner<Page> {
     page: Page,
     options: RunnerOptions = {}
   ): Promise<ExecutionResult> {
-    const timeout = options.timeout || 5000;
+    const timeout =
+      ("timeoutMs" in step && step.timeoutMs) ||
+      options.timeout ||
+      DEFAULT_STEP_TIMEOUT;
+    let usedSelector: string | undefined;
+    const locate = async (state: LocatorState) => {
+      const resolved = await this.resolveLocator(page, step, state, timeout);
+      usedSelector = resolved.usedSelector;
+      return resolved.locator;
+    };
+
+    // 제어 흐름/callFlow 스텝을 단독으로 실행하면 변수 없이 새 scope 사용
+    if (isCompositeStep(step)) {
+      return runCompositeStep(
+        step,
+        withRunnerOptions(this.controlFlowHandlers(page, options), options),
+        { variables: {}, extractedData: {} }
+      );
+    }
 
     try {
       switch (step.type) {
@@ -65,14 +139,14 @@ export class PlaywrightFlowRunner implements FlowRunner<Page> {
           break;
 
         case "click": {
-          const locator = this.getLocator(page, step);
+          const locator = await locate("visible");
           await locator.click({ timeout });
           break;
         }
 
         case "type": {
-          const locator = this.getLocator(page, step);
-          const text = step.text || (step as any).originalText || "";
+          const locator = await locate("visible");
+          const text = step.originalText || step.text || "";
           await locator.fill(text, { timeout });
           if (step.submit) {
             await locator.press("Enter");
@@ -81,7 +155,7 @@ export class PlaywrightFlowRunner implements FlowRunner<Page> {
         }
 
         case "select": {
-          const locator = this.getLocator(page, step);
+          const locator = await locate("visible");
           if (step.value) {
             await locator.selectOption(step.value, { timeout });
           }
@@ -89,38 +163,235 @@ export class PlaywrightFlowRunner implements FlowRunner<Page> {
         }
 
         case "extract": {
-          const locator = this.getLocator(page, step);
-          const text = await locator.textContent({ timeout });
-          return { success: true, extractedData: text?.trim() };
+          const args: [ExtractProp, string | undefined] = [
+            step.prop || "innerText",
+            step.attribute,
+          ];
+
+          // multiple: selector와 일치하는 모든 요소의 값을 배열로 추출
+          if (step.multiple) {
+            const elements = await page
+              .locator(toPlaywrightSelector(step.selector))
+              .all();
+            const values = await Promise.all(
+              elements.map((element) =>
+                element.evaluate(readExtractValue, args)
+              )
+            );
+            return { success: true, extractedData: values };
+          }
+
+          const locator = await locate("attached");
+          const value = await locator.evaluate(readExtractValue, args, {
+            timeout,
+          });
+          return { success: true, extractedData: value, usedSelector };
+        }
+
+        case "assert": {
+          const outcome = await waitForAssertion(
+            step,
+            () =>
+              this.readElementState(page, step.selector, {
+                locator: step.locator,
+                attribute: step.attribute,
+              }),
+            timeout
+          );
+          if (!outcome.passed) {
+            return { success: false, error: outcome.message };
+          }
+          break;
         }
 
         case "waitFor": {
           if (step.selector || step.locator) {
-            const locator = this.getLocator(page, step);
-            await locator.waitFor({
-              state: "visible",
-              timeout: step.timeoutMs || timeout,
-            });
+            await locate("visible");
           } else if (step.timeoutMs) {
             await page.waitForTimeout(step.timeoutMs);
           }
           break;
         }
+
+        case "waitForNavigation":
+          // 확장 프로그램과 같이 페이지 로드가 끝날 때까지 대기
+          await page.waitForLoadState("load", {
+            timeout: step.timeoutMs ?? NAVIGATION_TIMEOUT,
+          });
+          break;
+
+        case "screenshot": {
+          // 요소 스크린샷을 data URL로 결과에 저장 (기록 시 step.screenshot과 같은 형식)
+          const locator = await locate("visible");
+          const image = await locator.screenshot({ timeout });
+          return {
+            success: true,
+            extractedData: `data:image/png;base64,${image.toString("base64")}`,
+            usedSelector,
+          };
+        }
+
+        default:
+          return {
+            success: false,
+            error: `Unknown step type: ${(step as Step).type}`,
+          };
       }
-      return { success: true };
+      return { success: true, usedSelector };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return { success: false, error: (error as Error).message, usedSelector };
+    }
+  }
+
+  /**
+   * 요소의 현재 상태 읽기 (assert 판정, if/while 조건용, 대기 없이 즉시)
+   * locator가 있으면 fallback과 metadata까지 시도해 찾은 요소를 검사
+   */
+  private async readElementState(
+    page: Page,
+    selector: string | undefined,
+    options: { locator?: ElementLocator; attribute?: string } = {}
+  ): Promise<AssertionState> {
+    const state: AssertionState = {
+      url: page.url(),
+      count: 0,
+      visible: false,
+    };
+    if (!selector) return state;
+
+    state.count = await page.locator(toPlaywrightSelector(selector)).count();
+    const found = await this.findLocator(
+      page,
+      locatorStrategies({ selector, locator: options.locator }),
+      "attached"
+    );
+    if (!found) return state;
+
+    const { locator } = found;
+
+    const snapshot = await locator.evaluate(
+      (el, attribute) => ({
+        text: el.textContent?.trim() || "",
+        value: "value" in el ? String((el as HTMLInputElement).value) : "",
+        attribute: attribute ? el.getAttribute(attribute) : null,
+      }),
+      options.attribute
+    );
+    return {
+      ...state,
+      ...snapshot,
+      count: Math.max(state.count, 1),
+      visible: await locator.isVisible(),
+    };
+  }
+
+  /**
+   * forEach 대상 요소 목록 (nth selector로 각 요소를 가리킴)
+   */
+  private async listElements(
+    page: Page,
+    selector: string
+  ): Promise<LoopElement[]> {
+    const elements = await page.locator(toPlaywrightSelector(selector)).all();
+    return Promise.all(
+      elements.map(async (element, index) => ({
+        text: ((await element.textContent()) || "").trim(),
+        selector: `${selector} >> nth=${index}`,
+      }))
+    );
+  }
+
+  private controlFlowHandlers(
+    page: Page,
+    options: RunnerOptions
+  ): ControlFlowHandlers {
+    return {
+      runStep: (step) => this.runStep(step, page, options),
+      readState: (selector) => this.readElementState(page, selector),
+      listElements: (selector) => this.listElements(page, selector),
+      loadFlow: (flowId) => loadSubFlow(flowId, options),
+    };
+  }
+
+  /**
+   * 전략을 Playwright locator로 변환
+   */
+  private strategyLocator(page: Page, strategy: LocatorStrategy): Locator {
+    switch (strategy.kind) {
+      case "css":
+        return page.locator(toPlaywrightSelector(strategy.selector));
+      case "xpath":
+        return page.locator(`xpath=${strategy.xpath}`);
+      case "testId":
+        return page.getByTestId(strategy.testId);
+      case "role":
+        return page.getByRole(
+          strategy.role as Parameters<Page["getByRole"]>[0],
+          { name: strategy.name, exact: true }
+        );
+      case "text":
+        return page.getByText(strategy.text, { exact: true });
+      case "placeholder":
+        return page.getByPlaceholder(strategy.placeholder, { exact: true });
+      case "label":
+        return page.getByLabel(strategy.label, { exact: true });
+    }
+  }
+
+  /**
+   * 전략을 순서대로 한 번씩 시도해 처음 일치한 요소 (없으면 null)
+   * 잘못된 selector 등으로 실패한 전략은 건너뜀
+   */
+  private async findLocator(
+    page: Page,
+    strategies: LocatorStrategy[],
+    state: LocatorState
+  ): Promise<ResolvedLocator | null> {
+    for (const strategy of strategies) {
+      const locator = this.strategyLocator(page, strategy).first();
+      try {
+        const matched =
+          state === "visible"
+            ? await locator.isVisible()
+            : (await locator.count()) > 0;
+        if (matched) {
+          return { locator, usedSelector: describeLocatorStrategy(strategy) };
+        }
+      } catch {
+        // 다음 전략 시도
+      }
     }
+    return null;
   }
 
-  private getLocator(page: Page, step: Step): Locator {
-    if ("locator" in step && step.locator) {
-      const { primary } = step.locator as ElementLocator;
-      return page.locator(primary).first();
+  /**
+   * Step이 다루는 요소 찾기 (primary > fallbacks > metadata 순, timeout까지 재시도)
+   */
+  private async resolveLocator(
+    page: Page,
+    step: Step,
+    state: LocatorState,
+    timeout: number
+  ): Promise<ResolvedLocator> {
+    const strategies = locatorStrategies({
+      selector: "selector" in step ? step.selector : undefined,
+      locator: "locator" in step ? (step.locator as ElementLocator) : undefined,
+    });
+    if (strategies.length === 0) {
+      throw new Error(`Step ${step.type} requires a selector or locator`);
     }
-    if ("selector" in step && step.selector) {
-      return page.locator(step.selector).first();
+
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const found = await this.findLocator(page, strategies, state);
+      if (found) return found;
+      if (Date.now() >= deadline) break;
+      await page.waitForTimeout(LOCATOR_POLL_INTERVAL);
     }
-    throw new Error(`Step ${step.type} requires a selector or locator`);
+    throw new Error(
+      `Element not found with selector: ${strategies
+        .map(describeLocatorStrategy)
+        .join(", ")}`
+    );
   }
 }
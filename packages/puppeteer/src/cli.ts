@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "fs";
+import { generatePuppeteerScript, runCodegenCli } from "@auto-wiz/core";
+
+/**
+ * Flow 파일을 단독 실행 가능한 Puppeteer 스크립트로 변환하는 CLI
+ *
+ * 사용법: auto-wiz-puppeteer-codegen <flow.json> [--out <script.ts>] [--flow <id|title>]
+ * 인자 해석과 오류 처리는 core의 runCodegenCli가 담당
+ */
+
+const USAGE =
+  "Usage: auto-wiz-puppeteer-codegen <flow.json> [--out <script.ts>] [--flow <id|title>]";
+
+process.exitCode = runCodegenCli(
+  { generate: generatePuppeteerScript, usage: USAGE },
+  process.argv.slice(2),
+  {
+    readFile: (path) => readFileSync(path, "utf8"),
+    writeFile: (path, content) => writeFileSync(path, content),
+    write: (text) => process.stdout.write(text),
+  }
+);
@@ -0,0 +1,22 @@
+import type { ConformanceHarness } from "@auto-wiz/core";
+import type { Browser, Page } from "puppeteer";
+import { PuppeteerFlowRunner } from "./runner";
+
+/**
+ * PuppeteerFlowRunner를 conformance 케이스에 연결하는 harness
+ * 케이스마다 새 페이지를 열어 로컬 서버(startConformanceServer)의 fixture 페이지로 이동
+ */
+export function createPuppeteerConformanceHarness(
+  browser: Browser,
+  baseUrl: string
+): ConformanceHarness<Page> {
+  return {
+    runner: new PuppeteerFlowRunner(),
+    openPage: async (fixture) => {
+      const page = await browser.newPage();
+      await page.goto(new URL(fixture.path, baseUrl).toString());
+      return page;
+    },
+    closePage: (page) => page.close(),
+  };
+}
@@ -6,9 +6,232 @@ import {
   type Flow,
   type Step,
   type ElementLocator,
+  type ExtractProp,
+  type AssertionState,
+  type ControlFlowHandlers,
+  type ControlFlowScope,
+  type LoopElement,
+  type LocatorStrategy,
+  resolveFlowVariables,
+  resolveFlowSecrets,
+  resolveVariableValues,
+  waitForAssertion,
+  isCompositeStep,
+  runCompositeStep,
+  loadSubFlow,
+  runFlowSteps,
+  withFlowDefaults,
+  withRunnerOptions,
+  DEFAULT_STEP_TIMEOUT,
+  locatorStrategies,
+  describeLocatorStrategy,
+  toPuppeteerSelector,
 } from "@auto-wiz/core";
 import { Page, ElementHandle } from "puppeteer";
 
+// 요소를 찾을 때 전략 목록을 다시 시도하는 간격
+const LOCATOR_POLL_INTERVAL = 100;
+
+// waitForNavigation 스텝의 기본 대기 시간 (확장 프로그램과 동일)
+const NAVIGATION_TIMEOUT = 10000;
+
+// 요소가 보여야 하는지(visible), DOM에 있기만 하면 되는지(attached)
+type LocatorState = "visible" | "attached";
+
+interface ResolvedElement {
+  element: ElementHandle<Element>;
+  usedSelector: string; // 일치한 전략의 설명
+}
+
+// CSS 속성 selector 값으로 쓸 수 있게 문자열 인용
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+// DOM의 findByTestId와 같은 속성 (앞에 있는 속성이 우선)
+const TEST_ID_ATTRIBUTES = [
+  "data-testid",
+  "data-test",
+  "data-cy",
+  "data-test-id",
+];
+
+// selector 하나로 찾는 전략 (testId와 text는 DOM Runner 규칙에 맞춰 따로 찾음)
+type SelectorStrategy = Exclude<LocatorStrategy, { kind: "testId" | "text" }>;
+
+/**
+ * 전략을 Puppeteer selector로 변환
+ * XPath와 metadata 전략은 P-selector(::-p-xpath, ::-p-aria)와 속성 selector 사용
+ */
+function strategySelector(strategy: SelectorStrategy): string {
+  switch (strategy.kind) {
+    case "css":
+      return strategy.selector;
+    case "xpath":
+      return `::-p-xpath(${quote(strategy.xpath)})`;
+    case "role":
+      return `::-p-aria([name=${quote(strategy.name)}][role=${quote(
+        strategy.role
+      )}])`;
+    case "placeholder":
+      return `[placeholder=${quote(strategy.placeholder)}]`;
+    case "label":
+      return `::-p-aria(${quote(strategy.label)})`;
+  }
+}
+
+/**
+ * DOM Runner의 텍스트 매칭(findByText + resolveLocator)과 같은 규칙으로 요소 찾기
+ * 공백/대소문자를 무시한 완전 일치, 자식 요소가 있으면 직접 텍스트로 비교,
+ * role이 있으면 role이 같은 요소만, tagName이 같은 요소 우선
+ * (브라우저 컨텍스트에서 직렬화되어 실행되므로 외부 참조 없이 작성)
+ */
+function findTextElement({
+  text,
+  role,
+  tagName,
+}: {
+  text: string;
+  role?: string;
+  tagName?: string;
+}): HTMLElement | null {
+  const normalize = (value: string) =>
+    value.toLowerCase().replace(/\s+/g, " ").trim();
+
+  const implicitRole = (el: HTMLElement): string | null => {
+    const type = el.getAttribute("type");
+    const input =
+      type === "text" || !type
+        ? "textbox"
+        : type === "checkbox"
+        ? "checkbox"
+        : type === "radio"
+        ? "radio"
+        : type === "button" || type === "submit"
+        ? "button"
+        : "";
+    const roles: Record<string, string> = {
+      a: el.hasAttribute("href") ? "link" : "",
+      button: "button",
+      input,
+      textarea: "textbox",
+      select: "combobox",
+      img: "img",
+      h1: "heading",
+      h2: "heading",
+      h3: "heading",
+      h4: "heading",
+      h5: "heading",
+      h6: "heading",
+      nav: "navigation",
+      main: "main",
+      aside: "complementary",
+      header: "banner",
+      footer: "contentinfo",
+      section: "region",
+      article: "article",
+      form: "form",
+      table: "table",
+      ul: "list",
+      ol: "list",
+      li: "listitem",
+    };
+    return roles[el.tagName.toLowerCase()] || null;
+  };
+
+  const accessibleName = (el: HTMLElement): string => {
+    const ariaLabel = el.getAttribute("aria-label");
+    if (ariaLabel) return ariaLabel;
+    const labelledby = el.getAttribute("aria-labelledby");
+    const labelEl = labelledby ? document.getElementById(labelledby) : null;
+    if (labelEl) return labelEl.textContent?.trim() || "";
+    if (
+      el instanceof HTMLInputElement ||
+      el instanceof HTMLTextAreaElement ||
+      el instanceof HTMLSelectElement
+    ) {
+      const label =
+        (el.id && document.querySelector(`label[for="${el.id}"]`)) ||
+        el.closest("label");
+      if (label) return label.textContent?.trim() || "";
+    }
+    if (el instanceof HTMLImageElement) return el.alt;
+    return (
+      el.getAttribute("placeholder") ||
+      el.getAttribute("title") ||
+      el.textContent?.trim() ||
+      ""
+    );
+  };
+
+  const matches: HTMLElement[] = [];
+  for (const el of Array.from(document.body.querySelectorAll("*"))) {
+    if (!(el instanceof HTMLElement)) continue;
+    if (role && (el.getAttribute("role") || implicitRole(el)) !== role) {
+      continue;
+    }
+
+    let elementText = accessibleName(el) || el.textContent || "";
+    if (el.children.length > 0) {
+      const directText = Array.from(el.childNodes)
+        .filter((node) => node.nodeType === Node.TEXT_NODE)
+        .map((node) => node.textContent || "")
+        .join("");
+      if (directText.trim()) elementText = directText;
+    }
+    if (normalize(elementText) === normalize(text)) matches.push(el);
+  }
+
+  return (
+    (tagName && matches.find((el) => el.tagName.toLowerCase() === tagName)) ||
+    matches[0] ||
+    null
+  );
+}
+
+/**
+ * 요소에서 extract prop에 해당하는 값 읽기
+ * (브라우저 컨텍스트에서 직렬화되어 실행되므로 외부 참조 없이 작성)
+ */
+function readExtractValue(
+  el: Element,
+  [prop, attribute]: [ExtractProp, string | undefined]
+): string {
+  switch (prop) {
+    case "value":
+      return "value" in el
+        ? String((el as HTMLInputElement).value)
+        : el.textContent?.trim() || "";
+    case "href":
+      return (el as HTMLAnchorElement).href || el.getAttribute("href") || "";
+    case "innerHTML":
+      return el.innerHTML;
+    case "outerHTML":
+      return el.outerHTML;
+    case "attribute":
+      return el.getAttribute(attribute || "") ?? "";
+    case "innerText":
+    default:
+      return el.textContent?.trim() || "";
+  }
+}
+
+/**
+ * 요소 하나만 가리키는 :nth-child 경로 selector 생성
+ * (브라우저 컨텍스트에서 직렬화되어 실행되므로 외부 참조 없이 작성)
+ */
+function buildElementPath(el: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = el;
+  while (current && current.parentElement) {
+    const index =
+      Array.from(current.parentElement.children).indexOf(current) + 1;
+    segments.unshift(`${current.tagName.toLowerCase()}:nth-child(${index})`);
+    current = current.parentElement;
+  }
+  return segments.length > 0 ? `html > ${segments.join(" > ")}` : "html";
+}
+
 export class PuppeteerFlowRunner implements FlowRunner<Page> {
   async run(
     flow: Flow,
@@ -16,36 +239,32 @@ export class PuppeteerFlowRunner implements FlowRunner<Page> {
     options: RunnerOptions = {}
   ): Promise<RunResult> {
     const extractedData: Record<string, any> = {};
-
-    for (const [index, step] of flow.steps.entries()) {
-      try {
-        const result = await this.runStep(step, page, options);
-
-        if (!result.success) {
-          if (options.stopOnError !== false) {
-            return {
-              success: false,
-              error: result.error,
-              failedStepIndex: index,
-              extractedData,
-            };
-          }
-        }
-
-        if (result.extractedData) {
-          extractedData[`step_${index}`] = result.extractedData;
-        }
-      } catch (error) {
-        return {
-          success: false,
-          error: (error as Error).message,
-          failedStepIndex: index,
-          extractedData,
-        };
-      }
+    // {{name}} placeholder와 시크릿 참조를 실행 전에 치환
+    let steps: Step[];
+    try {
+      const resolved = await resolveFlowSecrets(
+        resolveFlowVariables(flow, options.variables),
+        options.resolveSecret
+      );
+      steps = resolved.steps;
+    } catch (error) {
+      return { success: false, error: (error as Error).message, extractedData };
     }
 
-    return { success: true, extractedData };
+    // 제어 흐름 스텝의 반복 변수와 중첩 extract 결과를 공유하는 scope
+    const scope: ControlFlowScope = {
+      variables: resolveVariableValues(flow, options.variables),
+      extractedData,
+      callStack: [flow.id],
+    };
+
+    const handlers = this.controlFlowHandlers(page, options);
+    return runFlowSteps(
+      steps,
+      () => handlers,
+      scope,
+      withFlowDefaults(flow, options)
+    );
   }
 
   async runStep(
@@ -53,7 +272,25 @@ export class PuppeteerFlowRunner implements FlowRunner<Page> {
     page: Page,
     options: RunnerOptions = {}
   ): Promise<ExecutionResult> {
-    const timeout = options.timeout || 5000;
+    const timeout =
+      ("timeoutMs" in step && step.timeoutMs) ||
+      options.timeout ||
+      DEFAULT_STEP_TIMEOUT;
+    let usedSelector: string | undefined;
+    const locate = async (state: LocatorState) => {
+      const resolved = await this.resolveElement(page, step, state, timeout);
+      usedSelector = resolved.usedSelector;
+      return resolved.element;
+    };
+
+    // 제어 흐름/callFlow 스텝을 단독으로 실행하면 변수 없이 새 scope 사용
+    if (isCompositeStep(step)) {
+      return runCompositeStep(
+        step,
+        withRunnerOptions(this.controlFlowHandlers(page, options), options),
+        { variables: {}, extractedData: {} }
+      );
+    }
 
     try {
       switch (step.type) {
@@ -64,14 +301,18 @@ export class PuppeteerFlowRunner implements FlowRunner<Page> {
           break;
 
         case "click": {
-          const el = await this.getElement(page, step, timeout);
+          const el = await locate("visible");
           await el.click();
           break;
         }
 
         case "type": {
-          const el = await this.getElement(page, step, timeout);
-          const text = step.text || (step as any).originalText || "";
+          const el = await locate("visible");
+          const text = step.originalText || step.text || "";
+          // DOM Runner와 같이 기존 값을 바꿔서 입력
+          await el.evaluate((input) => {
+            if ("value" in input) (input as HTMLInputElement).value = "";
+          });
           await el.type(text);
           if (step.submit) {
             await page.keyboard.press("Enter");
@@ -80,66 +321,244 @@ export class PuppeteerFlowRunner implements FlowRunner<Page> {
         }
 
         case "select": {
-          const selector = this.getSelector(step);
-          // Puppeteer select uses selector string, not element handle usually
+          const el = await locate("visible");
           if (step.value) {
-            // Need to wait for it first
-            await page.waitForSelector(selector, { timeout });
-            await page.select(selector, step.value);
+            await el.select(step.value);
           }
           break;
         }
 
         case "extract": {
-          const selector = this.getSelector(step);
-          await page.waitForSelector(selector, { timeout });
+          const args: [ExtractProp, string | undefined] = [
+            step.prop || "innerText",
+            step.attribute,
+          ];
+
+          // multiple: selector와 일치하는 모든 요소의 값을 배열로 추출
+          if (step.multiple) {
+            const elements = await page.$$(toPuppeteerSelector(step.selector));
+            const values = await Promise.all(
+              elements.map((element) =>
+                element.evaluate(readExtractValue, args)
+              )
+            );
+            return { success: true, extractedData: values };
+          }
 
-          // Extract text
-          const text = await page.$eval(selector, (el) => el.textContent);
-          return { success: true, extractedData: text?.trim() };
+          const el = await locate("attached");
+          const value = await el.evaluate(readExtractValue, args);
+          return { success: true, extractedData: value, usedSelector };
+        }
+
+        case "assert": {
+          const outcome = await waitForAssertion(
+            step,
+            () =>
+              this.readElementState(page, step.selector, {
+                locator: step.locator,
+                attribute: step.attribute,
+              }),
+            timeout
+          );
+          if (!outcome.passed) {
+            return { success: false, error: outcome.message };
+          }
+          break;
         }
 
         case "waitFor": {
           if (step.selector || step.locator) {
-            const selector = this.getSelector(step);
-            await page.waitForSelector(selector, {
-              visible: true,
-              timeout: step.timeoutMs || timeout,
-            });
+            await locate("visible");
           } else if (step.timeoutMs) {
             await new Promise((r) => setTimeout(r, step.timeoutMs));
           }
           break;
         }
+
+        case "waitForNavigation":
+          // 확장 프로그램과 같이 페이지 로드가 끝날 때까지 대기
+          await page.waitForFunction(() => document.readyState === "complete", {
+            timeout: step.timeoutMs ?? NAVIGATION_TIMEOUT,
+          });
+          break;
+
+        case "screenshot": {
+          // 요소 스크린샷을 data URL로 결과에 저장 (기록 시 step.screenshot과 같은 형식)
+          const el = await locate("visible");
+          const image = await el.screenshot({ encoding: "base64" });
+          return {
+            success: true,
+            extractedData: `data:image/png;base64,${image}`,
+            usedSelector,
+          };
+        }
+
+        default:
+          return {
+            success: false,
+            error: `Unknown step type: ${(step as Step).type}`,
+          };
       }
-      return { success: true };
+      return { success: true, usedSelector };
     } catch (error) {
-      return { success: false, error: (error as Error).message };
+      return { success: false, error: (error as Error).message, usedSelector };
     }
   }
 
-  private getSelector(step: Step): string {
-    if ("locator" in step && step.locator) {
-      const { primary } = step.locator as ElementLocator;
-      return primary;
+  /**
+   * 요소의 현재 상태 읽기 (assert 판정, if/while 조건용, 대기 없이 즉시)
+   * locator가 있으면 fallback과 metadata까지 시도해 찾은 요소를 검사
+   */
+  private async readElementState(
+    page: Page,
+    selector: string | undefined,
+    options: { locator?: ElementLocator; attribute?: string } = {}
+  ): Promise<AssertionState> {
+    const state: AssertionState = {
+      url: page.url(),
+      count: 0,
+      visible: false,
+    };
+    if (!selector) return state;
+
+    const elements = await page.$$(toPuppeteerSelector(selector));
+    const element = (
+      await this.findElement(
+        page,
+        locatorStrategies({ selector, locator: options.locator }),
+        "attached"
+      )
+    )?.element;
+    state.count = elements.length || (element ? 1 : 0);
+    if (!element) return state;
+
+    const snapshot = await element.evaluate((el, attribute) => {
+      const style = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      return {
+        visible:
+          style.display !== "none" &&
+          style.visibility !== "hidden" &&
+          style.opacity !== "0" &&
+          rect.width > 0 &&
+          rect.height > 0,
+        text: el.textContent?.trim() || "",
+        value: "value" in el ? String((el as HTMLInputElement).value) : "",
+        attribute: attribute ? el.getAttribute(attribute) : null,
+      };
+    }, options.attribute);
+    return { ...state, ...snapshot };
+  }
+
+  /**
+   * forEach 대상 요소 목록 (각 요소를 가리키는 :nth-child 경로 포함)
+   */
+  private async listElements(
+    page: Page,
+    selector: string
+  ): Promise<LoopElement[]> {
+    const elements = await page.$$(toPuppeteerSelector(selector));
+    return Promise.all(
+      elements.map(async (element) => ({
+        text: await element.evaluate((el) => el.textContent?.trim() || ""),
+        selector: await element.evaluate(buildElementPath),
+      }))
+    );
+  }
+
+  private controlFlowHandlers(
+    page: Page,
+    options: RunnerOptions
+  ): ControlFlowHandlers {
+    return {
+      runStep: (step) => this.runStep(step, page, options),
+      readState: (selector) => this.readElementState(page, selector),
+      listElements: (selector) => this.listElements(page, selector),
+      loadFlow: (flowId) => loadSubFlow(flowId, options),
+    };
+  }
+
+  /**
+   * 전략과 일치하는 첫 요소 (없으면 null)
+   * testId는 속성 우선순위대로 시도하고 text는 DOM Runner와 같은 규칙으로 페이지에서 찾음
+   */
+  private async queryStrategy(
+    page: Page,
+    strategy: LocatorStrategy
+  ): Promise<ElementHandle<Element> | null> {
+    switch (strategy.kind) {
+      case "testId":
+        for (const attribute of TEST_ID_ATTRIBUTES) {
+          const element = await page.$(
+            `[${attribute}=${quote(strategy.testId)}]`
+          );
+          if (element) return element;
+        }
+        return null;
+      case "text": {
+        const handle = await page.evaluateHandle(findTextElement, strategy);
+        const element = handle.asElement();
+        if (!element) await handle.dispose();
+        return element as ElementHandle<Element> | null;
+      }
+      default:
+        return page.$(strategySelector(strategy));
     }
-    if ("selector" in step && step.selector) {
-      return step.selector;
+  }
+
+  /**
+   * 전략을 순서대로 한 번씩 시도해 처음 일치한 요소 (없으면 null)
+   * 잘못된 selector 등으로 실패한 전략은 건너뜀
+   */
+  private async findElement(
+    page: Page,
+    strategies: LocatorStrategy[],
+    state: LocatorState
+  ): Promise<ResolvedElement | null> {
+    for (const strategy of strategies) {
+      try {
+        const element = await this.queryStrategy(page, strategy);
+        if (!element) continue;
+        if (state === "visible" && !(await element.isVisible())) {
+          await element.dispose();
+          continue;
+        }
+        return { element, usedSelector: describeLocatorStrategy(strategy) };
+      } catch {
+        // 다음 전략 시도
+      }
     }
-    throw new Error(`Step ${step.type} requires a selector or locator`);
+    return null;
   }
 
-  private async getElement(
+  /**
+   * Step이 다루는 요소 찾기 (primary > fallbacks > metadata 순, timeout까지 재시도)
+   */
+  private async resolveElement(
     page: Page,
     step: Step,
+    state: LocatorState,
     timeout: number
-  ): Promise<ElementHandle> {
-    const selector = this.getSelector(step);
-    const element = await page.waitForSelector(selector, {
-      visible: true,
-      timeout,
+  ): Promise<ResolvedElement> {
+    const strategies = locatorStrategies({
+      selector: "selector" in step ? step.selector : undefined,
+      locator: "locator" in step ? (step.locator as ElementLocator) : undefined,
     });
-    if (!element) throw new Error(`Element not found: ${selector}`);
-    return element;
+    if (strategies.length === 0) {
+      throw new Error(`Step ${step.type} requires a selector or locator`);
+    }
+
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const found = await this.findElement(page, strategies, state);
+      if (found) return found;
+      if (Date.now() >= deadline) break;
+      await new Promise((r) => setTimeout(r, LOCATOR_POLL_INTERVAL));
+    }
+    throw new Error(
+      `Element not found with selector: ${strategies
+        .map(describeLocatorStrategy)
+        .join(", ")}`
+    );
   }
 }
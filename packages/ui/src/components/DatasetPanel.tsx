@@ -0,0 +1,202 @@
+import { useRef } from "react";
+import { Table, Paperclip, X, FileDown } from "lucide-react";
+import type { FlowDataset, DatasetRowResult } from "@auto-wiz/core";
+
+interface DatasetPanelProps {
+  dataset?: FlowDataset;
+  results: DatasetRowResult[];
+  disabled?: boolean;
+  onAttach: (file: File) => void;
+  onRemove: () => void;
+  onExport: (format: "csv" | "json") => void;
+}
+
+/**
+ * Data-driven 실행용 데이터셋 첨부 및 행별 결과 표시 컴포넌트
+ */
+export function DatasetPanel({
+  dataset,
+  results,
+  disabled = false,
+  onAttach,
+  onRemove,
+  onExport,
+}: DatasetPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const smallButtonStyle = {
+    padding: "6px 10px",
+    background: "#ffffff",
+    color: disabled ? "#a3a3a3" : "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: disabled ? "not-allowed" : "pointer",
+    fontSize: "12px",
+    fontWeight: 500,
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "6px",
+  } as const;
+
+  const summarize = (data?: Record<string, any>) => {
+    const entries = Object.entries(data || {});
+    if (entries.length === 0) return "";
+    return entries
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+      .join(", ");
+  };
+
+  const passed = results.filter((result) => result.success).length;
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderBottom: "1px solid #e5e5e5",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onAttach(file);
+          e.target.value = "";
+        }}
+      />
+
+      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <Table size={14} strokeWidth={2} />
+        {dataset ? (
+          <span
+            style={{
+              flex: 1,
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+              whiteSpace: "nowrap",
+            }}
+            title={dataset.columns.join(", ")}
+          >
+            <strong style={{ fontWeight: 500, color: "#1a1a1a" }}>
+              {dataset.name || "Dataset"}
+            </strong>{" "}
+            · {dataset.rows.length} rows · {dataset.columns.length} columns
+          </span>
+        ) : (
+          <span style={{ flex: 1, color: "#737373" }}>
+            Attach a CSV/JSON file to run once per row
+          </span>
+        )}
+        {dataset ? (
+          <button
+            onClick={onRemove}
+            disabled={disabled}
+            style={smallButtonStyle}
+            title="Remove dataset"
+          >
+            <X size={12} strokeWidth={2} />
+            Remove
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            style={smallButtonStyle}
+          >
+            <Paperclip size={12} strokeWidth={2} />
+            Attach
+          </button>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div style={{ marginTop: "12px" }}>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              marginBottom: "8px",
+            }}
+          >
+            <span style={{ flex: 1, fontWeight: 500, color: "#1a1a1a" }}>
+              Results: {passed}/{results.length} passed
+            </span>
+            <button
+              onClick={() => onExport("csv")}
+              style={smallButtonStyle}
+              disabled={disabled}
+            >
+              <FileDown size={12} strokeWidth={2} />
+              CSV
+            </button>
+            <button
+              onClick={() => onExport("json")}
+              style={smallButtonStyle}
+              disabled={disabled}
+            >
+              <FileDown size={12} strokeWidth={2} />
+              JSON
+            </button>
+          </div>
+          <div style={{ maxHeight: "180px", overflowY: "auto" }}>
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                fontSize: "12px",
+              }}
+            >
+              <thead>
+                <tr style={{ textAlign: "left", color: "#737373" }}>
+                  <th style={{ padding: "4px", fontWeight: 500 }}>Row</th>
+                  <th style={{ padding: "4px", fontWeight: 500 }}>Status</th>
+                  <th style={{ padding: "4px", fontWeight: 500 }}>Failed</th>
+                  <th style={{ padding: "4px", fontWeight: 500 }}>Extracted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr
+                    key={result.rowIndex}
+                    style={{ borderTop: "1px solid #f5f5f5" }}
+                    title={result.error}
+                  >
+                    <td style={{ padding: "4px" }}>{result.rowIndex + 1}</td>
+                    <td
+                      style={{
+                        padding: "4px",
+                        color: result.success ? "#16a34a" : "#dc2626",
+                        fontWeight: 600,
+                      }}
+                    >
+                      {result.success ? "Passed" : "Failed"}
+                    </td>
+                    <td style={{ padding: "4px" }}>
+                      {result.failedStepIndex !== undefined
+                        ? `Step ${result.failedStepIndex + 1}`
+                        : "-"}
+                    </td>
+                    <td
+                      style={{
+                        padding: "4px",
+                        fontFamily: "'SF Mono', 'Monaco', 'Menlo', monospace",
+                        wordBreak: "break-all",
+                      }}
+                    >
+                      {summarize(result.extractedData) || "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Bug, Pause, Play, StepForward, Crosshair } from "lucide-react";
+import type { DebugPause } from "@auto-wiz/core";
+import { canRepickElement } from "@auto-wiz/core";
+
+interface DebuggerBarProps {
+  paused: DebugPause | null; // 일시정지한 Step (실행 중이면 null)
+  repicking?: boolean; // 페이지에서 요소를 고르는 중
+  onPause: () => void;
+  onResume: () => void;
+  onStepOver: () => void;
+  onRepick: () => void;
+}
+
+const PAUSE_REASONS: Record<DebugPause["reason"], string> = {
+  breakpoint: "breakpoint",
+  step: "step over",
+  pause: "paused",
+};
+
+/**
+ * 실행 중 디버거 컨트롤
+ * 실행 중에는 다음 Step 직전에 일시정지하고, 일시정지 중에는 재개/step over/요소 다시 고르기
+ */
+export function DebuggerBar({
+  paused,
+  repicking = false,
+  onPause,
+  onResume,
+  onStepOver,
+  onRepick,
+}: DebuggerBarProps) {
+  const buttonStyle = {
+    padding: "6px 10px",
+    background: "#f5f5f5",
+    color: "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: "pointer",
+    fontSize: "12px",
+    fontWeight: 500,
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+  } as const;
+
+  return (
+    <div
+      style={{
+        padding: "10px 20px",
+        background: paused ? "#fffbeb" : "#fafafa",
+        borderBottom: "1px solid #e5e5e5",
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      <Bug size={14} strokeWidth={2} />
+      <span style={{ flex: 1 }}>
+        {paused ? (
+          <>
+            Paused before step {paused.stepIndex + 1}{" "}
+            <span style={{ color: "#737373" }}>
+              ({PAUSE_REASONS[paused.reason]})
+            </span>
+          </>
+        ) : (
+          "Running"
+        )}
+      </span>
+      {paused ? (
+        <>
+          {canRepickElement(paused.step) && (
+            <button
+              onClick={onRepick}
+              disabled={repicking}
+              style={{ ...buttonStyle, opacity: repicking ? 0.5 : 1 }}
+              title="Pick the element for this step again in the page"
+            >
+              <Crosshair size={12} strokeWidth={2} />
+              {repicking ? "Picking..." : "Re-pick"}
+            </button>
+          )}
+          <button
+            onClick={onStepOver}
+            disabled={repicking}
+            style={buttonStyle}
+            title="Run this step and pause before the next one"
+          >
+            <StepForward size={12} strokeWidth={2} />
+            Step
+          </button>
+          <button
+            onClick={onResume}
+            disabled={repicking}
+            style={{
+              ...buttonStyle,
+              background: "#1a1a1a",
+              color: "#ffffff",
+              border: "1px solid #1a1a1a",
+            }}
+            title="Continue to the next breakpoint"
+          >
+            <Play size={12} strokeWidth={2} />
+            Resume
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={onPause}
+          style={buttonStyle}
+          title="Pause before the next step"
+        >
+          <Pause size={12} strokeWidth={2} />
+          Pause
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Camera, Code, Download } from "lucide-react";
+import type { FailureArtifacts } from "@auto-wiz/core";
+
+interface FailureArtifactsViewProps {
+  artifacts: FailureArtifacts;
+}
+
+/**
+ * Step이 실패한 순간의 스크린샷과 DOM 스냅샷을 표시하는 컴포넌트
+ * DOM 스냅샷은 스크립트를 실행하지 않는 sandbox iframe으로 미리보기
+ */
+export function FailureArtifactsView({ artifacts }: FailureArtifactsViewProps) {
+  const [showDom, setShowDom] = useState(false);
+  const { screenshot, domSnapshot } = artifacts;
+
+  const downloadSnapshot = () => {
+    if (!domSnapshot) return;
+    const url = URL.createObjectURL(
+      new Blob([domSnapshot.html], { type: "text/html" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `failure-step-${artifacts.stepIndex + 1}-${
+      artifacts.capturedAt
+    }.html`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonStyle = {
+    padding: "4px 8px",
+    background: "#f5f5f5",
+    color: "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: "pointer",
+    fontSize: "12px",
+    display: "flex",
+    alignItems: "center",
+    gap: "4px",
+  } as const;
+
+  return (
+    <div
+      style={{
+        marginTop: "12px",
+        marginRight: "12px",
+        padding: "12px",
+        background: "#fef2f2",
+        border: "1px solid #fecaca",
+        borderRadius: "6px",
+        fontSize: "12px",
+        color: "#404040",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          marginBottom: "8px",
+          fontWeight: 500,
+          color: "#b91c1c",
+        }}
+      >
+        <Camera size={14} strokeWidth={2} />
+        Captured at failure · {new Date(artifacts.capturedAt).toLocaleString()}
+      </div>
+      {artifacts.url && (
+        <div
+          style={{
+            marginBottom: "8px",
+            color: "#737373",
+            wordBreak: "break-all",
+          }}
+        >
+          {artifacts.url}
+        </div>
+      )}
+
+      {screenshot && (
+        <a href={screenshot} target="_blank" rel="noreferrer">
+          <img
+            src={screenshot}
+            alt="Page at failure"
+            style={{
+              display: "block",
+              maxWidth: "100%",
+              borderRadius: "6px",
+              border: "1px solid #e5e5e5",
+            }}
+          />
+        </a>
+      )}
+
+      {domSnapshot && (
+        <>
+          <div style={{ display: "flex", gap: "6px", marginTop: "8px" }}>
+            <button onClick={() => setShowDom(!showDom)} style={buttonStyle}>
+              <Code size={12} strokeWidth={2} />
+              {showDom ? "Hide DOM snapshot" : "Show DOM snapshot"}
+            </button>
+            <button onClick={downloadSnapshot} style={buttonStyle}>
+              <Download size={12} strokeWidth={2} />
+              Download HTML
+            </button>
+          </div>
+          {domSnapshot.truncated && (
+            <div style={{ marginTop: "6px", color: "#737373" }}>
+              The page was too large; the snapshot is truncated.
+            </div>
+          )}
+          {showDom && (
+            <iframe
+              title="DOM snapshot"
+              sandbox=""
+              srcDoc={domSnapshot.html}
+              style={{
+                width: "100%",
+                height: "320px",
+                marginTop: "8px",
+                background: "#ffffff",
+                border: "1px solid #e5e5e5",
+                borderRadius: "6px",
+              }}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
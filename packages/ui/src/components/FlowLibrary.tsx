@@ -0,0 +1,323 @@
+import { useRef, useState } from "react";
+import {
+  Plus,
+  Copy,
+  Pencil,
+  Trash2,
+  Check,
+  FolderOpen,
+  CornerDownRight,
+  FileDown,
+  FileUp,
+  FileCode,
+  FileTerminal,
+} from "lucide-react";
+import type { Flow } from "@auto-wiz/core";
+
+interface FlowLibraryProps {
+  flows: Flow[];
+  activeFlowId: string | null;
+  disabled?: boolean;
+  onOpen: (flowId: string) => void;
+  onCreate: () => void;
+  onDuplicate: (flowId: string) => void;
+  onRename: (flowId: string, title: string) => void;
+  onDelete: (flowId: string) => void;
+  onCall?: (flowId: string) => void; // 활성 Flow에 이 Flow를 호출하는 Step 추가
+  onExport?: (flowId: string) => void;
+  onExportTest?: (flowId: string) => void; // Playwright 테스트 코드로 내보내기
+  onExportScript?: (flowId: string) => void; // Puppeteer 스크립트로 내보내기
+  onImport?: (file: File) => void;
+}
+
+/**
+ * 저장된 Flow 목록을 표시하고 전환/관리하는 컴포넌트
+ */
+export function FlowLibrary({
+  flows,
+  activeFlowId,
+  disabled = false,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onCall,
+  onExport,
+  onExportTest,
+  onExportScript,
+  onImport,
+}: FlowLibraryProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const startRename = (flow: Flow) => {
+    setEditingId(flow.id);
+    setEditingTitle(flow.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const iconButtonStyle = {
+    padding: "4px",
+    background: "transparent",
+    color: disabled ? "#d4d4d4" : "#737373",
+    border: "none",
+    cursor: disabled ? "not-allowed" : "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  } as const;
+
+  return (
+    <div style={{ padding: "8px 0 0" }}>
+      <div style={{ padding: "0 20px 12px", display: "flex", gap: "8px" }}>
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          style={{
+            flex: 1,
+            padding: "10px 16px",
+            background: disabled ? "#f5f5f5" : "#1a1a1a",
+            color: disabled ? "#a3a3a3" : "#ffffff",
+            border: "1px solid #e5e5e5",
+            borderRadius: "8px",
+            cursor: disabled ? "not-allowed" : "pointer",
+            fontSize: "13px",
+            fontWeight: 500,
+            letterSpacing: "-0.01em",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "8px",
+          }}
+        >
+          <Plus size={16} strokeWidth={2} />
+          New Flow
+        </button>
+        {onImport && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              style={{
+                padding: "10px 14px",
+                background: "#ffffff",
+                color: disabled ? "#a3a3a3" : "#404040",
+                border: "1px solid #e5e5e5",
+                borderRadius: "8px",
+                cursor: disabled ? "not-allowed" : "pointer",
+                fontSize: "13px",
+                fontWeight: 500,
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+              }}
+              title="Import flows from a file"
+            >
+              <FileUp size={16} strokeWidth={2} />
+              Import
+            </button>
+          </>
+        )}
+      </div>
+
+      {flows.length === 0 ? (
+        <div
+          style={{
+            textAlign: "center",
+            padding: "40px 20px",
+            color: "#737373",
+            fontSize: "13px",
+          }}
+        >
+          No saved flows yet
+        </div>
+      ) : (
+        flows.map((flow) => {
+          const isActive = flow.id === activeFlowId;
+          const isEditing = flow.id === editingId;
+
+          return (
+            <div
+              key={flow.id}
+              style={{
+                padding: "12px",
+                borderBottom: "1px solid #f5f5f5",
+                borderLeft: isActive
+                  ? "3px solid #1a1a1a"
+                  : "3px solid transparent",
+                background: isActive ? "#fafafa" : "transparent",
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                {isEditing ? (
+                  <input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    autoFocus
+                    style={{
+                      width: "100%",
+                      padding: "4px 6px",
+                      border: "1px solid #d4d4d4",
+                      borderRadius: "4px",
+                      fontSize: "13px",
+                    }}
+                  />
+                ) : (
+                  <div
+                    style={{
+                      fontSize: "14px",
+                      fontWeight: isActive ? 600 : 500,
+                      color: "#1a1a1a",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {flow.title}
+                  </div>
+                )}
+                <div
+                  style={{
+                    fontSize: "12px",
+                    color: "#737373",
+                    marginTop: "2px",
+                  }}
+                >
+                  {flow.steps.length} steps ·{" "}
+                  {formatDate(flow.updatedAt ?? flow.createdAt)}
+                </div>
+              </div>
+
+              {isActive ? (
+                <span
+                  style={{
+                    fontSize: "11px",
+                    padding: "4px 8px",
+                    background: "#1a1a1a",
+                    color: "#ffffff",
+                    borderRadius: "4px",
+                    fontWeight: 600,
+                    display: "inline-flex",
+                    alignItems: "center",
+                    gap: "4px",
+                  }}
+                >
+                  <Check size={11} strokeWidth={2.5} />
+                  Active
+                </span>
+              ) : (
+                <button
+                  onClick={() => onOpen(flow.id)}
+                  disabled={disabled}
+                  style={iconButtonStyle}
+                  title="Open"
+                >
+                  <FolderOpen size={16} strokeWidth={2} />
+                </button>
+              )}
+              {onExport && (
+                <button
+                  onClick={() => onExport(flow.id)}
+                  style={iconButtonStyle}
+                  title="Export to file"
+                >
+                  <FileDown size={16} strokeWidth={2} />
+                </button>
+              )}
+              {onExportTest && (
+                <button
+                  onClick={() => onExportTest(flow.id)}
+                  style={iconButtonStyle}
+                  title="Export as Playwright test"
+                >
+                  <FileCode size={16} strokeWidth={2} />
+                </button>
+              )}
+              {onExportScript && (
+                <button
+                  onClick={() => onExportScript(flow.id)}
+                  style={iconButtonStyle}
+                  title="Export as Puppeteer script"
+                >
+                  <FileTerminal size={16} strokeWidth={2} />
+                </button>
+              )}
+              {onCall && !isActive && activeFlowId && (
+                <button
+                  onClick={() => onCall(flow.id)}
+                  disabled={disabled}
+                  style={iconButtonStyle}
+                  title="Call from the active flow"
+                >
+                  <CornerDownRight size={16} strokeWidth={2} />
+                </button>
+              )}
+              <button
+                onClick={() => startRename(flow)}
+                disabled={disabled}
+                style={iconButtonStyle}
+                title="Rename"
+              >
+                <Pencil size={16} strokeWidth={2} />
+              </button>
+              <button
+                onClick={() => onDuplicate(flow.id)}
+                disabled={disabled}
+                style={iconButtonStyle}
+                title="Duplicate"
+              >
+                <Copy size={16} strokeWidth={2} />
+              </button>
+              <button
+                onClick={() => onDelete(flow.id)}
+                disabled={disabled}
+                style={{
+                  ...iconButtonStyle,
+                  color: disabled ? "#d4d4d4" : "#dc2626",
+                }}
+                title="Delete"
+              >
+                <Trash2 size={16} strokeWidth={2} />
+              </button>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
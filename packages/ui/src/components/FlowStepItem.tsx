@@ -10,17 +10,59 @@ import {
   ShieldAlert,
   ChevronUp,
   ChevronDown,
+  KeyRound,
+  BadgeCheck,
+  GitBranch,
+  Repeat,
+  ListOrdered,
+  RefreshCw,
+  Pencil,
+  Group,
+  Ungroup,
+  Workflow,
+  PackagePlus,
+  RotateCcw,
+  CircleDashed,
+  LifeBuoy,
+  Play,
+  StepForward,
+  Fingerprint,
+  Layers,
 } from "lucide-react";
-import type { Step } from "@auto-wiz/core";
+import type { Step, ControlStep, FailureArtifacts } from "@auto-wiz/core";
+import {
+  describeAssertion,
+  describeCallFlow,
+  describeControlStep,
+  formatStepPath,
+  isCompositeStep,
+  isControlStep,
+} from "@auto-wiz/core";
+import { FailureArtifactsView } from "./FailureArtifactsView";
 
 interface FlowStepItemProps {
   step: Step;
   index: number;
   isExecuting: boolean;
   isCompleted: boolean;
+  isPaused?: boolean; // 디버거가 이 Step 직전에 일시정지함
+  attempt?: number; // 재시도 중인 시도 번호 (실행 중일 때)
+  maxAttempts?: number;
   extractedData?: any;
   screenshot?: { screenshot: string; elementInfo: any };
+  failureArtifacts?: FailureArtifacts; // 실패 시 캡처한 스크린샷/DOM 스냅샷
   onRemove: (index: number) => void;
+  onMarkSecret?: (index: number) => void;
+  onWrap?: (index: number) => void; // 제어 흐름 블록으로 묶기
+  onEditBlock?: (index: number) => void; // 블록 설정 또는 callFlow 인자 편집
+  onUnwrap?: (index: number) => void;
+  onExtractSubFlow?: (index: number) => void; // 하위 Flow로 추출
+  onRemoveChild?: (index: number, path: number[]) => void; // 중첩된 Step 제거
+  onToggleOptional?: (index: number) => void; // continueOnError 켜기/끄기
+  onMoveToOnFailure?: (index: number) => void; // 실패 시 실행할 Step으로 이동
+  onToggleBreakpoint?: (index: number) => void; // 실행 중 이 Step 직전에 일시정지
+  onRunFrom?: (index: number) => void; // 이 Step부터 실행
+  onRunStep?: (index: number) => void; // 이 Step만 실행
 
   onMoveUp?: (index: number) => void;
   onMoveDown?: (index: number) => void;
@@ -35,9 +77,24 @@ export function FlowStepItem({
   index,
   isExecuting,
   isCompleted,
+  isPaused = false,
+  attempt,
+  maxAttempts,
   extractedData,
   screenshot,
+  failureArtifacts,
   onRemove,
+  onMarkSecret,
+  onWrap,
+  onEditBlock,
+  onUnwrap,
+  onExtractSubFlow,
+  onRemoveChild,
+  onToggleOptional,
+  onMoveToOnFailure,
+  onToggleBreakpoint,
+  onRunFrom,
+  onRunStep,
 
   onMoveUp,
   onMoveDown,
@@ -58,6 +115,18 @@ export function FlowStepItem({
         return <Globe {...iconProps} />;
       case "waitFor":
         return <Clock {...iconProps} />;
+      case "assert":
+        return <BadgeCheck {...iconProps} />;
+      case "if":
+        return <GitBranch {...iconProps} />;
+      case "repeat":
+        return <Repeat {...iconProps} />;
+      case "forEach":
+        return <ListOrdered {...iconProps} />;
+      case "while":
+        return <RefreshCw {...iconProps} />;
+      case "callFlow":
+        return <Workflow {...iconProps} />;
       default:
         return null;
     }
@@ -77,6 +146,18 @@ export function FlowStepItem({
         return "Navigate";
       case "waitFor":
         return "Wait";
+      case "assert":
+        return "Assert";
+      case "if":
+        return "If";
+      case "repeat":
+        return "Repeat";
+      case "forEach":
+        return "For Each";
+      case "while":
+        return "While";
+      case "callFlow":
+        return "Call Flow";
       default:
         return "Action";
     }
@@ -86,7 +167,11 @@ export function FlowStepItem({
    * 메타데이터를 활용해서 사람이 읽기 쉬운 요소 설명 생성
    */
   const getElementDescription = (step: Step): string => {
-    if (step.type === "navigate" || step.type === "waitForNavigation") {
+    if (
+      step.type === "navigate" ||
+      step.type === "waitForNavigation" ||
+      isCompositeStep(step)
+    ) {
       return "";
     }
 
@@ -209,6 +294,18 @@ export function FlowStepItem({
           return elementDesc ? `Wait for ${elementDesc}` : "Wait for element";
         }
         return `Wait ${step.timeoutMs}ms`;
+      case "assert":
+        return `Assert ${describeAssertion({
+          ...step,
+          selector: elementDesc || step.selector,
+        })}`;
+      case "if":
+      case "repeat":
+      case "forEach":
+      case "while":
+        return describeControlStep(step);
+      case "callFlow":
+        return describeCallFlow(step);
       default:
         return JSON.stringify(step);
     }
@@ -218,7 +315,11 @@ export function FlowStepItem({
    * Selector 신뢰도 계산 (높을수록 견고함)
    */
   const getSelectorReliability = (step: Step): "high" | "medium" | "low" => {
-    if (step.type === "navigate" || step.type === "waitForNavigation") {
+    if (
+      step.type === "navigate" ||
+      step.type === "waitForNavigation" ||
+      (step.type === "assert" && step.assertion === "urlMatches")
+    ) {
       return "high"; // URL은 항상 신뢰도 높음
     }
 
@@ -295,12 +396,146 @@ export function FlowStepItem({
     return null; // medium은 표시 안함 (노이즈 줄이기)
   };
 
+  /**
+   * 기록 시점 primary selector의 고유성 뱃지 (측정하지 않은 locator는 표시 안함)
+   */
+  const renderUniquenessBadge = (step: Step) => {
+    const matchCount = "locator" in step ? step.locator?.matchCount : undefined;
+    if (matchCount === undefined) return null;
+
+    const unique = matchCount === 1;
+    return (
+      <span
+        style={{
+          display: "inline-flex",
+          alignItems: "center",
+          gap: "4px",
+          fontSize: "11px",
+          padding: "4px 8px",
+          background: unique ? "#f0fdf4" : "#fef3c7",
+          color: unique ? "#15803d" : "#b45309",
+          borderRadius: "4px",
+          fontWeight: 600,
+        }}
+        title={
+          unique
+            ? "The selector matched only this element when recorded"
+            : `The selector matched ${matchCount} elements when recorded - the first one is used`
+        }
+      >
+        {unique ? (
+          <Fingerprint size={11} strokeWidth={2.5} />
+        ) : (
+          <Layers size={11} strokeWidth={2.5} />
+        )}
+        {unique ? "Unique" : `${matchCount} matches`}
+      </span>
+    );
+  };
+
+  const iconButtonStyle = {
+    padding: "4px",
+    background: "transparent",
+    color: "#a3a3a3",
+    border: "none",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  } as const;
+
+  /**
+   * 제어 흐름 스텝의 하위 Step 목록 (중첩 그룹)
+   * path는 상위 스텝 기준 위치 (if의 else는 then 뒤에 이어서 번호를 매김)
+   */
+  const renderChildSteps = (
+    children: Step[],
+    parentPath: number[],
+    startIndex: number
+  ) =>
+    children.map((child, i) => {
+      const childPath = [...parentPath, startIndex + i];
+      return (
+        <div
+          key={childPath.join(".")}
+          style={{
+            marginLeft: "8px",
+            paddingLeft: "10px",
+            borderLeft: "2px solid #e5e5e5",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+              padding: "4px 0",
+              fontSize: "13px",
+              color: "#404040",
+            }}
+          >
+            <span style={{ fontSize: "12px", color: "#a3a3a3" }}>
+              {formatStepPath([index, ...childPath])}
+            </span>
+            {getStepIcon(child.type)}
+            <span style={{ flex: 1, wordBreak: "break-word" }}>
+              {getStepDescription(child)}
+            </span>
+            {onRemoveChild && (
+              <button
+                onClick={() => onRemoveChild(index, childPath)}
+                style={iconButtonStyle}
+                title="Remove"
+              >
+                <X size={14} strokeWidth={2} />
+              </button>
+            )}
+          </div>
+          {isControlStep(child) && renderBranches(child, childPath)}
+        </div>
+      );
+    });
+
+  const renderBranchLabel = (label: string) => (
+    <div
+      style={{
+        fontSize: "11px",
+        fontWeight: 600,
+        color: "#737373",
+        textTransform: "uppercase",
+        padding: "4px 0 2px",
+      }}
+    >
+      {label}
+    </div>
+  );
+
+  const renderBranches = (step: ControlStep, path: number[]) => {
+    if (step.type !== "if") {
+      return renderChildSteps(step.steps, path, 0);
+    }
+    return (
+      <>
+        {renderBranchLabel("Then")}
+        {renderChildSteps(step.then, path, 0)}
+        {step.else && step.else.length > 0 && (
+          <>
+            {renderBranchLabel("Else")}
+            {renderChildSteps(step.else, path, step.then.length)}
+          </>
+        )}
+      </>
+    );
+  };
+
   return (
     <div
       style={{
         padding: "16px 0",
         borderBottom: "1px solid #f5f5f5",
-        borderLeft: isExecuting
+        borderLeft: isPaused
+          ? "3px solid #f59e0b"
+          : isExecuting
           ? "3px solid #1a1a1a"
           : isCompleted
           ? "3px solid #737373"
@@ -325,6 +560,26 @@ export function FlowStepItem({
             marginBottom: "0",
           }}
         >
+          {onToggleBreakpoint && (
+            <button
+              onClick={() => onToggleBreakpoint(index)}
+              style={{ ...iconButtonStyle, padding: "2px" }}
+              title={step.breakpoint ? "Remove breakpoint" : "Add breakpoint"}
+            >
+              <span
+                style={{
+                  width: "10px",
+                  height: "10px",
+                  borderRadius: "50%",
+                  background: step.breakpoint ? "#dc2626" : "transparent",
+                  border: step.breakpoint
+                    ? "1px solid #dc2626"
+                    : "1px dashed #d4d4d4",
+                  boxSizing: "border-box",
+                }}
+              />
+            </button>
+          )}
           <span
             style={{
               fontSize: "13px",
@@ -351,19 +606,82 @@ export function FlowStepItem({
             {getStepIcon(step.type)}
             {getStepLabel(step.type)}
           </span>
-          {renderReliabilityBadge(getSelectorReliability(step))}
+          {!isCompositeStep(step) &&
+            renderReliabilityBadge(getSelectorReliability(step))}
+          {!isCompositeStep(step) && renderUniquenessBadge(step)}
+          {step.type === "type" && step.secretRef && (
+            <span
+              style={{
+                display: "inline-flex",
+                alignItems: "center",
+                gap: "4px",
+                fontSize: "11px",
+                padding: "4px 8px",
+                background: "#fef3c7",
+                color: "#b45309",
+                borderRadius: "4px",
+                fontWeight: 600,
+              }}
+              title="Value is encrypted in the secret vault"
+            >
+              <KeyRound size={11} strokeWidth={2.5} />
+              Secret
+            </span>
+          )}
+          {step.continueOnError && (
+            <span
+              style={{
+                display: "inline-flex",
+                alignItems: "center",
+                gap: "4px",
+                fontSize: "11px",
+                padding: "4px 8px",
+                background: "#f5f5f5",
+                color: "#525252",
+                borderRadius: "4px",
+                fontWeight: 600,
+              }}
+              title="The flow continues if this step fails"
+            >
+              <CircleDashed size={11} strokeWidth={2.5} />
+              Optional
+            </span>
+          )}
+          {step.retry && step.retry.attempts > 1 && (
+            <span
+              style={{
+                display: "inline-flex",
+                alignItems: "center",
+                gap: "4px",
+                fontSize: "11px",
+                padding: "4px 8px",
+                background: "#f5f5f5",
+                color: "#525252",
+                borderRadius: "4px",
+                fontWeight: 600,
+              }}
+              title={`Retried up to ${step.retry.attempts} attempts on failure`}
+            >
+              <RotateCcw size={11} strokeWidth={2.5} />
+              {step.retry.attempts}×
+            </span>
+          )}
           {isExecuting && (
             <span
               style={{
                 fontSize: "11px",
                 padding: "4px 10px",
-                background: "#1a1a1a",
+                background: isPaused ? "#f59e0b" : "#1a1a1a",
                 color: "#ffffff",
                 borderRadius: "4px",
                 fontWeight: 600,
               }}
             >
-              Running
+              {isPaused
+                ? "Paused"
+                : attempt && attempt > 1
+                ? `Attempt ${attempt}/${maxAttempts}`
+                : "Running"}
             </span>
           )}
           {isCompleted && (
@@ -432,6 +750,105 @@ export function FlowStepItem({
                 </button>
               </>
             )}
+            {onRunFrom && (
+              <button
+                onClick={() => onRunFrom(index)}
+                style={iconButtonStyle}
+                title="Run from here"
+              >
+                <Play size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onRunStep && (
+              <button
+                onClick={() => onRunStep(index)}
+                style={iconButtonStyle}
+                title="Run only this step"
+              >
+                <StepForward size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onWrap && (
+              <button
+                onClick={() => onWrap(index)}
+                style={iconButtonStyle}
+                title="Group into if / loop block"
+              >
+                <Group size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onExtractSubFlow && (
+              <button
+                onClick={() => onExtractSubFlow(index)}
+                style={iconButtonStyle}
+                title="Extract into sub-flow"
+              >
+                <PackagePlus size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onEditBlock && isCompositeStep(step) && (
+              <button
+                onClick={() => onEditBlock(index)}
+                style={iconButtonStyle}
+                title={
+                  step.type === "callFlow" ? "Edit arguments" : "Edit block"
+                }
+              >
+                <Pencil size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onUnwrap && isControlStep(step) && (
+              <button
+                onClick={() => onUnwrap(index)}
+                style={iconButtonStyle}
+                title="Ungroup block"
+              >
+                <Ungroup size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onToggleOptional && (
+              <button
+                onClick={() => onToggleOptional(index)}
+                style={{
+                  ...iconButtonStyle,
+                  color: step.continueOnError ? "#525252" : "#a3a3a3",
+                }}
+                title={
+                  step.continueOnError
+                    ? "Stop the flow when this step fails"
+                    : "Continue the flow when this step fails"
+                }
+              >
+                <CircleDashed size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onMoveToOnFailure && (
+              <button
+                onClick={() => onMoveToOnFailure(index)}
+                style={iconButtonStyle}
+                title="Move to on-failure steps"
+              >
+                <LifeBuoy size={16} strokeWidth={2} />
+              </button>
+            )}
+            {onMarkSecret && step.type === "type" && !step.secretRef && (
+              <button
+                onClick={() => onMarkSecret(index)}
+                style={{
+                  padding: "4px",
+                  background: "transparent",
+                  color: "#a3a3a3",
+                  border: "none",
+                  cursor: "pointer",
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}
+                title="Store value as secret"
+              >
+                <KeyRound size={16} strokeWidth={2} />
+              </button>
+            )}
             <button
               onClick={() => onRemove(index)}
               style={{
@@ -457,7 +874,8 @@ export function FlowStepItem({
         style={{
           fontSize: "14px",
           color: "#404040",
-          marginBottom: extractedData || screenshot ? "10px" : "0",
+          marginBottom:
+            extractedData || screenshot || failureArtifacts ? "10px" : "0",
           paddingRight: "12px",
           wordBreak: "break-word",
           lineHeight: "1.5",
@@ -466,6 +884,13 @@ export function FlowStepItem({
         {getStepDescription(step)}
       </div>
 
+      {/* Nested Steps (제어 흐름 블록) */}
+      {isControlStep(step) && (
+        <div style={{ marginTop: "8px", paddingRight: "12px" }}>
+          {renderBranches(step, [])}
+        </div>
+      )}
+
       {/* Extracted Data */}
       {extractedData !== undefined && (
         <div
@@ -501,6 +926,11 @@ export function FlowStepItem({
           />
         </div>
       )}
+
+      {/* Failure Artifacts */}
+      {failureArtifacts && (
+        <FailureArtifactsView artifacts={failureArtifacts} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,167 @@
+import { WandSparkles, Check, X } from "lucide-react";
+import type { LocatorHealing, LocatorTier } from "@auto-wiz/core";
+import { diffLocators } from "@auto-wiz/core";
+
+interface LocatorHealingPanelProps {
+  healings: LocatorHealing[];
+  disabled?: boolean;
+  onApply: (healing: LocatorHealing) => void;
+  onDismiss: (healing: LocatorHealing) => void;
+}
+
+const TIER_LABELS: Record<LocatorTier, string> = {
+  primary: "primary selector",
+  fallback: "fallback selector",
+  testId: "test id",
+  role: "role and name",
+  text: "text",
+  placeholder: "placeholder",
+  label: "label",
+  selector: "step selector",
+};
+
+/**
+ * Locator 업데이트 제안 목록
+ * primary selector로 찾지 못한 Step마다 새 locator와의 차이를 보여주고 적용/무시
+ */
+export function LocatorHealingPanel({
+  healings,
+  disabled = false,
+  onApply,
+  onDismiss,
+}: LocatorHealingPanelProps) {
+  if (healings.length === 0) return null;
+
+  const smallButtonStyle = {
+    padding: "4px 8px",
+    background: "#ffffff",
+    color: "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: disabled ? "not-allowed" : "pointer",
+    fontSize: "12px",
+    fontWeight: 500,
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "4px",
+    opacity: disabled ? 0.5 : 1,
+  } as const;
+
+  const diffLineStyle = {
+    fontFamily: "monospace",
+    fontSize: "11px",
+    padding: "1px 6px",
+    borderRadius: "3px",
+    wordBreak: "break-all",
+  } as const;
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderBottom: "1px solid #e5e5e5",
+        background: "#f0f9ff",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          marginBottom: "8px",
+        }}
+      >
+        <WandSparkles size={14} strokeWidth={2} />
+        <strong style={{ fontWeight: 500, color: "#1a1a1a" }}>
+          Healed locators ({healings.length})
+        </strong>
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "10px" }}>
+        {healings.map((healing) => (
+          <div
+            key={healing.stepIndex}
+            style={{
+              padding: "8px 10px",
+              background: "#ffffff",
+              border: "1px solid #e5e5e5",
+              borderRadius: "6px",
+            }}
+          >
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                marginBottom: "6px",
+              }}
+            >
+              <span style={{ flex: 1 }}>
+                Step {healing.stepIndex + 1}{" "}
+                <span style={{ color: "#737373" }}>
+                  · found by {TIER_LABELS[healing.tier]}
+                </span>
+              </span>
+              <button
+                onClick={() => onApply(healing)}
+                disabled={disabled}
+                style={smallButtonStyle}
+                title="Replace the step's locator"
+              >
+                <Check size={12} strokeWidth={2} />
+                Apply
+              </button>
+              <button
+                onClick={() => onDismiss(healing)}
+                disabled={disabled}
+                style={smallButtonStyle}
+                title="Keep the current locator"
+              >
+                <X size={12} strokeWidth={2} />
+                Dismiss
+              </button>
+            </div>
+
+            <div
+              style={{ display: "flex", flexDirection: "column", gap: "2px" }}
+            >
+              {diffLocators(healing.previous, healing.healed).map(
+                (change, i) => (
+                  <div key={i}>
+                    <div style={{ fontSize: "11px", color: "#737373" }}>
+                      {change.field}
+                    </div>
+                    {change.before !== undefined && (
+                      <div
+                        style={{
+                          ...diffLineStyle,
+                          background: "#fef2f2",
+                          color: "#b91c1c",
+                        }}
+                      >
+                        - {change.before}
+                      </div>
+                    )}
+                    {change.after !== undefined && (
+                      <div
+                        style={{
+                          ...diffLineStyle,
+                          background: "#f0fdf4",
+                          color: "#15803d",
+                        }}
+                      >
+                        + {change.after}
+                      </div>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { LifeBuoy, ChevronDown, ChevronRight } from "lucide-react";
+import type { Step } from "@auto-wiz/core";
+import { FlowStepItem } from "./FlowStepItem";
+
+interface OnFailurePanelProps {
+  steps: Step[];
+  disabled?: boolean;
+  onChange: (steps: Step[]) => void;
+}
+
+/**
+ * Flow가 실패했을 때 결과를 보고하기 전에 실행할 Step(onFailure) 목록 편집 컴포넌트
+ * Step은 메인 목록에서 "Move to on-failure steps"로 옮겨 옴
+ */
+export function OnFailurePanel({
+  steps,
+  disabled = false,
+  onChange,
+}: OnFailurePanelProps) {
+  const [expanded, setExpanded] = useState(true);
+
+  const move = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderBottom: "1px solid #e5e5e5",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      <button
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          width: "100%",
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          padding: 0,
+          background: "none",
+          border: "none",
+          cursor: "pointer",
+          fontSize: "13px",
+          color: "#404040",
+          textAlign: "left",
+        }}
+      >
+        <LifeBuoy size={14} strokeWidth={2} />
+        <span style={{ flex: 1 }}>
+          <strong style={{ fontWeight: 500, color: "#1a1a1a" }}>
+            On failure
+          </strong>
+          <span style={{ color: "#737373" }}>
+            {" "}
+            · {steps.length} step{steps.length === 1 ? "" : "s"} run before the
+            failure is reported
+          </span>
+        </span>
+        {expanded ? (
+          <ChevronDown size={14} strokeWidth={2} />
+        ) : (
+          <ChevronRight size={14} strokeWidth={2} />
+        )}
+      </button>
+
+      {expanded && (
+        <div
+          style={{
+            marginTop: "12px",
+            border: "1px solid #e5e5e5",
+            borderRadius: "6px",
+            overflow: "hidden",
+            opacity: disabled ? 0.6 : 1,
+            pointerEvents: disabled ? "none" : "auto",
+          }}
+        >
+          {steps.map((step, index) => (
+            <FlowStepItem
+              key={index}
+              step={step}
+              index={index}
+              isExecuting={false}
+              isCompleted={false}
+              totalSteps={steps.length}
+              onRemove={(i) => onChange(steps.filter((_, j) => j !== i))}
+              onMoveUp={(i) => i > 0 && move(i, -1)}
+              onMoveDown={(i) => i < steps.length - 1 && move(i, 1)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
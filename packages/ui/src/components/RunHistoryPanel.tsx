@@ -0,0 +1,454 @@
+import { useState } from "react";
+import {
+  History,
+  CircleCheck,
+  CircleX,
+  CircleStop,
+  Loader,
+  GitCompare,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  Camera,
+  Film,
+} from "lucide-react";
+import {
+  compareFlowRuns,
+  type FailureArtifacts,
+  type FlowRun,
+  type FlowRunStatus,
+  type StepRunRecord,
+} from "@auto-wiz/core";
+import { FailureArtifactsView } from "./FailureArtifactsView";
+
+interface RunHistoryPanelProps {
+  runs: FlowRun[]; // 최근 실행 순
+  disabled?: boolean;
+  onDelete: (runId: string) => void;
+  onClear: () => void;
+  // 실패한 Step의 캡처 조회 (artifactsRef로 필요할 때만 불러옴)
+  onLoadArtifacts?: (artifactsRef: string) => Promise<FailureArtifacts | null>;
+  // 실행 trace 열기 (trace를 기록한 실행만)
+  onOpenTrace?: (traceRef: string) => void;
+}
+
+const STATUS_COLORS: Record<FlowRunStatus, string> = {
+  running: "#404040",
+  passed: "#15803d",
+  failed: "#b91c1c",
+  stopped: "#737373",
+};
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "—";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatDelta(ms?: number): string {
+  if (ms === undefined) return "";
+  return `${ms > 0 ? "+" : ms < 0 ? "−" : "±"}${formatDuration(Math.abs(ms))}`;
+}
+
+function formatValue(value: any): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+function StatusIcon({ status }: { status: FlowRunStatus }) {
+  const props = { size: 14, strokeWidth: 2, color: STATUS_COLORS[status] };
+  switch (status) {
+    case "running":
+      return <Loader {...props} />;
+    case "passed":
+      return <CircleCheck {...props} />;
+    case "failed":
+      return <CircleX {...props} />;
+    case "stopped":
+      return <CircleStop {...props} />;
+  }
+}
+
+/**
+ * Flow의 실행 기록 목록, 실행별 Step 상세, 두 실행 비교를 표시하는 컴포넌트
+ * 두 실행을 선택하면 Step별 소요 시간과 상태, 사용한 selector 차이를 비교
+ */
+export function RunHistoryPanel({
+  runs,
+  disabled = false,
+  onDelete,
+  onClear,
+  onLoadArtifacts,
+  onOpenTrace,
+}: RunHistoryPanelProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // 펼친 캡처 (artifactsRef -> 불러온 자료, 없으면 null)
+  const [artifacts, setArtifacts] = useState<
+    Record<string, FailureArtifacts | null>
+  >({});
+
+  const toggleArtifacts = async (artifactsRef: string) => {
+    if (artifactsRef in artifacts) {
+      const { [artifactsRef]: _, ...rest } = artifacts;
+      setArtifacts(rest);
+      return;
+    }
+    const loaded = (await onLoadArtifacts?.(artifactsRef)) ?? null;
+    setArtifacts((prev) => ({ ...prev, [artifactsRef]: loaded }));
+  };
+
+  // 선택 순서와 관계없이 오래된 실행을 기준으로 비교
+  const compared = runs.filter((run) => selectedIds.includes(run.id)).reverse();
+
+  const toggleSelected = (runId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(runId)
+        ? prev.filter((id) => id !== runId)
+        : [...prev, runId].slice(-2)
+    );
+  };
+
+  const cellStyle = {
+    padding: "4px 6px",
+    borderBottom: "1px solid #f5f5f5",
+    textAlign: "left",
+    verticalAlign: "top",
+  } as const;
+
+  const headerCellStyle = {
+    ...cellStyle,
+    color: "#737373",
+    fontWeight: 500,
+  } as const;
+
+  const smallButtonStyle = {
+    padding: "4px",
+    background: "transparent",
+    color: "#a3a3a3",
+    border: "none",
+    cursor: disabled ? "not-allowed" : "pointer",
+    display: "flex",
+    alignItems: "center",
+  } as const;
+
+  const renderSteps = (steps: StepRunRecord[]) => (
+    <table
+      style={{ width: "100%", borderCollapse: "collapse", fontSize: "11px" }}
+    >
+      <thead>
+        <tr>
+          <th style={headerCellStyle}>#</th>
+          <th style={headerCellStyle}>Step</th>
+          <th style={headerCellStyle}>Time</th>
+          <th style={headerCellStyle}>Details</th>
+        </tr>
+      </thead>
+      <tbody>
+        {steps.map((record, i) => [
+          <tr key={i}>
+            <td style={cellStyle}>{record.stepIndex + 1}</td>
+            <td
+              style={{
+                ...cellStyle,
+                color:
+                  record.success === false
+                    ? STATUS_COLORS.failed
+                    : record.success
+                    ? "#1a1a1a"
+                    : STATUS_COLORS.running,
+              }}
+            >
+              {record.type}
+              {record.attempts ? ` (${record.attempts} attempts)` : ""}
+            </td>
+            <td style={cellStyle}>{formatDuration(record.durationMs)}</td>
+            <td style={{ ...cellStyle, wordBreak: "break-all" }}>
+              {record.error && (
+                <div style={{ color: STATUS_COLORS.failed }}>
+                  {record.error}
+                </div>
+              )}
+              {record.usedSelector && (
+                <div style={{ color: "#737373", fontFamily: "monospace" }}>
+                  {record.usedSelector}
+                  {record.locatorTier && record.locatorTier !== "primary" && (
+                    <span style={{ color: "#b45309", fontFamily: "inherit" }}>
+                      {" "}
+                      (found by {record.locatorTier})
+                    </span>
+                  )}
+                </div>
+              )}
+              {record.extractedData !== undefined && (
+                <div>{formatValue(record.extractedData)}</div>
+              )}
+              {record.artifactsRef && onLoadArtifacts && (
+                <button
+                  onClick={() => toggleArtifacts(record.artifactsRef!)}
+                  style={{
+                    ...smallButtonStyle,
+                    padding: "2px 0",
+                    gap: "4px",
+                    fontSize: "11px",
+                    color: "#737373",
+                    cursor: "pointer",
+                  }}
+                >
+                  <Camera size={12} strokeWidth={2} />
+                  {record.artifactsRef in artifacts
+                    ? "Hide capture"
+                    : "Show capture"}
+                </button>
+              )}
+            </td>
+          </tr>,
+          record.artifactsRef && record.artifactsRef in artifacts && (
+            <tr key={`${i}-artifacts`}>
+              <td colSpan={4} style={cellStyle}>
+                {artifacts[record.artifactsRef] ? (
+                  <FailureArtifactsView
+                    artifacts={artifacts[record.artifactsRef]!}
+                  />
+                ) : (
+                  <div style={{ color: "#737373" }}>
+                    The capture is no longer available.
+                  </div>
+                )}
+              </td>
+            </tr>
+          ),
+        ])}
+      </tbody>
+    </table>
+  );
+
+  const renderComparison = (base: FlowRun, other: FlowRun) => (
+    <div
+      style={{
+        padding: "12px",
+        marginBottom: "12px",
+        border: "1px solid #e5e5e5",
+        borderRadius: "6px",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          marginBottom: "8px",
+          fontWeight: 500,
+          color: "#1a1a1a",
+        }}
+      >
+        <GitCompare size={14} strokeWidth={2} />
+        {new Date(base.startedAt).toLocaleString()} →{" "}
+        {new Date(other.startedAt).toLocaleString()}
+      </div>
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", fontSize: "11px" }}
+      >
+        <thead>
+          <tr>
+            <th style={headerCellStyle}>#</th>
+            <th style={headerCellStyle}>Step</th>
+            <th style={headerCellStyle}>Before</th>
+            <th style={headerCellStyle}>After</th>
+            <th style={headerCellStyle}>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {compareFlowRuns(base, other).map((row) => (
+            <tr key={row.stepIndex}>
+              <td style={cellStyle}>{row.stepIndex + 1}</td>
+              <td style={cellStyle}>{row.type}</td>
+              <td style={cellStyle}>{formatDuration(row.base?.durationMs)}</td>
+              <td style={cellStyle}>{formatDuration(row.other?.durationMs)}</td>
+              <td style={{ ...cellStyle, wordBreak: "break-all" }}>
+                {formatDelta(row.durationDeltaMs)}
+                {row.statusChanged && (
+                  <div
+                    style={{
+                      color:
+                        row.other?.success === false
+                          ? STATUS_COLORS.failed
+                          : STATUS_COLORS.passed,
+                    }}
+                  >
+                    {row.other
+                      ? row.other.success
+                        ? "now passes"
+                        : "now fails"
+                      : "not run"}
+                  </div>
+                )}
+                {row.selectorChanged && (
+                  <div style={{ color: "#737373", fontFamily: "monospace" }}>
+                    {row.other?.usedSelector}
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div style={{ padding: "16px 20px", fontSize: "13px", color: "#404040" }}>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          marginBottom: "12px",
+        }}
+      >
+        <History size={14} strokeWidth={2} />
+        <span style={{ flex: 1, fontWeight: 500, color: "#1a1a1a" }}>
+          Runs ({runs.length})
+        </span>
+        {runs.length > 0 && (
+          <button
+            onClick={onClear}
+            disabled={disabled}
+            style={{
+              ...smallButtonStyle,
+              gap: "4px",
+              fontSize: "12px",
+              color: "#737373",
+            }}
+          >
+            <Trash2 size={12} strokeWidth={2} />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {runs.length === 0 ? (
+        <div style={{ color: "#737373", fontSize: "12px" }}>
+          No runs yet. Run the flow to record its step timings and results.
+        </div>
+      ) : (
+        <>
+          <div
+            style={{ color: "#737373", fontSize: "12px", marginBottom: "8px" }}
+          >
+            Select two runs to compare them.
+          </div>
+          {compared.length === 2 && renderComparison(compared[0], compared[1])}
+
+          {runs.map((run) => {
+            const expanded = expandedId === run.id;
+            const passedSteps = run.steps.filter(
+              (record) => record.success
+            ).length;
+            return (
+              <div
+                key={run.id}
+                style={{
+                  borderBottom: "1px solid #f5f5f5",
+                  padding: "8px 0",
+                }}
+              >
+                <div
+                  style={{ display: "flex", alignItems: "center", gap: "8px" }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(run.id)}
+                    onChange={() => toggleSelected(run.id)}
+                    title="Select for comparison"
+                  />
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : run.id)}
+                    style={{
+                      flex: 1,
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "8px",
+                      padding: 0,
+                      background: "none",
+                      border: "none",
+                      cursor: "pointer",
+                      fontSize: "12px",
+                      color: "#404040",
+                      textAlign: "left",
+                    }}
+                  >
+                    {expanded ? (
+                      <ChevronDown size={12} strokeWidth={2} />
+                    ) : (
+                      <ChevronRight size={12} strokeWidth={2} />
+                    )}
+                    <StatusIcon status={run.status} />
+                    <span style={{ flex: 1 }}>
+                      {new Date(run.startedAt).toLocaleString()}
+                      {run.datasetRowIndex !== undefined &&
+                        ` · row ${run.datasetRowIndex + 1}`}
+                    </span>
+                    <span style={{ color: "#737373" }}>
+                      {passedSteps}/{run.totalSteps} ·{" "}
+                      {formatDuration(run.durationMs)}
+                    </span>
+                  </button>
+                  {run.traceRef && onOpenTrace && (
+                    <button
+                      onClick={() => onOpenTrace(run.traceRef!)}
+                      style={smallButtonStyle}
+                      title="Open trace"
+                    >
+                      <Film size={12} strokeWidth={2} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDelete(run.id)}
+                    disabled={disabled}
+                    style={smallButtonStyle}
+                    title="Delete run"
+                  >
+                    <Trash2 size={12} strokeWidth={2} />
+                  </button>
+                </div>
+
+                {expanded && (
+                  <div style={{ marginTop: "8px", paddingLeft: "24px" }}>
+                    {run.error && (
+                      <div
+                        style={{
+                          color: STATUS_COLORS.failed,
+                          fontSize: "12px",
+                          marginBottom: "6px",
+                        }}
+                      >
+                        {run.failedStepIndex !== undefined &&
+                          `Step ${run.failedStepIndex + 1}: `}
+                        {run.error}
+                      </div>
+                    )}
+                    {run.stepErrors?.map((stepError, i) => (
+                      <div
+                        key={i}
+                        style={{
+                          color: "#737373",
+                          fontSize: "12px",
+                          marginBottom: "6px",
+                        }}
+                      >
+                        {!stepError.onFailure &&
+                          `Step ${stepError.stepIndex + 1} (optional): `}
+                        {stepError.error}
+                      </div>
+                    ))}
+                    {renderSteps(run.steps)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { SlidersHorizontal, ChevronDown, ChevronRight } from "lucide-react";
+import type { RunSettings } from "@auto-wiz/core";
+
+interface RunOptionsPanelProps {
+  options: RunSettings;
+  stepCount: number;
+  disabled?: boolean;
+  onChange: (options: RunSettings) => void;
+}
+
+// 숫자 입력 필드 (비우면 옵션 제거)
+type NumericOption = Exclude<
+  keyof RunSettings,
+  "stopOnError" | "trace" | "autoHeal"
+>;
+
+const NUMERIC_FIELDS: Array<{
+  key: NumericOption;
+  label: string;
+  placeholder?: string; // 없으면 마지막 Step 번호
+  stepNumber?: boolean; // 화면에는 1부터 시작하는 Step 번호로 표시
+}> = [
+  { key: "timeout", label: "Timeout (ms)", placeholder: "5000" },
+  { key: "retries", label: "Retries", placeholder: "0" },
+  { key: "delayMs", label: "Delay between steps (ms)", placeholder: "0" },
+  { key: "slowMo", label: "Slow motion (ms)", placeholder: "0" },
+  {
+    key: "startAtStep",
+    label: "Start at step",
+    placeholder: "1",
+    stepNumber: true,
+  },
+  { key: "endAtStep", label: "End at step", stepNumber: true },
+];
+
+/**
+ * 실행 옵션(timeout, 재시도, 지연, 시작/끝 Step, stopOnError) 편집 컴포넌트
+ */
+export function RunOptionsPanel({
+  options,
+  stepCount,
+  disabled = false,
+  onChange,
+}: RunOptionsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const inputStyle = {
+    width: "100%",
+    padding: "6px 8px",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    fontSize: "12px",
+    color: "#1a1a1a",
+    boxSizing: "border-box",
+  } as const;
+
+  const setNumber = (field: (typeof NUMERIC_FIELDS)[number], input: string) => {
+    const next = { ...options };
+    const value = Number(input);
+    if (input.trim() === "" || !Number.isFinite(value) || value < 0) {
+      delete next[field.key];
+    } else {
+      next[field.key] = field.stepNumber
+        ? Math.max(0, Math.floor(value) - 1)
+        : Math.floor(value);
+    }
+    onChange(next);
+  };
+
+  const displayValue = (field: (typeof NUMERIC_FIELDS)[number]) => {
+    const value = options[field.key];
+    if (value === undefined) return "";
+    return String(field.stepNumber ? value + 1 : value);
+  };
+
+  const summary = [
+    options.timeout !== undefined && `timeout ${options.timeout}ms`,
+    options.retries && `${options.retries} retries`,
+    options.delayMs && `delay ${options.delayMs}ms`,
+    options.slowMo && `slow-mo ${options.slowMo}ms`,
+    (options.startAtStep !== undefined || options.endAtStep !== undefined) &&
+      `steps ${(options.startAtStep ?? 0) + 1}-${
+        (options.endAtStep ?? stepCount - 1) + 1
+      }`,
+    options.stopOnError === false && "continue on error",
+    options.trace && "trace",
+    options.autoHeal && "auto-heal",
+  ].filter(Boolean);
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderBottom: "1px solid #e5e5e5",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      <button
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          width: "100%",
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          padding: 0,
+          background: "none",
+          border: "none",
+          cursor: "pointer",
+          fontSize: "13px",
+          color: "#404040",
+          textAlign: "left",
+        }}
+      >
+        <SlidersHorizontal size={14} strokeWidth={2} />
+        <span style={{ flex: 1 }}>
+          <strong style={{ fontWeight: 500, color: "#1a1a1a" }}>
+            Run options
+          </strong>
+          {summary.length > 0 && (
+            <span style={{ color: "#737373" }}> · {summary.join(", ")}</span>
+          )}
+        </span>
+        {expanded ? (
+          <ChevronDown size={14} strokeWidth={2} />
+        ) : (
+          <ChevronRight size={14} strokeWidth={2} />
+        )}
+      </button>
+
+      {expanded && (
+        <div
+          style={{
+            marginTop: "12px",
+            display: "grid",
+            gridTemplateColumns: "1fr 1fr",
+            gap: "8px 12px",
+          }}
+        >
+          {NUMERIC_FIELDS.map((field) => (
+            <label
+              key={field.key}
+              style={{ display: "flex", flexDirection: "column", gap: "4px" }}
+            >
+              <span style={{ fontSize: "12px", color: "#737373" }}>
+                {field.label}
+              </span>
+              <input
+                type="number"
+                min={field.stepNumber ? 1 : 0}
+                max={field.stepNumber ? stepCount : undefined}
+                value={displayValue(field)}
+                placeholder={field.placeholder ?? String(stepCount)}
+                disabled={disabled}
+                onChange={(e) => setNumber(field, e.target.value)}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+          <label
+            style={{
+              gridColumn: "1 / -1",
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              fontSize: "12px",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={options.stopOnError !== false}
+              disabled={disabled}
+              onChange={(e) => {
+                const next = { ...options };
+                if (e.target.checked) {
+                  delete next.stopOnError;
+                } else {
+                  next.stopOnError = false;
+                }
+                onChange(next);
+              }}
+            />
+            Stop at the first failed step
+          </label>
+          <label
+            style={{
+              gridColumn: "1 / -1",
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              fontSize: "12px",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={options.trace === true}
+              disabled={disabled}
+              onChange={(e) => {
+                const next = { ...options };
+                if (e.target.checked) {
+                  next.trace = true;
+                } else {
+                  delete next.trace;
+                }
+                onChange(next);
+              }}
+            />
+            Record a trace (screenshots, console errors and network failures per
+            step)
+          </label>
+          <label
+            style={{
+              gridColumn: "1 / -1",
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              fontSize: "12px",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={options.autoHeal === true}
+              disabled={disabled}
+              onChange={(e) => {
+                const next = { ...options };
+                if (e.target.checked) {
+                  next.autoHeal = true;
+                } else {
+                  delete next.autoHeal;
+                }
+                onChange(next);
+              }}
+            />
+            Apply healed locators automatically (otherwise suggest them)
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
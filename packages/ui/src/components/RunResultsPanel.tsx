@@ -0,0 +1,120 @@
+import { Download, FileDown } from "lucide-react";
+
+interface RunResultsPanelProps {
+  data: Record<string, any>;
+  disabled?: boolean;
+  onExport: (format: "csv" | "json") => void;
+}
+
+/**
+ * 실행에서 수집된 extract 결과(출력 이름 기준) 표시 및 내보내기 컴포넌트
+ */
+export function RunResultsPanel({
+  data,
+  disabled = false,
+  onExport,
+}: RunResultsPanelProps) {
+  const entries = Object.entries(data);
+
+  const smallButtonStyle = {
+    padding: "6px 10px",
+    background: "#ffffff",
+    color: disabled ? "#a3a3a3" : "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: disabled ? "not-allowed" : "pointer",
+    fontSize: "12px",
+    fontWeight: 500,
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "6px",
+  } as const;
+
+  const formatValue = (value: any) => {
+    if (Array.isArray(value)) {
+      return `[${value.length} items] ${value.slice(0, 3).join(", ")}${
+        value.length > 3 ? ", ..." : ""
+      }`;
+    }
+    return typeof value === "string" ? value : JSON.stringify(value);
+  };
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderBottom: "1px solid #e5e5e5",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          marginBottom: entries.length > 0 ? "8px" : "0",
+        }}
+      >
+        <Download size={14} strokeWidth={2} />
+        <span style={{ flex: 1, fontWeight: 500, color: "#1a1a1a" }}>
+          Extracted results ({entries.length})
+        </span>
+        <button
+          onClick={() => onExport("csv")}
+          style={smallButtonStyle}
+          disabled={disabled || entries.length === 0}
+        >
+          <FileDown size={12} strokeWidth={2} />
+          CSV
+        </button>
+        <button
+          onClick={() => onExport("json")}
+          style={smallButtonStyle}
+          disabled={disabled || entries.length === 0}
+        >
+          <FileDown size={12} strokeWidth={2} />
+          JSON
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div style={{ maxHeight: "160px", overflowY: "auto" }}>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "12px",
+            }}
+          >
+            <tbody>
+              {entries.map(([name, value]) => (
+                <tr key={name} style={{ borderTop: "1px solid #f5f5f5" }}>
+                  <td
+                    style={{
+                      padding: "4px",
+                      fontWeight: 500,
+                      whiteSpace: "nowrap",
+                      verticalAlign: "top",
+                    }}
+                  >
+                    {name}
+                  </td>
+                  <td
+                    style={{
+                      padding: "4px",
+                      fontFamily: "'SF Mono', 'Monaco', 'Menlo', monospace",
+                      wordBreak: "break-all",
+                    }}
+                  >
+                    {formatValue(value)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
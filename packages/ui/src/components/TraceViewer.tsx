@@ -0,0 +1,443 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  CircleCheck,
+  CircleX,
+  CircleStop,
+  Loader,
+  TriangleAlert,
+  WifiOff,
+} from "lucide-react";
+import type {
+  FlowRunStatus,
+  FlowTrace,
+  TraceStep,
+  TraceTarget,
+} from "@auto-wiz/core";
+
+interface TraceViewerProps {
+  trace: FlowTrace;
+}
+
+const STATUS_COLORS: Record<FlowRunStatus, string> = {
+  running: "#404040",
+  passed: "#15803d",
+  failed: "#b91c1c",
+  stopped: "#737373",
+};
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "—";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function stepColor(traced: TraceStep): string {
+  if (traced.success === undefined) return "#d4d4d4";
+  return traced.success ? "#86efac" : "#fca5a5";
+}
+
+function StatusIcon({ status }: { status: FlowRunStatus }) {
+  const props = { size: 16, strokeWidth: 2, color: STATUS_COLORS[status] };
+  switch (status) {
+    case "running":
+      return <Loader {...props} />;
+    case "passed":
+      return <CircleCheck {...props} />;
+    case "failed":
+      return <CircleX {...props} />;
+    case "stopped":
+      return <CircleStop {...props} />;
+  }
+}
+
+/**
+ * 스크린샷과 대상 요소 영역 표시
+ * 스크린샷은 뷰포트 전체이므로 영역은 뷰포트 대비 비율로 배치 (기기 픽셀 비율과 무관)
+ */
+function TraceScreenshot({
+  label,
+  src,
+  target,
+}: {
+  label: string;
+  src?: string;
+  target?: TraceTarget;
+}) {
+  const box = target?.boundingBox;
+  const viewport = target?.viewport;
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div style={{ fontSize: "12px", color: "#737373", marginBottom: "6px" }}>
+        {label}
+      </div>
+      {src ? (
+        <div style={{ position: "relative", border: "1px solid #e5e5e5" }}>
+          <img
+            src={src}
+            alt={label}
+            style={{ display: "block", width: "100%" }}
+          />
+          {box && viewport && viewport.width > 0 && viewport.height > 0 && (
+            <div
+              style={{
+                position: "absolute",
+                left: `${(box.x / viewport.width) * 100}%`,
+                top: `${(box.y / viewport.height) * 100}%`,
+                width: `${(box.width / viewport.width) * 100}%`,
+                height: `${(box.height / viewport.height) * 100}%`,
+                border: "2px solid #ef4444",
+                background: "rgba(239, 68, 68, 0.15)",
+                boxSizing: "border-box",
+                pointerEvents: "none",
+              }}
+            />
+          )}
+        </div>
+      ) : (
+        <div
+          style={{
+            padding: "40px 12px",
+            textAlign: "center",
+            color: "#a3a3a3",
+            fontSize: "12px",
+            border: "1px dashed #e5e5e5",
+          }}
+        >
+          No screenshot
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 실행 trace를 Step 단위로 넘겨 보는 컴포넌트
+ * 타임라인/슬라이더/방향키로 Step을 선택하고, 전/후 스크린샷과 대상 요소 영역,
+ * 요소를 찾은 locator 단계, 콘솔 오류와 네트워크 실패를 표시
+ */
+export function TraceViewer({ trace }: TraceViewerProps) {
+  const [selected, setSelected] = useState(0);
+  const steps = trace.steps;
+  const current = steps[Math.min(selected, steps.length - 1)];
+
+  const select = (index: number) =>
+    setSelected(Math.max(0, Math.min(index, steps.length - 1)));
+
+  useEffect(() => {
+    setSelected(0);
+  }, [trace.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement && e.target.type !== "range") {
+        return;
+      }
+      if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        setSelected((index) => Math.max(0, index - 1));
+      } else if (e.key === "ArrowRight") {
+        e.preventDefault();
+        setSelected((index) => Math.min(steps.length - 1, index + 1));
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [steps.length]);
+
+  const navButtonStyle = {
+    padding: "6px",
+    background: "#f5f5f5",
+    color: "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+  } as const;
+
+  const detailRow = (label: string, value?: string | number) =>
+    value !== undefined &&
+    value !== "" && (
+      <tr>
+        <td
+          style={{
+            padding: "4px 12px 4px 0",
+            color: "#737373",
+            verticalAlign: "top",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {label}
+        </td>
+        <td style={{ padding: "4px 0", wordBreak: "break-all" }}>{value}</td>
+      </tr>
+    );
+
+  return (
+    <div style={{ fontSize: "13px", color: "#404040" }}>
+      {/* Header */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          marginBottom: "16px",
+        }}
+      >
+        <StatusIcon status={trace.status} />
+        <strong style={{ fontSize: "16px", fontWeight: 600, color: "#1a1a1a" }}>
+          {trace.flowTitle}
+        </strong>
+        <span style={{ color: "#737373" }}>
+          {new Date(trace.startedAt).toLocaleString()} ·{" "}
+          {formatDuration(trace.durationMs)} · {steps.length} step
+          {steps.length === 1 ? "" : "s"}
+        </span>
+      </div>
+      {trace.error && (
+        <div style={{ color: STATUS_COLORS.failed, marginBottom: "12px" }}>
+          {trace.error}
+        </div>
+      )}
+
+      {steps.length === 0 ? (
+        <div style={{ color: "#737373" }}>This trace has no steps.</div>
+      ) : (
+        <>
+          {/* Timeline (Step 소요 시간 비율) */}
+          <div
+            style={{
+              display: "flex",
+              gap: "2px",
+              height: "24px",
+              marginBottom: "8px",
+            }}
+          >
+            {steps.map((traced, i) => (
+              <button
+                key={i}
+                onClick={() => select(i)}
+                title={`Step ${traced.stepIndex + 1}: ${
+                  traced.step.type
+                } (${formatDuration(traced.durationMs)})`}
+                style={{
+                  flex: `${Math.max(traced.durationMs ?? 0, 1)} 1 0`,
+                  minWidth: "6px",
+                  padding: 0,
+                  background: stepColor(traced),
+                  border:
+                    i === selected ? "2px solid #1a1a1a" : "1px solid #ffffff",
+                  borderRadius: "3px",
+                  cursor: "pointer",
+                }}
+              />
+            ))}
+          </div>
+
+          {/* Scrubber */}
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              marginBottom: "16px",
+            }}
+          >
+            <button
+              onClick={() => select(selected - 1)}
+              disabled={selected === 0}
+              style={navButtonStyle}
+              title="Previous step"
+            >
+              <ChevronLeft size={14} strokeWidth={2} />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={steps.length - 1}
+              value={selected}
+              onChange={(e) => select(Number(e.target.value))}
+              style={{ flex: 1 }}
+            />
+            <button
+              onClick={() => select(selected + 1)}
+              disabled={selected === steps.length - 1}
+              style={navButtonStyle}
+              title="Next step"
+            >
+              <ChevronRight size={14} strokeWidth={2} />
+            </button>
+            <span style={{ minWidth: "64px", textAlign: "right" }}>
+              {selected + 1} / {steps.length}
+            </span>
+          </div>
+
+          <div style={{ display: "flex", gap: "16px", alignItems: "start" }}>
+            {/* Step 목록 */}
+            <div
+              style={{
+                width: "220px",
+                flexShrink: 0,
+                border: "1px solid #e5e5e5",
+                borderRadius: "6px",
+                overflow: "hidden",
+              }}
+            >
+              {steps.map((traced, i) => {
+                const issues =
+                  traced.consoleErrors.length + traced.networkFailures.length;
+                return (
+                  <button
+                    key={i}
+                    onClick={() => select(i)}
+                    style={{
+                      width: "100%",
+                      display: "flex",
+                      alignItems: "center",
+                      gap: "8px",
+                      padding: "8px 10px",
+                      background: i === selected ? "#f5f5f5" : "#ffffff",
+                      border: "none",
+                      borderBottom: "1px solid #f5f5f5",
+                      borderLeft: `3px solid ${stepColor(traced)}`,
+                      cursor: "pointer",
+                      fontSize: "12px",
+                      color: "#404040",
+                      textAlign: "left",
+                    }}
+                  >
+                    <span style={{ flex: 1 }}>
+                      {traced.stepIndex + 1}. {traced.step.type}
+                    </span>
+                    {issues > 0 && (
+                      <TriangleAlert
+                        size={12}
+                        strokeWidth={2}
+                        color="#d97706"
+                      />
+                    )}
+                    <span style={{ color: "#737373" }}>
+                      {formatDuration(traced.durationMs)}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* 선택한 Step */}
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div
+                style={{ display: "flex", gap: "12px", marginBottom: "16px" }}
+              >
+                <TraceScreenshot
+                  label="Before"
+                  src={current.beforeScreenshot}
+                  target={current.target}
+                />
+                <TraceScreenshot label="After" src={current.afterScreenshot} />
+              </div>
+
+              <table
+                style={{
+                  borderCollapse: "collapse",
+                  fontSize: "12px",
+                  marginBottom: "16px",
+                }}
+              >
+                <tbody>
+                  {detailRow(
+                    "Status",
+                    current.success === undefined
+                      ? "Not finished"
+                      : current.success
+                      ? "Passed"
+                      : "Failed"
+                  )}
+                  {detailRow("Error", current.error)}
+                  {detailRow("Duration", formatDuration(current.durationMs))}
+                  {detailRow("Attempts", current.attempts)}
+                  {detailRow("URL", current.url)}
+                  {detailRow(
+                    "Locator",
+                    current.target &&
+                      `${current.target.locatorTier}${
+                        current.target.selector
+                          ? ` · ${current.target.selector}`
+                          : ""
+                      }`
+                  )}
+                  {detailRow("Used selector", current.usedSelector)}
+                </tbody>
+              </table>
+
+              <div style={{ marginBottom: "12px" }}>
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    fontWeight: 500,
+                    color: "#1a1a1a",
+                    marginBottom: "6px",
+                  }}
+                >
+                  <TriangleAlert size={14} strokeWidth={2} />
+                  Console errors ({current.consoleErrors.length})
+                </div>
+                {current.consoleErrors.map((entry, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      padding: "4px 0",
+                      fontFamily: "monospace",
+                      fontSize: "12px",
+                      color: STATUS_COLORS.failed,
+                      wordBreak: "break-all",
+                    }}
+                  >
+                    [{entry.source}] {entry.message}
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "6px",
+                    fontWeight: 500,
+                    color: "#1a1a1a",
+                    marginBottom: "6px",
+                  }}
+                >
+                  <WifiOff size={14} strokeWidth={2} />
+                  Network failures ({current.networkFailures.length})
+                </div>
+                {current.networkFailures.map((failure, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      padding: "4px 0",
+                      fontFamily: "monospace",
+                      fontSize: "12px",
+                      wordBreak: "break-all",
+                    }}
+                  >
+                    <span style={{ color: STATUS_COLORS.failed }}>
+                      {failure.status ?? failure.error}
+                    </span>{" "}
+                    {failure.method ? `${failure.method} ` : ""}
+                    {failure.url}{" "}
+                    <span style={{ color: "#737373" }}>({failure.kind})</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState, type FormEvent } from "react";
+import { Play, X } from "lucide-react";
+import type { FlowVariable } from "@auto-wiz/core";
+
+interface VariablesFormProps {
+  variables: FlowVariable[];
+  onSubmit: (values: Record<string, string>, saveAsDefaults: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 실행 전에 Flow 변수 값({{name}})을 입력받는 폼
+ */
+export function VariablesForm({
+  variables,
+  onSubmit,
+  onCancel,
+}: VariablesFormProps) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      variables.map((variable) => [variable.name, variable.defaultValue ?? ""])
+    )
+  );
+  const [saveAsDefaults, setSaveAsDefaults] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit(values, saveAsDefaults);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        padding: "16px 20px",
+        background: "#fafafa",
+        borderBottom: "1px solid #e5e5e5",
+      }}
+    >
+      <div
+        style={{
+          fontSize: "13px",
+          fontWeight: 600,
+          color: "#1a1a1a",
+          marginBottom: "12px",
+        }}
+      >
+        Flow Variables
+      </div>
+
+      {variables.map((variable) => (
+        <label
+          key={variable.name}
+          style={{ display: "block", marginBottom: "10px" }}
+        >
+          <span
+            style={{
+              display: "block",
+              fontSize: "12px",
+              fontWeight: 500,
+              color: "#404040",
+              marginBottom: "4px",
+              fontFamily: "'SF Mono', 'Monaco', 'Menlo', monospace",
+            }}
+          >
+            {`{{${variable.name}}}`}
+          </span>
+          <input
+            value={values[variable.name] ?? ""}
+            onChange={(e) =>
+              setValues((prev) => ({
+                ...prev,
+                [variable.name]: e.target.value,
+              }))
+            }
+            placeholder={variable.description}
+            style={{
+              width: "100%",
+              boxSizing: "border-box",
+              padding: "8px 10px",
+              border: "1px solid #e5e5e5",
+              borderRadius: "6px",
+              fontSize: "13px",
+              background: "#ffffff",
+            }}
+          />
+        </label>
+      ))}
+
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          fontSize: "12px",
+          color: "#737373",
+          margin: "4px 0 12px",
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={saveAsDefaults}
+          onChange={(e) => setSaveAsDefaults(e.target.checked)}
+        />
+        Save as default values
+      </label>
+
+      <div style={{ display: "flex", gap: "10px" }}>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{
+            flex: 1,
+            padding: "10px",
+            background: "#ffffff",
+            color: "#404040",
+            border: "1px solid #e5e5e5",
+            borderRadius: "8px",
+            cursor: "pointer",
+            fontSize: "13px",
+            fontWeight: 500,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "8px",
+          }}
+        >
+          <X size={16} strokeWidth={2} />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          style={{
+            flex: 2,
+            padding: "10px",
+            background: "#16a34a",
+            color: "#ffffff",
+            border: "1px solid #16a34a",
+            borderRadius: "8px",
+            cursor: "pointer",
+            fontSize: "13px",
+            fontWeight: 600,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            gap: "8px",
+          }}
+        >
+          <Play size={16} strokeWidth={2} fill="currentColor" />
+          Run with Values
+        </button>
+      </div>
+    </form>
+  );
+}
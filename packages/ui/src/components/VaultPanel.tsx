@@ -0,0 +1,110 @@
+import { useState, type FormEvent } from "react";
+import { Lock, Unlock, KeyRound } from "lucide-react";
+
+interface VaultPanelProps {
+  initialized: boolean;
+  unlocked: boolean;
+  pendingSecrets: number;
+  error?: string;
+  onUnlock: (passphrase: string) => void;
+  onLock: () => void;
+}
+
+/**
+ * 시크릿 Vault 잠금 상태 표시 및 passphrase 입력 컴포넌트
+ */
+export function VaultPanel({
+  initialized,
+  unlocked,
+  pendingSecrets,
+  error,
+  onUnlock,
+  onLock,
+}: VaultPanelProps) {
+  const [passphrase, setPassphrase] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    onUnlock(passphrase);
+    setPassphrase("");
+  };
+
+  const smallButtonStyle = {
+    padding: "6px 10px",
+    background: "#ffffff",
+    color: "#404040",
+    border: "1px solid #e5e5e5",
+    borderRadius: "6px",
+    cursor: "pointer",
+    fontSize: "12px",
+    fontWeight: 500,
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "6px",
+    whiteSpace: "nowrap",
+  } as const;
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderBottom: "1px solid #e5e5e5",
+        fontSize: "13px",
+        color: "#404040",
+      }}
+    >
+      {unlocked ? (
+        <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <Unlock size={14} strokeWidth={2} />
+          <span style={{ flex: 1 }}>Secret vault unlocked</span>
+          <button onClick={onLock} style={smallButtonStyle}>
+            <Lock size={12} strokeWidth={2} />
+            Lock
+          </button>
+        </div>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          style={{ display: "flex", alignItems: "center", gap: "8px" }}
+        >
+          <KeyRound size={14} strokeWidth={2} />
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={
+              initialized ? "Vault passphrase" : "Choose a vault passphrase"
+            }
+            style={{
+              flex: 1,
+              minWidth: 0,
+              padding: "6px 8px",
+              border: "1px solid #e5e5e5",
+              borderRadius: "6px",
+              fontSize: "12px",
+            }}
+          />
+          <button type="submit" style={smallButtonStyle}>
+            <Unlock size={12} strokeWidth={2} />
+            {initialized ? "Unlock" : "Create"}
+          </button>
+        </form>
+      )}
+
+      {!unlocked && pendingSecrets > 0 && (
+        <div style={{ marginTop: "8px", fontSize: "12px", color: "#b45309" }}>
+          {pendingSecrets} recorded secret{pendingSecrets > 1 ? "s are" : " is"}{" "}
+          kept in memory only. Unlock the vault to save{" "}
+          {pendingSecrets > 1 ? "them" : "it"}.
+        </div>
+      )}
+
+      {error && (
+        <div style={{ marginTop: "8px", fontSize: "12px", color: "#dc2626" }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,14 @@
 export * from "./components/FlowStepItem";
 export * from "./components/FlowControls";
+export * from "./components/FlowLibrary";
+export * from "./components/VariablesForm";
+export * from "./components/DatasetPanel";
+export * from "./components/RunResultsPanel";
+export * from "./components/VaultPanel";
+export * from "./components/RunOptionsPanel";
+export * from "./components/OnFailurePanel";
+export * from "./components/RunHistoryPanel";
+export * from "./components/FailureArtifactsView";
+export * from "./components/TraceViewer";
+export * from "./components/DebuggerBar";
+export * from "./components/LocatorHealingPanel";